@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+/**
+ * Archive the current bundled data as a snapshot for diff_data_versions.
+ * Run before bumping DATA_VERSION so the outgoing release stays comparable.
+ *
+ * Writes src/data/history/<DATA_VERSION>.json with the scores and
+ * compatibility matrix of the release (ecosystem metadata is not kept).
+ *
+ * Usage:
+ *   npm run archive-data
+ *   npx tsx scripts/archive-data-snapshot.ts [repoRoot]
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'node:fs';
+import { resolve, dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = resolve(process.argv[2] ?? resolve(__dirname, '..'));
+const outDir = resolve(__dirname, '..', 'src/data/history');
+
+function main(): void {
+	const indexSource = readFileSync(join(root, 'src/data/index.ts'), 'utf-8');
+	const match = /export const DATA_VERSION = "([^"]+)"/.exec(indexSource);
+	if (!match) {
+		console.error('Could not find DATA_VERSION in src/data/index.ts');
+		process.exit(1);
+	}
+	const dataVersion = match[1];
+
+	const scores = JSON.parse(readFileSync(join(root, 'src/data/technology_scores.json'), 'utf-8'));
+	const compatibility = JSON.parse(readFileSync(join(root, 'src/data/compatibility_matrix.json'), 'utf-8'));
+
+	const technologies: Record<string, unknown> = {};
+	for (const [id, tech] of Object.entries<{ name: string; category: string; scores: unknown }>(
+		scores.technologies
+	)) {
+		technologies[id] = { id, name: tech.name, category: tech.category, scores: tech.scores };
+	}
+
+	const snapshot = {
+		$dataVersion: dataVersion,
+		$scoresVersion: scores.$version,
+		$compatibilityVersion: compatibility.$version,
+		technologies,
+		matrix: compatibility.matrix
+	};
+
+	const outPath = join(outDir, `${dataVersion}.json`);
+	if (existsSync(outPath)) {
+		console.error(`Snapshot already exists: ${outPath}`);
+		process.exit(1);
+	}
+
+	mkdirSync(outDir, { recursive: true });
+	writeFileSync(outPath, JSON.stringify(snapshot, null, 2) + '\n');
+
+	console.log(`Archived data version ${dataVersion} to ${outPath}`);
+	console.log(`Register it in src/data/history.ts before releasing.`);
+}
+
+main();
@@ -84,6 +84,69 @@ export const getWorkflowGuideAnnotations: ToolAnnotations = {
 	openWorldHint: false
 };
 
+/** Diff data versions - local comparison of bundled snapshots, read-only */
+export const diffDataVersionsAnnotations: ToolAnnotations = {
+	title: 'Diff Data Versions',
+	readOnlyHint: true,
+	destructiveHint: false,
+	idempotentHint: true,
+	openWorldHint: false
+};
+
+/** Check stack compatibility - local pairwise scoring, read-only */
+export const checkStackCompatibilityAnnotations: ToolAnnotations = {
+	title: 'Check Stack Compatibility',
+	readOnlyHint: true,
+	destructiveHint: false,
+	idempotentHint: true,
+	openWorldHint: false
+};
+
+/** Plan migration - local score and compatibility deltas, read-only */
+export const planMigrationAnnotations: ToolAnnotations = {
+	title: 'Plan Migration',
+	readOnlyHint: true,
+	destructiveHint: false,
+	idempotentHint: true,
+	openWorldHint: false
+};
+
+/** Find alternatives - local same-category ranking, read-only */
+export const findAlternativesAnnotations: ToolAnnotations = {
+	title: 'Find Alternatives',
+	readOnlyHint: true,
+	destructiveHint: false,
+	idempotentHint: true,
+	openWorldHint: false
+};
+
+/** Recommend stack locally - offline priorities/constraints engine, read-only */
+export const recommendStackLocalAnnotations: ToolAnnotations = {
+	title: 'Recommend Stack (Local)',
+	readOnlyHint: true,
+	destructiveHint: false,
+	idempotentHint: true,
+	openWorldHint: false
+};
+
+/** Rank category - local scoring, dominance and clustering, read-only */
+export const rankCategoryAnnotations: ToolAnnotations = {
+	title: 'Rank Category',
+	readOnlyHint: true,
+	destructiveHint: false,
+	idempotentHint: true,
+	openWorldHint: false
+};
+
+/** Get taxonomy - static project types, scales and priorities, read-only */
+export const getTaxonomyAnnotations: ToolAnnotations = {
+	title: 'Get Taxonomy',
+	readOnlyHint: true,
+	destructiveHint: false,
+	idempotentHint: true,
+	openWorldHint: false
+};
+
 // ============================================================================
 // LOCAL TOOLS WITH FILE SYSTEM ACCESS
 // ============================================================================
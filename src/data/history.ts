@@ -0,0 +1,229 @@
+/**
+ * Archived data snapshots and score diffs between DATA_VERSION releases.
+ *
+ * Each prior release is kept under ./history/<DATA_VERSION>.json
+ * (created by scripts/archive-data-snapshot.ts) and registered below.
+ * Only bundled data is compared; the local data overlay is ignored.
+ */
+
+import snapshot20260129 from "./history/2026.01.29.json" with { type: "json" };
+import techScoresData from "./technology_scores.json" with { type: "json" };
+import compatibilityData from "./compatibility_matrix.json" with { type: "json" };
+import {
+  DATA_VERSION,
+  SCORE_DIMENSIONS,
+  calculateOverallScore,
+  type BuiltInContext,
+  type Category,
+  type ScoreDimension,
+  type Scores,
+} from "./index.js";
+
+/**
+ * Scores and compatibility of one data release.
+ */
+export interface DataSnapshot {
+  dataVersion: string;
+  technologies: Record<
+    string,
+    {
+      id: string;
+      name: string;
+      category: Category;
+      scores: Record<BuiltInContext, Scores>;
+    }
+  >;
+  matrix: Record<string, Record<string, number>>;
+}
+
+interface ArchivedSnapshotFile {
+  $dataVersion: string;
+  technologies: DataSnapshot["technologies"];
+  matrix: DataSnapshot["matrix"];
+}
+
+/**
+ * Archived releases, keyed by DATA_VERSION.
+ */
+const ARCHIVED_SNAPSHOTS: Record<string, ArchivedSnapshotFile> = {
+  "2026.01.29": snapshot20260129 as ArchivedSnapshotFile,
+};
+
+/**
+ * Get archived data versions, oldest first (excludes the current version).
+ */
+export function getArchivedDataVersions(): string[] {
+  return Object.keys(ARCHIVED_SNAPSHOTS).sort();
+}
+
+/**
+ * Get all data versions that can be diffed, oldest first.
+ */
+export function getKnownDataVersions(): string[] {
+  return [...getArchivedDataVersions(), DATA_VERSION];
+}
+
+/**
+ * Get the snapshot for a data version (the current version uses the bundled files).
+ */
+export function getDataSnapshot(version: string): DataSnapshot | null {
+  if (version === DATA_VERSION) {
+    return {
+      dataVersion: DATA_VERSION,
+      technologies: (techScoresData as { technologies: DataSnapshot["technologies"] })
+        .technologies,
+      matrix: compatibilityData.matrix as DataSnapshot["matrix"],
+    };
+  }
+
+  const archived = ARCHIVED_SNAPSHOTS[version];
+  if (!archived) return null;
+
+  return {
+    dataVersion: archived.$dataVersion,
+    technologies: archived.technologies,
+    matrix: archived.matrix,
+  };
+}
+
+/**
+ * Overall score change of a technology present in both versions.
+ */
+export interface TechScoreChange {
+  id: string;
+  name: string;
+  category: Category;
+  before: number;
+  after: number;
+  delta: number;
+  dimensions: Array<{ dimension: ScoreDimension; before: number; after: number }>;
+}
+
+/**
+ * Compatibility pair whose defined score changed.
+ * null means the pair was not defined (neutral 50 at lookup time).
+ */
+export interface CompatibilityChange {
+  techA: string;
+  techB: string;
+  before: number | null;
+  after: number | null;
+}
+
+/**
+ * Differences between two data versions for one context.
+ */
+export interface DataDiff {
+  from: string;
+  to: string;
+  context: BuiltInContext;
+  added: Array<{ id: string; name: string; category: Category }>;
+  removed: Array<{ id: string; name: string; category: Category }>;
+  changed: TechScoreChange[];
+  compatibility: CompatibilityChange[];
+}
+
+/**
+ * Look up a defined pair score in a matrix, preferring A→B like getCompatibility.
+ */
+function lookupPair(
+  matrix: DataSnapshot["matrix"],
+  techA: string,
+  techB: string,
+): number | null {
+  return matrix[techA]?.[techB] ?? matrix[techB]?.[techA] ?? null;
+}
+
+/**
+ * Collect every unordered pair defined in a matrix.
+ */
+function collectPairs(
+  matrix: DataSnapshot["matrix"],
+  into: Map<string, [string, string]>,
+): void {
+  for (const [techA, row] of Object.entries(matrix)) {
+    for (const techB of Object.keys(row)) {
+      if (techA === techB) continue;
+      const pair = [techA, techB].sort() as [string, string];
+      into.set(pair.join("::"), pair);
+    }
+  }
+}
+
+/**
+ * Diff two snapshots: added/removed technologies, overall score changes
+ * (sorted by magnitude) and changed compatibility pairs.
+ */
+export function diffSnapshots(
+  from: DataSnapshot,
+  to: DataSnapshot,
+  context: BuiltInContext = "default",
+): DataDiff {
+  const summarize = (tech: DataSnapshot["technologies"][string]) => ({
+    id: tech.id,
+    name: tech.name,
+    category: tech.category,
+  });
+
+  const added = Object.values(to.technologies)
+    .filter((tech) => !from.technologies[tech.id])
+    .map(summarize);
+  const removed = Object.values(from.technologies)
+    .filter((tech) => !to.technologies[tech.id])
+    .map(summarize);
+
+  const changed: TechScoreChange[] = [];
+  for (const tech of Object.values(to.technologies)) {
+    const previous = from.technologies[tech.id];
+    if (!previous) continue;
+
+    const beforeScores = previous.scores[context];
+    const afterScores = tech.scores[context];
+    const dimensions = SCORE_DIMENSIONS.filter(
+      (dim) => beforeScores[dim] !== afterScores[dim],
+    ).map((dim) => ({
+      dimension: dim,
+      before: beforeScores[dim],
+      after: afterScores[dim],
+    }));
+    if (dimensions.length === 0) continue;
+
+    const before = calculateOverallScore(beforeScores);
+    const after = calculateOverallScore(afterScores);
+    changed.push({
+      ...summarize(tech),
+      before,
+      after,
+      delta: after - before,
+      dimensions,
+    });
+  }
+  changed.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  const pairs = new Map<string, [string, string]>();
+  collectPairs(from.matrix, pairs);
+  collectPairs(to.matrix, pairs);
+
+  const compatibility: CompatibilityChange[] = [];
+  for (const [techA, techB] of pairs.values()) {
+    const before = lookupPair(from.matrix, techA, techB);
+    const after = lookupPair(to.matrix, techA, techB);
+    if (before !== after) {
+      compatibility.push({ techA, techB, before, after });
+    }
+  }
+  compatibility.sort(
+    (a, b) =>
+      a.techA.localeCompare(b.techA) || a.techB.localeCompare(b.techB),
+  );
+
+  return {
+    from: from.dataVersion,
+    to: to.dataVersion,
+    context,
+    added,
+    removed,
+    changed,
+    compatibility,
+  };
+}
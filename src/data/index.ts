@@ -1,3 +1,4 @@
+import { z } from "zod";
 import { findSimilar } from "../utils/errors.js";
 
 // Import JSON directly - esbuild bundles these inline for Smithery
@@ -7,7 +8,7 @@ import compatibilityData from "./compatibility_matrix.json" with { type: "json"
 /**
  * Data version - update when syncing from source.
  */
-export const DATA_VERSION = "2026.01.29";
+export const DATA_VERSION = "2026.10.19";
 
 /**
  * Score dimensions.
@@ -47,14 +48,26 @@ export const CATEGORIES = [
   "hosting",
   "payments",
   "cms",
+  "queue",
+  "cache",
+  "observability",
+  "email",
+  "storage",
+  "ai",
 ] as const;
 export type Category = (typeof CATEGORIES)[number];
 
 /**
- * Score contexts.
+ * Built-in score contexts (present for every technology in the data files).
  */
 export const CONTEXTS = ["default", "mvp", "enterprise"] as const;
-export type Context = (typeof CONTEXTS)[number];
+export type BuiltInContext = (typeof CONTEXTS)[number];
+
+/**
+ * Score context: a built-in context or a custom context ID
+ * registered from the data overlay (see overlay.ts).
+ */
+export type Context = BuiltInContext | (string & {});
 
 /**
  * Score set for a technology.
@@ -76,7 +89,43 @@ export interface TechInfo {
   name: string;
   category: Category;
   url: string;
-  scores: Record<Context, Scores>;
+  scores: Record<BuiltInContext, Scores>;
+  /** Optional per-major-version scores, merged over the base context scores */
+  versions?: Record<string, VersionScores>;
+  /** Optional rationale and sources behind the scores */
+  provenance?: ScoreProvenance;
+}
+
+/**
+ * Why a dimension scored the way it did.
+ */
+export interface DimensionProvenance {
+  rationale?: string;
+  sources?: string[];
+}
+
+/**
+ * Score provenance for a technology.
+ */
+export interface ScoreProvenance {
+  /** ISO date (YYYY-MM-DD) of the last score review */
+  lastReviewed?: string;
+  dimensions?: Partial<Record<ScoreDimension, DimensionProvenance>>;
+}
+
+/**
+ * Score changes for one major version. Contexts without a record
+ * fall back to the version's "default" record.
+ */
+export type VersionScores = Partial<Record<BuiltInContext, Partial<Scores>>>;
+
+/**
+ * Custom context defined as per-dimension deltas over "default".
+ */
+export interface CustomContext {
+  id: string;
+  description?: string;
+  deltas: Partial<Scores>;
 }
 
 /**
@@ -101,25 +150,237 @@ interface CompatibilityFile {
 const scores = techScoresData as TechScoresFile;
 const compat = compatibilityData as CompatibilityFile;
 
+/**
+ * Custom contexts registered from the data overlay.
+ */
+const customContexts = new Map<string, CustomContext>();
+
+/**
+ * Register custom contexts (replaces any previously registered ones).
+ */
+export function registerCustomContexts(contexts: CustomContext[]): void {
+  customContexts.clear();
+  for (const context of contexts) {
+    customContexts.set(context.id, context);
+  }
+}
+
+/**
+ * Get a custom context by ID.
+ */
+export function getCustomContext(id: string): CustomContext | null {
+  return customContexts.get(id) || null;
+}
+
+/**
+ * Get all context IDs (built-in first, then custom).
+ */
+export function getAllContexts(): string[] {
+  return [...CONTEXTS, ...customContexts.keys()];
+}
+
+/**
+ * Check if a context ID is built-in or registered.
+ */
+export function isKnownContext(id: string): boolean {
+  return (CONTEXTS as readonly string[]).includes(id) || customContexts.has(id);
+}
+
+/**
+ * Input schema for a score context.
+ * Validated at parse time so custom contexts loaded at startup are accepted.
+ */
+export const ContextSchema = z
+  .string()
+  .min(1)
+  .refine(isKnownContext, (value) => ({
+    message: `Unknown context "${value}". Available: ${getAllContexts().join(", ")}`,
+  }));
+
+/**
+ * Apply context deltas to a score set, clamping each dimension to 0-100.
+ */
+export function applyContextDeltas(
+  base: Scores,
+  deltas: Partial<Scores>,
+): Scores {
+  const result = { ...base };
+  for (const dim of SCORE_DIMENSIONS) {
+    const delta = deltas[dim] ?? 0;
+    result[dim] = Math.max(0, Math.min(100, base[dim] + delta));
+  }
+  return result;
+}
+
+/**
+ * Technology overlay: in-house technologies, score overrides
+ * and extra compatibility pairs merged over the bundled data.
+ */
+export interface TechnologyOverlay {
+  technologies: TechInfo[];
+  scoreOverrides: Record<
+    string,
+    Partial<Record<BuiltInContext, Partial<Scores>>>
+  >;
+  compatibility: Array<{ techA: string; techB: string; score: number }>;
+}
+
+/**
+ * Marker appended to values that come from the overlay.
+ */
+export const OVERLAY_MARKER = "†";
+
+/**
+ * Footnote explaining the overlay marker.
+ */
+export const OVERLAY_FOOTNOTE = `${OVERLAY_MARKER} Internal overlay value, not StacksFinder data`;
+
+/**
+ * Append the overlay marker to a value when it comes from the overlay.
+ */
+export function markOverlay(text: string | number, fromOverlay: boolean): string {
+  return fromOverlay ? `${text}${OVERLAY_MARKER}` : String(text);
+}
+
+// Merged view of bundled + overlay technologies
+let technologies: Record<string, TechInfo> = scores.technologies;
+const internalTechIds = new Set<string>();
+const overriddenDimensions = new Map<
+  string,
+  Partial<Record<BuiltInContext, ScoreDimension[]>>
+>();
+const overlayCompatibility = new Map<string, number>();
+
+/**
+ * Order-independent key for a technology pair.
+ */
+function techPairKey(techA: string, techB: string): string {
+  return [techA, techB].sort().join("::");
+}
+
+/**
+ * Register a technology overlay (replaces any previously registered one).
+ * Overrides targeting unknown technologies are ignored; callers validate first.
+ */
+export function registerTechnologyOverlay(overlay: TechnologyOverlay): void {
+  const merged: Record<string, TechInfo> = { ...scores.technologies };
+  internalTechIds.clear();
+  overriddenDimensions.clear();
+  overlayCompatibility.clear();
+
+  for (const tech of overlay.technologies) {
+    merged[tech.id] = tech;
+    internalTechIds.add(tech.id);
+  }
+
+  for (const [techId, contexts] of Object.entries(overlay.scoreOverrides)) {
+    const base = merged[techId];
+    if (!base) continue;
+
+    const mergedScores = { ...base.scores };
+    const dims: Partial<Record<BuiltInContext, ScoreDimension[]>> = {};
+    for (const context of CONTEXTS) {
+      const override = contexts[context];
+      if (!override) continue;
+      mergedScores[context] = { ...base.scores[context], ...override };
+      dims[context] = SCORE_DIMENSIONS.filter((dim) => dim in override);
+    }
+
+    merged[techId] = { ...base, scores: mergedScores };
+    overriddenDimensions.set(techId, dims);
+  }
+
+  for (const { techA, techB, score } of overlay.compatibility) {
+    overlayCompatibility.set(techPairKey(techA, techB), score);
+  }
+
+  technologies = merged;
+}
+
+/**
+ * Remove the technology overlay, restoring bundled data only.
+ */
+export function clearTechnologyOverlay(): void {
+  registerTechnologyOverlay({
+    technologies: [],
+    scoreOverrides: {},
+    compatibility: [],
+  });
+}
+
+/**
+ * Check if a technology ID exists in the bundled data files.
+ */
+export function isBundledTechnology(id: string): boolean {
+  return id in scores.technologies;
+}
+
+/**
+ * Overlay status of a technology:
+ * - "internal": added by the overlay
+ * - "overridden": bundled technology with overlay score overrides
+ */
+export function getOverlayStatus(
+  techId: string,
+): "internal" | "overridden" | null {
+  if (internalTechIds.has(techId)) return "internal";
+  if (overriddenDimensions.has(techId)) return "overridden";
+  return null;
+}
+
+/**
+ * Get dimensions whose score comes from the overlay for a context.
+ * Custom contexts derive from "default", so they inherit its overrides.
+ */
+export function getOverriddenDimensions(
+  techId: string,
+  context: Context = "default",
+): ScoreDimension[] {
+  if (internalTechIds.has(techId)) return [...SCORE_DIMENSIONS];
+  const dims = overriddenDimensions.get(techId);
+  if (!dims) return [];
+  const key = (CONTEXTS as readonly string[]).includes(context)
+    ? (context as BuiltInContext)
+    : "default";
+  return dims[key] ?? [];
+}
+
+/**
+ * Check if a technology's scores in a context include overlay values.
+ */
+export function hasOverlayScores(
+  techId: string,
+  context: Context = "default",
+): boolean {
+  return getOverriddenDimensions(techId, context).length > 0;
+}
+
+/**
+ * Check if a compatibility score comes from the overlay.
+ */
+export function isOverlayCompatibility(techA: string, techB: string): boolean {
+  return overlayCompatibility.has(techPairKey(techA, techB));
+}
+
 /**
  * Get all technology IDs.
  */
 export function getAllTechIds(): string[] {
-  return Object.keys(scores.technologies);
+  return Object.keys(technologies);
 }
 
 /**
  * Get a technology by ID.
  */
 export function getTechnology(id: string): TechInfo | null {
-  return scores.technologies[id] || null;
+  return technologies[id] || null;
 }
 
 /**
  * Get all technologies.
  */
 export function getAllTechnologies(): TechInfo[] {
-  return Object.values(scores.technologies);
+  return Object.values(technologies);
 }
 
 /**
@@ -136,17 +397,9 @@ export function getTechnologiesGroupedByCategory(): Record<
   Category,
   TechInfo[]
 > {
-  const grouped: Record<Category, TechInfo[]> = {
-    frontend: [],
-    backend: [],
-    "meta-framework": [],
-    database: [],
-    orm: [],
-    auth: [],
-    hosting: [],
-    payments: [],
-    cms: [],
-  };
+  const grouped = Object.fromEntries(
+    CATEGORIES.map((category) => [category, [] as TechInfo[]]),
+  ) as Record<Category, TechInfo[]>;
 
   for (const tech of getAllTechnologies()) {
     if (tech.category in grouped) {
@@ -157,16 +410,101 @@ export function getTechnologiesGroupedByCategory(): Record<
   return grouped;
 }
 
+/**
+ * Split a technology reference like "nextjs@14" into ID and version.
+ */
+export function parseTechRef(ref: string): { id: string; version?: string } {
+  const at = ref.indexOf("@");
+  if (at <= 0) return { id: ref };
+  return { id: ref.slice(0, at), version: ref.slice(at + 1) || undefined };
+}
+
+/**
+ * Extract the major version from a version or semver range
+ * (e.g., "^14.2.3" → "14", "v5" → "5"). Returns null for "latest", "*", etc.
+ */
+export function normalizeMajorVersion(spec: string): string | null {
+  const match = /^[\s^~>=<v]*(\d+)/.exec(spec);
+  return match ? String(Number(match[1])) : null;
+}
+
+/**
+ * Get major versions with their own score records, ascending.
+ */
+export function getTechVersions(techId: string): string[] {
+  const versions = getTechnology(techId)?.versions;
+  if (!versions) return [];
+  return Object.keys(versions).sort((a, b) => Number(a) - Number(b));
+}
+
+/**
+ * Resolve a version spec to a major version that has score records.
+ */
+export function resolveScoredVersion(
+  techId: string,
+  spec: string,
+): string | null {
+  const major = normalizeMajorVersion(spec);
+  if (!major) return null;
+  return getTechVersions(techId).includes(major) ? major : null;
+}
+
 /**
  * Get scores for a technology in a specific context.
+ * When a scored major version is given, its records are merged over the base scores.
  */
 export function getScores(
   techId: string,
   context: Context = "default",
+  version?: string,
 ): Scores | null {
   const tech = getTechnology(techId);
   if (!tech) return null;
-  return tech.scores[context] || tech.scores.default;
+
+  const custom = customContexts.get(context);
+  if (custom) {
+    return applyContextDeltas(
+      getScores(techId, "default", version)!,
+      custom.deltas,
+    );
+  }
+
+  const base = tech.scores[context as BuiltInContext] || tech.scores.default;
+  const record = version ? tech.versions?.[version] : undefined;
+  if (!record) return base;
+
+  return { ...base, ...(record[context as BuiltInContext] ?? record.default) };
+}
+
+/**
+ * Get score provenance (rationale, sources, last review) for a technology.
+ */
+export function getProvenance(techId: string): ScoreProvenance | null {
+  return getTechnology(techId)?.provenance ?? null;
+}
+
+/**
+ * Format one dimension's provenance as a markdown fragment
+ * (rationale followed by numbered source links), or null when none is recorded.
+ */
+export function formatDimensionProvenance(
+  provenance: DimensionProvenance | undefined,
+): string | null {
+  if (!provenance?.rationale && !provenance?.sources?.length) return null;
+  const sources = (provenance.sources ?? [])
+    .map((url, i) => `[${i + 1}](${url})`)
+    .join(", ");
+  return [provenance.rationale, sources && `(sources: ${sources})`]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Display name for a technology, including the version when given (e.g., "Next.js 14").
+ */
+export function getTechDisplayName(techId: string, version?: string): string {
+  const name = getTechnology(techId)?.name ?? techId;
+  return version ? `${name} ${version}` : name;
 }
 
 /**
@@ -177,6 +515,102 @@ export function calculateOverallScore(scores: Scores): number {
   return Math.round(sum / SCORE_DIMENSIONS.length);
 }
 
+/**
+ * Per-dimension weights for scoring.
+ * Omitted dimensions default to a weight of 1.
+ */
+export type DimensionWeights = Partial<Record<ScoreDimension, number>>;
+
+const weightField = z.number().min(0).max(10).optional();
+
+/**
+ * Input schema for user-defined dimension weights (0-10 per dimension).
+ */
+export const DimensionWeightsSchema = z
+  .object({
+    perf: weightField,
+    dx: weightField,
+    ecosystem: weightField,
+    maintain: weightField,
+    cost: weightField,
+    compliance: weightField,
+  })
+  .strict();
+
+/**
+ * Output schema for a full score set (structured tool results).
+ */
+export const ScoresSchema = z.object({
+  perf: z.number(),
+  dx: z.number(),
+  ecosystem: z.number(),
+  maintain: z.number(),
+  cost: z.number(),
+  compliance: z.number(),
+});
+
+/**
+ * JSON schema for dimension weights (for tool definitions).
+ */
+export const DIMENSION_WEIGHTS_JSON_SCHEMA = {
+  type: "object" as const,
+  properties: Object.fromEntries(
+    SCORE_DIMENSIONS.map((dim) => [
+      dim,
+      { type: "number", minimum: 0, maximum: 10 },
+    ]),
+  ),
+  additionalProperties: false,
+  description:
+    "Optional per-dimension weights (0-10, default 1), e.g. { compliance: 3, maintain: 2, dx: 0.5 }",
+};
+
+/**
+ * Check whether weights differ from the flat average.
+ */
+export function hasCustomWeights(weights?: DimensionWeights): boolean {
+  if (!weights) return false;
+  return SCORE_DIMENSIONS.some(
+    (dim) => weights[dim] !== undefined && weights[dim] !== 1,
+  );
+}
+
+/**
+ * Calculate weighted score (weighted average of all dimensions).
+ * Falls back to the flat average when no weights are given
+ * or when every weight is 0.
+ */
+export function calculateWeightedScore(
+  scores: Scores,
+  weights?: DimensionWeights,
+): number {
+  if (!weights) return calculateOverallScore(scores);
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const dim of SCORE_DIMENSIONS) {
+    const weight = weights[dim] ?? 1;
+    weightedSum += scores[dim] * weight;
+    totalWeight += weight;
+  }
+
+  if (totalWeight === 0) return calculateOverallScore(scores);
+  return Math.round(weightedSum / totalWeight);
+}
+
+/**
+ * Format weights for display (e.g., "compliance×3, maintain×2").
+ * Only dimensions with a non-default weight are listed.
+ */
+export function formatWeights(weights?: DimensionWeights): string {
+  if (!hasCustomWeights(weights)) return "equal";
+  return SCORE_DIMENSIONS.filter(
+    (dim) => weights![dim] !== undefined && weights![dim] !== 1,
+  )
+    .map((dim) => `${dim}×${weights![dim]}`)
+    .join(", ");
+}
+
 /**
  * Get letter grade from score.
  */
@@ -197,13 +631,20 @@ export function scoreToGrade(score: number): string {
 }
 
 /**
- * Get compatibility score between two technologies.
- * Returns 50 (neutral) if no direct compatibility is defined.
+ * Get the explicitly defined compatibility score between two technologies.
+ * Overlay pairs take precedence over the bundled matrix.
+ * Returns null if neither direction is defined.
  */
-export function getCompatibility(techA: string, techB: string): number {
+export function getDefinedCompatibility(
+  techA: string,
+  techB: string,
+): number | null {
   // Same tech is always compatible
   if (techA === techB) return 100;
 
+  const overlayScore = overlayCompatibility.get(techPairKey(techA, techB));
+  if (overlayScore !== undefined) return overlayScore;
+
   // Check both directions
   const scoreAB = compat.matrix[techA]?.[techB];
   const scoreBA = compat.matrix[techB]?.[techA];
@@ -212,8 +653,16 @@ export function getCompatibility(techA: string, techB: string): number {
   if (scoreAB !== undefined) return scoreAB;
   if (scoreBA !== undefined) return scoreBA;
 
-  // Default to neutral
-  return 50;
+  return null;
+}
+
+/**
+ * Get compatibility score between two technologies.
+ * Overlay pairs take precedence over the bundled matrix.
+ * Returns 50 (neutral) if no direct compatibility is defined.
+ */
+export function getCompatibility(techA: string, techB: string): number {
+  return getDefinedCompatibility(techA, techB) ?? 50;
 }
 
 /**
@@ -258,7 +707,7 @@ export function findSimilarTechIds(input: string, limit = 3): string[] {
  * Check if a technology ID exists.
  */
 export function techExists(id: string): boolean {
-  return id in scores.technologies;
+  return id in technologies;
 }
 
 /**
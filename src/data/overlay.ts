@@ -0,0 +1,305 @@
+/**
+ * Data overlay loader.
+ *
+ * Reads a local JSON file (path from STACKSFINDER_OVERLAY_PATH) that extends
+ * the bundled data with organisation-specific definitions:
+ * - contexts: custom score contexts as per-dimension deltas over "default"
+ * - technologies: in-house technologies (IDs must not clash with bundled ones)
+ * - scoreOverrides: replacement scores for bundled technologies
+ * - compatibility: extra or replacement compatibility pairs
+ *
+ * Every overlaid value is labelled in tool output (see OVERLAY_MARKER).
+ */
+
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import {
+  CATEGORIES,
+  CONTEXTS,
+  clearTechnologyOverlay,
+  isBundledTechnology,
+  registerCustomContexts,
+  registerTechnologyOverlay,
+  type BuiltInContext,
+  type Scores,
+  type TechInfo,
+} from "./index.js";
+import { McpError, ErrorCode } from "../utils/errors.js";
+import { info } from "../utils/logger.js";
+
+/**
+ * Custom context and technology IDs are kebab-case (e.g., "regulated-fintech").
+ */
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const deltaField = z.number().int().min(-100).max(100).optional();
+
+/**
+ * Custom context definition: per-dimension deltas over "default".
+ * Resulting scores are clamped to 0-100.
+ */
+const CustomContextSchema = z
+  .object({
+    description: z.string().max(200).optional(),
+    deltas: z
+      .object({
+        perf: deltaField,
+        dx: deltaField,
+        ecosystem: deltaField,
+        maintain: deltaField,
+        cost: deltaField,
+        compliance: deltaField,
+      })
+      .strict(),
+  })
+  .strict();
+
+const scoreField = z.number().int().min(0).max(100);
+
+/**
+ * Full score set (all six dimensions, 0-100), as in technology_scores.json.
+ */
+const ScoresSchema = z
+  .object({
+    perf: scoreField,
+    dx: scoreField,
+    ecosystem: scoreField,
+    maintain: scoreField,
+    cost: scoreField,
+    compliance: scoreField,
+  })
+  .strict();
+
+/**
+ * In-house technology. "default" scores are required; missing
+ * mvp/enterprise contexts fall back to "default".
+ */
+const OverlayTechnologySchema = z
+  .object({
+    name: z.string().min(1),
+    category: z.enum(CATEGORIES),
+    url: z.string().url(),
+    scores: z
+      .object({
+        default: ScoresSchema,
+        mvp: ScoresSchema.optional(),
+        enterprise: ScoresSchema.optional(),
+      })
+      .strict(),
+  })
+  .strict();
+
+/**
+ * Partial score overrides for one context.
+ */
+const ScoreOverrideSchema = ScoresSchema.partial();
+
+/**
+ * Overlay file structure.
+ */
+export const DataOverlaySchema = z
+  .object({
+    $description: z.string().optional(),
+    contexts: z
+      .record(
+        z
+          .string()
+          .regex(ID_PATTERN, "Context IDs must be kebab-case")
+          .refine(
+            (id) => !(CONTEXTS as readonly string[]).includes(id),
+            (id) => ({ message: `"${id}" is a built-in context` }),
+          ),
+        CustomContextSchema,
+      )
+      .optional()
+      .default({}),
+    technologies: z
+      .record(
+        z.string().regex(ID_PATTERN, "Technology IDs must be kebab-case"),
+        OverlayTechnologySchema,
+      )
+      .optional()
+      .default({}),
+    scoreOverrides: z
+      .record(
+        z.string(),
+        z
+          .object({
+            default: ScoreOverrideSchema.optional(),
+            mvp: ScoreOverrideSchema.optional(),
+            enterprise: ScoreOverrideSchema.optional(),
+          })
+          .strict(),
+      )
+      .optional()
+      .default({}),
+    compatibility: z
+      .array(
+        z
+          .object({
+            techA: z.string().min(1),
+            techB: z.string().min(1),
+            score: scoreField,
+          })
+          .strict(),
+      )
+      .optional()
+      .default([]),
+  })
+  .strict();
+
+export type DataOverlay = z.infer<typeof DataOverlaySchema>;
+
+/**
+ * Validate raw overlay content.
+ * Throws a CONFIG_ERROR listing every issue found.
+ */
+export function parseDataOverlay(raw: unknown, source: string): DataOverlay {
+  const parsed = DataOverlaySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.errors
+      .map((e) => `${e.path.join(".") || "(root)"}: ${e.message}`)
+      .join("; ");
+    throw new McpError(
+      ErrorCode.CONFIG_ERROR,
+      `Invalid data overlay (${source}): ${issues}`,
+    );
+  }
+
+  const references = checkOverlayReferences(parsed.data);
+  if (references.length > 0) {
+    throw new McpError(
+      ErrorCode.CONFIG_ERROR,
+      `Invalid data overlay (${source}): ${references
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Overlay issue located by its path in the overlay file.
+ */
+export interface OverlayIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Check that overlay IDs line up with the bundled data:
+ * new technologies must not shadow bundled ones, and overrides
+ * and compatibility pairs must target known technologies.
+ */
+export function checkOverlayReferences(overlay: DataOverlay): OverlayIssue[] {
+  const issues: OverlayIssue[] = [];
+  const overlayIds = new Set(Object.keys(overlay.technologies));
+  const known = (id: string) => isBundledTechnology(id) || overlayIds.has(id);
+
+  for (const id of overlayIds) {
+    if (isBundledTechnology(id)) {
+      issues.push({
+        path: `technologies.${id}`,
+        message: "already a bundled technology (use scoreOverrides instead)",
+      });
+    }
+  }
+
+  for (const id of Object.keys(overlay.scoreOverrides)) {
+    if (!isBundledTechnology(id)) {
+      issues.push({
+        path: `scoreOverrides.${id}`,
+        message: "unknown bundled technology",
+      });
+    }
+  }
+
+  overlay.compatibility.forEach(({ techA, techB }, index) => {
+    for (const id of [techA, techB]) {
+      if (!known(id)) {
+        issues.push({
+          path: `compatibility.${index}`,
+          message: `unknown technology "${id}"`,
+        });
+      }
+    }
+    if (techA === techB) {
+      issues.push({
+        path: `compatibility.${index}`,
+        message: "a technology cannot be paired with itself",
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Expand an overlay technology into a full TechInfo record.
+ */
+export function toTechInfo(
+  id: string,
+  tech: DataOverlay["technologies"][string],
+): TechInfo {
+  const scores = {} as Record<BuiltInContext, Scores>;
+  for (const context of CONTEXTS) {
+    scores[context] = tech.scores[context] ?? tech.scores.default;
+  }
+  return { id, name: tech.name, category: tech.category, url: tech.url, scores };
+}
+
+/**
+ * Register a validated overlay with the data module.
+ */
+export function applyDataOverlay(overlay: DataOverlay): void {
+  registerCustomContexts(
+    Object.entries(overlay.contexts).map(([id, definition]) => ({
+      id,
+      ...definition,
+    })),
+  );
+  registerTechnologyOverlay({
+    technologies: Object.entries(overlay.technologies).map(([id, tech]) =>
+      toTechInfo(id, tech),
+    ),
+    scoreOverrides: overlay.scoreOverrides,
+    compatibility: overlay.compatibility,
+  });
+}
+
+/**
+ * Load, validate and apply the overlay file at the given path.
+ */
+export function loadDataOverlay(filePath: string): DataOverlay {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new McpError(
+      ErrorCode.CONFIG_ERROR,
+      `Cannot read data overlay at ${filePath}: ${message}`,
+    );
+  }
+
+  const overlay = parseDataOverlay(raw, filePath);
+  applyDataOverlay(overlay);
+
+  info(
+    `Loaded data overlay from ${filePath} (${Object.keys(overlay.contexts).length} custom contexts, ` +
+      `${Object.keys(overlay.technologies).length} technologies, ` +
+      `${Object.keys(overlay.scoreOverrides).length} score overrides, ` +
+      `${overlay.compatibility.length} compatibility pairs)`,
+  );
+
+  return overlay;
+}
+
+/**
+ * Remove all overlay data (useful for testing).
+ */
+export function resetDataOverlay(): void {
+  registerCustomContexts([]);
+  clearTechnologyOverlay();
+}
@@ -0,0 +1,228 @@
+/**
+ * Project Taxonomy
+ *
+ * Single source of the project types, scales and priorities accepted by the
+ * recommendation tools (local and API), with their labels and descriptions,
+ * the scale → scoring context mapping and the per-project-type category
+ * weights and categories used by the local stack search.
+ */
+
+import type { Category, Context } from "./index.js";
+
+/**
+ * Label and description of a taxonomy value.
+ */
+export interface TaxonomyEntry {
+  label: string;
+  description: string;
+}
+
+/**
+ * Project types.
+ */
+export const PROJECT_TYPES = [
+  "web-app",
+  "mobile-app",
+  "api",
+  "desktop",
+  "cli",
+  "library",
+  "e-commerce",
+  "saas",
+  "marketplace",
+] as const;
+export type ProjectType = (typeof PROJECT_TYPES)[number];
+
+export const PROJECT_TYPE_INFO: Record<ProjectType, TaxonomyEntry> = {
+  "web-app": {
+    label: "Web App",
+    description: "Browser-based application: dashboards, portals, content sites",
+  },
+  "mobile-app": {
+    label: "Mobile App",
+    description: "iOS / Android app backed by an API and database",
+  },
+  api: {
+    label: "API",
+    description: "REST or GraphQL backend service without its own UI",
+  },
+  desktop: {
+    label: "Desktop App",
+    description: "Installable desktop application (Electron, Tauri, ...)",
+  },
+  cli: {
+    label: "CLI",
+    description: "Command-line tool",
+  },
+  library: {
+    label: "Library",
+    description: "Reusable package or SDK published for other projects",
+  },
+  "e-commerce": {
+    label: "E-commerce",
+    description: "Online store with catalog, checkout and payments",
+  },
+  saas: {
+    label: "SaaS",
+    description: "Subscription software with accounts, billing and email",
+  },
+  marketplace: {
+    label: "Marketplace",
+    description: "Two-sided platform connecting buyers and sellers",
+  },
+};
+
+/**
+ * Project scales.
+ */
+export const SCALES = ["mvp", "startup", "growth", "enterprise"] as const;
+export type Scale = (typeof SCALES)[number];
+
+export const SCALE_INFO: Record<Scale, TaxonomyEntry & { context: Context }> = {
+  mvp: {
+    label: "MVP",
+    description: "Prototype or first release; speed over robustness",
+    context: "mvp",
+  },
+  startup: {
+    label: "Startup",
+    description: "Early-stage product with a small team",
+    context: "mvp",
+  },
+  growth: {
+    label: "Growth",
+    description: "Production traffic that is scaling up",
+    context: "enterprise",
+  },
+  enterprise: {
+    label: "Enterprise",
+    description: "Large organisation with compliance and long-term support needs",
+    context: "enterprise",
+  },
+};
+
+/**
+ * Project priorities.
+ */
+export const PRIORITIES = [
+  "time-to-market",
+  "scalability",
+  "developer-experience",
+  "cost-efficiency",
+  "performance",
+  "security",
+  "maintainability",
+] as const;
+export type Priority = (typeof PRIORITIES)[number];
+
+export const PRIORITY_INFO: Record<Priority, TaxonomyEntry> = {
+  "time-to-market": {
+    label: "Time to Market",
+    description: "Ship quickly with productive tooling and a large ecosystem",
+  },
+  scalability: {
+    label: "Scalability",
+    description: "Handle growing traffic and data",
+  },
+  "developer-experience": {
+    label: "Developer Experience",
+    description: "Pleasant, productive tooling for the team",
+  },
+  "cost-efficiency": {
+    label: "Cost Efficiency",
+    description: "Keep hosting and licensing costs low",
+  },
+  performance: {
+    label: "Performance",
+    description: "Low latency and fast runtime",
+  },
+  security: {
+    label: "Security",
+    description: "Compliance and secure defaults",
+  },
+  maintainability: {
+    label: "Maintainability",
+    description: "Easy to keep up to date over the long term",
+  },
+};
+
+/**
+ * Map scale to scoring context.
+ */
+export function scaleToContext(scale: Scale): Context {
+  return SCALE_INFO[scale]?.context ?? "default";
+}
+
+/**
+ * Category weights for different project types.
+ * Higher weight = more important for this project type.
+ */
+export const PROJECT_TYPE_WEIGHTS: Record<
+  ProjectType,
+  Partial<Record<Category, number>>
+> = {
+  "web-app": { "meta-framework": 1.2, frontend: 1.1, database: 1.0 },
+  "mobile-app": { backend: 1.2, database: 1.1, auth: 1.2 },
+  api: { backend: 1.3, database: 1.2, hosting: 1.1 },
+  desktop: { frontend: 1.1, backend: 1.1, database: 1.0 },
+  cli: { backend: 1.0 },
+  library: { backend: 1.0 },
+  "e-commerce": { "meta-framework": 1.1, database: 1.1, payments: 1.4 },
+  saas: { "meta-framework": 1.2, database: 1.1, auth: 1.2, payments: 1.3 },
+  marketplace: {
+    "meta-framework": 1.1,
+    database: 1.2,
+    auth: 1.1,
+    payments: 1.3,
+  },
+};
+
+/**
+ * Categories to include based on project type.
+ */
+export const PROJECT_TYPE_CATEGORIES: Record<ProjectType, Category[]> = {
+  "web-app": ["meta-framework", "database", "orm", "auth", "hosting"],
+  "mobile-app": ["backend", "database", "orm", "auth", "hosting"],
+  api: [
+    "backend",
+    "database",
+    "orm",
+    "auth",
+    "hosting",
+    "cache",
+    "observability",
+  ],
+  desktop: ["frontend", "backend", "database", "orm"],
+  cli: ["backend"],
+  library: ["backend"],
+  "e-commerce": [
+    "meta-framework",
+    "database",
+    "orm",
+    "auth",
+    "hosting",
+    "payments",
+    "email",
+    "storage",
+  ],
+  saas: [
+    "meta-framework",
+    "database",
+    "orm",
+    "auth",
+    "hosting",
+    "payments",
+    "email",
+    "observability",
+  ],
+  marketplace: [
+    "meta-framework",
+    "database",
+    "orm",
+    "auth",
+    "hosting",
+    "payments",
+    "email",
+    "storage",
+  ],
+};
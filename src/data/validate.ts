@@ -0,0 +1,382 @@
+/**
+ * Dataset validator.
+ *
+ * Checks technology scores and the compatibility matrix for structural
+ * problems and returns structured diagnostics instead of throwing, so the
+ * same checks can run as a warn-only pass at server startup and power the
+ * `stacksfinder-mcp validate-data` CLI for overlay files.
+ */
+
+import techScoresData from "./technology_scores.json" with { type: "json" };
+import compatibilityData from "./compatibility_matrix.json" with { type: "json" };
+import { CATEGORIES, CONTEXTS, SCORE_DIMENSIONS } from "./index.js";
+import {
+  DataOverlaySchema,
+  checkOverlayReferences,
+  toTechInfo,
+  type DataOverlay,
+} from "./overlay.js";
+import { warn } from "../utils/logger.js";
+
+/**
+ * Both directions of a pair may differ by up to this many points
+ * (the matrix is directional: "nodejs → prisma" can differ from
+ * "prisma → nodejs"). Larger gaps are reported as asymmetric.
+ */
+export const ASYMMETRY_TOLERANCE = 10;
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export type DiagnosticCode =
+  | "invalid_technology"
+  | "invalid_category"
+  | "missing_context"
+  | "missing_dimension"
+  | "score_out_of_range"
+  | "unknown_technology"
+  | "self_pair"
+  | "asymmetric_pair"
+  | "contradictory_pair"
+  | "invalid_overlay";
+
+/**
+ * A single validation finding, located by its path in the data.
+ */
+export interface DataDiagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  path: string;
+  message: string;
+}
+
+/**
+ * Result of a validation run.
+ */
+export interface ValidationReport {
+  /** True when no error-level diagnostics were found */
+  valid: boolean;
+  errors: number;
+  warnings: number;
+  diagnostics: DataDiagnostic[];
+}
+
+/**
+ * Raw dataset as stored in technology_scores.json and compatibility_matrix.json.
+ * Values are untrusted, hence `unknown`.
+ */
+export interface Dataset {
+  technologies: Record<string, unknown>;
+  matrix: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * The bundled dataset (without any overlay).
+ */
+export function getBundledDataset(): Dataset {
+  return {
+    technologies: techScoresData.technologies as Record<string, unknown>,
+    matrix: compatibilityData.matrix as Dataset["matrix"],
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isScore(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && value <= 100;
+}
+
+/**
+ * Check scores, contexts and categories of every technology.
+ */
+function validateTechnologies(
+  technologies: Dataset["technologies"],
+  diagnostics: DataDiagnostic[],
+): void {
+  const validCategories = new Set<string>(CATEGORIES);
+
+  for (const [id, tech] of Object.entries(technologies)) {
+    const path = `technologies.${id}`;
+    if (!isRecord(tech)) {
+      diagnostics.push({
+        severity: "error",
+        code: "invalid_technology",
+        path,
+        message: "Technology entry must be an object",
+      });
+      continue;
+    }
+
+    if (typeof tech.category !== "string" || !validCategories.has(tech.category)) {
+      diagnostics.push({
+        severity: "error",
+        code: "invalid_category",
+        path: `${path}.category`,
+        message: `Unknown category "${String(tech.category)}"`,
+      });
+    }
+
+    const scores = isRecord(tech.scores) ? tech.scores : {};
+    for (const context of CONTEXTS) {
+      const contextScores = scores[context];
+      if (!isRecord(contextScores)) {
+        diagnostics.push({
+          severity: "error",
+          code: "missing_context",
+          path: `${path}.scores.${context}`,
+          message: `Missing scores for context "${context}"`,
+        });
+        continue;
+      }
+
+      for (const dim of SCORE_DIMENSIONS) {
+        const value = contextScores[dim];
+        if (typeof value !== "number") {
+          diagnostics.push({
+            severity: "error",
+            code: "missing_dimension",
+            path: `${path}.scores.${context}.${dim}`,
+            message: `Missing "${dim}" score`,
+          });
+        } else if (!isScore(value)) {
+          diagnostics.push({
+            severity: "error",
+            code: "score_out_of_range",
+            path: `${path}.scores.${context}.${dim}`,
+            message: `Score ${value} is outside 0-100`,
+          });
+        }
+      }
+    }
+
+    const versions = isRecord(tech.versions) ? tech.versions : {};
+    for (const [version, record] of Object.entries(versions)) {
+      for (const [context, contextScores] of Object.entries(
+        isRecord(record) ? record : {},
+      )) {
+        for (const [dim, value] of Object.entries(
+          isRecord(contextScores) ? contextScores : {},
+        )) {
+          if (!isScore(value)) {
+            diagnostics.push({
+              severity: "error",
+              code: "score_out_of_range",
+              path: `${path}.versions.${version}.${context}.${dim}`,
+              message: `Score ${String(value)} is outside 0-100`,
+            });
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Check that matrix IDs exist, scores are in range and both
+ * directions of a pair agree.
+ */
+function validateMatrix(
+  dataset: Dataset,
+  diagnostics: DataDiagnostic[],
+): void {
+  const { technologies, matrix } = dataset;
+  const reportedUnknown = new Set<string>();
+
+  for (const [techA, row] of Object.entries(matrix)) {
+    if (!(techA in technologies) && !reportedUnknown.has(techA)) {
+      reportedUnknown.add(techA);
+      diagnostics.push({
+        severity: "error",
+        code: "unknown_technology",
+        path: `matrix.${techA}`,
+        message: `"${techA}" is not in the scores file`,
+      });
+    }
+
+    for (const [techB, score] of Object.entries(row)) {
+      const path = `matrix.${techA}.${techB}`;
+
+      if (!(techB in technologies) && !reportedUnknown.has(techB)) {
+        reportedUnknown.add(techB);
+        diagnostics.push({
+          severity: "error",
+          code: "unknown_technology",
+          path,
+          message: `"${techB}" is not in the scores file`,
+        });
+      }
+
+      if (techA === techB) {
+        diagnostics.push({
+          severity: "warning",
+          code: "self_pair",
+          path,
+          message: "Self-compatibility is always 100 and is ignored",
+        });
+        continue;
+      }
+
+      if (!isScore(score)) {
+        diagnostics.push({
+          severity: "error",
+          code: "score_out_of_range",
+          path,
+          message: `Compatibility ${String(score)} is outside 0-100`,
+        });
+        continue;
+      }
+
+      // Compare each pair once, from the alphabetically first side
+      const reverse = matrix[techB]?.[techA];
+      if (techA > techB || !isScore(reverse) || reverse === score) continue;
+
+      if ((score === 0) !== (reverse === 0)) {
+        diagnostics.push({
+          severity: "error",
+          code: "contradictory_pair",
+          path,
+          message: `${techA} → ${techB} is ${score} but ${techB} → ${techA} is ${reverse} (hard incompatibility in one direction only)`,
+        });
+      } else if (Math.abs(score - reverse) > ASYMMETRY_TOLERANCE) {
+        diagnostics.push({
+          severity: "warning",
+          code: "asymmetric_pair",
+          path,
+          message: `${techA} → ${techB} is ${score} but ${techB} → ${techA} is ${reverse}`,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Summarise diagnostics into a report.
+ */
+function toReport(diagnostics: DataDiagnostic[]): ValidationReport {
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+  return {
+    valid: errors === 0,
+    errors,
+    warnings: diagnostics.length - errors,
+    diagnostics,
+  };
+}
+
+/**
+ * Validate a dataset (defaults to the bundled data).
+ */
+export function validateDataset(
+  dataset: Dataset = getBundledDataset(),
+): ValidationReport {
+  const diagnostics: DataDiagnostic[] = [];
+  validateTechnologies(dataset.technologies, diagnostics);
+  validateMatrix(dataset, diagnostics);
+  return toReport(diagnostics);
+}
+
+/**
+ * Merge a parsed overlay into the bundled dataset, the way the data
+ * module applies it at runtime (overlay pairs replace both directions).
+ */
+function mergeOverlay(overlay: DataOverlay): Dataset {
+  const bundled = getBundledDataset();
+  const technologies: Dataset["technologies"] = { ...bundled.technologies };
+  const matrix: Dataset["matrix"] = {};
+  for (const [id, row] of Object.entries(bundled.matrix)) {
+    matrix[id] = { ...row };
+  }
+
+  for (const [id, tech] of Object.entries(overlay.technologies)) {
+    technologies[id] = toTechInfo(id, tech);
+  }
+
+  for (const [id, contexts] of Object.entries(overlay.scoreOverrides)) {
+    const base = technologies[id];
+    if (!isRecord(base) || !isRecord(base.scores)) continue;
+    const scores: Record<string, unknown> = { ...base.scores };
+    for (const context of CONTEXTS) {
+      const override = contexts[context];
+      if (override && isRecord(scores[context])) {
+        scores[context] = { ...scores[context], ...override };
+      }
+    }
+    technologies[id] = { ...base, scores };
+  }
+
+  for (const { techA, techB, score } of overlay.compatibility) {
+    matrix[techA] = { ...matrix[techA], [techB]: score };
+    if (matrix[techB]?.[techA] !== undefined) {
+      matrix[techB] = { ...matrix[techB], [techA]: score };
+    }
+  }
+
+  return { technologies, matrix };
+}
+
+/**
+ * Validate raw overlay file content: schema, references to bundled
+ * data, duplicate pairs, then the dataset as it would be served.
+ */
+export function validateDataOverlay(raw: unknown): ValidationReport {
+  const parsed = DataOverlaySchema.safeParse(raw);
+  if (!parsed.success) {
+    return toReport(
+      parsed.error.errors.map((e) => ({
+        severity: "error",
+        code: "invalid_overlay",
+        path: e.path.join(".") || "(root)",
+        message: e.message,
+      })),
+    );
+  }
+
+  const diagnostics: DataDiagnostic[] = checkOverlayReferences(
+    parsed.data,
+  ).map((issue) => ({
+    severity: "error",
+    code: "invalid_overlay",
+    ...issue,
+  }));
+
+  const seenPairs = new Map<string, { index: number; score: number }>();
+  parsed.data.compatibility.forEach(({ techA, techB, score }, index) => {
+    const key = [techA, techB].sort().join("::");
+    const previous = seenPairs.get(key);
+    if (previous && previous.score !== score) {
+      diagnostics.push({
+        severity: "error",
+        code: "contradictory_pair",
+        path: `compatibility.${index}`,
+        message: `${techA} ↔ ${techB} is ${score} here but ${previous.score} in compatibility.${previous.index}`,
+      });
+    } else if (!previous) {
+      seenPairs.set(key, { index, score });
+    }
+  });
+
+  if (diagnostics.length > 0) {
+    return toReport(diagnostics);
+  }
+
+  return validateDataset(mergeOverlay(parsed.data));
+}
+
+/**
+ * Format one diagnostic as a single line.
+ */
+export function formatDiagnostic(diagnostic: DataDiagnostic): string {
+  return `[${diagnostic.severity.toUpperCase()}] ${diagnostic.path}: ${diagnostic.message} (${diagnostic.code})`;
+}
+
+/**
+ * Validate the bundled data and log any findings as warnings.
+ * Never throws: a bad data entry should not keep the server from starting.
+ */
+export function warnOnInvalidDataset(): ValidationReport {
+  const report = validateDataset();
+  for (const diagnostic of report.diagnostics) {
+    warn(`Data validation: ${formatDiagnostic(diagnostic)}`);
+  }
+  return report;
+}
@@ -13,6 +13,10 @@ import { fileURLToPath } from 'node:url';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { createServer } from './server.js';
 import { loadConfig, setOAuthToken } from './utils/config.js';
+import { loadDataOverlay } from './data/overlay.js';
+import { loadRulePacks } from './lib/rule-packs.js';
+import { loadScorePolicy } from './lib/score-policy.js';
+import { warnOnInvalidDataset } from './data/validate.js';
 import { setDebug, info, error, debug } from './utils/logger.js';
 
 const PORT = parseInt(process.env.PORT || '3000', 10);
@@ -97,6 +101,20 @@ async function main(): Promise<void> {
 		info('Debug logging enabled');
 	}
 
+	warnOnInvalidDataset();
+
+	if (config.overlayPath) {
+		loadDataOverlay(config.overlayPath);
+	}
+
+	if (config.rulesDir) {
+		loadRulePacks(config.rulesDir);
+	}
+
+	if (config.scorePolicyPath) {
+		loadScorePolicy(config.scorePolicyPath);
+	}
+
 	const httpServer = createHttpServer(async (req: IncomingMessage, res: ServerResponse) => {
 		// Generate request ID for log correlation
 		const requestId = randomUUID().slice(0, 8);
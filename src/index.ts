@@ -3,6 +3,11 @@
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createServer } from './server.js';
 import { loadConfig } from './utils/config.js';
+import { loadDataOverlay } from './data/overlay.js';
+import { loadRulePacks } from './lib/rule-packs.js';
+import { loadScorePolicy } from './lib/score-policy.js';
+import { warnOnInvalidDataset } from './data/validate.js';
+import { runValidateData } from './validate-data.js';
 import { setDebug, info, error } from './utils/logger.js';
 
 /**
@@ -19,6 +24,23 @@ async function main(): Promise<void> {
 		info('Debug logging enabled');
 	}
 
+	// Warn about bundled data problems without refusing to start
+	warnOnInvalidDataset();
+
+	// Apply local data overlay (custom contexts) before tools read the data
+	if (config.overlayPath) {
+		loadDataOverlay(config.overlayPath);
+	}
+
+	// Load compatibility rule packs before the MCP compatibility tools index the rules
+	if (config.rulesDir) {
+		loadRulePacks(config.rulesDir);
+	}
+
+	if (config.scorePolicyPath) {
+		loadScorePolicy(config.scorePolicyPath);
+	}
+
 	// Create the server
 	const server = createServer();
 
@@ -50,6 +72,10 @@ async function main(): Promise<void> {
 	}
 }
 
+if (process.argv[2] === 'validate-data') {
+	process.exit(runValidateData(process.argv.slice(3)));
+}
+
 main().catch((err) => {
 	console.error('Fatal error:', err);
 	process.exit(1);
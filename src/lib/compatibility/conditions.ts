@@ -0,0 +1,152 @@
+/**
+ * MCP Compatibility Conditions
+ *
+ * Evaluates the conditions of conditional rules (e.g., "requires env var
+ * DATABASE_URL", "requires transport stdio") against the user's MCP config.
+ */
+
+import type {
+  ConditionCheck,
+  ConditionStatus,
+  EvaluatedConditional,
+  MatchedRule,
+  McpServerEntries,
+  McpServerEntry,
+  McpTransport,
+  RuleCondition,
+} from './types.js';
+import { canonicalizeMcpId } from './utils.js';
+
+/**
+ * Explicit transport names used by MCP clients, mapped to transports.
+ */
+const TRANSPORT_ALIASES: Record<string, McpTransport> = {
+  stdio: 'stdio',
+  sse: 'sse',
+  http: 'http',
+  'streamable-http': 'http',
+  streamablehttp: 'http',
+};
+
+/**
+ * Extract server entries from the contents of an MCP config file.
+ * Supports the `mcpServers` object format and the `servers` object or
+ * array (with `name`) formats. Anything else is ignored.
+ *
+ * @param config - Parsed MCP config file
+ * @returns Server entries keyed by name
+ */
+export function parseMcpServerEntries(config: unknown): McpServerEntries {
+  const entries: McpServerEntries = {};
+  if (!config || typeof config !== 'object') return entries;
+
+  const { mcpServers, servers } = config as { mcpServers?: unknown; servers?: unknown };
+  const add = (name: unknown, entry: unknown) => {
+    if (typeof name === 'string' && name && entry && typeof entry === 'object' && !(name in entries)) {
+      entries[name] = entry as McpServerEntry;
+    }
+  };
+
+  for (const source of [mcpServers, servers]) {
+    if (Array.isArray(source)) {
+      for (const entry of source) add((entry as { name?: unknown })?.name, entry);
+    } else if (source && typeof source === 'object') {
+      for (const [name, entry] of Object.entries(source)) add(name, entry);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Find the config entry of an MCP (by canonical ID).
+ */
+export function findServerEntry(mcp: string, servers: McpServerEntries): McpServerEntry | undefined {
+  const canonical = canonicalizeMcpId(mcp);
+  return Object.entries(servers).find(([name]) => canonicalizeMcpId(name) === canonical)?.[1];
+}
+
+/**
+ * Transport of a server entry: explicit `type`/`transport`, else `url`
+ * (SSE when the path ends in /sse) or `command` (stdio).
+ *
+ * @returns The transport, or null when it cannot be told
+ */
+export function resolveTransport(entry: McpServerEntry): McpTransport | null {
+  const explicit = entry.type ?? entry.transport;
+  if (typeof explicit === 'string') {
+    return TRANSPORT_ALIASES[explicit.toLowerCase()] ?? null;
+  }
+  if (typeof entry.url === 'string') {
+    return /\/sse\/?$/.test(entry.url) ? 'sse' : 'http';
+  }
+  if (typeof entry.command === 'string') return 'stdio';
+  return null;
+}
+
+/**
+ * Describe a condition (e.g., "env DATABASE_URL", "transport stdio").
+ */
+export function describeCondition(condition: RuleCondition): string {
+  return condition.type === 'env' ? `env ${condition.name}` : `transport ${condition.transport}`;
+}
+
+/**
+ * Check one condition for one MCP.
+ */
+function checkCondition(
+  condition: RuleCondition,
+  mcp: string,
+  servers: McpServerEntries | undefined
+): ConditionCheck {
+  const check = (status: ConditionStatus, detail: string): ConditionCheck => ({ condition, mcp, status, detail });
+
+  if (!servers) return check('unknown', 'no MCP config supplied');
+  const entry = findServerEntry(mcp, servers);
+  if (!entry) return check('unknown', `no config entry for ${mcp}`);
+
+  if (condition.type === 'env') {
+    const value = entry.env?.[condition.name];
+    return typeof value === 'string' && value.trim() !== ''
+      ? check('satisfied', `${condition.name} is set`)
+      : check('unsatisfied', `${condition.name} not set`);
+  }
+
+  const transport = resolveTransport(entry);
+  if (!transport) return check('unknown', 'transport not recognized');
+  return transport === condition.transport
+    ? check('satisfied', `uses ${transport}`)
+    : check('unsatisfied', `uses ${transport}, requires ${condition.transport}`);
+}
+
+/**
+ * Overall status of a set of checks: unsatisfied beats unknown beats satisfied.
+ */
+function combineStatus(checks: ConditionCheck[]): ConditionStatus {
+  if (checks.length === 0) return 'unknown';
+  if (checks.some((c) => c.status === 'unsatisfied')) return 'unsatisfied';
+  if (checks.some((c) => c.status === 'unknown')) return 'unknown';
+  return 'satisfied';
+}
+
+/**
+ * Check the conditions of matched conditional rules against the MCP config.
+ * Rules without conditions stay 'unknown'.
+ *
+ * @param conditionals - Matched conditional rules
+ * @param servers - Server entries of the user's MCP config (undefined when not supplied)
+ * @returns Conditionals with their checks and overall status
+ */
+export function evaluateConditionals(
+  conditionals: MatchedRule[],
+  servers?: McpServerEntries
+): EvaluatedConditional[] {
+  return conditionals.map((matched) => {
+    const checks = (matched.rule.conditions ?? []).flatMap((condition) =>
+      (condition.mcp ? [condition.mcp] : [matched.rule.mcpA, matched.rule.mcpB]).map((mcp) =>
+        checkCondition(condition, canonicalizeMcpId(mcp), servers)
+      )
+    );
+    return { ...matched, status: combineStatus(checks), checks };
+  });
+}
@@ -10,10 +10,11 @@
  *   formatReportAsMarkdown,
  *   initRulesIndex,
  *   getAllRules,
+ *   getAllGroupRules,
  * } from '@stacksfinder/mcp-compatibility';
  *
  * // Initialize the rules index
- * initRulesIndex(getAllRules());
+ * initRulesIndex(getAllRules(), getAllGroupRules());
  *
  * // Generate a report
  * const report = generateReport(
@@ -32,6 +33,25 @@ export type {
   CompatibilityStatus,
   Severity,
   CompatibilityRule,
+  RuleCondition,
+  McpTransport,
+  ConditionStatus,
+  ConditionCheck,
+  EvaluatedConditional,
+  McpServerEntry,
+  McpServerEntries,
+  GroupRuleKind,
+  GroupRule,
+  GroupFinding,
+  RulePack,
+  RuleOverride,
+  RulePackConflict,
+  PenaltyKey,
+  IgnoredRule,
+  ScorePolicy,
+  ScorePolicySource,
+  EffectiveScorePolicy,
+  IgnoredFinding,
   MatchedRule,
   Suggestion,
   Grade,
@@ -43,25 +63,70 @@ export type {
   AnalyzeRepoCompatibility,
 } from './types.js';
 
-export { MCP_CATEGORIES } from './types.js';
+export {
+  MCP_CATEGORIES,
+  MCP_TRANSPORTS,
+  COMPATIBILITY_STATUSES,
+  SEVERITIES,
+  PENALIZED_FINDINGS,
+} from './types.js';
 
 // Utils
 export {
   MCP_ALIASES,
   canonicalizeMcpId,
+  getMcpAliases,
   pairKey,
   initRulesIndex,
   getRulesIndex,
+  getIndexedRules,
+  getIndexedGroupRules,
   findRule,
   generatePairs,
   checkAllPairs,
+  getGroupMembers,
+  checkGroups,
+  foldIntoGroups,
   getSuggestions,
 } from './utils.js';
 
+// Conditions
+export {
+  parseMcpServerEntries,
+  findServerEntry,
+  resolveTransport,
+  describeCondition,
+  evaluateConditionals,
+} from './conditions.js';
+
+// Rule packs
+export {
+  BUILT_IN_PACK,
+  CompatibilityRuleSchema,
+  GroupRuleSchema,
+  RulePackSchema,
+  parseRulePack,
+  mergeRulePacks,
+  type RuleSet,
+  type MergedRuleSet,
+} from './packs.js';
+
+// Score policy
+export {
+  DEFAULT_SCORE_POLICY,
+  PENALTY_KEYS,
+  ScorePolicyInputSchema,
+  resolveScorePolicy,
+  type ScorePolicyInput,
+} from './policy.js';
+
 // Rules
 export {
   COMPATIBILITY_RULES,
+  GROUP_RULES,
+  MCP_CATEGORY_MEMBERS,
   getAllRules,
+  getAllGroupRules,
   getRulesByCategory,
   getRulesByStatus,
   CURATED_MCPS,
@@ -74,4 +139,5 @@ export {
   generateReport,
   formatReportAsMarkdown,
   getReportSummaryLine,
+  type ReportOptions,
 } from './scoring.js';
@@ -0,0 +1,291 @@
+/**
+ * MCP Compatibility Rule Packs
+ *
+ * Validates user-supplied rule packs and merges them with the built-in
+ * rules. Reading pack files is left to the host (see src/lib/rule-packs.ts).
+ */
+
+import { z } from 'zod';
+import {
+  COMPATIBILITY_STATUSES,
+  MCP_CATEGORIES,
+  MCP_TRANSPORTS,
+  SEVERITIES,
+  type CompatibilityRule,
+  type GroupRule,
+  type RuleOverride,
+  type RulePack,
+  type RulePackConflict,
+} from './types.js';
+
+/**
+ * Pack names are kebab-case (e.g., "acme-internal").
+ */
+const PACK_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * Origin of built-in definitions in overrides and conflicts.
+ */
+export const BUILT_IN_PACK = 'built-in';
+
+const mcpId = z.string().trim().min(1);
+
+const RuleConditionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('env'), name: z.string().min(1), mcp: mcpId.optional() }).strict(),
+  z.object({ type: z.literal('transport'), transport: z.enum(MCP_TRANSPORTS), mcp: mcpId.optional() }).strict(),
+]);
+
+/**
+ * A pair rule as written in a pack (origin `pack` is set on merge).
+ */
+export const CompatibilityRuleSchema: z.ZodType<CompatibilityRule> = z
+  .object({
+    id: z.string().min(1),
+    mcpA: mcpId,
+    mcpB: mcpId,
+    status: z.enum(COMPATIBILITY_STATUSES),
+    category: z.enum(MCP_CATEGORIES),
+    severity: z.enum(SEVERITIES),
+    reason: z.string().min(1),
+    solution: z.string().optional(),
+    recommendation: z.enum(['A', 'B', 'either', 'both']).optional(),
+    suggestWhenMissing: z.array(mcpId).optional(),
+    conditions: z.array(RuleConditionSchema).optional(),
+  })
+  .strict()
+  .refine((rule) => rule.mcpA.toLowerCase() !== rule.mcpB.toLowerCase(), {
+    message: 'mcpA and mcpB must differ',
+  });
+
+/**
+ * A group rule as written in a pack (origin `pack` is set on merge).
+ */
+export const GroupRuleSchema: z.ZodType<GroupRule> = z
+  .object({
+    id: z.string().min(1),
+    title: z.string().min(1),
+    kind: z.enum(['at-most', 'requires']),
+    members: z
+      .object({
+        category: z.enum(MCP_CATEGORIES).optional(),
+        mcps: z.array(mcpId).optional(),
+      })
+      .strict()
+      .refine((members) => members.category || members.mcps?.length, {
+        message: 'members needs a category or mcps',
+      }),
+    limit: z.number().int().min(0),
+    when: z.array(mcpId).optional(),
+    category: z.enum(MCP_CATEGORIES),
+    severity: z.enum(SEVERITIES),
+    reason: z.string().min(1),
+    solution: z.string().optional(),
+  })
+  .strict()
+  .refine((rule) => rule.kind !== 'requires' || (rule.when?.length ?? 0) > 0, {
+    message: "'requires' rules need a non-empty when",
+    path: ['when'],
+  });
+
+/**
+ * Rule pack file structure.
+ */
+export const RulePackSchema = z
+  .object({
+    $description: z.string().optional(),
+    name: z.string().regex(PACK_NAME_PATTERN, 'Pack names must be kebab-case').optional(),
+    priority: z.number().int().optional().default(0),
+    description: z.string().optional(),
+    aliases: z.record(z.string().trim().min(1), mcpId).optional().default({}),
+    rules: z.array(CompatibilityRuleSchema).optional().default([]),
+    groupRules: z.array(GroupRuleSchema).optional().default([]),
+  })
+  .strict();
+
+/**
+ * Validate raw pack content.
+ *
+ * @param raw - Parsed pack file
+ * @param fallbackName - Pack name when the file sets none (e.g., the file name)
+ * @returns The pack, or the issues found (as "path: message")
+ */
+export function parseRulePack(
+  raw: unknown,
+  fallbackName: string
+): { pack: RulePack; issues: [] } | { pack?: undefined; issues: string[] } {
+  const parsed = RulePackSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      issues: parsed.error.errors.map((e) => `${e.path.join('.') || '(root)'}: ${e.message}`),
+    };
+  }
+
+  const { name, priority, description, aliases, rules, groupRules } = parsed.data;
+  const packName = name ?? fallbackName;
+  if (!PACK_NAME_PATTERN.test(packName)) {
+    return { issues: [`name: "${packName}" is not kebab-case; set a name in the pack`] };
+  }
+
+  return {
+    pack: { name: packName, priority, ...(description ? { description } : {}), aliases, rules, groupRules },
+    issues: [],
+  };
+}
+
+/**
+ * Rules, group rules and aliases to merge packs into.
+ */
+export interface RuleSet {
+  rules: CompatibilityRule[];
+  groupRules: GroupRule[];
+  aliases: Record<string, string>;
+}
+
+/**
+ * Result of merging packs: the effective rule set plus what was replaced
+ * and what could not be merged.
+ */
+export interface MergedRuleSet extends RuleSet {
+  overrides: RuleOverride[];
+  conflicts: RulePackConflict[];
+}
+
+/**
+ * Where a merged definition came from.
+ */
+interface Origin<T> {
+  value: T;
+  pack: string;
+  priority: number;
+}
+
+/**
+ * Merge rule packs over a base rule set.
+ *
+ * Precedence: packs over built-in definitions, then higher `priority`.
+ * Between packs of the same priority, the later pack wins, but two
+ * definitions of the same pair, group rule or alias that disagree are
+ * reported as conflicts (as is anything a pack defines twice).
+ * Pack rules are canonicalized with the merged aliases.
+ *
+ * @param base - Built-in rules, group rules and aliases
+ * @param packs - Packs in load order
+ * @returns The merged rule set with overrides and conflicts
+ */
+export function mergeRulePacks(base: RuleSet, packs: RulePack[]): MergedRuleSet {
+  const overrides: RuleOverride[] = [];
+  const conflicts: RulePackConflict[] = [];
+  const ordered = packs
+    .map((pack, index) => ({ pack, index }))
+    .sort((a, b) => a.pack.priority - b.pack.priority || a.index - b.index)
+    .map(({ pack }) => pack);
+
+  const seenNames = new Set<string>();
+  for (const pack of packs) {
+    if (seenNames.has(pack.name)) {
+      conflicts.push({ target: `pack ${pack.name}`, packs: [pack.name], message: 'pack name used by several packs' });
+    }
+    seenNames.add(pack.name);
+  }
+
+  /**
+   * Record a definition under `key`, tracking overrides and same-priority conflicts.
+   */
+  function place<T>(
+    entries: Map<string, Origin<T>>,
+    kind: 'alias' | 'pair' | 'group',
+    key: string,
+    entry: Origin<T>,
+    disagree: (a: T, b: T) => boolean
+  ): void {
+    const target = `${kind} ${key}`;
+    const existing = entries.get(key);
+    if (existing) {
+      if (existing.pack === entry.pack) {
+        conflicts.push({ target, packs: [entry.pack], message: 'defined more than once in the pack' });
+      } else if (
+        existing.pack !== BUILT_IN_PACK &&
+        existing.priority === entry.priority &&
+        disagree(existing.value, entry.value)
+      ) {
+        conflicts.push({
+          target,
+          packs: [existing.pack, entry.pack],
+          message: `defined differently at the same priority (${entry.priority}); set priorities to choose`,
+        });
+      }
+      overrides.push({ target, winner: entry.pack, overridden: existing.pack });
+    }
+    entries.set(key, entry);
+  }
+
+  // Aliases first: pack rules are canonicalized with them
+  const aliases = new Map<string, Origin<string>>(
+    Object.entries(base.aliases).map(([alias, id]) => [alias, { value: id, pack: BUILT_IN_PACK, priority: -Infinity }])
+  );
+  for (const pack of ordered) {
+    for (const [alias, id] of Object.entries(pack.aliases)) {
+      const entry = { value: id.toLowerCase().trim(), pack: pack.name, priority: pack.priority };
+      place(aliases, 'alias', alias.toLowerCase().trim(), entry, (a, b) => a !== b);
+    }
+  }
+  const mergedAliases = Object.fromEntries([...aliases].map(([alias, { value }]) => [alias, value]));
+  const canonical = (id: string) => {
+    const normalized = id.toLowerCase().trim();
+    return mergedAliases[normalized] ?? normalized;
+  };
+
+  // Pair rules, keyed by canonical pair
+  const pairKey = (rule: CompatibilityRule) => [canonical(rule.mcpA), canonical(rule.mcpB)].sort().join('::');
+  const pairs = new Map<string, Origin<CompatibilityRule>>(
+    base.rules.map((rule) => [pairKey(rule), { value: rule, pack: BUILT_IN_PACK, priority: -Infinity }])
+  );
+  for (const pack of ordered) {
+    for (const rule of pack.rules) {
+      const value: CompatibilityRule = {
+        ...rule,
+        mcpA: canonical(rule.mcpA),
+        mcpB: canonical(rule.mcpB),
+        ...(rule.suggestWhenMissing ? { suggestWhenMissing: rule.suggestWhenMissing.map(canonical) } : {}),
+        pack: pack.name,
+      };
+      place(pairs, 'pair', pairKey(value), { value, pack: pack.name, priority: pack.priority }, (a, b) =>
+        a.status !== b.status || a.severity !== b.severity
+      );
+    }
+  }
+
+  // Group rules, keyed by ID
+  const groups = new Map<string, Origin<GroupRule>>(
+    base.groupRules.map((rule) => [rule.id, { value: rule, pack: BUILT_IN_PACK, priority: -Infinity }])
+  );
+  for (const pack of ordered) {
+    for (const rule of pack.groupRules) {
+      const value: GroupRule = {
+        ...rule,
+        members: { ...rule.members, ...(rule.members.mcps ? { mcps: rule.members.mcps.map(canonical) } : {}) },
+        ...(rule.when ? { when: rule.when.map(canonical) } : {}),
+        pack: pack.name,
+      };
+      place(groups, 'group', rule.id, { value, pack: pack.name, priority: pack.priority }, (a, b) =>
+        a.kind !== b.kind || a.limit !== b.limit || a.severity !== b.severity
+      );
+    }
+  }
+
+  const rules = [...pairs.values()].map(({ value }) => value);
+  const groupRules = [...groups.values()].map(({ value }) => value);
+
+  // Rule IDs must stay unique (reports refer to rules by ID)
+  const owners = new Map<string, string[]>();
+  for (const rule of [...rules, ...groupRules]) {
+    owners.set(rule.id, [...(owners.get(rule.id) ?? []), rule.pack ?? BUILT_IN_PACK]);
+  }
+  for (const [id, origin] of owners) {
+    if (origin.length > 1) {
+      conflicts.push({ target: `rule ${id}`, packs: [...new Set(origin)], message: 'rule ID used by several rules' });
+    }
+  }
+
+  return { rules, groupRules, aliases: mergedAliases, overrides, conflicts };
+}
@@ -0,0 +1,137 @@
+/**
+ * MCP Compatibility Score Policy
+ *
+ * Penalties, synergy bonuses, grade bands, severity overrides and ignored
+ * rules used by the health score. The effective policy is built from layers:
+ * the default policy, then an organisation policy, then a per-call policy.
+ */
+
+import { z } from 'zod';
+import {
+  PENALIZED_FINDINGS,
+  SEVERITIES,
+  type EffectiveScorePolicy,
+  type PenaltyKey,
+  type ScorePolicy,
+  type ScorePolicySource,
+} from './types.js';
+
+/**
+ * Built-in policy.
+ */
+export const DEFAULT_SCORE_POLICY: ScorePolicy = {
+  penalties: {
+    conflict_critical: -40,
+    conflict_warning: -20,
+    conflict_info: -5,
+    redundant_critical: -20,
+    redundant_warning: -10,
+    redundant_info: -5,
+    conditional_critical: -20,
+    conditional_warning: -10,
+    conditional_info: -5,
+    group_critical: -40,
+    group_warning: -20,
+    group_info: -5,
+  },
+  bonuses: {
+    synergy: 5,
+    synergyCap: 15,
+  },
+  grades: {
+    A: 90,
+    B: 75,
+    C: 55,
+  },
+  severityOverrides: {},
+  ignore: [],
+};
+
+export const PENALTY_KEYS = PENALIZED_FINDINGS.flatMap((finding) =>
+  SEVERITIES.map((severity) => `${finding}_${severity}` as PenaltyKey)
+);
+
+const points = z.number().int().min(0).max(100);
+
+/**
+ * A policy layer: every field is optional and replaces the lower layer's.
+ * Severity overrides merge by rule ID; ignored rules add up.
+ */
+export const ScorePolicyInputSchema = z
+  .object({
+    penalties: z
+      .object(Object.fromEntries(PENALTY_KEYS.map((key) => [key, z.number().int().min(-100).max(0).optional()])))
+      .strict()
+      .optional()
+      .describe('Points per finding (0 to -100), e.g. { "conflict_critical": -30 }'),
+    bonuses: z
+      .object({ synergy: points.optional(), synergyCap: points.optional() })
+      .strict()
+      .optional()
+      .describe('Points per synergy and the synergy cap'),
+    grades: z
+      .object({ A: points.optional(), B: points.optional(), C: points.optional() })
+      .strict()
+      .optional()
+      .describe('Minimum score of grades A, B and C'),
+    severityOverrides: z
+      .record(z.string().min(1), z.enum(SEVERITIES))
+      .optional()
+      .describe('Severity by rule ID, e.g. { "deploy-003": "warning" }'),
+    ignore: z
+      .array(
+        z
+          .object({
+            ruleId: z.string().min(1),
+            justification: z.string().trim().min(1, 'A justification is required to ignore a rule'),
+          })
+          .strict()
+      )
+      .optional()
+      .describe('Rules to leave out of the report and the score, each with a justification'),
+  })
+  .strict();
+
+export type ScorePolicyInput = z.infer<typeof ScorePolicyInputSchema>;
+
+/**
+ * Build the effective policy from layers (lowest first) over the default policy.
+ *
+ * @param layers - Policy layers with their source, e.g. org then call
+ * @returns The effective policy, or the issues found (grades must descend)
+ */
+export function resolveScorePolicy(
+  layers: { source: ScorePolicySource; policy: ScorePolicyInput }[] = []
+): { policy: EffectiveScorePolicy; issues: [] } | { policy?: undefined; issues: string[] } {
+  const policy: EffectiveScorePolicy = {
+    ...structuredClone(DEFAULT_SCORE_POLICY),
+    sources: ['default'],
+  };
+
+  for (const { source, policy: layer } of layers) {
+    for (const [key, value] of Object.entries(layer.penalties ?? {})) {
+      if (value !== undefined) policy.penalties[key as PenaltyKey] = value;
+    }
+    Object.assign(policy.bonuses, definedOnly(layer.bonuses));
+    Object.assign(policy.grades, definedOnly(layer.grades));
+    Object.assign(policy.severityOverrides, layer.severityOverrides);
+    for (const ignored of layer.ignore ?? []) {
+      policy.ignore = [...policy.ignore.filter((i) => i.ruleId !== ignored.ruleId), ignored];
+    }
+    policy.sources.push(source);
+  }
+
+  const { A, B, C } = policy.grades;
+  if (!(A > B && B > C)) {
+    return { issues: [`grades: bands must descend (A > B > C), got A ${A}, B ${B}, C ${C}`] };
+  }
+
+  return { policy, issues: [] };
+}
+
+/**
+ * Drop undefined fields, so they do not replace lower-layer values.
+ */
+function definedOnly<T extends object>(value: T | undefined): Partial<T> {
+  return Object.fromEntries(Object.entries(value ?? {}).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
@@ -3,9 +3,10 @@
  *
  * 30 initial rules covering common conflicts, redundancies, and synergies.
  * Rules are ordered alphabetically by pair key (mcpA < mcpB).
+ * Group rules cover constraints over more than two MCPs.
  */
 
-import type { CompatibilityRule } from './types.js';
+import type { CompatibilityRule, GroupRule, MCPCategory } from './types.js';
 
 /**
  * All compatibility rules.
@@ -167,6 +168,7 @@ export const COMPATIBILITY_RULES: CompatibilityRule[] = [
     reason: 'Prisma works with Supabase but requires proper connection pooling setup.',
     solution: 'Use Supabase connection pooler URL in Prisma schema.',
     recommendation: 'both',
+    conditions: [{ type: 'env', name: 'DATABASE_URL', mcp: 'prisma-mcp' }],
   },
   {
     id: 'syn-004',
@@ -379,6 +381,68 @@ export const COMPATIBILITY_RULES: CompatibilityRule[] = [
   },
 ];
 
+/**
+ * Canonical MCP IDs per category, used by group rules matching on a category.
+ */
+export const MCP_CATEGORY_MEMBERS: Partial<Record<MCPCategory, string[]>> = {
+  database: ['mongodb-mcp', 'neon-mcp', 'planetscale-mcp', 'supabase-mcp', 'turso-mcp'],
+  orm: ['drizzle-mcp', 'prisma-mcp', 'typeorm-mcp'],
+  auth: ['auth0-mcp', 'clerk-mcp', 'lucia-mcp', 'supabase-auth-mcp'],
+  payments: ['lemonsqueezy-mcp', 'paddle-mcp', 'stripe-mcp'],
+  deployment: ['cloudflare-mcp', 'fly-mcp', 'netlify-mcp', 'railway-mcp', 'render-mcp', 'vercel-mcp'],
+  storage: ['r2-mcp', 's3-mcp', 'uploadthing-mcp'],
+  email: ['postmark-mcp', 'resend-mcp', 'sendgrid-mcp'],
+  'version-control': ['github-mcp', 'gitlab-mcp'],
+  ai: ['anthropic-mcp', 'context7-mcp', 'openai-mcp', 'perplexity-mcp'],
+  communication: ['discord-mcp', 'slack-mcp', 'telegram-mcp'],
+  monitoring: ['datadog-mcp', 'sentry-mcp'],
+  testing: ['playwright-mcp', 'puppeteer-mcp'],
+  documentation: ['confluence-mcp', 'notion-mcp', 'obsidian-mcp'],
+  general: ['brave-search-mcp', 'filesystem-mcp', 'sequential-thinking-mcp'],
+};
+
+/**
+ * Group rules.
+ * A violated 'at-most' rule replaces the pairwise conflicts and redundancies
+ * between its members, so N providers give one finding instead of nC2.
+ */
+export const GROUP_RULES: GroupRule[] = [
+  {
+    id: 'grp-db-001',
+    title: 'At most one database provider',
+    kind: 'at-most',
+    members: { category: 'database' },
+    limit: 1,
+    category: 'database',
+    severity: 'critical',
+    reason: 'Each extra database provider adds cost, credentials and data that has to be kept in sync.',
+    solution: 'Choose one database provider and move the other data into it.',
+  },
+  {
+    id: 'grp-orm-001',
+    title: 'At most one ORM',
+    kind: 'at-most',
+    members: { category: 'orm' },
+    limit: 1,
+    category: 'orm',
+    severity: 'warning',
+    reason: 'Several ORMs create inconsistent data access patterns and duplicate schema definitions.',
+    solution: 'Standardize on one ORM.',
+  },
+  {
+    id: 'grp-pay-001',
+    title: 'Stripe requires an email provider',
+    kind: 'requires',
+    members: { category: 'email' },
+    limit: 1,
+    when: ['stripe-mcp'],
+    category: 'payments',
+    severity: 'info',
+    reason: 'Stripe flows need transactional emails (receipts, invoices, failed payment notices).',
+    solution: 'Add an email MCP such as resend-mcp.',
+  },
+];
+
 /**
  * Get all rules (for initialization)
  */
@@ -386,6 +450,13 @@ export function getAllRules(): CompatibilityRule[] {
   return COMPATIBILITY_RULES;
 }
 
+/**
+ * Get all group rules (for initialization)
+ */
+export function getAllGroupRules(): GroupRule[] {
+  return GROUP_RULES;
+}
+
 /**
  * Get rules by category
  */
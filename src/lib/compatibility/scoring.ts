@@ -1,90 +1,86 @@
 /**
  * MCP Compatibility Scoring
  *
- * Health score calculation based on conflicts, redundancies, and synergies.
+ * Health score calculation based on conflicts, redundancies, synergies,
+ * conditional pairs and group rules.
  */
 
 import type {
   CompatibilityReport,
   CompatibilitySummary,
+  EffectiveScorePolicy,
+  EvaluatedConditional,
   Grade,
+  GroupFinding,
+  IgnoredFinding,
   MatchedRule,
+  McpServerEntries,
+  PenaltyKey,
+  ScorePolicy,
+  Severity,
   Suggestion,
 } from './types.js';
-import { checkAllPairs, getSuggestions, canonicalizeMcpId } from './utils.js';
+import { checkAllPairs, checkGroups, foldIntoGroups, getSuggestions, canonicalizeMcpId } from './utils.js';
+import { describeCondition, evaluateConditionals } from './conditions.js';
+import { DEFAULT_SCORE_POLICY } from './policy.js';
 import type { CompatibilityRule } from './types.js';
 
-/**
- * Scoring constants
- */
-const SCORE_PENALTIES = {
-  conflict_critical: -40,
-  conflict_warning: -20,
-  redundant_warning: -10,
-  redundant_info: -5,
-} as const;
-
-const SCORE_BONUSES = {
-  synergy: 5,
-  synergy_cap: 15,
-} as const;
-
-/**
- * Grade thresholds
- */
-const GRADE_THRESHOLDS = {
-  A: 90,
-  B: 75,
-  C: 55,
-} as const;
-
 /**
  * Calculate the health score from matched rules.
  *
- * Formula:
+ * Formula (default policy, see DEFAULT_SCORE_POLICY):
  * - Base: 100
- * - -40 per conflict (critical)
- * - -20 per conflict (warning)
- * - -10 per redundant (warning)
- * - -5 per redundant (info)
+ * - -40 / -20 / -5 per conflict (critical / warning / info)
+ * - -20 / -10 / -5 per redundant (critical / warning / info)
+ * - -20 / -10 / -5 per unsatisfied conditional (critical / warning / info)
+ * - -40 / -20 / -5 per violated group rule (critical / warning / info)
  * - +5 per synergy (cap +15)
  * - Clamp 0..100
  *
+ * Conditionals that are satisfied or unknown do not count.
+ *
  * @param conflicts - Array of conflict rules
  * @param redundancies - Array of redundancy rules
  * @param synergies - Array of synergy rules
+ * @param conditionals - Array of evaluated conditional rules
+ * @param groups - Array of violated group rules
+ * @param policy - Penalties and bonuses to apply
  * @returns Score between 0 and 100
  */
 export function calculateHealthScore(
   conflicts: MatchedRule[],
   redundancies: MatchedRule[],
-  synergies: MatchedRule[]
+  synergies: MatchedRule[],
+  conditionals: EvaluatedConditional[] = [],
+  groups: GroupFinding[] = [],
+  policy: ScorePolicy = DEFAULT_SCORE_POLICY
 ): number {
+  const { penalties, bonuses } = policy;
   let score = 100;
 
   // Apply conflict penalties
   for (const matched of conflicts) {
-    if (matched.rule.severity === 'critical') {
-      score += SCORE_PENALTIES.conflict_critical;
-    } else if (matched.rule.severity === 'warning') {
-      score += SCORE_PENALTIES.conflict_warning;
-    }
+    score += penalties[`conflict_${matched.rule.severity}`];
   }
 
   // Apply redundancy penalties
   for (const matched of redundancies) {
-    if (matched.rule.severity === 'warning') {
-      score += SCORE_PENALTIES.redundant_warning;
-    } else if (matched.rule.severity === 'info') {
-      score += SCORE_PENALTIES.redundant_info;
-    }
+    score += penalties[`redundant_${matched.rule.severity}`];
+  }
+
+  // Apply penalties for conditions the MCP config does not meet
+  for (const evaluated of conditionals) {
+    if (evaluated.status !== 'unsatisfied') continue;
+    score += penalties[`conditional_${evaluated.rule.severity}`];
+  }
+
+  // Apply group rule penalties (one per violated group)
+  for (const finding of groups) {
+    score += penalties[`group_${finding.rule.severity}`];
   }
 
   // Apply synergy bonuses (capped)
-  const synergyBonus = Math.min(
-    synergies.length * SCORE_BONUSES.synergy,
-    SCORE_BONUSES.synergy_cap
-  );
+  const synergyBonus = Math.min(synergies.length * bonuses.synergy, bonuses.synergyCap);
   score += synergyBonus;
 
   // Clamp to 0..100
@@ -94,38 +90,91 @@ export function calculateHealthScore(
 /**
  * Get grade from score.
  *
+ * Default bands:
  * - A: 90-100
  * - B: 75-89
  * - C: 55-74
  * - D: < 55
  */
-export function getGrade(score: number): Grade {
-  if (score >= GRADE_THRESHOLDS.A) return 'A';
-  if (score >= GRADE_THRESHOLDS.B) return 'B';
-  if (score >= GRADE_THRESHOLDS.C) return 'C';
+export function getGrade(score: number, grades: ScorePolicy['grades'] = DEFAULT_SCORE_POLICY.grades): Grade {
+  if (score >= grades.A) return 'A';
+  if (score >= grades.B) return 'B';
+  if (score >= grades.C) return 'C';
   return 'D';
 }
 
+/**
+ * Options of generateReport()
+ */
+export interface ReportOptions {
+  /** Server entries of the user's MCP config, to check conditional rules */
+  servers?: McpServerEntries;
+
+  /** Score policy (default: DEFAULT_SCORE_POLICY), echoed in the report */
+  policy?: EffectiveScorePolicy;
+}
+
 /**
  * Generate a full compatibility report for a set of MCPs.
  *
+ * The policy's severity overrides apply to matched rules before scoring;
+ * its ignored rules are left out of findings, score and suggestions (pairs
+ * covered by an ignored group rule are reported on their own again).
+ *
  * @param mcps - Array of MCP IDs to analyze
  * @param allRules - All compatibility rules (for suggestions)
+ * @param options - MCP config entries and score policy
  * @returns Full compatibility report
  */
 export function generateReport(
   mcps: string[],
-  allRules: CompatibilityRule[]
+  allRules: CompatibilityRule[],
+  options: ReportOptions = {}
 ): CompatibilityReport {
+  const policy = options.policy ?? { ...DEFAULT_SCORE_POLICY, sources: ['default'] };
+  const justifications = new Map(policy.ignore.map((i) => [i.ruleId, i.justification]));
+  const ignored: IgnoredFinding[] = [];
+
+  // Leave out ignored rules (recording what they matched), apply severity overrides
+  function applyPolicy<T extends { rule: { id: string; severity: Severity } }>(
+    findings: T[],
+    mcpsOf: (finding: T) => string[]
+  ): T[] {
+    return findings
+      .filter((finding) => {
+        const justification = justifications.get(finding.rule.id);
+        if (justification === undefined) return true;
+        ignored.push({ ruleId: finding.rule.id, justification, mcps: mcpsOf(finding) });
+        return false;
+      })
+      .map((finding) => {
+        const severity = policy.severityOverrides[finding.rule.id];
+        return severity ? { ...finding, rule: { ...finding.rule, severity } } : finding;
+      });
+  }
+  const pairMcps = (matched: MatchedRule) => [matched.inputA, matched.inputB];
+
   // Check all pairs
-  const { conflicts, redundancies, synergies } = checkAllPairs(mcps);
+  const pairs = checkAllPairs(mcps);
+  const synergies = applyPolicy(pairs.synergies, pairMcps);
+
+  // Check group rules; pairs inside a violated group are reported once, by the group
+  const groups = applyPolicy(checkGroups(mcps), (finding) => [...finding.triggeredBy, ...finding.members]);
+  const conflicts = applyPolicy(foldIntoGroups(pairs.conflicts, groups), pairMcps);
+  const redundancies = applyPolicy(foldIntoGroups(pairs.redundancies, groups), pairMcps);
+
+  // Check conditional rules against the MCP config
+  const conditionals = evaluateConditionals(applyPolicy(pairs.conditionals, pairMcps), options.servers);
 
   // Calculate score and grade
-  const score = calculateHealthScore(conflicts, redundancies, synergies);
-  const grade = getGrade(score);
+  const score = calculateHealthScore(conflicts, redundancies, synergies, conditionals, groups, policy);
+  const grade = getGrade(score, policy.grades);
 
   // Get suggestions based on synergies
-  const suggestions: Suggestion[] = getSuggestions(mcps, allRules);
+  const suggestions: Suggestion[] = getSuggestions(
+    mcps,
+    allRules.filter((rule) => !justifications.has(rule.id))
+  );
 
   // Build summary
   const summary: CompatibilitySummary = {
@@ -133,6 +182,8 @@ export function generateReport(
     conflicts: conflicts.length,
     redundancies: redundancies.length,
     synergies: synergies.length,
+    conditionals: conditionals.length,
+    groups: groups.length,
     score,
     grade,
   };
@@ -145,11 +196,33 @@ export function generateReport(
     conflicts,
     redundancies,
     synergies,
+    conditionals,
+    groups,
+    ignored,
     suggestions,
     analyzedMcps,
+    policy,
   };
 }
 
+/**
+ * Markers for condition check results
+ */
+const CONDITION_ICONS = {
+  satisfied: '✅',
+  unsatisfied: '❌',
+  unknown: '❔',
+} as const;
+
+/**
+ * Show which rule pack a rule comes from (built-in rules have none).
+ */
+function pushPackLine(lines: string[], rule: { pack?: string }): void {
+  if (rule.pack) {
+    lines.push(`- Pack: ${rule.pack}`);
+  }
+}
+
 /**
  * Format a compatibility report as Markdown.
  *
@@ -171,8 +244,35 @@ export function formatReportAsMarkdown(report: CompatibilityReport): string {
   lines.push(`| 🔴 Conflicts | ${report.summary.conflicts} |`);
   lines.push(`| 🟡 Redundancies | ${report.summary.redundancies} |`);
   lines.push(`| 🟢 Synergies | ${report.summary.synergies} |`);
+  lines.push(`| 🔵 Conditional | ${report.summary.conditionals} |`);
+  lines.push(`| 🟠 Group Rules | ${report.summary.groups} |`);
   lines.push('');
 
+  // Group rules
+  if (report.groups.length > 0) {
+    lines.push('### 🟠 Group Rules');
+    for (const finding of report.groups) {
+      const { rule, members, triggeredBy, replaces } = finding;
+      lines.push(`\n**${rule.title}** (${rule.severity})`);
+      if (rule.kind === 'at-most') {
+        lines.push(`- Found ${members.length} (at most ${rule.limit}): ${members.join(', ')}`);
+      } else {
+        const found = members.length > 0 ? `: ${members.join(', ')}` : '';
+        lines.push(`- ${triggeredBy.join(', ')} needs at least ${rule.limit}, found ${members.length}${found}`);
+      }
+      lines.push(`- Category: ${rule.category}`);
+      lines.push(`- Reason: ${rule.reason}`);
+      if (rule.solution) {
+        lines.push(`- Solution: ${rule.solution}`);
+      }
+      if (replaces.length > 0) {
+        lines.push(`- Covers pairwise rules: ${replaces.join(', ')}`);
+      }
+      pushPackLine(lines, rule);
+    }
+    lines.push('');
+  }
+
   // Conflicts
   if (report.conflicts.length > 0) {
     lines.push('### 🔴 Conflicts');
@@ -184,6 +284,7 @@ export function formatReportAsMarkdown(report: CompatibilityReport): string {
       if (rule.solution) {
         lines.push(`- Solution: ${rule.solution}`);
       }
+      pushPackLine(lines, rule);
     }
     lines.push('');
   }
@@ -199,6 +300,7 @@ export function formatReportAsMarkdown(report: CompatibilityReport): string {
       if (rule.solution) {
         lines.push(`- Solution: ${rule.solution}`);
       }
+      pushPackLine(lines, rule);
     }
     lines.push('');
   }
@@ -210,6 +312,37 @@ export function formatReportAsMarkdown(report: CompatibilityReport): string {
       const { rule, inputA, inputB } = matched;
       lines.push(`\n**${inputA} + ${inputB}**`);
       lines.push(`- ${rule.reason}`);
+      pushPackLine(lines, rule);
+    }
+    lines.push('');
+  }
+
+  // Conditionals
+  if (report.conditionals.length > 0) {
+    lines.push('### 🔵 Conditional');
+    for (const evaluated of report.conditionals) {
+      const { rule, inputA, inputB, status, checks } = evaluated;
+      lines.push(`\n**${inputA} + ${inputB}** (${status})`);
+      lines.push(`- Reason: ${rule.reason}`);
+      for (const check of checks) {
+        lines.push(`- ${CONDITION_ICONS[check.status]} ${check.mcp} ${describeCondition(check.condition)}: ${check.detail}`);
+      }
+      if (checks.length === 0) {
+        lines.push('- ❔ No machine-checkable condition; verify the setup manually');
+      }
+      if (rule.solution && status !== 'satisfied') {
+        lines.push(`- Solution: ${rule.solution}`);
+      }
+      pushPackLine(lines, rule);
+    }
+    lines.push('');
+  }
+
+  // Ignored rules
+  if (report.ignored.length > 0) {
+    lines.push('### ⚪ Ignored Rules');
+    for (const finding of report.ignored) {
+      lines.push(`- \`${finding.ruleId}\` (${finding.mcps.join(', ')}): ${finding.justification}`);
     }
     lines.push('');
   }
@@ -227,12 +360,38 @@ export function formatReportAsMarkdown(report: CompatibilityReport): string {
   if (
     report.conflicts.length === 0 &&
     report.redundancies.length === 0 &&
-    report.synergies.length === 0
+    report.synergies.length === 0 &&
+    report.conditionals.length === 0 &&
+    report.groups.length === 0
   ) {
     lines.push('\n✅ No compatibility issues found between the analyzed MCPs.');
     lines.push('');
   }
 
+  // Score policy (when not the default one)
+  const { policy } = report;
+  if (policy.sources.some((source) => source !== 'default')) {
+    const { grades, bonuses } = policy;
+    lines.push('### ⚖️ Score Policy');
+    lines.push(`- Sources: ${policy.sources.join(' → ')}`);
+    lines.push(`- Grades: A ≥ ${grades.A}, B ≥ ${grades.B}, C ≥ ${grades.C}`);
+    lines.push(`- Synergy bonus: +${bonuses.synergy} each (cap +${bonuses.synergyCap})`);
+    const changed = (Object.keys(policy.penalties) as PenaltyKey[]).filter(
+      (key) => policy.penalties[key] !== DEFAULT_SCORE_POLICY.penalties[key]
+    );
+    if (changed.length > 0) {
+      lines.push(`- Penalties: ${changed.map((key) => `${key} ${policy.penalties[key]}`).join(', ')}`);
+    }
+    const overrides = Object.entries(policy.severityOverrides);
+    if (overrides.length > 0) {
+      lines.push(`- Severity overrides: ${overrides.map(([id, severity]) => `${id} → ${severity}`).join(', ')}`);
+    }
+    if (policy.ignore.length > 0) {
+      lines.push(`- Ignored rules: ${policy.ignore.map((i) => i.ruleId).join(', ')}`);
+    }
+    lines.push('');
+  }
+
   return lines.join('\n');
 }
 
@@ -241,11 +400,14 @@ export function formatReportAsMarkdown(report: CompatibilityReport): string {
  */
 export function getReportSummaryLine(report: CompatibilityReport): string {
   const { summary } = report;
-  const issues = summary.conflicts + summary.redundancies;
+  const unmet = report.conditionals.filter((c) => c.status === 'unsatisfied').length;
+  const issues = summary.conflicts + summary.redundancies + unmet + summary.groups;
 
   if (issues === 0) {
     return `✅ All ${summary.total} MCPs are compatible (Score: ${summary.score}/100)`;
   }
 
-  return `⚠️ Found ${summary.conflicts} conflicts, ${summary.redundancies} redundancies among ${summary.total} MCPs (Score: ${summary.score}/100, Grade ${summary.grade})`;
+  const groupText = summary.groups > 0 ? `${summary.groups} group rule violations, ` : '';
+  const unmetText = unmet > 0 ? `, ${unmet} unmet conditions` : '';
+  return `⚠️ Found ${groupText}${summary.conflicts} conflicts, ${summary.redundancies} redundancies${unmetText} among ${summary.total} MCPs (Score: ${summary.score}/100, Grade ${summary.grade})`;
 }
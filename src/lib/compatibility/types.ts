@@ -29,18 +29,38 @@ export type MCPCategory = (typeof MCP_CATEGORIES)[number];
 
 /**
  * Compatibility status between two MCPs
+ * - 'compatible': No issues, can be used together
+ * - 'conflict': Should not be used together
+ * - 'redundant': Overlapping functionality
+ * - 'synergy': Work well together
+ * - 'conditional': Works with specific configuration
  */
-export type CompatibilityStatus =
-  | 'compatible' // No issues, can be used together
-  | 'conflict' // Should not be used together
-  | 'redundant' // Overlapping functionality
-  | 'synergy' // Work well together
-  | 'conditional'; // Works with specific configuration
+export const COMPATIBILITY_STATUSES = ['compatible', 'conflict', 'redundant', 'synergy', 'conditional'] as const;
+
+export type CompatibilityStatus = (typeof COMPATIBILITY_STATUSES)[number];
 
 /**
  * Severity levels for compatibility issues
  */
-export type Severity = 'critical' | 'warning' | 'info';
+export const SEVERITIES = ['critical', 'warning', 'info'] as const;
+
+export type Severity = (typeof SEVERITIES)[number];
+
+/**
+ * MCP transports a server entry can use
+ */
+export const MCP_TRANSPORTS = ['stdio', 'http', 'sse'] as const;
+
+export type McpTransport = (typeof MCP_TRANSPORTS)[number];
+
+/**
+ * Machine-checkable condition of a conditional rule.
+ * `mcp` names the MCP whose config entry must meet the condition;
+ * when omitted, both MCPs of the pair must meet it.
+ */
+export type RuleCondition =
+  | { type: 'env'; name: string; mcp?: string } // Env var set in the server entry
+  | { type: 'transport'; transport: McpTransport; mcp?: string }; // Server entry uses this transport
 
 /**
  * A single compatibility rule between two MCPs
@@ -90,6 +110,127 @@ export interface CompatibilityRule {
    * E.g., if user has stripe-mcp, suggest resend-mcp
    */
   suggestWhenMissing?: string[];
+
+  /**
+   * For conditional rules: what the MCP config must satisfy for the pair
+   * to work together.
+   */
+  conditions?: RuleCondition[];
+
+  /** Rule pack the rule comes from (undefined for built-in rules) */
+  pack?: string;
+}
+
+/**
+ * Kind of group rule
+ * - 'at-most': no more than `limit` members of the group together
+ * - 'requires': any `when` MCP needs at least `limit` members of the group
+ */
+export type GroupRuleKind = 'at-most' | 'requires';
+
+/**
+ * A compatibility rule over a group of MCPs (N-ary, not just pairs).
+ * Members are the MCPs of `members.category` plus `members.mcps`.
+ */
+export interface GroupRule {
+  /** Unique rule identifier (e.g., 'grp-db-001') */
+  id: string;
+
+  /** Short statement of the rule (e.g., 'At most one database provider') */
+  title: string;
+
+  kind: GroupRuleKind;
+
+  /** MCPs the rule counts */
+  members: {
+    category?: MCPCategory;
+    /** Canonical IDs */
+    mcps?: string[];
+  };
+
+  /** Maximum ('at-most') or minimum ('requires') number of members */
+  limit: number;
+
+  /** For 'requires' rules: MCPs that trigger the requirement (canonical IDs) */
+  when?: string[];
+
+  /** Category this rule belongs to */
+  category: MCPCategory;
+
+  /** Severity of a violation */
+  severity: Severity;
+
+  /** Human-readable explanation */
+  reason: string;
+
+  /** Suggested solution for a violation */
+  solution?: string;
+
+  /** Rule pack the rule comes from (undefined for built-in rules) */
+  pack?: string;
+}
+
+/**
+ * A user-supplied set of rules, group rules and aliases (e.g., for
+ * internal MCP servers). Packs override built-in rules for the same pair
+ * (or group rule ID); between packs, the higher priority wins.
+ */
+export interface RulePack {
+  /** Pack name (kebab-case), shown as the origin of its rules */
+  name: string;
+
+  /** Precedence over other packs (higher wins, default 0) */
+  priority: number;
+
+  description?: string;
+
+  /** Extra MCP aliases (alias → canonical ID) */
+  aliases: Record<string, string>;
+
+  rules: CompatibilityRule[];
+
+  groupRules: GroupRule[];
+}
+
+/**
+ * A definition replaced by a higher-precedence one when merging rule packs
+ */
+export interface RuleOverride {
+  /** What was overridden (e.g., 'pair deploy-mcp::vercel-mcp', 'group grp-db-001', 'alias deploy') */
+  target: string;
+
+  /** Pack whose definition won */
+  winner: string;
+
+  /** Pack whose definition was replaced ('built-in' for built-in rules) */
+  overridden: string;
+}
+
+/**
+ * Definitions that cannot be merged: same target at the same priority with
+ * different content, a rule ID used twice, or a duplicate pack name
+ */
+export interface RulePackConflict {
+  target: string;
+  packs: string[];
+  message: string;
+}
+
+/**
+ * A violated group rule
+ */
+export interface GroupFinding {
+  /** The group rule that was violated */
+  rule: GroupRule;
+
+  /** Members of the group among user's MCPs (user input IDs) */
+  members: string[];
+
+  /** For 'requires' rules: user's MCPs that triggered the rule (user input IDs) */
+  triggeredBy: string[];
+
+  /** IDs of the pairwise rules this finding replaces in the report */
+  replaces: string[];
 }
 
 /**
@@ -106,6 +247,53 @@ export interface MatchedRule {
   inputB: string;
 }
 
+/**
+ * Result of checking a condition against the MCP config
+ * - 'satisfied': the config meets the condition
+ * - 'unsatisfied': the config contradicts it
+ * - 'unknown': no config, no entry for the MCP, or nothing to check
+ */
+export type ConditionStatus = 'satisfied' | 'unsatisfied' | 'unknown';
+
+/**
+ * A server entry of an MCP config file (mcpServers / servers)
+ */
+export interface McpServerEntry {
+  command?: string;
+  args?: string[];
+  url?: string;
+  /** Explicit transport (e.g., 'stdio', 'sse', 'http', 'streamable-http') */
+  type?: string;
+  transport?: string;
+  env?: Record<string, string>;
+}
+
+/**
+ * Server entries keyed by their name in the config
+ */
+export type McpServerEntries = Record<string, McpServerEntry>;
+
+/**
+ * One condition checked for one MCP
+ */
+export interface ConditionCheck {
+  condition: RuleCondition;
+  /** Canonical ID of the MCP whose entry was checked */
+  mcp: string;
+  status: ConditionStatus;
+  /** Human-readable outcome (e.g., "DATABASE_URL not set") */
+  detail: string;
+}
+
+/**
+ * A conditional rule matched against user's MCPs, with its conditions checked
+ */
+export interface EvaluatedConditional extends MatchedRule {
+  /** 'unsatisfied' if any check is, else 'unknown' if any check is, else 'satisfied' */
+  status: ConditionStatus;
+  checks: ConditionCheck[];
+}
+
 /**
  * A suggestion based on synergy rules
  */
@@ -125,6 +313,69 @@ export interface Suggestion {
  */
 export type Grade = 'A' | 'B' | 'C' | 'D';
 
+/**
+ * Finding types that cost points
+ */
+export const PENALIZED_FINDINGS = ['conflict', 'redundant', 'conditional', 'group'] as const;
+
+/**
+ * Penalty table key (e.g., 'conflict_critical')
+ */
+export type PenaltyKey = `${(typeof PENALIZED_FINDINGS)[number]}_${Severity}`;
+
+/**
+ * A rule left out of the report and the score
+ */
+export interface IgnoredRule {
+  ruleId: string;
+
+  /** Why the rule does not apply (required) */
+  justification: string;
+}
+
+/**
+ * Health-score policy
+ */
+export interface ScorePolicy {
+  /** Points per finding (negative) by finding type and severity */
+  penalties: Record<PenaltyKey, number>;
+
+  /** Points per synergy, and the most synergies can add */
+  bonuses: { synergy: number; synergyCap: number };
+
+  /** Minimum score of grades A, B and C (below C is D) */
+  grades: { A: number; B: number; C: number };
+
+  /** Severity by rule ID (pair or group rules), replacing the rule's own */
+  severityOverrides: Record<string, Severity>;
+
+  /** Rules left out of the report and the score */
+  ignore: IgnoredRule[];
+}
+
+/**
+ * Where a score policy layer comes from
+ * - 'default': built-in policy
+ * - 'org': policy file of the organisation (STACKSFINDER_SCORE_POLICY)
+ * - 'call': policy passed with the request
+ */
+export type ScorePolicySource = 'default' | 'org' | 'call';
+
+/**
+ * Score policy in effect for a report, with the layers it was built from
+ */
+export interface EffectiveScorePolicy extends ScorePolicy {
+  sources: ScorePolicySource[];
+}
+
+/**
+ * A matched rule left out by the policy
+ */
+export interface IgnoredFinding extends IgnoredRule {
+  /** User's MCPs the rule matched (user input IDs) */
+  mcps: string[];
+}
+
 /**
  * Summary statistics for a compatibility report
  */
@@ -141,21 +392,27 @@ export interface CompatibilitySummary {
   /** Number of synergies found */
   synergies: number;
 
+  /** Number of conditional pairs found */
+  conditionals: number;
+
+  /** Number of violated group rules */
+  groups: number;
+
   /**
    * Health score (0-100)
-   * Formula:
+   * Formula (default policy, see DEFAULT_SCORE_POLICY):
    * - Base: 100
-   * - -40 per conflict (critical)
-   * - -20 per conflict (warning)
-   * - -10 per redundant (warning)
-   * - -5 per redundant (info)
+   * - -40 / -20 / -5 per conflict (critical / warning / info)
+   * - -20 / -10 / -5 per redundant (critical / warning / info)
+   * - -20 / -10 / -5 per unsatisfied conditional (critical / warning / info)
+   * - -40 / -20 / -5 per violated group rule (critical / warning / info)
    * - +5 per synergy (cap +15)
    * - Clamp 0..100
    */
   score: number;
 
   /**
-   * Grade based on score
+   * Grade based on score (default policy)
    * - A: 90-100
    * - B: 75-89
    * - C: 55-74
@@ -180,6 +437,18 @@ export interface CompatibilityReport {
   /** All synergies found */
   synergies: MatchedRule[];
 
+  /** Conditional pairs, with their conditions checked against the MCP config */
+  conditionals: EvaluatedConditional[];
+
+  /** Violated group rules (pairwise conflicts/redundancies inside a group are folded in) */
+  groups: GroupFinding[];
+
+  /** Matched rules left out by the score policy */
+  ignored: IgnoredFinding[];
+
+  /** Score policy the score and grade were computed with */
+  policy: EffectiveScorePolicy;
+
   /** Suggestions based on synergies */
   suggestions: Suggestion[];
 
@@ -4,7 +4,17 @@
  * Canonical matching utilities for consistent MCP identification.
  */
 
-import type { CompatibilityRule, MatchedRule } from './types.js';
+import type {
+  CompatibilityRule,
+  GroupFinding,
+  GroupRule,
+  MatchedRule,
+  RuleOverride,
+  RulePack,
+  RulePackConflict,
+} from './types.js';
+import { MCP_CATEGORY_MEMBERS } from './rules.js';
+import { mergeRulePacks } from './packs.js';
 
 /**
  * Aliases map for common MCP name variations.
@@ -114,6 +124,12 @@ export const MCP_ALIASES: Record<string, string> = {
   'brave-search': 'brave-search-mcp',
 };
 
+/**
+ * Aliases in effect: MCP_ALIASES plus rule pack aliases.
+ * Populated by initRulesIndex().
+ */
+let ALIASES: Record<string, string> = MCP_ALIASES;
+
 /**
  * Canonicalize an MCP ID to a consistent format.
  *
@@ -122,7 +138,14 @@ export const MCP_ALIASES: Record<string, string> = {
  */
 export function canonicalizeMcpId(id: string): string {
   const normalized = id.toLowerCase().trim();
-  return MCP_ALIASES[normalized] ?? normalized;
+  return ALIASES[normalized] ?? normalized;
+}
+
+/**
+ * Get the aliases in effect, rule pack aliases included.
+ */
+export function getMcpAliases(): Record<string, string> {
+  return ALIASES;
 }
 
 /**
@@ -146,18 +169,40 @@ export function pairKey(a: string, b: string): string {
  */
 let RULES_BY_PAIR: Map<string, CompatibilityRule> = new Map();
 
+/**
+ * Group rules checked by checkGroups().
+ * Populated by initRulesIndex().
+ */
+let GROUP_RULES: GroupRule[] = [];
+
 /**
  * Initialize the rules index from an array of rules.
- * Must be called before using findRule().
+ * Must be called before using findRule() or checkGroups().
+ *
+ * Rule packs are merged over the given rules (see mergeRulePacks): pack
+ * definitions override built-in ones, and higher-priority packs win.
  *
  * @param rules - Array of compatibility rules
+ * @param groupRules - Array of group rules
+ * @param packs - Rule packs, in load order
+ * @returns Definitions replaced by packs and definitions that could not be merged
  */
-export function initRulesIndex(rules: CompatibilityRule[]): void {
+export function initRulesIndex(
+  rules: CompatibilityRule[],
+  groupRules: GroupRule[] = [],
+  packs: RulePack[] = []
+): { overrides: RuleOverride[]; conflicts: RulePackConflict[] } {
+  const merged = mergeRulePacks({ rules, groupRules, aliases: MCP_ALIASES }, packs);
+
+  ALIASES = merged.aliases;
   RULES_BY_PAIR = new Map();
-  for (const rule of rules) {
+  for (const rule of merged.rules) {
     const key = pairKey(rule.mcpA, rule.mcpB);
     RULES_BY_PAIR.set(key, rule);
   }
+  GROUP_RULES = merged.groupRules;
+
+  return { overrides: merged.overrides, conflicts: merged.conflicts };
 }
 
 /**
@@ -167,6 +212,20 @@ export function getRulesIndex(): Map<string, CompatibilityRule> {
   return RULES_BY_PAIR;
 }
 
+/**
+ * Get the indexed rules, rule packs included (e.g., for suggestions).
+ */
+export function getIndexedRules(): CompatibilityRule[] {
+  return [...RULES_BY_PAIR.values()];
+}
+
+/**
+ * Get the indexed group rules, rule packs included.
+ */
+export function getIndexedGroupRules(): GroupRule[] {
+  return GROUP_RULES;
+}
+
 /**
  * Find a compatibility rule for two MCPs.
  * Order doesn't matter: findRule(A, B) === findRule(B, A)
@@ -246,6 +305,72 @@ export function checkAllPairs(mcps: string[]): {
   return { conflicts, redundancies, synergies, conditionals };
 }
 
+/**
+ * Canonical IDs of the MCPs a group rule counts.
+ */
+export function getGroupMembers(rule: GroupRule): Set<string> {
+  const category = rule.members.category ? MCP_CATEGORY_MEMBERS[rule.members.category] ?? [] : [];
+  return new Set([...category, ...(rule.members.mcps ?? [])].map(canonicalizeMcpId));
+}
+
+/**
+ * Check MCPs against the group rules.
+ * Duplicate inputs (same canonical ID) count once.
+ *
+ * @param mcps - Array of MCP IDs to check
+ * @returns One finding per violated group rule (with empty `replaces`)
+ */
+export function checkGroups(mcps: string[]): GroupFinding[] {
+  const inputs = new Map<string, string>();
+  for (const mcp of mcps) {
+    const canonical = canonicalizeMcpId(mcp);
+    if (!inputs.has(canonical)) inputs.set(canonical, mcp);
+  }
+
+  const findings: GroupFinding[] = [];
+  for (const rule of GROUP_RULES) {
+    const memberIds = getGroupMembers(rule);
+    const members = [...inputs].filter(([canonical]) => memberIds.has(canonical)).map(([, input]) => input);
+
+    if (rule.kind === 'at-most') {
+      if (members.length > rule.limit) {
+        findings.push({ rule, members, triggeredBy: [], replaces: [] });
+      }
+      continue;
+    }
+
+    const triggers = new Set((rule.when ?? []).map(canonicalizeMcpId));
+    const triggeredBy = [...inputs].filter(([canonical]) => triggers.has(canonical)).map(([, input]) => input);
+    if (triggeredBy.length > 0 && members.length < rule.limit) {
+      findings.push({ rule, members, triggeredBy, replaces: [] });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Fold pairwise findings into the violated 'at-most' group rules covering
+ * both MCPs of the pair. Records the folded rule IDs in the group's `replaces`.
+ *
+ * @param matched - Pairwise conflicts or redundancies
+ * @param groups - Violated group rules (from checkGroups)
+ * @returns The pairwise findings not covered by a group
+ */
+export function foldIntoGroups(matched: MatchedRule[], groups: GroupFinding[]): MatchedRule[] {
+  return matched.filter((pair) => {
+    const pairIds = [pair.inputA, pair.inputB].map(canonicalizeMcpId);
+    const group = groups.find((g) => {
+      const memberIds = g.members.map(canonicalizeMcpId);
+      return g.rule.kind === 'at-most' && pairIds.every((id) => memberIds.includes(id));
+    });
+    if (group && !group.replaces.includes(pair.rule.id)) {
+      group.replaces.push(pair.rule.id);
+    }
+    return !group;
+  });
+}
+
 /**
  * Get suggestions based on synergy rules.
  * If user has MCP A and rule says A+B is a synergy,
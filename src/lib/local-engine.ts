@@ -0,0 +1,206 @@
+/**
+ * Local Recommendation Engine
+ *
+ * Deterministic, offline counterpart of the remote scoring API: project
+ * priorities become dimension weights and documented constraint IDs become
+ * stack solver options (pinned, excluded and extra categories).
+ *
+ * Priority weights: every dimension starts at 1; each priority adds its
+ * boosts, scaled by its rank (1st ×1, 2nd ×0.75, 3rd ×0.5).
+ */
+
+import {
+  SCORE_DIMENSIONS,
+  getTechnologiesByCategory,
+  type Category,
+  type DimensionWeights,
+} from '../data/index.js';
+import type { Priority } from '../data/taxonomy.js';
+import { McpError, ErrorCode, findSimilar } from '../utils/errors.js';
+import { findConstraintConflicts } from './stack-solver.js';
+
+/**
+ * Extra weight per dimension for each priority (added to the base weight of 1).
+ */
+export const PRIORITY_WEIGHTS: Record<Priority, DimensionWeights> = {
+  'time-to-market': { dx: 2, ecosystem: 1 },
+  scalability: { perf: 2, maintain: 1 },
+  'developer-experience': { dx: 2 },
+  'cost-efficiency': { cost: 2 },
+  performance: { perf: 2 },
+  security: { compliance: 2, maintain: 1 },
+  maintainability: { maintain: 2, ecosystem: 1 },
+};
+
+/**
+ * Boost multiplier by priority rank.
+ */
+export const PRIORITY_RANK_FACTORS = [1, 0.75, 0.5] as const;
+
+/**
+ * Effect of a constraint ID on the stack search.
+ */
+export interface LocalConstraint {
+  description: string;
+  /** Technologies locked into their category */
+  pinned?: string[];
+  /** Technologies never proposed */
+  excluded?: string[];
+  /** Categories restricted to these technologies */
+  onlyIn?: Partial<Record<Category, string[]>>;
+  /** Categories added to the project type's categories */
+  categories?: Category[];
+  /** Extra dimension weight (added like priority boosts, unscaled) */
+  weights?: DimensionWeights;
+}
+
+/**
+ * Documented constraint IDs understood by the local engine
+ * (the same IDs generate_mcp_kit detects from descriptions).
+ */
+export const LOCAL_CONSTRAINTS: Record<string, LocalConstraint> = {
+  'must-use-postgresql': { description: 'Use PostgreSQL', pinned: ['postgres'] },
+  'must-use-mysql': { description: 'Use MySQL', pinned: ['mysql'] },
+  'must-use-mongodb': { description: 'Use MongoDB', pinned: ['mongodb'] },
+  'must-use-sqlite': { description: 'Use SQLite', pinned: ['sqlite'] },
+  'must-use-react': { description: 'Use React', pinned: ['react'] },
+  'must-use-vue': { description: 'Use Vue', pinned: ['vue'] },
+  'must-use-svelte': { description: 'Use Svelte', pinned: ['svelte'] },
+  'must-use-vercel': { description: 'Host on Vercel', pinned: ['vercel'] },
+  'must-use-cloudflare': { description: 'Host on Cloudflare', pinned: ['cloudflare'] },
+  'must-use-clerk': { description: 'Use Clerk for auth', pinned: ['clerk'] },
+  'must-use-auth0': { description: 'Use Auth0 for auth', pinned: ['auth0'] },
+  'must-use-stripe': { description: 'Use Stripe for payments', pinned: ['stripe'] },
+  'must-use-paddle': { description: 'Use Paddle for payments', pinned: ['paddle'] },
+  'self-hosted': {
+    description: 'Run on your own servers: no managed-only hosting, auth or database services',
+    onlyIn: { hosting: ['coolify', 'forge', 'ploi'] },
+    excluded: ['clerk', 'auth0', 'workos', 'kinde', 'firebase', 'convex', 'planetscale', 'neon', 'cloudflare-d1'],
+  },
+  'edge-deployment': {
+    description: 'Deploy to edge hosting; performance weighted higher',
+    onlyIn: { hosting: ['cloudflare', 'vercel', 'netlify', 'deno-deploy'] },
+    weights: { perf: 1 },
+  },
+  'needs-realtime': {
+    description: 'Real-time features: adds a cache / pub-sub layer; performance weighted higher',
+    categories: ['cache'],
+    weights: { perf: 1 },
+  },
+  'multi-tenant': {
+    description: 'Multi-tenant: auth required; compliance weighted higher',
+    categories: ['auth'],
+    weights: { compliance: 1 },
+  },
+  'ai-features': { description: 'AI features: adds an AI provider', categories: ['ai'] },
+};
+
+/**
+ * Solver inputs derived from priorities and constraint IDs.
+ */
+export interface LocalProfile {
+  /** Dimension weights (every dimension listed) */
+  weights: Required<DimensionWeights>;
+  pinned: string[];
+  excluded: string[];
+  /** Categories added by constraints */
+  categories: Category[];
+}
+
+/**
+ * Dimension weights for ranked priorities plus constraint boosts.
+ */
+export function resolvePriorityWeights(
+  priorities: Priority[],
+  constraintIds: string[] = [],
+): Required<DimensionWeights> {
+  const weights = Object.fromEntries(SCORE_DIMENSIONS.map((dim) => [dim, 1])) as Required<DimensionWeights>;
+
+  const unique = [...new Set(priorities)].slice(0, PRIORITY_RANK_FACTORS.length);
+  unique.forEach((priority, rank) => {
+    for (const [dim, boost] of Object.entries(PRIORITY_WEIGHTS[priority])) {
+      weights[dim as keyof DimensionWeights] += boost * PRIORITY_RANK_FACTORS[rank];
+    }
+  });
+
+  for (const id of constraintIds) {
+    for (const [dim, boost] of Object.entries(LOCAL_CONSTRAINTS[id]?.weights ?? {})) {
+      weights[dim as keyof DimensionWeights] += boost;
+    }
+  }
+
+  return weights;
+}
+
+/**
+ * Validate constraint IDs: unknown IDs and constraints that contradict each
+ * other (a pinned technology excluded by another constraint, two pins in one
+ * category or hard-incompatible pins) are returned as an error.
+ */
+export function checkLocalConstraints(constraintIds: string[]): McpError | null {
+  const known = Object.keys(LOCAL_CONSTRAINTS);
+  for (const id of constraintIds) {
+    if (!(id in LOCAL_CONSTRAINTS)) {
+      const similar = findSimilar(id, known);
+      return new McpError(ErrorCode.INVALID_INPUT, `Unknown constraint: "${id}"`, [
+        ...(similar.length > 0 ? [`Did you mean: ${similar.join(', ')}?`] : []),
+        `Supported constraints: ${known.join(', ')}`,
+      ]);
+    }
+  }
+
+  const conflicts: string[] = [];
+  const profile = resolveLocalProfile([], constraintIds);
+  for (const id of constraintIds) {
+    for (const techId of LOCAL_CONSTRAINTS[id].pinned ?? []) {
+      const excludedBy = constraintIds.find((other) => excludedTechIds(LOCAL_CONSTRAINTS[other]).includes(techId));
+      if (excludedBy) conflicts.push(`${id} conflicts with ${excludedBy} (${techId} is excluded)`);
+    }
+  }
+  conflicts.push(...findConstraintConflicts(profile.pinned));
+
+  if (conflicts.length > 0) {
+    return new McpError(ErrorCode.INVALID_INPUT, `Conflicting constraints: ${conflicts.join('; ')}`, [
+      'Remove one of the conflicting constraints.',
+    ]);
+  }
+
+  return null;
+}
+
+/**
+ * Technologies a constraint excludes, including everything outside its onlyIn sets.
+ */
+function excludedTechIds(constraint: LocalConstraint): string[] {
+  const excluded = [...(constraint.excluded ?? [])];
+  for (const [category, allowed] of Object.entries(constraint.onlyIn ?? {})) {
+    for (const tech of getTechnologiesByCategory(category as Category)) {
+      if (!allowed.includes(tech.id)) excluded.push(tech.id);
+    }
+  }
+  return excluded;
+}
+
+/**
+ * Combine priorities and (validated) constraint IDs into solver inputs.
+ */
+export function resolveLocalProfile(priorities: Priority[], constraintIds: string[]): LocalProfile {
+  const pinned = new Set<string>();
+  const excluded = new Set<string>();
+  const categories = new Set<Category>();
+
+  for (const id of constraintIds) {
+    const constraint = LOCAL_CONSTRAINTS[id];
+    if (!constraint) continue;
+    constraint.pinned?.forEach((techId) => pinned.add(techId));
+    excludedTechIds(constraint).forEach((techId) => excluded.add(techId));
+    constraint.categories?.forEach((category) => categories.add(category));
+  }
+
+  return {
+    weights: resolvePriorityWeights(priorities, constraintIds),
+    pinned: [...pinned],
+    excluded: [...excluded],
+    categories: [...categories],
+  };
+}
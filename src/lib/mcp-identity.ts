@@ -0,0 +1,258 @@
+/**
+ * MCP Identity Resolution
+ *
+ * Maps the servers of a real MCP config (keyed by arbitrary names such as
+ * "db" or "my-supabase") to the MCP IDs the compatibility rules know, from
+ * the package run by `command`/`args`, the `url` host, the name itself, and
+ * finally the closest known ID by edit distance.
+ */
+
+import {
+  CURATED_MCPS,
+  MCP_CATEGORY_MEMBERS,
+  canonicalizeMcpId,
+  getIndexedGroupRules,
+  getIndexedRules,
+  getMcpAliases,
+  type McpServerEntries,
+  type McpServerEntry,
+} from './compatibility/index.js';
+import { findSimilar, levenshteinDistance } from '../utils/errors.js';
+
+/**
+ * How an MCP ID was found.
+ */
+export type McpIdentityMethod = 'package' | 'url' | 'name' | 'fuzzy';
+
+/**
+ * Identity of one config server.
+ */
+export interface McpIdentity {
+  /** Server name in the config */
+  name: string;
+
+  /** Known MCP ID, or null when none was found */
+  mcpId: string | null;
+
+  method: McpIdentityMethod | null;
+
+  /** 0..1: package 0.95, url 0.9, name 0.85 (0.7 for part of it), fuzzy up to 0.75 */
+  confidence: number;
+
+  /** What matched (e.g., "@supabase/mcp-server-supabase", "mcp.neon.tech") */
+  evidence?: string;
+}
+
+/**
+ * Confidence of each method (fuzzy matches scale with similarity).
+ */
+const METHOD_CONFIDENCE = {
+  package: 0.95,
+  url: 0.9,
+  name: 0.85,
+  nameToken: 0.7,
+  fuzzy: 0.75,
+} as const;
+
+/**
+ * Fuzzy matches below this confidence are not used.
+ */
+export const MIN_FUZZY_CONFIDENCE = 0.5;
+
+/**
+ * Commands and subcommands that run a package rather than name it.
+ */
+const RUNNERS = new Set([
+  'npx', 'bunx', 'pnpx', 'uvx', 'pipx', 'pnpm', 'yarn', 'npm', 'bun', 'uv', 'dlx', 'exec', 'run', 'tool',
+  'docker', 'podman', 'node', 'deno', 'python', 'python3', 'cmd', 'cmd.exe', '/c',
+]);
+
+/**
+ * Host labels that say nothing about the provider (e.g., mcp.supabase.com).
+ */
+const GENERIC_HOST_LABELS = new Set(['www', 'mcp', 'api', 'app', 'server', 'servers', 'remote']);
+
+/**
+ * Affixes of MCP package names (e.g., mcp-server-supabase, github-mcp-server).
+ */
+const PACKAGE_AFFIXES = /^(mcp-server-|server-|mcp-)|(-mcp-server|-server|-mcp)$/;
+
+/**
+ * MCP IDs the rules and catalog know.
+ */
+function getKnownMcpIds(): Set<string> {
+  return new Set([
+    ...CURATED_MCPS,
+    ...Object.values(getMcpAliases()),
+    ...Object.values(MCP_CATEGORY_MEMBERS).flat(),
+    ...getIndexedRules().flatMap((rule) => [rule.mcpA, rule.mcpB]),
+    ...getIndexedGroupRules().flatMap((rule) => [...(rule.members.mcps ?? []), ...(rule.when ?? [])]),
+  ]);
+}
+
+/**
+ * Strip MCP affixes from a package or server name, e.g. "mcp-server-supabase" -> "supabase".
+ */
+function stripAffixes(name: string): string {
+  let stripped = name;
+  while (PACKAGE_AFFIXES.test(stripped) && stripped.replace(PACKAGE_AFFIXES, '')) {
+    stripped = stripped.replace(PACKAGE_AFFIXES, '');
+  }
+  return stripped;
+}
+
+/**
+ * Package run by a server entry, e.g. `npx -y @supabase/mcp-server-supabase@latest`
+ * -> "@supabase/mcp-server-supabase". Docker images lose registry and tag.
+ */
+export function extractPackage(entry: McpServerEntry): string | undefined {
+  const tokens = [entry.command, ...(Array.isArray(entry.args) ? entry.args : [])].filter(
+    (token): token is string => typeof token === 'string' && token.trim() !== '',
+  );
+
+  for (const token of tokens) {
+    // Skip flags, env assignments and env var names (e.g., docker run -e GITHUB_TOKEN)
+    if (/^-|=|^[A-Z][A-Z0-9_]*$/.test(token.trim())) continue;
+    const value = token.trim().toLowerCase();
+    const base = value.split(/[\\/]/).pop() ?? value;
+    if (RUNNERS.has(value) || RUNNERS.has(base)) continue;
+
+    // Scoped npm package, with an optional version
+    const scoped = /^(@[a-z0-9._-]+\/[a-z0-9._-]+)(@[^/]*)?$/.exec(value);
+    if (scoped) return scoped[1];
+
+    // Docker image (registry/owner/name:tag) or executable path: keep the last segment
+    return (
+      base
+        .replace(/[:@].*$/, '')
+        .replace(/\.(m?js|cjs|ts|py|exe)$/, '')
+        .replace(/_/g, '-') || undefined
+    );
+  }
+  return undefined;
+}
+
+/**
+ * Candidate IDs for a package, most specific first:
+ * "@supabase/mcp-server-supabase" -> itself, "mcp-server-supabase", "supabase".
+ * The scope only counts when the name is generic (e.g., "@stripe/mcp" -> "stripe").
+ */
+function packageCandidates(pkg: string): string[] {
+  const [scope, name] = pkg.startsWith('@') ? pkg.slice(1).split('/') : [undefined, pkg];
+  const generic = /^(mcp|server|mcp-server)$/.test(name);
+  return [...new Set([pkg, name, stripAffixes(name), ...(scope && generic ? [stripAffixes(scope)] : [])])];
+}
+
+/**
+ * Host of a server URL, unless local (localhost or an IP address).
+ */
+function remoteHost(url: string): string | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+  return hostname === 'localhost' || /^[\d.]+$|^\[/.test(hostname) ? undefined : hostname;
+}
+
+/**
+ * Candidate IDs for a host: its provider labels, e.g. "mcp.neon.tech" -> "neon".
+ */
+function hostCandidates(hostname: string): string[] {
+  return hostname
+    .split('.')
+    .slice(0, -1)
+    .filter((label) => !GENERIC_HOST_LABELS.has(label))
+    .reverse();
+}
+
+/**
+ * Resolve the MCP ID of one config server.
+ *
+ * Order: package run by `command`/`args`, `url` host, the server name
+ * (whole, then its parts, e.g. "my-supabase" -> "supabase"), and finally
+ * the closest known ID or alias (findSimilar), with confidence scaled by
+ * similarity.
+ *
+ * Needs the rules index (see initRulesIndex), for pack aliases and rules.
+ *
+ * @param name - Server name in the config
+ * @param entry - Server entry (command, args, url)
+ * @returns The identity; mcpId is null when nothing matched
+ */
+export function resolveMcpIdentity(name: string, entry: McpServerEntry = {}): McpIdentity {
+  const known = getKnownMcpIds();
+  const lookup = (candidate: string): string | undefined => {
+    const canonical = canonicalizeMcpId(candidate);
+    if (known.has(canonical)) return canonical;
+    if (known.has(`${canonical}-mcp`)) return `${canonical}-mcp`;
+    return undefined;
+  };
+  const match = (
+    candidates: string[],
+    method: McpIdentityMethod,
+    confidence: number,
+    evidence: string,
+  ): McpIdentity | undefined => {
+    for (const candidate of candidates) {
+      const mcpId = lookup(candidate);
+      if (mcpId) return { name, mcpId, method, confidence, evidence };
+    }
+    return undefined;
+  };
+
+  const pkg = extractPackage(entry);
+  const host = typeof entry.url === 'string' ? remoteHost(entry.url) : undefined;
+  const fromUrl = host ? hostCandidates(host) : [];
+  const normalized = name.toLowerCase().trim();
+  const nameTokens = normalized.split(/[^a-z0-9]+/).filter((token) => token.length > 1);
+
+  const identity =
+    (pkg && match(packageCandidates(pkg), 'package', METHOD_CONFIDENCE.package, pkg)) ||
+    (host && match(fromUrl, 'url', METHOD_CONFIDENCE.url, host)) ||
+    match([normalized, stripAffixes(normalized)], 'name', METHOD_CONFIDENCE.name, name) ||
+    match(nameTokens, 'name', METHOD_CONFIDENCE.nameToken, name);
+  if (identity) return identity;
+
+  // Closest known ID or alias, over every candidate
+  const targets = [...known, ...Object.keys(getMcpAliases())];
+  const candidates = [
+    ...(pkg ? packageCandidates(pkg).slice(1) : []),
+    ...fromUrl,
+    stripAffixes(normalized),
+    ...nameTokens,
+  ].filter((candidate) => candidate.length > 2);
+  let best: McpIdentity = { name, mcpId: null, method: null, confidence: 0 };
+  for (const candidate of new Set(candidates)) {
+    for (const similar of findSimilar(candidate, targets, 1)) {
+      const similarity = 1 - levenshteinDistance(candidate, similar) / Math.max(candidate.length, similar.length);
+      const confidence = Math.round(similarity * METHOD_CONFIDENCE.fuzzy * 100) / 100;
+      if (confidence >= MIN_FUZZY_CONFIDENCE && confidence > best.confidence) {
+        best = { name, mcpId: canonicalizeMcpId(similar), method: 'fuzzy', confidence, evidence: candidate };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Resolve every server of an MCP config (see resolveMcpIdentity).
+ */
+export function resolveMcpIdentities(servers: McpServerEntries): McpIdentity[] {
+  return Object.entries(servers).map(([name, entry]) => resolveMcpIdentity(name, entry));
+}
+
+/**
+ * Key server entries by resolved MCP ID (unresolved servers keep their name),
+ * so compatibility conditions find the entry of each MCP.
+ * The first server resolving to an ID wins.
+ */
+export function keyServersByMcpId(servers: McpServerEntries, identities: McpIdentity[]): McpServerEntries {
+  const keyed: McpServerEntries = {};
+  for (const identity of identities) {
+    const key = identity.mcpId ?? identity.name;
+    if (!(key in keyed)) keyed[key] = servers[identity.name];
+  }
+  return keyed;
+}
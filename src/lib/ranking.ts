@@ -0,0 +1,188 @@
+/**
+ * Ranking Analysis
+ *
+ * Multi-criteria helpers for comparing technologies beyond a single score:
+ * - Dominance: A dominates B when A scores at least as high on every
+ *   dimension and higher on at least one. Technologies no other candidate
+ *   dominates are Pareto-optimal: picking anything else gives up some
+ *   dimension.
+ * - Trade-offs: the largest dimension gap gained and conceded between two
+ *   options that do not dominate each other.
+ * - Clustering: technologies with similar six-dimension profiles are grouped
+ *   by average-linkage agglomerative clustering on the Euclidean distance
+ *   between score vectors, merging until the closest clusters are more than
+ *   CLUSTER_DISTANCE apart.
+ */
+
+import { DIMENSION_LABELS, SCORE_DIMENSIONS, type ScoreDimension, type Scores } from '../data/index.js';
+
+/**
+ * Maximum average distance between two score vectors for their clusters to
+ * merge (about 8 points per dimension).
+ */
+export const CLUSTER_DISTANCE = 20;
+
+/**
+ * Centroid dimensions this far above (or below) the group mean describe a cluster.
+ */
+export const PROFILE_MARGIN = 5;
+
+/**
+ * A technology with its dimension scores.
+ */
+export interface ScoredItem {
+  id: string;
+  scores: Scores;
+}
+
+/**
+ * A group of technologies with similar profiles.
+ */
+export interface ProfileCluster {
+  /** Member IDs, in input order */
+  members: string[];
+  /** Mean score per dimension, rounded */
+  centroid: Scores;
+  /** Dimensions where the centroid is above the group mean by PROFILE_MARGIN or more, strongest first */
+  strengths: ScoreDimension[];
+  /** Dimensions where the centroid is below the group mean by PROFILE_MARGIN or more, weakest first */
+  weaknesses: ScoreDimension[];
+}
+
+/**
+ * True when `a` scores at least as high as `b` on every dimension and higher on one.
+ */
+export function dominates(a: Scores, b: Scores, dimensions: readonly ScoreDimension[] = SCORE_DIMENSIONS): boolean {
+  let better = false;
+  for (const dim of dimensions) {
+    if (a[dim] < b[dim]) return false;
+    if (a[dim] > b[dim]) better = true;
+  }
+  return better;
+}
+
+/**
+ * IDs of the items dominating each item (empty for Pareto-optimal items).
+ */
+export function findDominators(
+  items: ScoredItem[],
+  dimensions: readonly ScoreDimension[] = SCORE_DIMENSIONS,
+): Map<string, string[]> {
+  const dominators = new Map<string, string[]>();
+  for (const item of items) {
+    dominators.set(
+      item.id,
+      items.filter((other) => other !== item && dominates(other.scores, item.scores, dimensions)).map((o) => o.id),
+    );
+  }
+  return dominators;
+}
+
+/**
+ * Largest dimension gaps between two options: what `a` gains over `b` and
+ * what it concedes to `b` (null when `a` is never ahead or never behind).
+ */
+export interface TradeOff {
+  gains: { dimension: ScoreDimension; points: number } | null;
+  concedes: { dimension: ScoreDimension; points: number } | null;
+}
+
+/**
+ * Trade-off of choosing `a` over `b`. Ties in gap size go to the first dimension.
+ */
+export function findTradeOff(a: Scores, b: Scores, dimensions: readonly ScoreDimension[] = SCORE_DIMENSIONS): TradeOff {
+  const tradeOff: TradeOff = { gains: null, concedes: null };
+  for (const dimension of dimensions) {
+    const gap = a[dimension] - b[dimension];
+    if (gap > 0 && gap > (tradeOff.gains?.points ?? 0)) {
+      tradeOff.gains = { dimension, points: gap };
+    } else if (gap < 0 && -gap > (tradeOff.concedes?.points ?? 0)) {
+      tradeOff.concedes = { dimension, points: -gap };
+    }
+  }
+  return tradeOff;
+}
+
+/**
+ * Euclidean distance between two score vectors.
+ */
+export function profileDistance(a: Scores, b: Scores): number {
+  return Math.sqrt(SCORE_DIMENSIONS.reduce((sum, dim) => sum + (a[dim] - b[dim]) ** 2, 0));
+}
+
+/**
+ * Mean score per dimension, rounded.
+ */
+function meanScores(scores: Scores[]): Scores {
+  return Object.fromEntries(
+    SCORE_DIMENSIONS.map((dim) => [dim, Math.round(scores.reduce((sum, s) => sum + s[dim], 0) / scores.length)]),
+  ) as unknown as Scores;
+}
+
+/**
+ * Group items with similar profiles. Clusters are returned largest first
+ * (ties in input order of their first member).
+ */
+export function clusterByProfile(items: ScoredItem[], maxDistance = CLUSTER_DISTANCE): ProfileCluster[] {
+  if (items.length === 0) return [];
+
+  const distance = items.map((a) => items.map((b) => profileDistance(a.scores, b.scores)));
+  let groups = items.map((_, i) => [i]);
+
+  const linkage = (x: number[], y: number[]): number => {
+    let sum = 0;
+    for (const i of x) for (const j of y) sum += distance[i][j];
+    return sum / (x.length * y.length);
+  };
+
+  while (groups.length > 1) {
+    let best: { x: number; y: number; distance: number } | null = null;
+    for (let x = 0; x < groups.length; x++) {
+      for (let y = x + 1; y < groups.length; y++) {
+        const d = linkage(groups[x], groups[y]);
+        if (!best || d < best.distance) best = { x, y, distance: d };
+      }
+    }
+    if (!best || best.distance > maxDistance) break;
+
+    const merged = [...groups[best.x], ...groups[best.y]].sort((a, b) => a - b);
+    groups = groups.filter((_, i) => i !== best!.x && i !== best!.y);
+    groups.push(merged);
+    groups.sort((a, b) => a[0] - b[0]);
+  }
+
+  const mean = meanScores(items.map((item) => item.scores));
+  return groups
+    .sort((a, b) => b.length - a.length || a[0] - b[0])
+    .map((group) => {
+      const centroid = meanScores(group.map((i) => items[i].scores));
+      const deltas = SCORE_DIMENSIONS.map((dim) => ({ dim, delta: centroid[dim] - mean[dim] }));
+      return {
+        members: group.map((i) => items[i].id),
+        centroid,
+        strengths: deltas
+          .filter((d) => d.delta >= PROFILE_MARGIN)
+          .sort((a, b) => b.delta - a.delta)
+          .map((d) => d.dim),
+        weaknesses: deltas
+          .filter((d) => d.delta <= -PROFILE_MARGIN)
+          .sort((a, b) => a.delta - b.delta)
+          .map((d) => d.dim),
+      };
+    });
+}
+
+/**
+ * Short profile description from the top two strengths and weaknesses
+ * (e.g., "strong Performance, Cost Efficiency; weak Ecosystem").
+ */
+export function describeCluster(cluster: ProfileCluster): string {
+  const parts: string[] = [];
+  if (cluster.strengths.length > 0) {
+    parts.push(`strong ${cluster.strengths.slice(0, 2).map((d) => DIMENSION_LABELS[d]).join(', ')}`);
+  }
+  if (cluster.weaknesses.length > 0) {
+    parts.push(`weak ${cluster.weaknesses.slice(0, 2).map((d) => DIMENSION_LABELS[d]).join(', ')}`);
+  }
+  return parts.length > 0 ? parts.join('; ') : 'balanced';
+}
@@ -0,0 +1,103 @@
+/**
+ * Compatibility Rule Pack Loader
+ *
+ * Reads rule packs (*.json, *.yaml, *.yml) from a config directory (path from
+ * STACKSFINDER_RULES_DIR), validates them and checks that they merge with the
+ * built-in rules. The MCP compatibility tools index the loaded packs.
+ *
+ * Files are read in name order; a pack without `name` is named after its file.
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import {
+  MCP_ALIASES,
+  getAllGroupRules,
+  getAllRules,
+  mergeRulePacks,
+  parseRulePack,
+  type RulePack,
+} from './compatibility/index.js';
+import { McpError, ErrorCode } from '../utils/errors.js';
+import { info } from '../utils/logger.js';
+
+const PACK_FILE_PATTERN = /\.(json|ya?ml)$/i;
+
+let loadedPacks: RulePack[] = [];
+
+/**
+ * Read and validate one pack file.
+ * Throws a CONFIG_ERROR listing every issue found.
+ */
+export function readRulePackFile(filePath: string): RulePack {
+  let raw: unknown;
+  try {
+    const content = readFileSync(filePath, 'utf-8');
+    raw = /\.json$/i.test(filePath) ? JSON.parse(content) : parseYaml(content);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new McpError(ErrorCode.CONFIG_ERROR, `Cannot read rule pack at ${filePath}: ${message}`);
+  }
+
+  const fallbackName = path.basename(filePath).replace(PACK_FILE_PATTERN, '').toLowerCase();
+  const { pack, issues } = parseRulePack(raw, fallbackName);
+  if (!pack) {
+    throw new McpError(ErrorCode.CONFIG_ERROR, `Invalid rule pack (${filePath}): ${issues.join('; ')}`);
+  }
+  return pack;
+}
+
+/**
+ * Load every pack in a directory and register them for the compatibility tools.
+ * Throws a CONFIG_ERROR when a pack is invalid or packs conflict.
+ */
+export function loadRulePacks(dir: string): RulePack[] {
+  let files: string[];
+  try {
+    files = readdirSync(dir)
+      .filter((file) => PACK_FILE_PATTERN.test(file))
+      .sort();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new McpError(ErrorCode.CONFIG_ERROR, `Cannot read rule pack directory ${dir}: ${message}`);
+  }
+
+  const packs = files.map((file) => readRulePackFile(path.join(dir, file)));
+
+  const { overrides, conflicts } = mergeRulePacks(
+    { rules: getAllRules(), groupRules: getAllGroupRules(), aliases: MCP_ALIASES },
+    packs,
+  );
+  if (conflicts.length > 0) {
+    throw new McpError(
+      ErrorCode.CONFIG_ERROR,
+      `Conflicting rule packs in ${dir}: ${conflicts
+        .map((c) => `${c.target} (${c.packs.join(', ')}): ${c.message}`)
+        .join('; ')}`,
+    );
+  }
+
+  loadedPacks = packs;
+  const count = (key: 'rules' | 'groupRules') => packs.reduce((sum, pack) => sum + pack[key].length, 0);
+  info(
+    `Loaded ${packs.length} rule packs from ${dir} (${count('rules')} rules, ${count('groupRules')} group rules, ` +
+      `${overrides.length} overrides)`,
+  );
+
+  return packs;
+}
+
+/**
+ * Rule packs loaded by loadRulePacks() (none by default).
+ */
+export function getRulePacks(): RulePack[] {
+  return loadedPacks;
+}
+
+/**
+ * Forget loaded packs (useful for testing).
+ */
+export function resetRulePacks(): void {
+  loadedPacks = [];
+}
@@ -0,0 +1,98 @@
+/**
+ * Organisation Score Policy Loader
+ *
+ * Reads the organisation's health-score policy (a JSON or YAML file, path from
+ * STACKSFINDER_SCORE_POLICY) and validates it. The MCP compatibility tools
+ * layer it over the default policy, under any policy passed per call.
+ */
+
+import { readFileSync } from 'node:fs';
+import { parse as parseYaml } from 'yaml';
+import {
+  ScorePolicyInputSchema,
+  getIndexedGroupRules,
+  getIndexedRules,
+  resolveScorePolicy,
+  type EffectiveScorePolicy,
+  type ScorePolicyInput,
+  type ScorePolicySource,
+} from './compatibility/index.js';
+import { McpError, ErrorCode } from '../utils/errors.js';
+import { info } from '../utils/logger.js';
+
+let orgPolicy: ScorePolicyInput | undefined;
+
+/**
+ * Load the organisation policy and register it for the compatibility tools.
+ * Throws a CONFIG_ERROR listing every issue found.
+ */
+export function loadScorePolicy(filePath: string): ScorePolicyInput {
+  let raw: unknown;
+  try {
+    const content = readFileSync(filePath, 'utf-8');
+    raw = /\.json$/i.test(filePath) ? JSON.parse(content) : parseYaml(content);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new McpError(ErrorCode.CONFIG_ERROR, `Cannot read score policy at ${filePath}: ${message}`);
+  }
+
+  const parsed = ScorePolicyInputSchema.safeParse(raw ?? {});
+  const issues = parsed.success
+    ? resolveScorePolicy([{ source: 'org', policy: parsed.data }]).issues
+    : parsed.error.errors.map((e) => `${e.path.join('.') || '(root)'}: ${e.message}`);
+  if (!parsed.success || issues.length > 0) {
+    throw new McpError(ErrorCode.CONFIG_ERROR, `Invalid score policy (${filePath}): ${issues.join('; ')}`);
+  }
+
+  orgPolicy = parsed.data;
+  info(
+    `Loaded score policy from ${filePath} (${Object.keys(orgPolicy.severityOverrides ?? {}).length} severity overrides, ` +
+      `${orgPolicy.ignore?.length ?? 0} ignored rules)`,
+  );
+
+  return orgPolicy;
+}
+
+/**
+ * Organisation policy loaded by loadScorePolicy() (none by default).
+ */
+export function getOrgScorePolicy(): ScorePolicyInput | undefined {
+  return orgPolicy;
+}
+
+/**
+ * Build the effective policy of a compatibility check: the organisation
+ * policy, then the policy passed with the call.
+ * Rule IDs are checked against the indexed rules (initialize the index first).
+ *
+ * @param callPolicy - Policy passed with the call
+ * @returns The effective policy, or the issues found
+ */
+export function resolveEffectiveScorePolicy(
+  callPolicy?: ScorePolicyInput,
+): { policy: EffectiveScorePolicy; issues: [] } | { policy?: undefined; issues: string[] } {
+  const layers: { source: ScorePolicySource; policy: ScorePolicyInput }[] = [];
+  if (orgPolicy) layers.push({ source: 'org', policy: orgPolicy });
+  if (callPolicy) layers.push({ source: 'call', policy: callPolicy });
+
+  const resolved = resolveScorePolicy(layers);
+  if (!resolved.policy) return resolved;
+
+  const ruleIds = new Set([...getIndexedRules(), ...getIndexedGroupRules()].map((rule) => rule.id));
+  const unknown = [
+    ...Object.keys(resolved.policy.severityOverrides).map((id) => ['severityOverrides', id]),
+    ...resolved.policy.ignore.map(({ ruleId }) => ['ignore', ruleId]),
+  ].filter(([, id]) => !ruleIds.has(id));
+  if (unknown.length > 0) {
+    return { issues: unknown.map(([field, id]) => `${field}: unknown rule ID "${id}"`) };
+  }
+
+  return resolved;
+}
+
+/**
+ * Forget the loaded policy (useful for testing).
+ */
+export function resetScorePolicy(): void {
+  orgPolicy = undefined;
+}
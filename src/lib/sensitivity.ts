@@ -0,0 +1,186 @@
+/**
+ * Recommendation Sensitivity
+ *
+ * How firmly each pick of a recommended stack holds on the scores alone:
+ * - Margin: weighted score of the pick minus that of the runner-up, the best
+ *   other candidate of the category that could replace it (not avoided and
+ *   not hard-incompatible with another pick).
+ * - Flip: the smallest change to a single dimension weight (within 0-10, or
+ *   0 to the current weight when it is higher) after which another
+ *   candidate outscores the pick.
+ *
+ * Compatibility bonuses are not re-evaluated, so a flip means the pick loses
+ * its score lead, not necessarily its place in the stack.
+ */
+
+import {
+  SCORE_DIMENSIONS,
+  calculateWeightedScore,
+  getCompatibility,
+  getScores,
+  getTechnologiesByCategory,
+  type Category,
+  type Context,
+  type DimensionWeights,
+  type ScoreDimension,
+  type Scores,
+} from '../data/index.js';
+
+/**
+ * Margin below which a pick is a coin flip (same threshold as compare_techs ties).
+ */
+export const COIN_FLIP_MARGIN = 3;
+
+/**
+ * Margin from which a pick is robust.
+ */
+export const ROBUST_MARGIN = 10;
+
+/**
+ * Highest weight a flip may reach (unless the current weight is higher).
+ */
+const MAX_WEIGHT = 10;
+
+/**
+ * - pinned: locked by the caller, not compared
+ * - uncontested: no other candidate could replace the pick
+ * - compatibility: a candidate scores higher, the pick wins on compatibility
+ * - coin-flip / close / robust: by margin (COIN_FLIP_MARGIN, ROBUST_MARGIN)
+ */
+export type SensitivityVerdict = 'pinned' | 'uncontested' | 'compatibility' | 'coin-flip' | 'close' | 'robust';
+
+/**
+ * Smallest single-weight change that hands the lead to another candidate.
+ */
+export interface WeightFlip {
+  dimension: ScoreDimension;
+  from: number;
+  to: number;
+  /** Candidate that takes the lead */
+  newLeader: string;
+}
+
+/**
+ * Sensitivity of one category pick.
+ */
+export interface CategorySensitivity {
+  category: Category;
+  pick: string;
+  runnerUp: string | null;
+  /** Weighted score of the pick minus the runner-up's (null when pinned or uncontested) */
+  margin: number | null;
+  verdict: SensitivityVerdict;
+  flip: WeightFlip | null;
+}
+
+/**
+ * Sensitivity options.
+ */
+export interface SensitivityOptions {
+  context: Context;
+  dimensionWeights?: DimensionWeights;
+  pinned?: string[];
+  excluded?: string[];
+}
+
+/**
+ * Lead of `pick` over `rival` as a weighted sum of dimension gaps (same sign
+ * as the difference of their weighted scores).
+ */
+function weightedLead(pick: Scores, rival: Scores, weights: Record<ScoreDimension, number>): number {
+  return SCORE_DIMENSIONS.reduce((sum, dim) => sum + weights[dim] * (pick[dim] - rival[dim]), 0);
+}
+
+/**
+ * Weight on `dimension` after which `rival` outscores `pick`, or null when no
+ * weight within range does it. Targets are rounded to 0.1 in the flipping
+ * direction.
+ */
+function findFlipWeight(
+  pick: Scores,
+  rival: Scores,
+  weights: Record<ScoreDimension, number>,
+  dimension: ScoreDimension,
+): number | null {
+  const lead = weightedLead(pick, rival, weights);
+  const gap = pick[dimension] - rival[dimension];
+  if (lead < 0 || gap === 0) return null;
+
+  // At `exact` both tie: raise the weight past it when the rival is ahead on
+  // the dimension, lower it otherwise
+  const exact = (weights[dimension] - lead / gap) * 10;
+  const target = (gap < 0 ? Math.floor(exact + 1e-9) + 1 : Math.ceil(exact - 1e-9) - 1) / 10;
+  if (target < 0 || target > Math.max(MAX_WEIGHT, weights[dimension])) return null;
+
+  const totalWeight = SCORE_DIMENSIONS.reduce((sum, dim) => sum + weights[dim], 0) - weights[dimension] + target;
+  return totalWeight > 0 ? target : null;
+}
+
+/**
+ * Analyze every pick of a stack.
+ */
+export function analyzeSensitivity(
+  picks: Array<{ category: Category; techId: string }>,
+  options: SensitivityOptions,
+): CategorySensitivity[] {
+  const pinned = options.pinned ?? [];
+  const excluded = new Set(options.excluded ?? []);
+  const weights = Object.fromEntries(
+    SCORE_DIMENSIONS.map((dim) => [dim, options.dimensionWeights?.[dim] ?? 1]),
+  ) as Record<ScoreDimension, number>;
+
+  return picks.map(({ category, techId }) => {
+    const result: CategorySensitivity = {
+      category,
+      pick: techId,
+      runnerUp: null,
+      margin: null,
+      verdict: 'uncontested',
+      flip: null,
+    };
+    if (pinned.includes(techId)) return { ...result, verdict: 'pinned' };
+
+    const pickScores = getScores(techId, options.context);
+    if (!pickScores) return result;
+
+    const others = picks.filter((p) => p.category !== category);
+    const rivals = getTechnologiesByCategory(category).flatMap((tech) => {
+      if (tech.id === techId || excluded.has(tech.id)) return [];
+      if (others.some((other) => getCompatibility(tech.id, other.techId) === 0)) return [];
+      const scores = getScores(tech.id, options.context);
+      return scores ? [{ id: tech.id, scores, score: calculateWeightedScore(scores, options.dimensionWeights) }] : [];
+    });
+    if (rivals.length === 0) return result;
+
+    const runnerUp = rivals.reduce((best, rival) => (rival.score > best.score ? rival : best));
+    const margin = calculateWeightedScore(pickScores, options.dimensionWeights) - runnerUp.score;
+
+    // A pick already outscored has no lead to lose
+    const outscored = rivals.some((rival) => weightedLead(pickScores, rival.scores, weights) < 0);
+    let flip: WeightFlip | null = null;
+    for (const rival of outscored ? [] : rivals) {
+      for (const dimension of SCORE_DIMENSIONS) {
+        const to = findFlipWeight(pickScores, rival.scores, weights, dimension);
+        if (to === null) continue;
+        const change = Math.abs(to - weights[dimension]);
+        if (!flip || change < Math.abs(flip.to - flip.from)) {
+          flip = { dimension, from: weights[dimension], to, newLeader: rival.id };
+        }
+      }
+    }
+
+    return {
+      ...result,
+      runnerUp: runnerUp.id,
+      margin,
+      verdict: outscored
+        ? 'compatibility'
+        : margin < COIN_FLIP_MARGIN
+          ? 'coin-flip'
+          : margin < ROBUST_MARGIN
+            ? 'close'
+            : 'robust',
+      flip,
+    };
+  });
+}
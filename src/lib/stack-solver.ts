@@ -0,0 +1,293 @@
+/**
+ * Stack Solver
+ *
+ * Finds the complete stacks (one technology per category) that maximise
+ * the combined score across all categories at once, instead of fixing
+ * each category's winner in order.
+ *
+ * Stack total = Σ candidate scores + Σ pairwise compatibility bonuses
+ * - Candidate score: dimension-weighted score × project-type category weight
+ * - Compatibility bonus: (compatibility - 50) × COMPATIBILITY_WEIGHT per pair
+ * - Pairs scored 0 (hard incompatible) make a stack infeasible
+ *
+ * The search is exhaustive branch-and-bound, so the result does not depend
+ * on category order. A category with no feasible candidate is left empty.
+ *
+ * Pinned technologies are locked into their category (added to the stack if
+ * the category is not part of it) and every other pick must be compatible
+ * with them. Excluded technologies are never proposed.
+ */
+
+import {
+  calculateWeightedScore,
+  getCompatibility,
+  getScores,
+  getAllTechIds,
+  getTechnologiesByCategory,
+  getTechnology,
+  techExists,
+  type Category,
+  type Context,
+  type DimensionWeights,
+} from '../data/index.js';
+import { McpError, ErrorCode, techNotFoundError } from '../utils/errors.js';
+
+/**
+ * Points per compatibility point above (or below) neutral, per pair.
+ * A 100-score pair adds +10; a 0-score pair is excluded outright.
+ */
+export const COMPATIBILITY_WEIGHT = 0.2;
+
+/**
+ * Solver options.
+ */
+export interface StackSolverOptions {
+  categories: Category[];
+  context: Context;
+  /** Project-type category multipliers (default 1.0) */
+  categoryWeights?: Partial<Record<Category, number>>;
+  dimensionWeights?: DimensionWeights;
+  /** Number of complete stacks to return (default 1) */
+  limit?: number;
+  /** Technology IDs locked into their category */
+  pinned?: string[];
+  /** Technology IDs never proposed */
+  excluded?: string[];
+}
+
+/**
+ * A technology considered for a category.
+ */
+export interface StackCandidate {
+  category: Category;
+  techId: string;
+  name: string;
+  /** Dimension-weighted score × category weight, rounded */
+  score: number;
+}
+
+/**
+ * A complete stack with its totals.
+ */
+export interface SolvedStack {
+  /** One pick per category that has a feasible candidate, in category order */
+  picks: StackCandidate[];
+  /** Categories left empty because no candidate fits */
+  emptyCategories: Category[];
+  /** Sum of candidate scores */
+  techTotal: number;
+  /** Sum of pairwise compatibility bonuses, rounded */
+  compatibilityBonus: number;
+  /** techTotal + compatibilityBonus */
+  total: number;
+}
+
+/**
+ * Compatibility bonus for one pair; -Infinity for hard incompatibilities.
+ */
+export function getPairBonus(techA: string, techB: string): number {
+  const score = getCompatibility(techA, techB);
+  if (score === 0) return -Infinity;
+  return (score - 50) * COMPATIBILITY_WEIGHT;
+}
+
+/**
+ * All scored candidates of a category, best score first.
+ */
+export function getStackCandidates(
+  category: Category,
+  options: Pick<StackSolverOptions, 'context' | 'categoryWeights' | 'dimensionWeights'>,
+): StackCandidate[] {
+  const weight = options.categoryWeights?.[category] || 1.0;
+  const candidates: StackCandidate[] = [];
+
+  for (const tech of getTechnologiesByCategory(category)) {
+    const scores = getScores(tech.id, options.context);
+    if (!scores) continue;
+    candidates.push({
+      category,
+      techId: tech.id,
+      name: tech.name,
+      score: Math.round(calculateWeightedScore(scores, options.dimensionWeights) * weight),
+    });
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Total of a given set of picks, or null when any pair is hard-incompatible.
+ */
+export function scoreStack(picks: StackCandidate[]): Omit<SolvedStack, 'picks' | 'emptyCategories'> | null {
+  let bonus = 0;
+  for (let i = 0; i < picks.length; i++) {
+    for (let j = i + 1; j < picks.length; j++) {
+      bonus += getPairBonus(picks[i].techId, picks[j].techId);
+    }
+  }
+  if (bonus === -Infinity) return null;
+
+  const techTotal = picks.reduce((sum, pick) => sum + pick.score, 0);
+  const compatibilityBonus = Math.round(bonus);
+  return { techTotal, compatibilityBonus, total: techTotal + compatibilityBonus };
+}
+
+/**
+ * Stack categories: the requested ones plus the categories of pinned
+ * technologies, skipping categories without technologies.
+ */
+export function resolveStackCategories(categories: Category[], pinned: string[] = []): Category[] {
+  const resolved = [...categories];
+  for (const techId of pinned) {
+    const category = getTechnology(techId)?.category;
+    if (category && !resolved.includes(category)) resolved.push(category);
+  }
+  return resolved.filter((c) => getTechnologiesByCategory(c).length > 0);
+}
+
+/**
+ * Find contradictions between pinned and excluded technologies:
+ * a tech both pinned and excluded, two pins in one category, or two pins
+ * that are hard-incompatible. Technology IDs must already be validated.
+ */
+export function findConstraintConflicts(pinned: string[] = [], excluded: string[] = []): string[] {
+  const conflicts: string[] = [];
+
+  for (const techId of pinned) {
+    if (excluded.includes(techId)) {
+      conflicts.push(`${techId} is in both mustUse and mustAvoid`);
+    }
+  }
+
+  for (let i = 0; i < pinned.length; i++) {
+    for (let j = i + 1; j < pinned.length; j++) {
+      const [a, b] = [pinned[i], pinned[j]];
+      const categoryA = getTechnology(a)?.category;
+      if (categoryA && categoryA === getTechnology(b)?.category) {
+        conflicts.push(`${a} and ${b} are both pinned for ${categoryA}`);
+      } else if (getCompatibility(a, b) === 0) {
+        conflicts.push(`${a} and ${b} are incompatible (compatibility 0)`);
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Validate mustUse/mustAvoid input: unknown IDs and conflicting
+ * constraints are returned as an error (null when valid).
+ */
+export function checkStackConstraints(pinned: string[] = [], excluded: string[] = []): McpError | null {
+  for (const techId of [...pinned, ...excluded]) {
+    if (!techExists(techId)) {
+      return techNotFoundError(techId, getAllTechIds());
+    }
+  }
+
+  const conflicts = findConstraintConflicts(pinned, excluded);
+  if (conflicts.length > 0) {
+    return new McpError(ErrorCode.INVALID_INPUT, `Conflicting constraints: ${conflicts.join('; ')}`, [
+      'Remove one side of each conflict from mustUse or mustAvoid.',
+    ]);
+  }
+
+  return null;
+}
+
+/**
+ * Find the top stacks by total.
+ * Pinned technologies must be free of conflicts (see findConstraintConflicts).
+ */
+export function solveStack(options: StackSolverOptions): SolvedStack[] {
+  const limit = options.limit ?? 1;
+  const pinned = options.pinned ?? [];
+  const excluded = new Set(options.excluded ?? []);
+  const categories = resolveStackCategories(options.categories, pinned);
+
+  // A pinned category has a single candidate; elsewhere "null" stands for
+  // leaving the category empty (score 0, no pairs)
+  const choices: Array<Array<StackCandidate | null>> = categories.map((category) => {
+    const candidates = getStackCandidates(category, options);
+    const pin = candidates.find((c) => pinned.includes(c.techId));
+    if (pin) return [pin];
+    return [...candidates.filter((c) => !excluded.has(c.techId)), null];
+  });
+
+  // Pairwise bonuses between candidates of different categories
+  const bonusCache = new Map<string, number>();
+  const bonus = (a: StackCandidate | null, b: StackCandidate | null): number => {
+    if (!a || !b) return 0;
+    const key = `${a.techId}::${b.techId}`;
+    let value = bonusCache.get(key);
+    if (value === undefined) {
+      value = getPairBonus(a.techId, b.techId);
+      bonusCache.set(key, value);
+    }
+    return value;
+  };
+
+  // Best achievable bonus between two categories (upper bound for unpicked pairs)
+  const maxPairBonus: number[][] = categories.map(() => categories.map(() => 0));
+  for (let i = 0; i < categories.length; i++) {
+    for (let j = i + 1; j < categories.length; j++) {
+      let best = 0;
+      for (const a of choices[i]) {
+        for (const b of choices[j]) {
+          best = Math.max(best, bonus(a, b));
+        }
+      }
+      maxPairBonus[i][j] = best;
+    }
+  }
+
+  const results: Array<{ picks: Array<StackCandidate | null>; total: number }> = [];
+  const threshold = () => (results.length < limit ? -Infinity : results[results.length - 1].total);
+  const picks: Array<StackCandidate | null> = [];
+
+  const upperBound = (depth: number, partial: number): number => {
+    let bound = partial;
+    for (let k = depth; k < categories.length; k++) {
+      let best = -Infinity;
+      for (const candidate of choices[k]) {
+        let value = candidate?.score ?? 0;
+        for (const picked of picks) value += bonus(candidate, picked);
+        best = Math.max(best, value);
+      }
+      bound += best;
+      for (let l = k + 1; l < categories.length; l++) bound += maxPairBonus[k][l];
+    }
+    return bound;
+  };
+
+  const search = (depth: number, partial: number): void => {
+    if (depth === categories.length) {
+      results.push({ picks: [...picks], total: partial });
+      results.sort((a, b) => b.total - a.total);
+      if (results.length > limit) results.pop();
+      return;
+    }
+    if (upperBound(depth, partial) <= threshold()) return;
+
+    for (const candidate of choices[depth]) {
+      let value = partial + (candidate?.score ?? 0);
+      for (const picked of picks) value += bonus(candidate, picked);
+      if (value === -Infinity) continue;
+
+      picks.push(candidate);
+      search(depth + 1, value);
+      picks.pop();
+    }
+  };
+
+  search(0, 0);
+
+  return results.map((result) => {
+    const chosen = result.picks.filter((p): p is StackCandidate => p !== null);
+    return {
+      picks: chosen,
+      emptyCategories: categories.filter((_, i) => result.picks[i] === null),
+      ...scoreStack(chosen)!,
+    };
+  });
+}
@@ -1,49 +1,110 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 
-import { DATA_VERSION, CATEGORIES, CONTEXTS } from "./data/index.js";
+import {
+  DATA_VERSION,
+  CATEGORIES,
+  CONTEXTS,
+  ContextSchema,
+  DimensionWeightsSchema,
+  SCORE_DIMENSIONS,
+  getAllContexts,
+} from "./data/index.js";
+import { PRIORITIES, PROJECT_TYPES, SCALES } from "./data/taxonomy.js";
+import { ScorePolicyInputSchema } from "./lib/compatibility/index.js";
 import {
   listTechsToolDefinition,
   executeListTechs,
   ListTechsInputSchema,
+  ListTechsOutputSchema,
 } from "./tools/list-techs.js";
 import {
   analyzeTechToolDefinition,
   executeAnalyzeTech,
   AnalyzeTechInputSchema,
+  AnalyzeTechOutputSchema,
 } from "./tools/analyze.js";
 import {
   compareTechsToolDefinition,
   executeCompareTechs,
   CompareTechsInputSchema,
+  CompareTechsOutputSchema,
 } from "./tools/compare.js";
+import {
+  rankCategoryToolDefinition,
+  executeRankCategory,
+  RankCategoryInputSchema,
+  RankCategoryOutputSchema,
+} from "./tools/rank-category.js";
 import {
   recommendStackToolDefinition,
   executeRecommendStack,
   RecommendStackInputSchema,
+  RecommendStackOutputSchema,
 } from "./tools/recommend.js";
 import {
   getBlueprintToolDefinition,
   executeGetBlueprint,
   GetBlueprintInputSchema,
+  BlueprintOutputSchema,
   createBlueprintToolDefinition,
   executeCreateBlueprint,
   CreateBlueprintInputSchema,
+  CreateBlueprintOutputSchema,
 } from "./tools/blueprint.js";
 import {
   recommendStackDemoToolDefinition,
   executeRecommendStackDemo,
   RecommendStackDemoInputSchema,
+  RecommendStackDemoOutputSchema,
 } from "./tools/recommend-demo.js";
+import {
+  diffDataVersionsToolDefinition,
+  executeDiffDataVersions,
+  DiffDataVersionsInputSchema,
+  DiffDataVersionsOutputSchema,
+} from "./tools/diff-data-versions.js";
+import {
+  getTaxonomyToolDefinition,
+  executeGetTaxonomy,
+  GetTaxonomyOutputSchema,
+} from "./tools/taxonomy.js";
+import {
+  checkStackCompatibilityToolDefinition,
+  executeCheckStackCompatibility,
+  CheckStackCompatibilityInputSchema,
+  CheckStackCompatibilityOutputSchema,
+} from "./tools/check-stack-compatibility.js";
+import {
+  planMigrationToolDefinition,
+  executePlanMigration,
+  PlanMigrationInputSchema,
+  PlanMigrationOutputSchema,
+} from "./tools/plan-migration.js";
+import {
+  findAlternativesToolDefinition,
+  executeFindAlternatives,
+  FindAlternativesInputSchema,
+  FindAlternativesOutputSchema,
+} from "./tools/find-alternatives.js";
+import {
+  recommendStackLocalToolDefinition,
+  executeRecommendStackLocal,
+  RecommendStackLocalInputSchema,
+  RecommendStackLocalOutputSchema,
+} from "./tools/recommend-local.js";
 import {
   setupApiKeyToolDefinition,
   executeSetupApiKey,
   SetupApiKeyInputSchema,
+  CreatedApiKeyOutputSchema,
   listApiKeysToolDefinition,
   executeListApiKeys,
+  ListApiKeysOutputSchema,
   revokeApiKeyToolDefinition,
   executeRevokeApiKey,
   RevokeApiKeyInputSchema,
+  RevokeApiKeyOutputSchema,
   createApiKeyToolDefinition,
   executeCreateApiKey,
   CreateApiKeyInputSchema,
@@ -52,34 +113,41 @@ import {
   createAuditToolDefinition,
   executeCreateAudit,
   CreateAuditInputSchema,
+  AuditReportOutputSchema,
   getAuditToolDefinition,
   executeGetAudit,
   GetAuditInputSchema,
   listAuditsToolDefinition,
   executeListAudits,
   ListAuditsInputSchema,
+  ListAuditsOutputSchema,
   compareAuditsToolDefinition,
   executeCompareAudits,
   CompareAuditsInputSchema,
+  CompareAuditsOutputSchema,
   getAuditQuotaToolDefinition,
   executeGetAuditQuota,
+  AuditQuotaOutputSchema,
   getMigrationRecommendationToolDefinition,
   executeGetMigrationRecommendation,
   GetMigrationRecommendationInputSchema,
+  MigrationRecommendationOutputSchema,
   importBetterTStackToolDefinition,
   executeImportBetterTStack,
   ImportBetterTStackInputSchema,
+  ImportBetterTStackOutputSchema,
 } from "./tools/audit.js";
 import {
   generateMCPKitTool,
   generateMCPKit,
   GenerateMCPKitInputSchema,
+  GenerateMCPKitOutputSchema,
   analyzeRepoMcpsTool,
   analyzeRepo,
   AnalyzeRepoMCPsInputSchema,
-  PRIORITIES,
-  PROJECT_TYPES,
-  SCALES,
+  AnalyzeRepoMCPsOutputSchema,
+  formatScoredVersion,
+  formatInstalledMcp,
   type AnalyzeRepoMCPsOutput,
 } from "./tools/project-kit/index.js";
 import {
@@ -92,17 +160,21 @@ import {
 } from "./tools/project-kit/execute-installation.js";
 import {
   PrepareMCPInstallationInputSchema,
+  PrepareMCPInstallationOutputSchema,
   ExecuteMCPInstallationInputSchema,
+  ExecuteMCPInstallationOutputSchema,
 } from "./tools/project-kit/installation-types.js";
 import {
   checkCompatibilityToolDefinition,
   executeCheckCompatibility,
   CheckCompatibilityInputSchema,
+  CompatibilityReportOutputSchema,
 } from "./tools/check-compatibility.js";
 import {
   getWorkflowGuideToolDefinition,
   executeGetWorkflowGuide,
   GetWorkflowGuideInputSchema,
+  GetWorkflowGuideOutputSchema,
   WORKFLOW_GOALS,
   WORKFLOW_CONTEXTS,
   USER_TIERS,
@@ -111,14 +183,18 @@ import {
   estimateProjectToolDefinition,
   executeEstimateProject,
   EstimateProjectInputSchema,
+  EstimateProjectOutputSchema,
   getEstimateQuotaToolDefinition,
   executeGetEstimateQuota,
+  EstimateQuotaOutputSchema,
 } from "./tools/estimator.js";
 import { info, debug } from "./utils/logger.js";
+import { McpError } from "./utils/errors.js";
 import {
   listTechnologiesAnnotations,
   analyzeTechAnnotations,
   compareTechsAnnotations,
+  rankCategoryAnnotations,
   recommendStackDemoAnnotations,
   recommendStackAnnotations,
   getBlueprintAnnotations,
@@ -141,6 +217,12 @@ import {
   estimateProjectAnnotations,
   getEstimateQuotaAnnotations,
   getWorkflowGuideAnnotations,
+  diffDataVersionsAnnotations,
+  checkStackCompatibilityAnnotations,
+  planMigrationAnnotations,
+  findAlternativesAnnotations,
+  getTaxonomyAnnotations,
+  recommendStackLocalAnnotations,
 } from "./annotations.js";
 
 /**
@@ -163,14 +245,16 @@ export function createServer(): McpServer {
       inputSchema: {
         category: z.enum(CATEGORIES).optional().describe("Filter by category"),
       },
+      outputSchema: ListTechsOutputSchema,
       annotations: listTechnologiesAnnotations,
     },
     async (args) => {
       debug("list_technologies called", args);
       const input = ListTechsInputSchema.parse(args);
-      const text = executeListTechs(input);
+      const { text, data } = executeListTechs(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
       };
     },
   );
@@ -182,17 +266,27 @@ export function createServer(): McpServer {
       title: "Analyze Technology",
       description: analyzeTechToolDefinition.description,
       inputSchema: {
-        technology: z.string().min(1).describe("Technology ID to analyze"),
-        context: z.enum(CONTEXTS).optional().describe("Context for scoring"),
+        technology: z
+          .string()
+          .min(1)
+          .describe('Technology ID to analyze, optionally versioned (e.g., "nextjs@14")'),
+        context: ContextSchema.optional().describe(
+          `Context for scoring (${getAllContexts().join(", ")})`,
+        ),
+        weights: DimensionWeightsSchema.optional().describe(
+          "Per-dimension weights (0-10, default 1)",
+        ),
       },
+      outputSchema: AnalyzeTechOutputSchema,
       annotations: analyzeTechAnnotations,
     },
     async (args) => {
       debug("analyze_tech called", args);
       const input = AnalyzeTechInputSchema.parse(args);
-      const { text, isError } = executeAnalyzeTech(input);
+      const { text, data, isError } = executeAnalyzeTech(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -209,17 +303,54 @@ export function createServer(): McpServer {
           .array(z.string().min(1))
           .min(2)
           .max(4)
-          .describe("Technologies to compare"),
-        context: z.enum(CONTEXTS).optional().describe("Context for scoring"),
+          .describe('Technologies to compare, optionally versioned (e.g., "nextjs@14")'),
+        context: ContextSchema.optional().describe(
+          `Context for scoring (${getAllContexts().join(", ")})`,
+        ),
+        weights: DimensionWeightsSchema.optional().describe(
+          "Per-dimension weights (0-10, default 1)",
+        ),
       },
+      outputSchema: CompareTechsOutputSchema,
       annotations: compareTechsAnnotations,
     },
     async (args) => {
       debug("compare_techs called", args);
       const input = CompareTechsInputSchema.parse(args);
-      const { text, isError } = executeCompareTechs(input);
+      const { text, data, isError } = executeCompareTechs(input);
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: data,
+        isError,
+      };
+    },
+  );
+
+  // Register rank_category tool (local)
+  server.registerTool(
+    rankCategoryToolDefinition.name,
+    {
+      title: "Rank Category",
+      description: rankCategoryToolDefinition.description,
+      inputSchema: {
+        category: z.enum(CATEGORIES).describe("Category to rank"),
+        context: ContextSchema.optional().describe(
+          `Context for scoring (${getAllContexts().join(", ")})`,
+        ),
+        weights: DimensionWeightsSchema.optional().describe(
+          "Per-dimension weights (0-10, default 1)",
+        ),
+      },
+      outputSchema: RankCategoryOutputSchema,
+      annotations: rankCategoryAnnotations,
+    },
+    async (args) => {
+      debug("rank_category called", args);
+      const input = RankCategoryInputSchema.parse(args);
+      const { text, data, isError } = executeRankCategory(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -232,32 +363,249 @@ export function createServer(): McpServer {
       title: "Recommend Stack (Demo)",
       description: recommendStackDemoToolDefinition.description,
       inputSchema: {
-        projectType: z
-          .enum([
-            "web-app",
-            "mobile-app",
-            "api",
-            "desktop",
-            "cli",
-            "library",
-            "e-commerce",
-            "saas",
-            "marketplace",
-          ])
-          .describe("Type of project"),
-        scale: z
-          .enum(["mvp", "startup", "growth", "enterprise"])
+        projectType: z.enum(PROJECT_TYPES).describe("Type of project"),
+        scale: z.enum(SCALES).optional().describe("Project scale"),
+        weights: DimensionWeightsSchema.optional().describe(
+          "Per-dimension weights (0-10, default 1)",
+        ),
+        explain: z
+          .boolean()
+          .optional()
+          .describe("Show top 3 candidates per category and exclusions"),
+        alternatives: z
+          .number()
+          .int()
+          .min(0)
+          .max(4)
+          .optional()
+          .describe("Number of runner-up stacks to list (default: 2)"),
+        mustUse: z
+          .array(z.string().min(1))
+          .optional()
+          .describe("Technology IDs to lock into their category"),
+        mustAvoid: z
+          .array(z.string().min(1))
+          .optional()
+          .describe("Technology IDs never to propose"),
+        sensitivity: z
+          .boolean()
           .optional()
-          .describe("Project scale"),
+          .describe("Report margins over runner-ups and weight flips"),
       },
+      outputSchema: RecommendStackDemoOutputSchema,
       annotations: recommendStackDemoAnnotations,
     },
     async (args) => {
       debug("recommend_stack_demo called", args);
       const input = RecommendStackDemoInputSchema.parse(args);
-      const { text, isError } = executeRecommendStackDemo(input);
+      const { text, data, isError } = executeRecommendStackDemo(input);
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: data,
+        isError,
+      };
+    },
+  );
+
+  // Register diff_data_versions tool (local, archived data snapshots)
+  server.registerTool(
+    diffDataVersionsToolDefinition.name,
+    {
+      title: "Diff Data Versions",
+      description: diffDataVersionsToolDefinition.description,
+      inputSchema: {
+        since: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("Data version to compare from (default: latest archived)"),
+        to: z
+          .string()
+          .min(1)
+          .optional()
+          .describe(`Data version to compare to (default: ${DATA_VERSION})`),
+        context: z
+          .enum(CONTEXTS)
+          .optional()
+          .describe("Context for score comparison"),
+        category: z
+          .enum(CATEGORIES)
+          .optional()
+          .describe("Only report technologies in this category"),
+      },
+      outputSchema: DiffDataVersionsOutputSchema,
+      annotations: diffDataVersionsAnnotations,
+    },
+    async (args) => {
+      debug("diff_data_versions called", args);
+      const input = DiffDataVersionsInputSchema.parse(args);
+      const { text, data, isError } = executeDiffDataVersions(input);
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: data,
+        isError,
+      };
+    },
+  );
+
+  // Register check_stack_compatibility tool (local)
+  server.registerTool(
+    checkStackCompatibilityToolDefinition.name,
+    {
+      title: "Check Stack Compatibility",
+      description: checkStackCompatibilityToolDefinition.description,
+      inputSchema: {
+        technologies: z
+          .array(z.string().min(1))
+          .min(2)
+          .max(CATEGORIES.length)
+          .describe("Technology IDs of the stack, one per category"),
+      },
+      outputSchema: CheckStackCompatibilityOutputSchema,
+      annotations: checkStackCompatibilityAnnotations,
+    },
+    async (args) => {
+      debug("check_stack_compatibility called", args);
+      const input = CheckStackCompatibilityInputSchema.parse(args);
+      const { text, data, isError } = executeCheckStackCompatibility(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
+        isError,
+      };
+    },
+  );
+
+  // Register plan_migration tool (local, same-category swap analysis)
+  server.registerTool(
+    planMigrationToolDefinition.name,
+    {
+      title: "Plan Migration",
+      description: planMigrationToolDefinition.description,
+      inputSchema: {
+        from: z.string().min(1).describe("Technology ID to migrate away from"),
+        to: z
+          .string()
+          .min(1)
+          .describe("Technology ID to migrate to (same category)"),
+        stack: z
+          .array(z.string().min(1))
+          .max(CATEGORIES.length)
+          .optional()
+          .describe("Other technology IDs of the current stack"),
+      },
+      outputSchema: PlanMigrationOutputSchema,
+      annotations: planMigrationAnnotations,
+    },
+    async (args) => {
+      debug("plan_migration called", args);
+      const input = PlanMigrationInputSchema.parse(args);
+      const { text, data, isError } = executePlanMigration(input);
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: data,
+        isError,
+      };
+    },
+  );
+
+  // Register find_alternatives tool (local, same-category substitutes)
+  server.registerTool(
+    findAlternativesToolDefinition.name,
+    {
+      title: "Find Alternatives",
+      description: findAlternativesToolDefinition.description,
+      inputSchema: {
+        technology: z.string().min(1).describe("Technology ID to replace"),
+        stack: z
+          .array(z.string().min(1))
+          .max(CATEGORIES.length)
+          .optional()
+          .describe("Other technology IDs of the current stack"),
+        dimensions: z
+          .array(z.enum(SCORE_DIMENSIONS))
+          .min(1)
+          .optional()
+          .describe("Dimensions to improve (default: all six)"),
+        context: ContextSchema.optional().describe(
+          `Context for scoring (${getAllContexts().join(", ")})`,
+        ),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(10)
+          .optional()
+          .describe("Maximum alternatives to list (default: 5)"),
+      },
+      outputSchema: FindAlternativesOutputSchema,
+      annotations: findAlternativesAnnotations,
+    },
+    async (args) => {
+      debug("find_alternatives called", args);
+      const input = FindAlternativesInputSchema.parse(args);
+      const { text, data, isError } = executeFindAlternatives(input);
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: data,
+        isError,
+      };
+    },
+  );
+
+  // Register get_taxonomy tool (local, discovery of valid input values)
+  server.registerTool(
+    getTaxonomyToolDefinition.name,
+    {
+      title: "Get Taxonomy",
+      description: getTaxonomyToolDefinition.description,
+      inputSchema: {},
+      outputSchema: GetTaxonomyOutputSchema,
+      annotations: getTaxonomyAnnotations,
+    },
+    async () => {
+      debug("get_taxonomy called");
+      const { text, data } = executeGetTaxonomy();
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: data,
+      };
+    },
+  );
+
+  // Register recommend_stack_local tool (local priorities/constraints engine, no limit)
+  server.registerTool(
+    recommendStackLocalToolDefinition.name,
+    {
+      title: "Recommend Stack (Local)",
+      description: recommendStackLocalToolDefinition.description,
+      inputSchema: {
+        projectType: z.enum(PROJECT_TYPES).describe("Type of project"),
+        scale: z.enum(SCALES).optional().describe("Project scale"),
+        priorities: z
+          .array(z.enum(PRIORITIES))
+          .max(3)
+          .optional()
+          .describe("Top priorities, most important first (max 3)"),
+        constraints: z
+          .array(z.string())
+          .optional()
+          .describe("Constraint IDs (e.g., must-use-postgresql, self-hosted)"),
+        sensitivity: z
+          .boolean()
+          .optional()
+          .describe("Report margins over runner-ups and weight flips"),
+      },
+      outputSchema: RecommendStackLocalOutputSchema,
+      annotations: recommendStackLocalAnnotations,
+    },
+    async (args) => {
+      debug("recommend_stack_local called", args);
+      const input = RecommendStackLocalInputSchema.parse(args);
+      const { text, data, isError } = executeRecommendStackLocal(input);
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -270,35 +618,10 @@ export function createServer(): McpServer {
       title: "Recommend Stack",
       description: recommendStackToolDefinition.description,
       inputSchema: {
-        projectType: z
-          .enum([
-            "web-app",
-            "mobile-app",
-            "api",
-            "desktop",
-            "cli",
-            "library",
-            "e-commerce",
-            "saas",
-            "marketplace",
-          ])
-          .describe("Type of project"),
-        scale: z
-          .enum(["mvp", "startup", "growth", "enterprise"])
-          .optional()
-          .describe("Project scale"),
+        projectType: z.enum(PROJECT_TYPES).describe("Type of project"),
+        scale: z.enum(SCALES).optional().describe("Project scale"),
         priorities: z
-          .array(
-            z.enum([
-              "time-to-market",
-              "scalability",
-              "developer-experience",
-              "cost-efficiency",
-              "performance",
-              "security",
-              "maintainability",
-            ]),
-          )
+          .array(z.enum(PRIORITIES))
           .max(3)
           .optional()
           .describe("Top priorities (max 3)"),
@@ -307,14 +630,16 @@ export function createServer(): McpServer {
           .optional()
           .describe("Project constraints"),
       },
+      outputSchema: RecommendStackOutputSchema,
       annotations: recommendStackAnnotations,
     },
     async (args) => {
       debug("recommend_stack called", args);
       const input = RecommendStackInputSchema.parse(args);
-      const { text, isError } = await executeRecommendStack(input);
+      const { text, data, isError } = await executeRecommendStack(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -329,14 +654,16 @@ export function createServer(): McpServer {
       inputSchema: {
         blueprintId: z.string().uuid().describe("Blueprint UUID"),
       },
+      outputSchema: BlueprintOutputSchema,
       annotations: getBlueprintAnnotations,
     },
     async (args) => {
       debug("get_blueprint called", args);
       const input = GetBlueprintInputSchema.parse(args);
-      const { text, isError } = await executeGetBlueprint(input);
+      const { text, data, isError } = await executeGetBlueprint(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -354,39 +681,15 @@ export function createServer(): McpServer {
           .max(100)
           .optional()
           .describe("Project name (optional)"),
-        projectType: z
-          .enum([
-            "web-app",
-            "mobile-app",
-            "api",
-            "desktop",
-            "cli",
-            "library",
-            "e-commerce",
-            "saas",
-            "marketplace",
-          ])
-          .describe("Type of project"),
-        scale: z
-          .enum(["mvp", "startup", "growth", "enterprise"])
-          .describe("Project scale"),
+        projectType: z.enum(PROJECT_TYPES).describe("Type of project"),
+        scale: z.enum(SCALES).describe("Project scale"),
         projectDescription: z
           .string()
           .max(2000)
           .optional()
           .describe("Brief description (optional)"),
         priorities: z
-          .array(
-            z.enum([
-              "time-to-market",
-              "scalability",
-              "developer-experience",
-              "cost-efficiency",
-              "performance",
-              "security",
-              "maintainability",
-            ]),
-          )
+          .array(z.enum(PRIORITIES))
           .max(3)
           .optional()
           .describe("Top 3 priorities (optional)"),
@@ -400,14 +703,16 @@ export function createServer(): McpServer {
           .optional()
           .describe("Wait for completion (default: true)"),
       },
+      outputSchema: CreateBlueprintOutputSchema,
       annotations: createBlueprintAnnotations,
     },
     async (args) => {
       debug("create_blueprint called", args);
       const input = CreateBlueprintInputSchema.parse(args);
-      const { text, isError } = await executeCreateBlueprint(input);
+      const { text, data, isError } = await executeCreateBlueprint(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -431,14 +736,16 @@ export function createServer(): McpServer {
           .optional()
           .describe("Optional name for the API key"),
       },
+      outputSchema: CreatedApiKeyOutputSchema,
       annotations: setupApiKeyAnnotations,
     },
     async (args) => {
       debug("setup_api_key called", args.email);
       const input = SetupApiKeyInputSchema.parse(args);
-      const { text, isError } = await executeSetupApiKey(input);
+      const { text, data, isError } = await executeSetupApiKey(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -451,13 +758,15 @@ export function createServer(): McpServer {
       title: "List API Keys",
       description: listApiKeysToolDefinition.description,
       inputSchema: {},
+      outputSchema: ListApiKeysOutputSchema,
       annotations: listApiKeysAnnotations,
     },
     async () => {
       debug("list_api_keys called");
-      const { text, isError } = await executeListApiKeys();
+      const { text, data, isError } = await executeListApiKeys();
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -472,14 +781,16 @@ export function createServer(): McpServer {
       inputSchema: {
         keyId: z.string().uuid().describe("The UUID of the API key to revoke"),
       },
+      outputSchema: RevokeApiKeyOutputSchema,
       annotations: revokeApiKeyAnnotations,
     },
     async (args) => {
       debug("revoke_api_key called", args.keyId);
       const input = RevokeApiKeyInputSchema.parse(args);
-      const { text, isError } = await executeRevokeApiKey(input);
+      const { text, data, isError } = await executeRevokeApiKey(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -498,14 +809,16 @@ export function createServer(): McpServer {
           .optional()
           .describe("Optional name for the API key"),
       },
+      outputSchema: CreatedApiKeyOutputSchema,
       annotations: createApiKeyAnnotations,
     },
     async (args) => {
       debug("create_api_key called");
       const input = CreateApiKeyInputSchema.parse(args);
-      const { text, isError } = await executeCreateApiKey(input);
+      const { text, data, isError } = await executeCreateApiKey(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -535,14 +848,16 @@ export function createServer(): McpServer {
           .max(50)
           .describe("Technologies to audit"),
       },
+      outputSchema: AuditReportOutputSchema,
       annotations: createAuditAnnotations,
     },
     async (args) => {
       debug("create_audit called", args);
       const input = CreateAuditInputSchema.parse(args);
-      const { text, isError } = await executeCreateAudit(input);
+      const { text, data, isError } = await executeCreateAudit(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -557,14 +872,16 @@ export function createServer(): McpServer {
       inputSchema: {
         auditId: z.string().uuid().describe("Audit report UUID"),
       },
+      outputSchema: AuditReportOutputSchema,
       annotations: getAuditAnnotations,
     },
     async (args) => {
       debug("get_audit called", args);
       const input = GetAuditInputSchema.parse(args);
-      const { text, isError } = await executeGetAudit(input);
+      const { text, data, isError } = await executeGetAudit(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -580,14 +897,16 @@ export function createServer(): McpServer {
         limit: z.number().min(1).max(50).optional().describe("Max results"),
         offset: z.number().min(0).optional().describe("Pagination offset"),
       },
+      outputSchema: ListAuditsOutputSchema,
       annotations: listAuditsAnnotations,
     },
     async (args) => {
       debug("list_audits called", args);
       const input = ListAuditsInputSchema.parse(args);
-      const { text, isError } = await executeListAudits(input);
+      const { text, data, isError } = await executeListAudits(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -603,14 +922,16 @@ export function createServer(): McpServer {
         baseAuditId: z.string().uuid().describe("Base (older) audit ID"),
         compareAuditId: z.string().uuid().describe("Compare (newer) audit ID"),
       },
+      outputSchema: CompareAuditsOutputSchema,
       annotations: compareAuditsAnnotations,
     },
     async (args) => {
       debug("compare_audits called", args);
       const input = CompareAuditsInputSchema.parse(args);
-      const { text, isError } = await executeCompareAudits(input);
+      const { text, data, isError } = await executeCompareAudits(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -623,13 +944,15 @@ export function createServer(): McpServer {
       title: "Get Audit Quota",
       description: getAuditQuotaToolDefinition.description,
       inputSchema: {},
+      outputSchema: AuditQuotaOutputSchema,
       annotations: getAuditQuotaAnnotations,
     },
     async () => {
       debug("get_audit_quota called");
-      const { text, isError } = await executeGetAuditQuota();
+      const { text, data, isError } = await executeGetAuditQuota();
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -647,14 +970,16 @@ export function createServer(): McpServer {
           .uuid()
           .describe("Audit report UUID to analyze for migration"),
       },
+      outputSchema: MigrationRecommendationOutputSchema,
       annotations: getMigrationRecommendationAnnotations,
     },
     async (args) => {
       debug("get_migration_recommendation called", args);
       const input = GetMigrationRecommendationInputSchema.parse(args);
-      const { text, isError } = await executeGetMigrationRecommendation(input);
+      const { text, data, isError } = await executeGetMigrationRecommendation(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -678,14 +1003,16 @@ export function createServer(): McpServer {
           .describe("Raw package.json content (for type=package-json)"),
         name: z.string().max(200).optional().describe("Custom audit name"),
       },
+      outputSchema: ImportBetterTStackOutputSchema,
       annotations: createAuditAnnotations, // Reuse audit annotations
     },
     async (args) => {
       debug("import_better_t_stack called", args);
       const input = ImportBetterTStackInputSchema.parse(args);
-      const { text, isError } = await executeImportBetterTStack(input);
+      const { text, data, isError } = await executeImportBetterTStack(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -721,16 +1048,39 @@ export function createServer(): McpServer {
           .optional()
           .describe("Project type (if known)"),
         scale: z.enum(SCALES).optional().describe("Project scale (if known)"),
+        weights: DimensionWeightsSchema.optional().describe(
+          "Per-dimension weights (0-10, default 1)",
+        ),
+        mustUse: z
+          .array(z.string().min(1))
+          .optional()
+          .describe("Technology IDs to lock into the stack"),
+        mustAvoid: z
+          .array(z.string().min(1))
+          .optional()
+          .describe("Technology IDs never to propose"),
       },
+      outputSchema: GenerateMCPKitOutputSchema,
       annotations: generateMcpKitAnnotations,
     },
     async (args) => {
       debug("generate_mcp_kit called", args);
       const input = GenerateMCPKitInputSchema.parse(args);
-      const result = generateMCPKit(input);
-      return {
-        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-      };
+      try {
+        const result = generateMCPKit(input);
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          structuredContent: result,
+        };
+      } catch (err) {
+        if (err instanceof McpError) {
+          return {
+            content: [{ type: "text", text: err.toResponseText() }],
+            isError: true,
+          };
+        }
+        throw err;
+      }
     },
   );
 
@@ -756,6 +1106,7 @@ export function createServer(): McpServer {
             "Override workspace root directory (default: current directory)",
           ),
       },
+      outputSchema: AnalyzeRepoMCPsOutputSchema,
       annotations: analyzeRepoMcpsAnnotations,
     },
     async (args) => {
@@ -765,6 +1116,7 @@ export function createServer(): McpServer {
       // Format as markdown for better readability
       return {
         content: [{ type: "text", text: formatAnalysisResult(result) }],
+        structuredContent: result,
       };
     },
   );
@@ -797,6 +1149,7 @@ export function createServer(): McpServer {
             "Path where .env-mcp will be created (default: .env-mcp in workspaceRoot)",
           ),
       },
+      outputSchema: PrepareMCPInstallationOutputSchema,
       annotations: prepareMcpInstallationAnnotations,
     },
     async (args) => {
@@ -810,6 +1163,7 @@ export function createServer(): McpServer {
             text: result.message + "\n\n" + formatPreparationSummary(result),
           },
         ],
+        structuredContent: result,
       };
     },
   );
@@ -846,6 +1200,7 @@ export function createServer(): McpServer {
             "Only generate commands without marking ready to execute (default: false)",
           ),
       },
+      outputSchema: ExecuteMCPInstallationOutputSchema,
       annotations: executeMcpInstallationAnnotations,
     },
     async (args) => {
@@ -854,6 +1209,7 @@ export function createServer(): McpServer {
       const result = await executeMCPInstallation(input);
       return {
         content: [{ type: "text", text: formatExecutionResult(result) }],
+        structuredContent: result,
       };
     },
   );
@@ -874,7 +1230,17 @@ export function createServer(): McpServer {
           .min(1)
           .max(20)
           .describe("Array of MCP server IDs to check compatibility between"),
+        mcpConfig: z
+          .record(z.unknown())
+          .optional()
+          .describe(
+            "Contents of your MCP config file (mcpServers or servers), to check the conditions of conditional pairs",
+          ),
+        policy: ScorePolicyInputSchema.optional().describe(
+          "Score policy for this call, layered over the organisation policy: penalties, grade bands, severity overrides and ignored rules",
+        ),
       },
+      outputSchema: CompatibilityReportOutputSchema,
       annotations: checkCompatibilityAnnotations,
     },
     async (args) => {
@@ -882,13 +1248,8 @@ export function createServer(): McpServer {
       const input = CheckCompatibilityInputSchema.parse(args);
       const { text, data, isError } = executeCheckCompatibility(input);
       return {
-        content: [
-          { type: "text", text },
-          {
-            type: "text",
-            text: `\n---\n\n**Structured Data:**\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``,
-          },
-        ],
+        content: [{ type: "text", text }],
+        structuredContent: { ...data },
         isError,
       };
     },
@@ -922,14 +1283,16 @@ export function createServer(): McpServer {
           .optional()
           .describe("Client context for adapted snippets"),
       },
+      outputSchema: GetWorkflowGuideOutputSchema,
       annotations: getWorkflowGuideAnnotations,
     },
     async (args) => {
       debug("get_workflow_guide called", args);
       const input = GetWorkflowGuideInputSchema.parse(args);
-      const { text } = executeGetWorkflowGuide(input);
+      const { text, data } = executeGetWorkflowGuide(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
       };
     },
   );
@@ -969,6 +1332,7 @@ export function createServer(): McpServer {
           .optional()
           .describe("Include market analysis (default: true)"),
       },
+      outputSchema: EstimateProjectOutputSchema,
       annotations: estimateProjectAnnotations,
     },
     async (args) => {
@@ -976,9 +1340,10 @@ export function createServer(): McpServer {
         specsLength: (args.specs as string)?.length,
       });
       const input = EstimateProjectInputSchema.parse(args);
-      const { text, isError } = await executeEstimateProject(input);
+      const { text, data, isError } = await executeEstimateProject(input);
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
@@ -991,20 +1356,22 @@ export function createServer(): McpServer {
       title: "Get Estimate Quota",
       description: getEstimateQuotaToolDefinition.description,
       inputSchema: {},
+      outputSchema: EstimateQuotaOutputSchema,
       annotations: getEstimateQuotaAnnotations,
     },
     async () => {
       debug("get_estimate_quota called");
-      const { text, isError } = await executeGetEstimateQuota({});
+      const { text, data, isError } = await executeGetEstimateQuota({});
       return {
         content: [{ type: "text", text }],
+        structuredContent: data,
         isError,
       };
     },
   );
 
   info(
-    "Registered 26 tools: list_technologies, analyze_tech, compare_techs, recommend_stack_demo, recommend_stack, get_blueprint, create_blueprint, setup_api_key, list_api_keys, revoke_api_key, create_api_key, create_audit, get_audit, list_audits, compare_audits, get_audit_quota, get_migration_recommendation, import_better_t_stack, generate_mcp_kit, analyze_repo_mcps, prepare_mcp_installation, execute_mcp_installation, check_mcp_compatibility, get_workflow_guide, estimate_project, get_estimate_quota",
+    "Registered 33 tools: list_technologies, analyze_tech, compare_techs, rank_category, recommend_stack_demo, diff_data_versions, check_stack_compatibility, plan_migration, find_alternatives, get_taxonomy, recommend_stack_local, recommend_stack, get_blueprint, create_blueprint, setup_api_key, list_api_keys, revoke_api_key, create_api_key, create_audit, get_audit, list_audits, compare_audits, get_audit_quota, get_migration_recommendation, import_better_t_stack, generate_mcp_kit, analyze_repo_mcps, prepare_mcp_installation, execute_mcp_installation, check_mcp_compatibility, get_workflow_guide, estimate_project, get_estimate_quota",
   );
 
   return server;
@@ -1027,19 +1394,19 @@ function formatAnalysisResult(result: AnalyzeRepoMCPsOutput): string {
 
   const stackItems = [
     result.detectedStack.frontend &&
-      `- **Frontend**: ${result.detectedStack.frontend.name}${result.detectedStack.frontend.version ? ` (${result.detectedStack.frontend.version})` : ""}`,
+      `- **Frontend**: ${result.detectedStack.frontend.name}${result.detectedStack.frontend.version ? ` (${result.detectedStack.frontend.version})` : ""}${formatScoredVersion(result.detectedStack.frontend)}`,
     result.detectedStack.backend &&
-      `- **Backend**: ${result.detectedStack.backend.name}${result.detectedStack.backend.version ? ` (${result.detectedStack.backend.version})` : ""}`,
+      `- **Backend**: ${result.detectedStack.backend.name}${result.detectedStack.backend.version ? ` (${result.detectedStack.backend.version})` : ""}${formatScoredVersion(result.detectedStack.backend)}`,
     result.detectedStack.database &&
-      `- **Database**: ${result.detectedStack.database.name}${result.detectedStack.database.version ? ` (${result.detectedStack.database.version})` : ""}`,
+      `- **Database**: ${result.detectedStack.database.name}${result.detectedStack.database.version ? ` (${result.detectedStack.database.version})` : ""}${formatScoredVersion(result.detectedStack.database)}`,
     result.detectedStack.orm &&
-      `- **ORM**: ${result.detectedStack.orm.name}${result.detectedStack.orm.version ? ` (${result.detectedStack.orm.version})` : ""}`,
+      `- **ORM**: ${result.detectedStack.orm.name}${result.detectedStack.orm.version ? ` (${result.detectedStack.orm.version})` : ""}${formatScoredVersion(result.detectedStack.orm)}`,
     result.detectedStack.auth &&
-      `- **Auth**: ${result.detectedStack.auth.name}${result.detectedStack.auth.version ? ` (${result.detectedStack.auth.version})` : ""}`,
+      `- **Auth**: ${result.detectedStack.auth.name}${result.detectedStack.auth.version ? ` (${result.detectedStack.auth.version})` : ""}${formatScoredVersion(result.detectedStack.auth)}`,
     result.detectedStack.hosting &&
-      `- **Hosting**: ${result.detectedStack.hosting.name}${result.detectedStack.hosting.version ? ` (${result.detectedStack.hosting.version})` : ""}`,
+      `- **Hosting**: ${result.detectedStack.hosting.name}${result.detectedStack.hosting.version ? ` (${result.detectedStack.hosting.version})` : ""}${formatScoredVersion(result.detectedStack.hosting)}`,
     result.detectedStack.payments &&
-      `- **Payments**: ${result.detectedStack.payments.name}${result.detectedStack.payments.version ? ` (${result.detectedStack.payments.version})` : ""}`,
+      `- **Payments**: ${result.detectedStack.payments.name}${result.detectedStack.payments.version ? ` (${result.detectedStack.payments.version})` : ""}${formatScoredVersion(result.detectedStack.payments)}`,
   ].filter((item): item is string => Boolean(item));
 
   if (stackItems.length > 0) {
@@ -1051,7 +1418,11 @@ function formatAnalysisResult(result: AnalyzeRepoMCPsOutput): string {
   if (result.detectedStack.services.length > 0) {
     lines.push("\n**Services**:");
     for (const service of result.detectedStack.services) {
-      lines.push(`- ${service.name}`);
+      lines.push(
+        service.category
+          ? `- ${service.name} (${service.category})`
+          : `- ${service.name}`,
+      );
     }
   }
 
@@ -1071,7 +1442,11 @@ function formatAnalysisResult(result: AnalyzeRepoMCPsOutput): string {
   // Installed MCPs
   if (result.installedMcps.length > 0) {
     lines.push("## Already Installed MCPs\n");
-    lines.push(result.installedMcps.map((m) => `- ${m}`).join("\n"));
+    lines.push(
+      result.installedMcps
+        .map((m) => `- ${formatInstalledMcp(m, result.installedIdentities)}`)
+        .join("\n"),
+    );
     lines.push("");
   }
 
@@ -1,30 +1,82 @@
 import { z } from 'zod';
 import {
-	CONTEXTS,
+	CATEGORIES,
+	ContextSchema,
 	DATA_VERSION,
 	DIMENSION_LABELS,
+	DIMENSION_WEIGHTS_JSON_SCHEMA,
+	DimensionWeightsSchema,
+	OVERLAY_FOOTNOTE,
 	SCORE_DIMENSIONS,
+	ScoresSchema,
+	type ScoreDimension,
 	type Scores,
 	calculateOverallScore,
+	calculateWeightedScore,
 	findCompatibleTechs,
+	formatDimensionProvenance,
 	getAllTechIds,
 	getScores,
+	formatWeights,
+	getCustomContext,
+	getOverlayStatus,
+	getOverriddenDimensions,
+	getProvenance,
+	getTechDisplayName,
+	getTechVersions,
 	getTechnology,
+	hasCustomWeights,
+	isOverlayCompatibility,
+	markOverlay,
+	normalizeMajorVersion,
+	parseTechRef,
 	scoreToGrade,
 	techExists
 } from '../data/index.js';
-import { techNotFoundError } from '../utils/errors.js';
+import { techNotFoundError, versionNotFoundError } from '../utils/errors.js';
 
 /**
  * Input schema for analyze_tech tool.
  */
 export const AnalyzeTechInputSchema = z.object({
-	technology: z.string().min(1).describe('Technology ID to analyze (e.g., "nextjs", "postgres")'),
-	context: z.enum(CONTEXTS).optional().default('default').describe('Context for score lookup')
+	technology: z
+		.string()
+		.min(1)
+		.describe('Technology ID to analyze, optionally with a major version (e.g., "nextjs", "nextjs@14")'),
+	context: ContextSchema.optional().default('default').describe('Context for score lookup'),
+	weights: DimensionWeightsSchema.optional().describe('Per-dimension weights for the overall score')
 });
 
 export type AnalyzeTechInput = z.infer<typeof AnalyzeTechInputSchema>;
 
+/**
+ * Structured output of analyze_tech.
+ */
+export const AnalyzeTechOutputSchema = z.object({
+	id: z.string(),
+	version: z.string().optional(),
+	name: z.string(),
+	category: z.enum(CATEGORIES),
+	context: z.string(),
+	url: z.string(),
+	scores: ScoresSchema,
+	rawAverage: z.number(),
+	/** Weighted score (equals rawAverage when no custom weights are set) */
+	score: z.number(),
+	grade: z.string(),
+	weights: DimensionWeightsSchema.optional(),
+	strengths: z.array(z.object({ dimension: z.enum(SCORE_DIMENSIONS), score: z.number() })),
+	weaknesses: z.array(z.object({ dimension: z.enum(SCORE_DIMENSIONS), score: z.number() })),
+	compatible: z.array(z.object({ id: z.string(), score: z.number() })),
+	scoredVersions: z.array(z.string()),
+	overlay: z.enum(['internal', 'overridden']).optional(),
+	/** Dimensions whose score comes from the data overlay */
+	overlayDimensions: z.array(z.enum(SCORE_DIMENSIONS)),
+	dataVersion: z.string()
+});
+
+export type AnalyzeTechOutput = z.infer<typeof AnalyzeTechOutputSchema>;
+
 /**
  * Tool definition for MCP registration.
  */
@@ -43,19 +95,23 @@ export const analyzeTechToolDefinition = {
 **Common Pitfalls**:
 - Unknown technology ID: Use exact IDs from list_technologies (e.g., "nextjs" not "Next.js")
 
+**Versions**: Append a major version (e.g., \`nextjs@14\`, \`prisma@5\`) to use version-specific scores where available.
+
+**Custom weights**: Pass \`weights\` (e.g., \`{ compliance: 3, maintain: 2 }\`) to get a weighted score alongside the raw average.
+
 **Example**: \`analyze_tech({ technology: "nextjs", context: "mvp" })\``,
 	inputSchema: {
 		type: 'object' as const,
 		properties: {
 			technology: {
 				type: 'string',
-				description: 'Technology ID (e.g., "nextjs", "postgres", "drizzle")'
+				description: 'Technology ID, optionally with a major version (e.g., "nextjs", "nextjs@14", "drizzle")'
 			},
 			context: {
 				type: 'string',
-				enum: CONTEXTS,
-				description: 'Context for scoring (default, mvp, enterprise)'
-			}
+				description: 'Context for scoring (default, mvp, enterprise, or a custom context from the data overlay)'
+			},
+			weights: DIMENSION_WEIGHTS_JSON_SCHEMA
 		},
 		required: ['technology']
 	}
@@ -64,9 +120,10 @@ export const analyzeTechToolDefinition = {
 /**
  * Identify strengths (top scores) and weaknesses (low scores).
  */
-function analyzeStrengthsWeaknesses(
-	scores: Scores
-): { strengths: Array<{ dim: string; score: number }>; weaknesses: Array<{ dim: string; score: number }> } {
+function analyzeStrengthsWeaknesses(scores: Scores): {
+	strengths: Array<{ dim: string; dimKey: ScoreDimension; score: number }>;
+	weaknesses: Array<{ dim: string; dimKey: ScoreDimension; score: number }>;
+} {
 	const sorted = SCORE_DIMENSIONS.map((dim) => ({
 		dim: DIMENSION_LABELS[dim],
 		dimKey: dim,
@@ -83,16 +140,22 @@ function analyzeStrengthsWeaknesses(
 		.slice(0, 2);
 
 	return {
-		strengths: strengths.map((s) => ({ dim: s.dim, score: s.score })),
-		weaknesses: weaknesses.map((s) => ({ dim: s.dim, score: s.score }))
+		strengths: strengths.map((s) => ({ dim: s.dim, dimKey: s.dimKey, score: s.score })),
+		weaknesses: weaknesses.map((s) => ({ dim: s.dim, dimKey: s.dimKey, score: s.score }))
 	};
 }
 
 /**
  * Execute analyze_tech tool.
  */
-export function executeAnalyzeTech(input: AnalyzeTechInput): { text: string; isError?: boolean } {
-	const { technology, context = 'default' } = input;
+export function executeAnalyzeTech(input: AnalyzeTechInput): {
+	text: string;
+	data?: AnalyzeTechOutput;
+	isError?: boolean;
+} {
+	const { context = 'default', weights } = input;
+	const ref = parseTechRef(input.technology);
+	const technology = ref.id;
 
 	// Check if technology exists
 	if (!techExists(technology)) {
@@ -100,10 +163,19 @@ export function executeAnalyzeTech(input: AnalyzeTechInput): { text: string; isE
 		return { text: error.toResponseText(), isError: true };
 	}
 
+	const versions = getTechVersions(technology);
+	const version = ref.version ? (normalizeMajorVersion(ref.version) ?? undefined) : undefined;
+	if (ref.version && (!version || !versions.includes(version))) {
+		const error = versionNotFoundError(technology, ref.version, versions);
+		return { text: error.toResponseText(), isError: true };
+	}
+
 	const tech = getTechnology(technology)!;
-	const scores = getScores(technology, context)!;
+	const scores = getScores(technology, context, version)!;
 	const overallScore = calculateOverallScore(scores);
-	const grade = scoreToGrade(overallScore);
+	const weighted = hasCustomWeights(weights);
+	const weightedScore = calculateWeightedScore(scores, weights);
+	const grade = scoreToGrade(weighted ? weightedScore : overallScore);
 
 	// Get strengths and weaknesses
 	const { strengths, weaknesses } = analyzeStrengthsWeaknesses(scores);
@@ -111,21 +183,58 @@ export function executeAnalyzeTech(input: AnalyzeTechInput): { text: string; isE
 	// Get compatible technologies
 	const compatible = findCompatibleTechs(technology);
 
+	// Show weighted and raw scores side by side so custom weights stay explainable
+	const scoreLines = weighted
+		? `**Weighted Score**: ${weightedScore}/100 (${grade}) — weights: ${formatWeights(weights)}\n**Raw Average**: ${overallScore}/100`
+		: `**Overall Score**: ${overallScore}/100 (${grade})`;
+
+	const customContext = getCustomContext(context);
+	const contextNote = customContext
+		? `_Custom context "${customContext.id}"${customContext.description ? ` (${customContext.description})` : ''}: deltas over default_\n`
+		: '';
+
+	// Overlay values are marked so internal data is never mistaken for StacksFinder data
+	const overlayStatus = getOverlayStatus(technology);
+	const overlayDims = getOverriddenDimensions(technology, context);
+	let usesOverlay = overlayDims.length > 0;
+
 	// Build response
-	let text = `## ${tech.name} Analysis (context: ${context})
+	const displayName = getTechDisplayName(technology, version);
+	const versionsLine =
+		versions.length > 0
+			? `**Scored Versions**: ${versions.map((v) => (v === version ? `**${v}**` : v)).join(', ')}${version ? '' : ` (e.g., \`${technology}@${versions[versions.length - 1]}\`)`}\n`
+			: '';
+
+	let text = `## ${markOverlay(displayName, overlayStatus === 'internal')} Analysis (context: ${context})
 
 **Category**: ${tech.category}
-**Overall Score**: ${overallScore}/100 (${grade})
+${scoreLines}
 **URL**: ${tech.url}
-
+${versionsLine}${contextNote}
 ### Scores by Dimension
-| Dimension | Score | Grade |
-|-----------|-------|-------|
+${weighted ? '| Dimension | Score | Grade | Weight |\n|-----------|-------|-------|--------|' : '| Dimension | Score | Grade |\n|-----------|-------|-------|'}
 `;
 
 	for (const dim of SCORE_DIMENSIONS) {
 		const score = scores[dim];
-		text += `| ${DIMENSION_LABELS[dim]} | ${score} | ${scoreToGrade(score)} |\n`;
+		const weightCell = weighted ? ` ${weights?.[dim] ?? 1} |` : '';
+		text += `| ${DIMENSION_LABELS[dim]} | ${markOverlay(score, overlayDims.includes(dim))} | ${scoreToGrade(score)} |${weightCell}\n`;
+	}
+
+	// Score rationale (from provenance data, when recorded)
+	const provenance = getProvenance(technology);
+	const rationaleLines = SCORE_DIMENSIONS.flatMap((dim) => {
+		// Bundled rationale does not describe overlay scores
+		if (overlayDims.includes(dim)) return [];
+		const line = formatDimensionProvenance(provenance?.dimensions?.[dim]);
+		return line ? [`- **${DIMENSION_LABELS[dim]}**: ${line}`] : [];
+	});
+	if (rationaleLines.length > 0 || provenance?.lastReviewed) {
+		text += '\n### Score Rationale\n';
+		if (provenance?.lastReviewed) {
+			text += `_Last reviewed: ${provenance.lastReviewed}_\n`;
+		}
+		text += rationaleLines.map((line) => `${line}\n`).join('');
 	}
 
 	// Strengths
@@ -147,11 +256,42 @@ export function executeAnalyzeTech(input: AnalyzeTechInput): { text: string; isE
 	// Compatible technologies
 	if (compatible.length > 0) {
 		text += '\n### Compatible Technologies (top 8)\n';
-		const compatList = compatible.map((c) => `${c.id} (${c.score})`).join(', ');
+		const compatList = compatible
+			.map((c) => {
+				const fromOverlay = isOverlayCompatibility(technology, c.id) || getOverlayStatus(c.id) === 'internal';
+				usesOverlay ||= fromOverlay;
+				return `${c.id} (${markOverlay(c.score, fromOverlay)})`;
+			})
+			.join(', ');
 		text += `${compatList}\n`;
 	}
 
+	if (usesOverlay) {
+		text += `\n${OVERLAY_FOOTNOTE}\n`;
+	}
+
 	text += `\nData version: ${DATA_VERSION}`;
 
-	return { text };
+	const data: AnalyzeTechOutput = {
+		id: technology,
+		...(version && { version }),
+		name: displayName,
+		category: tech.category,
+		context,
+		url: tech.url,
+		scores: { ...scores },
+		rawAverage: overallScore,
+		score: weightedScore,
+		grade,
+		...(weighted && { weights }),
+		strengths: strengths.map((s) => ({ dimension: s.dimKey, score: s.score })),
+		weaknesses: weaknesses.map((w) => ({ dimension: w.dimKey, score: w.score })),
+		compatible,
+		scoredVersions: versions,
+		...(overlayStatus && { overlay: overlayStatus }),
+		overlayDimensions: overlayDims,
+		dataVersion: DATA_VERSION
+	};
+
+	return { text, data };
 }
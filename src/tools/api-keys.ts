@@ -14,6 +14,18 @@ export const SetupApiKeyInputSchema = z.object({
 
 export type SetupApiKeyInput = z.infer<typeof SetupApiKeyInputSchema>;
 
+/**
+ * Structured output of setup_api_key and create_api_key.
+ */
+export const CreatedApiKeyOutputSchema = z.object({
+	apiKey: z.string().optional(),
+	keyId: z.string().optional(),
+	prefix: z.string().optional(),
+	manageUrl: z.string()
+});
+
+export type CreatedApiKeyOutput = z.infer<typeof CreatedApiKeyOutputSchema>;
+
 /**
  * Tool definition for setup_api_key.
  */
@@ -49,7 +61,7 @@ interface SetupApiResponse {
  */
 export async function executeSetupApiKey(
 	input: SetupApiKeyInput
-): Promise<{ text: string; isError?: boolean; apiKey?: string }> {
+): Promise<{ text: string; isError?: boolean; apiKey?: string; data?: CreatedApiKeyOutput }> {
 	const config = getConfig();
 	const { email, password, keyName } = input;
 
@@ -117,7 +129,16 @@ export STACKSFINDER_API_KEY="${data.apiKey}"
 
 View and manage keys at: ${config.apiUrl}/account/developer/api-keys`;
 
-		return { text, apiKey: data.apiKey };
+		return {
+			text,
+			apiKey: data.apiKey,
+			data: {
+				apiKey: data.apiKey,
+				keyId: data.keyId,
+				prefix: data.prefix,
+				manageUrl: `${config.apiUrl}/account/developer/api-keys`
+			}
+		};
 	} catch (err) {
 		if (err instanceof McpError) {
 			return { text: err.toResponseText(), isError: true };
@@ -147,30 +168,34 @@ export const listApiKeysToolDefinition = {
 };
 
 /**
- * API response for listing keys.
+ * API response for listing keys (also the structured output of list_api_keys).
  */
-interface ListKeysResponse {
-	keys: Array<{
-		id: string;
-		name: string;
-		prefix: string;
-		suffix: string;
-		scopes: string[];
-		createdAt: string;
-		lastUsedAt?: string;
-		expiresAt?: string;
-	}>;
-	limits: {
-		max: number;
-		used: number;
-		remaining: number;
-	};
-}
+export const ListApiKeysOutputSchema = z.object({
+	keys: z.array(
+		z.object({
+			id: z.string(),
+			name: z.string(),
+			prefix: z.string(),
+			suffix: z.string(),
+			scopes: z.array(z.string()),
+			createdAt: z.string(),
+			lastUsedAt: z.string().optional(),
+			expiresAt: z.string().optional()
+		})
+	),
+	limits: z.object({
+		max: z.number(),
+		used: z.number(),
+		remaining: z.number()
+	})
+});
+
+type ListKeysResponse = z.infer<typeof ListApiKeysOutputSchema>;
 
 /**
  * Execute list_api_keys tool.
  */
-export async function executeListApiKeys(): Promise<{ text: string; isError?: boolean }> {
+export async function executeListApiKeys(): Promise<{ text: string; data?: ListKeysResponse; isError?: boolean }> {
 	const config = getConfig();
 
 	if (!config.apiKey) {
@@ -205,7 +230,7 @@ export async function executeListApiKeys(): Promise<{ text: string; isError?: bo
 			};
 		}
 
-		const data = (await response.json()) as ListKeysResponse;
+		const data: ListKeysResponse = ListApiKeysOutputSchema.parse(await response.json());
 
 		let text = `## Your API Keys
 
@@ -228,7 +253,7 @@ export async function executeListApiKeys(): Promise<{ text: string; isError?: bo
 
 		text += `\nManage keys at: ${config.apiUrl}/account/developer/api-keys`;
 
-		return { text };
+		return { text, data };
 	} catch (err) {
 		const errorMessage = err instanceof Error ? err.message : 'Failed to list API keys';
 		return {
@@ -247,6 +272,16 @@ export const RevokeApiKeyInputSchema = z.object({
 
 export type RevokeApiKeyInput = z.infer<typeof RevokeApiKeyInputSchema>;
 
+/**
+ * Structured output of revoke_api_key.
+ */
+export const RevokeApiKeyOutputSchema = z.object({
+	keyId: z.string(),
+	revoked: z.literal(true)
+});
+
+export type RevokeApiKeyOutput = z.infer<typeof RevokeApiKeyOutputSchema>;
+
 /**
  * Tool definition for revoke_api_key.
  */
@@ -260,7 +295,7 @@ export const revokeApiKeyToolDefinition = {
  */
 export async function executeRevokeApiKey(
 	input: RevokeApiKeyInput
-): Promise<{ text: string; isError?: boolean }> {
+): Promise<{ text: string; data?: RevokeApiKeyOutput; isError?: boolean }> {
 	const config = getConfig();
 	const { keyId } = input;
 
@@ -307,7 +342,8 @@ export async function executeRevokeApiKey(
 
 The API key \`${keyId}\` has been revoked and can no longer be used.
 
-**Note**: If you revoked the key you're currently using, you'll need to configure a new one.`
+**Note**: If you revoked the key you're currently using, you'll need to configure a new one.`,
+			data: { keyId, revoked: true }
 		};
 	} catch (err) {
 		const errorMessage = err instanceof Error ? err.message : 'Failed to revoke API key';
@@ -365,7 +401,7 @@ export const createApiKeyToolDefinition = {
  */
 export async function executeCreateApiKey(
 	input: CreateApiKeyInput
-): Promise<{ text: string; isError?: boolean; apiKey?: string }> {
+): Promise<{ text: string; isError?: boolean; apiKey?: string; data?: CreatedApiKeyOutput }> {
 	const config = getConfig();
 	const authToken = getAuthToken();
 	const { keyName } = input;
@@ -447,7 +483,16 @@ export STACKSFINDER_API_KEY="${data.apiKey}"
 
 View and manage keys at: ${config.apiUrl}/account/developer/api-keys`;
 
-		return { text, apiKey: data.apiKey };
+		return {
+			text,
+			apiKey: data.apiKey,
+			data: {
+				apiKey: data.apiKey,
+				keyId: data.keyId,
+				prefix: data.prefix,
+				manageUrl: `${config.apiUrl}/account/developer/api-keys`
+			}
+		};
 	} catch (err) {
 		if (err instanceof McpError) {
 			return { text: err.toResponseText(), isError: true };
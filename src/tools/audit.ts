@@ -245,135 +245,176 @@ Use this after create_audit to get actionable migration guidance.`,
 // API RESPONSE TYPES
 // ============================================================================
 
-interface AuditFinding {
-  id: string;
-  category: string;
-  severity: "critical" | "high" | "medium" | "low" | "info";
-  title: string;
-  description: string;
-  technology: string;
-  currentVersion?: string;
-  recommendedVersion?: string;
-  eolDate?: string;
-  cveIds?: string[];
-  migrationEffort?: string;
-  suggestedAction: string;
-  references?: string[];
-  autoFixable?: boolean;
-}
+const AuditFindingSchema = z.object({
+  id: z.string(),
+  category: z.string(),
+  severity: z.enum(["critical", "high", "medium", "low", "info"]),
+  title: z.string(),
+  description: z.string(),
+  technology: z.string(),
+  currentVersion: z.string().optional(),
+  recommendedVersion: z.string().optional(),
+  eolDate: z.string().optional(),
+  cveIds: z.array(z.string()).optional(),
+  migrationEffort: z.string().optional(),
+  suggestedAction: z.string(),
+  references: z.array(z.string()).optional(),
+  autoFixable: z.boolean().optional(),
+});
 
-interface AuditSummary {
-  totalFindings: number;
-  criticalCount: number;
-  highCount: number;
-  mediumCount: number;
-  lowCount: number;
-  infoCount: number;
-  healthScore: number;
-}
+const AuditSummarySchema = z.object({
+  totalFindings: z.number(),
+  criticalCount: z.number(),
+  highCount: z.number(),
+  mediumCount: z.number(),
+  lowCount: z.number(),
+  infoCount: z.number(),
+  healthScore: z.number(),
+});
 
-interface AuditResponse {
-  id: string;
-  name: string;
-  status: string;
-  findings?: AuditFinding[];
-  summary?: AuditSummary;
-  createdAt: string;
-  completedAt?: string;
-}
+/**
+ * Audit report (structured output of create_audit and get_audit).
+ */
+export const AuditReportOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: z.string(),
+  findings: z.array(AuditFindingSchema).optional(),
+  summary: AuditSummarySchema.optional(),
+  createdAt: z.string(),
+  completedAt: z.string().optional(),
+});
 
-interface AuditListResponse {
-  audits: Array<{
-    id: string;
-    name: string;
-    status: string;
-    summary?: AuditSummary;
-    createdAt: string;
-  }>;
-  total: number;
-}
+type AuditResponse = z.infer<typeof AuditReportOutputSchema>;
 
-interface CompareResponse {
-  comparison: {
-    baseAudit: { id: string; name: string; healthScore: number };
-    compareAudit: { id: string; name: string; healthScore: number };
-    healthScoreDelta: number;
-    trend: "improving" | "stable" | "degrading";
-    newFindings: AuditFinding[];
-    resolvedFindings: AuditFinding[];
-    newCount: number;
-    resolvedCount: number;
-  };
-}
+/**
+ * Structured output of list_audits.
+ */
+export const ListAuditsOutputSchema = z.object({
+  audits: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      status: z.string(),
+      summary: AuditSummarySchema.optional(),
+      createdAt: z.string(),
+    }),
+  ),
+  total: z.number(),
+});
 
-interface QuotaResponse {
-  quota: {
-    used: number;
-    limit: number | "unlimited";
-    remaining: number | "unlimited";
-    resetsAt: string | null;
-  };
-}
+type AuditListResponse = z.infer<typeof ListAuditsOutputSchema>;
 
-interface MigrationRecommendationResponse {
-  auditId: string;
-  needsMigration: boolean;
-  migrationScore: number;
-  affectedTechCount: number;
-  criticalIssues: number;
-  recommendation: {
-    id: string;
-    urgency: "critical" | "high" | "medium" | "low";
-    scope: "full-stack" | "partial" | "incremental";
-    title: string;
-    summary: string;
-    estimatedEffort: string;
-    techsToReplace: Array<{
-      techId: string;
-      name: string;
-      currentVersion?: string;
-      reason: string;
-      relatedFindings: string[];
-    }>;
-    suggestedAlternatives: Array<{
-      forTech: string;
-      alternatives: string[];
-      preferredChoice?: string;
-      reason: string;
-    }>;
-    inferredConstraints: string[];
-    inferredContext: {
-      projectType?: string;
-      scale?: string;
-      priorities: string[];
-    };
-    migrationSteps: Array<{
-      order: number;
-      phase: string;
-      description: string;
-      techsAffected: string[];
-      effort: string;
-    }>;
-    risks: Array<{
-      level: "high" | "medium" | "low";
-      description: string;
-      mitigation: string;
-    }>;
-  } | null;
-  builderPreFill: {
-    constraintIds: string[];
-    context: {
-      projectType?: string;
-      scale?: string;
-      priorities: string[];
-    };
-    hints: {
-      techsToAvoid: string[];
-      preferredAlternatives: Record<string, string>;
-    };
-    migrationMode: boolean;
-  } | null;
-}
+const AuditRefSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  healthScore: z.number(),
+});
+
+/**
+ * Structured output of compare_audits.
+ */
+export const CompareAuditsOutputSchema = z.object({
+  baseAudit: AuditRefSchema,
+  compareAudit: AuditRefSchema,
+  healthScoreDelta: z.number(),
+  trend: z.enum(["improving", "stable", "degrading"]),
+  newFindings: z.array(AuditFindingSchema),
+  resolvedFindings: z.array(AuditFindingSchema),
+  newCount: z.number(),
+  resolvedCount: z.number(),
+});
+
+type CompareResponse = { comparison: z.infer<typeof CompareAuditsOutputSchema> };
+
+/**
+ * Structured output of get_audit_quota.
+ */
+export const AuditQuotaOutputSchema = z.object({
+  used: z.number(),
+  limit: z.union([z.number(), z.literal("unlimited")]),
+  remaining: z.union([z.number(), z.literal("unlimited")]),
+  resetsAt: z.string().nullable(),
+});
+
+type QuotaResponse = { quota: z.infer<typeof AuditQuotaOutputSchema> };
+
+const InferredContextSchema = z.object({
+  projectType: z.string().optional(),
+  scale: z.string().optional(),
+  priorities: z.array(z.string()),
+});
+
+/**
+ * Structured output of get_migration_recommendation.
+ */
+export const MigrationRecommendationOutputSchema = z.object({
+  auditId: z.string(),
+  needsMigration: z.boolean(),
+  migrationScore: z.number(),
+  affectedTechCount: z.number(),
+  criticalIssues: z.number(),
+  recommendation: z
+    .object({
+      id: z.string(),
+      urgency: z.enum(["critical", "high", "medium", "low"]),
+      scope: z.enum(["full-stack", "partial", "incremental"]),
+      title: z.string(),
+      summary: z.string(),
+      estimatedEffort: z.string(),
+      techsToReplace: z.array(
+        z.object({
+          techId: z.string(),
+          name: z.string(),
+          currentVersion: z.string().optional(),
+          reason: z.string(),
+          relatedFindings: z.array(z.string()),
+        }),
+      ),
+      suggestedAlternatives: z.array(
+        z.object({
+          forTech: z.string(),
+          alternatives: z.array(z.string()),
+          preferredChoice: z.string().optional(),
+          reason: z.string(),
+        }),
+      ),
+      inferredConstraints: z.array(z.string()),
+      inferredContext: InferredContextSchema,
+      migrationSteps: z.array(
+        z.object({
+          order: z.number(),
+          phase: z.string(),
+          description: z.string(),
+          techsAffected: z.array(z.string()),
+          effort: z.string(),
+        }),
+      ),
+      risks: z.array(
+        z.object({
+          level: z.enum(["high", "medium", "low"]),
+          description: z.string(),
+          mitigation: z.string(),
+        }),
+      ),
+    })
+    .nullable(),
+  builderPreFill: z
+    .object({
+      constraintIds: z.array(z.string()),
+      context: InferredContextSchema,
+      hints: z.object({
+        techsToAvoid: z.array(z.string()),
+        preferredAlternatives: z.record(z.string()),
+      }),
+      migrationMode: z.boolean(),
+    })
+    .nullable(),
+});
+
+type MigrationRecommendationResponse = z.infer<
+  typeof MigrationRecommendationOutputSchema
+>;
 
 // ============================================================================
 // FORMATTERS
@@ -632,7 +673,7 @@ function formatMigrationRecommendation(
  */
 export async function executeCreateAudit(
   input: CreateAuditInput,
-): Promise<{ text: string; isError?: boolean }> {
+): Promise<{ text: string; data?: AuditResponse; isError?: boolean }> {
   // Check Pro access
   const tierCheck = await checkProAccess("create_audit");
   if (tierCheck) return tierCheck;
@@ -643,20 +684,22 @@ export async function executeCreateAudit(
   });
 
   try {
-    const response = await apiRequest<AuditResponse>("/api/v1/audits", {
-      method: "POST",
-      body: {
-        name: input.name,
-        stackInput: {
-          technologies: input.technologies,
+    const response = AuditReportOutputSchema.parse(
+      await apiRequest<AuditResponse>("/api/v1/audits", {
+        method: "POST",
+        body: {
+          name: input.name,
+          stackInput: {
+            technologies: input.technologies,
+          },
+          source: "mcp",
         },
-        source: "mcp",
-      },
-      timeoutMs: 30000,
-    });
+        timeoutMs: 30000,
+      }),
+    );
 
     const text = formatAuditReport(response);
-    return { text };
+    return { text, data: response };
   } catch (err) {
     if (err instanceof McpError) {
       return { text: err.toResponseText(), isError: true };
@@ -674,7 +717,7 @@ export async function executeCreateAudit(
  */
 export async function executeGetAudit(
   input: GetAuditInput,
-): Promise<{ text: string; isError?: boolean }> {
+): Promise<{ text: string; data?: AuditResponse; isError?: boolean }> {
   // Check Pro access
   const tierCheck = await checkProAccess("get_audit");
   if (tierCheck) return tierCheck;
@@ -682,11 +725,11 @@ export async function executeGetAudit(
   debug("Fetching audit", { auditId: input.auditId });
 
   try {
-    const response = await apiRequest<AuditResponse>(
-      `/api/v1/audits/${input.auditId}`,
+    const response = AuditReportOutputSchema.parse(
+      await apiRequest<AuditResponse>(`/api/v1/audits/${input.auditId}`),
     );
     const text = formatAuditReport(response);
-    return { text };
+    return { text, data: response };
   } catch (err) {
     if (err instanceof McpError) {
       if (err.code === ErrorCode.NOT_FOUND) {
@@ -710,7 +753,7 @@ export async function executeGetAudit(
  */
 export async function executeListAudits(
   input: ListAuditsInput,
-): Promise<{ text: string; isError?: boolean }> {
+): Promise<{ text: string; data?: AuditListResponse; isError?: boolean }> {
   // Check Pro access
   const tierCheck = await checkProAccess("list_audits");
   if (tierCheck) return tierCheck;
@@ -718,13 +761,16 @@ export async function executeListAudits(
   debug("Listing audits", { limit: input.limit, offset: input.offset });
 
   try {
-    const response = await apiRequest<AuditListResponse>(
-      `/api/v1/audits?limit=${input.limit}&offset=${input.offset}`,
+    const response = ListAuditsOutputSchema.parse(
+      await apiRequest<AuditListResponse>(
+        `/api/v1/audits?limit=${input.limit}&offset=${input.offset}`,
+      ),
     );
 
     if (response.audits.length === 0) {
       return {
         text: `## Your Audits\n\nNo audit reports found. Create one with the \`create_audit\` tool.`,
+        data: response,
       };
     }
 
@@ -742,7 +788,7 @@ export async function executeListAudits(
       text += `\n_Showing ${response.audits.length} of ${response.total} audits. Use offset parameter for more._`;
     }
 
-    return { text };
+    return { text, data: response };
   } catch (err) {
     if (err instanceof McpError) {
       return { text: err.toResponseText(), isError: true };
@@ -760,7 +806,7 @@ export async function executeListAudits(
  */
 export async function executeCompareAudits(
   input: CompareAuditsInput,
-): Promise<{ text: string; isError?: boolean }> {
+): Promise<{ text: string; data?: CompareResponse["comparison"]; isError?: boolean }> {
   // Check Pro access
   const tierCheck = await checkProAccess("compare_audits");
   if (tierCheck) return tierCheck;
@@ -782,8 +828,9 @@ export async function executeCompareAudits(
       },
     );
 
-    const text = formatComparison(response.comparison);
-    return { text };
+    const comparison = CompareAuditsOutputSchema.parse(response.comparison);
+    const text = formatComparison(comparison);
+    return { text, data: comparison };
   } catch (err) {
     if (err instanceof McpError) {
       return { text: err.toResponseText(), isError: true };
@@ -801,6 +848,7 @@ export async function executeCompareAudits(
  */
 export async function executeGetAuditQuota(): Promise<{
   text: string;
+  data?: QuotaResponse["quota"];
   isError?: boolean;
 }> {
   // Check Pro access
@@ -811,7 +859,7 @@ export async function executeGetAuditQuota(): Promise<{
 
   try {
     const response = await apiRequest<QuotaResponse>("/api/v1/audits/quota");
-    const { quota } = response;
+    const quota = AuditQuotaOutputSchema.parse(response.quota);
 
     let text = `## Audit Quota\n\n`;
     text += `| Metric | Value |\n`;
@@ -824,7 +872,7 @@ export async function executeGetAuditQuota(): Promise<{
       text += `| Resets At | ${new Date(quota.resetsAt).toLocaleDateString()} |\n`;
     }
 
-    return { text };
+    return { text, data: quota };
   } catch (err) {
     if (err instanceof McpError) {
       return { text: err.toResponseText(), isError: true };
@@ -842,7 +890,7 @@ export async function executeGetAuditQuota(): Promise<{
  */
 export async function executeGetMigrationRecommendation(
   input: GetMigrationRecommendationInput,
-): Promise<{ text: string; isError?: boolean }> {
+): Promise<{ text: string; data?: MigrationRecommendationResponse; isError?: boolean }> {
   // Check Pro access
   const tierCheck = await checkProAccess("get_migration_recommendation");
   if (tierCheck) return tierCheck;
@@ -850,12 +898,14 @@ export async function executeGetMigrationRecommendation(
   debug("Getting migration recommendation", { auditId: input.auditId });
 
   try {
-    const response = await apiRequest<MigrationRecommendationResponse>(
-      `/api/v1/audits/${input.auditId}/migration`,
+    const response = MigrationRecommendationOutputSchema.parse(
+      await apiRequest<MigrationRecommendationResponse>(
+        `/api/v1/audits/${input.auditId}/migration`,
+      ),
     );
 
     const text = formatMigrationRecommendation(response);
-    return { text };
+    return { text, data: response };
   } catch (err) {
     if (err instanceof McpError) {
       if (err.code === ErrorCode.NOT_FOUND) {
@@ -964,18 +1014,23 @@ export const importBetterTStackToolDefinition = {
   },
 };
 
-interface ImportBetterTStackResponse {
-  audit: AuditResponse;
-  import: {
-    source: "github" | "package-json";
-    projectName: string;
-    betterTStackVersion?: string;
-    confidence: number;
-    technologiesDetected: number;
-    techSummary: Record<string, string[]>;
-    warnings: string[];
-  };
-}
+/**
+ * Structured output of import_better_t_stack.
+ */
+export const ImportBetterTStackOutputSchema = z.object({
+  audit: AuditReportOutputSchema,
+  import: z.object({
+    source: z.enum(["github", "package-json"]),
+    projectName: z.string(),
+    betterTStackVersion: z.string().optional(),
+    confidence: z.number(),
+    technologiesDetected: z.number(),
+    techSummary: z.record(z.array(z.string())),
+    warnings: z.array(z.string()),
+  }),
+});
+
+type ImportBetterTStackResponse = z.infer<typeof ImportBetterTStackOutputSchema>;
 
 function formatImportResult(response: ImportBetterTStackResponse): string {
   const { audit, import: imp } = response;
@@ -1028,7 +1083,7 @@ function formatImportResult(response: ImportBetterTStackResponse): string {
  */
 export async function executeImportBetterTStack(
   input: ImportBetterTStackInput,
-): Promise<{ text: string; isError?: boolean }> {
+): Promise<{ text: string; data?: ImportBetterTStackResponse; isError?: boolean }> {
   // Check Pro access
   const tierCheck = await checkProAccess("import_better_t_stack");
   if (tierCheck) return tierCheck;
@@ -1041,17 +1096,19 @@ export async function executeImportBetterTStack(
   });
 
   try {
-    const response = await apiRequest<ImportBetterTStackResponse>(
-      "/api/v1/audits/import/better-t-stack",
-      {
-        method: "POST",
-        body: input,
-        timeoutMs: 30000,
-      },
+    const response = ImportBetterTStackOutputSchema.parse(
+      await apiRequest<ImportBetterTStackResponse>(
+        "/api/v1/audits/import/better-t-stack",
+        {
+          method: "POST",
+          body: input,
+          timeoutMs: 30000,
+        },
+      ),
     );
 
     const text = formatImportResult(response);
-    return { text };
+    return { text, data: response };
   } catch (err) {
     if (err instanceof McpError) {
       if (err.code === ErrorCode.INVALID_INPUT) {
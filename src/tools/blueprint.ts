@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { PRIORITIES, PROJECT_TYPES, SCALES } from '../data/taxonomy.js';
 import {
 	getBlueprintRequest,
 	createBlueprintRequest,
@@ -39,23 +40,29 @@ export const getBlueprintToolDefinition = {
 };
 
 /**
- * API response structure (whitelisted fields).
+ * API response structure (whitelisted fields, also the structured output of get_blueprint).
  */
-interface BlueprintApiResponse {
-	id: string;
-	projectId: string;
-	narrative?: string;
-	selectedTechs: Array<{
-		category: string;
-		technology: string;
-	}>;
-	createdAt: string;
-	projectContext?: {
-		projectName?: string;
-		projectType?: string;
-		scale?: string;
-	};
-}
+export const BlueprintOutputSchema = z.object({
+	id: z.string(),
+	projectId: z.string(),
+	narrative: z.string().optional(),
+	selectedTechs: z.array(
+		z.object({
+			category: z.string(),
+			technology: z.string()
+		})
+	),
+	createdAt: z.string(),
+	projectContext: z
+		.object({
+			projectName: z.string().optional(),
+			projectType: z.string().optional(),
+			scale: z.string().optional()
+		})
+		.optional()
+});
+
+type BlueprintApiResponse = z.infer<typeof BlueprintOutputSchema>;
 
 /**
  * Format blueprint for MCP output.
@@ -101,7 +108,7 @@ ${blueprint.narrative}`;
  */
 export async function executeGetBlueprint(
 	input: GetBlueprintInput
-): Promise<{ text: string; isError?: boolean }> {
+): Promise<{ text: string; data?: BlueprintApiResponse; isError?: boolean }> {
 	// Check Pro access
 	const tierCheck = await checkProAccess('get_blueprint');
 	if (tierCheck) return tierCheck;
@@ -111,9 +118,9 @@ export async function executeGetBlueprint(
 	debug('Fetching blueprint', { blueprintId });
 
 	try {
-		const response = await getBlueprintRequest<BlueprintApiResponse>(blueprintId);
+		const response = BlueprintOutputSchema.parse(await getBlueprintRequest<BlueprintApiResponse>(blueprintId));
 		const text = formatBlueprint(response);
-		return { text };
+		return { text, data: response };
 	} catch (err) {
 		if (err instanceof McpError) {
 			// Add helpful suggestion for NOT_FOUND
@@ -138,39 +145,6 @@ export async function executeGetBlueprint(
 // CREATE BLUEPRINT TOOL
 // ============================================================================
 
-/**
- * Valid project types for blueprint creation.
- */
-const PROJECT_TYPES = [
-	'web-app',
-	'mobile-app',
-	'api',
-	'desktop',
-	'cli',
-	'library',
-	'e-commerce',
-	'saas',
-	'marketplace'
-] as const;
-
-/**
- * Valid scales for blueprint creation.
- */
-const SCALES = ['mvp', 'startup', 'growth', 'enterprise'] as const;
-
-/**
- * Valid priorities for blueprint creation.
- */
-const PRIORITIES = [
-	'time-to-market',
-	'scalability',
-	'developer-experience',
-	'cost-efficiency',
-	'performance',
-	'security',
-	'maintainability'
-] as const;
-
 /**
  * Input schema for create_blueprint tool.
  */
@@ -204,6 +178,23 @@ export const CreateBlueprintInputSchema = z.object({
 
 export type CreateBlueprintInput = z.infer<typeof CreateBlueprintInputSchema>;
 
+/**
+ * Structured output of create_blueprint.
+ */
+export const CreateBlueprintOutputSchema = z.object({
+	jobId: z.string(),
+	projectId: z.string(),
+	status: z.enum(['pending', 'running', 'completed']),
+	progress: z.number(),
+	/** True when the API returned an existing blueprint for the same input */
+	cached: z.boolean(),
+	links: z.object({ job: z.string(), blueprint: z.string().nullable() }),
+	/** Present once generation has completed */
+	blueprint: BlueprintOutputSchema.optional()
+});
+
+export type CreateBlueprintOutput = z.infer<typeof CreateBlueprintOutputSchema>;
+
 /**
  * Tool definition for MCP registration.
  */
@@ -300,7 +291,7 @@ async function pollJobUntilComplete(
  */
 export async function executeCreateBlueprint(
 	input: CreateBlueprintInput
-): Promise<{ text: string; isError?: boolean }> {
+): Promise<{ text: string; data?: CreateBlueprintOutput; isError?: boolean }> {
 	// Check Pro access
 	const tierCheck = await checkProAccess('create_blueprint');
 	if (tierCheck) return tierCheck;
@@ -335,13 +326,21 @@ export async function executeCreateBlueprint(
 
 		// Create the blueprint job
 		const createResponse = await createBlueprintRequest(requestBody);
+		const job = {
+			jobId: createResponse.jobId,
+			projectId: createResponse.projectId,
+			links: { job: createResponse._links.job, blueprint: createResponse._links.blueprint }
+		};
 
 		// If already completed (cached result), fetch and return
 		if (createResponse.status === 'completed' && createResponse.resultRef) {
-			const blueprint = await getBlueprintRequest<BlueprintApiResponse>(createResponse.resultRef);
+			const blueprint = BlueprintOutputSchema.parse(
+				await getBlueprintRequest<BlueprintApiResponse>(createResponse.resultRef)
+			);
 			const text = formatBlueprint(blueprint);
 			return {
-				text: `## Blueprint Created (Cached)\n\n${text}\n\n---\n*Source: MCP Server*`
+				text: `## Blueprint Created (Cached)\n\n${text}\n\n---\n*Source: MCP Server*`,
+				data: { ...job, status: 'completed', progress: 100, cached: true, blueprint }
 			};
 		}
 
@@ -359,7 +358,8 @@ Poll the job status at: ${createResponse._links.job}
 Once complete, fetch the blueprint at: ${createResponse._links.blueprint || 'TBD'}
 
 ---
-*Source: MCP Server*`
+*Source: MCP Server*`,
+				data: { ...job, status: createResponse.status, progress: createResponse.progress, cached: false }
 			};
 		}
 
@@ -372,7 +372,9 @@ Once complete, fetch the blueprint at: ${createResponse._links.blueprint || 'TBD
 		}
 
 		// Fetch the completed blueprint
-		const blueprint = await getBlueprintRequest<BlueprintApiResponse>(finalStatus.resultRef);
+		const blueprint = BlueprintOutputSchema.parse(
+			await getBlueprintRequest<BlueprintApiResponse>(finalStatus.resultRef)
+		);
 		const text = formatBlueprint(blueprint);
 
 		return {
@@ -383,7 +385,8 @@ ${text}
 ---
 **Job ID**: ${createResponse.jobId}
 **Project ID**: ${createResponse.projectId}
-*Source: MCP Server*`
+*Source: MCP Server*`,
+			data: { ...job, status: 'completed', progress: 100, cached: false, blueprint }
 		};
 	} catch (err) {
 		if (err instanceof McpError) {
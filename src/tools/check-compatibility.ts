@@ -10,12 +10,24 @@ import { z } from 'zod';
 import {
   initRulesIndex,
   getAllRules,
+  getAllGroupRules,
+  getIndexedRules,
   generateReport,
   formatReportAsMarkdown,
   getReportSummaryLine,
+  parseMcpServerEntries,
+  ScorePolicyInputSchema,
+  DEFAULT_SCORE_POLICY,
+  PENALTY_KEYS,
+  SEVERITIES,
   CURATED_MCPS,
+  MCP_CATEGORIES,
+  MCP_TRANSPORTS,
   type CompatibilityReport,
 } from '../lib/compatibility/index.js';
+import { getRulePacks } from '../lib/rule-packs.js';
+import { resolveEffectiveScorePolicy } from '../lib/score-policy.js';
+import { keyServersByMcpId, resolveMcpIdentities } from '../lib/mcp-identity.js';
 
 // ============================================
 // Input Schema
@@ -27,6 +39,13 @@ export const CheckCompatibilityInputSchema = z.object({
     .min(1)
     .max(20)
     .describe('Array of MCP server IDs to check compatibility between'),
+  mcpConfig: z
+    .record(z.unknown())
+    .optional()
+    .describe('Contents of your MCP config file (mcpServers or servers), to check the conditions of conditional pairs'),
+  policy: ScorePolicyInputSchema.optional().describe(
+    'Score policy for this call, layered over the organisation policy: penalties, grade bands, severity overrides and ignored rules'
+  ),
 });
 
 export type CheckCompatibilityInput = z.infer<typeof CheckCompatibilityInputSchema>;
@@ -35,6 +54,98 @@ export type CheckCompatibilityInput = z.infer<typeof CheckCompatibilityInputSche
 // Output Types
 // ============================================
 
+const RuleConditionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('env'), name: z.string(), mcp: z.string().optional() }),
+  z.object({ type: z.literal('transport'), transport: z.enum(MCP_TRANSPORTS), mcp: z.string().optional() }),
+]);
+
+const MatchedRuleSchema = z.object({
+  rule: z.object({
+    id: z.string(),
+    mcpA: z.string(),
+    mcpB: z.string(),
+    status: z.enum(['compatible', 'conflict', 'redundant', 'synergy', 'conditional']),
+    category: z.enum(MCP_CATEGORIES),
+    severity: z.enum(['critical', 'warning', 'info']),
+    reason: z.string(),
+    solution: z.string().optional(),
+    recommendation: z.enum(['A', 'B', 'either', 'both']).optional(),
+    suggestWhenMissing: z.array(z.string()).optional(),
+    conditions: z.array(RuleConditionSchema).optional(),
+    pack: z.string().optional(),
+  }),
+  inputA: z.string(),
+  inputB: z.string(),
+});
+
+const ConditionStatusSchema = z.enum(['satisfied', 'unsatisfied', 'unknown']);
+
+const EvaluatedConditionalSchema = MatchedRuleSchema.extend({
+  status: ConditionStatusSchema,
+  checks: z.array(
+    z.object({
+      condition: RuleConditionSchema,
+      mcp: z.string(),
+      status: ConditionStatusSchema,
+      detail: z.string(),
+    })
+  ),
+});
+
+const GroupFindingSchema = z.object({
+  rule: z.object({
+    id: z.string(),
+    title: z.string(),
+    kind: z.enum(['at-most', 'requires']),
+    members: z.object({
+      category: z.enum(MCP_CATEGORIES).optional(),
+      mcps: z.array(z.string()).optional(),
+    }),
+    limit: z.number(),
+    when: z.array(z.string()).optional(),
+    category: z.enum(MCP_CATEGORIES),
+    severity: z.enum(['critical', 'warning', 'info']),
+    reason: z.string(),
+    solution: z.string().optional(),
+    pack: z.string().optional(),
+  }),
+  members: z.array(z.string()),
+  triggeredBy: z.array(z.string()),
+  replaces: z.array(z.string()),
+});
+
+/**
+ * Structured output of check_mcp_compatibility (the compatibility report).
+ */
+export const CompatibilityReportOutputSchema = z.object({
+  summary: z.object({
+    total: z.number(),
+    conflicts: z.number(),
+    redundancies: z.number(),
+    synergies: z.number(),
+    conditionals: z.number(),
+    groups: z.number(),
+    score: z.number(),
+    grade: z.enum(['A', 'B', 'C', 'D']),
+  }),
+  conflicts: z.array(MatchedRuleSchema),
+  redundancies: z.array(MatchedRuleSchema),
+  synergies: z.array(MatchedRuleSchema),
+  conditionals: z.array(EvaluatedConditionalSchema),
+  groups: z.array(GroupFindingSchema),
+  ignored: z.array(z.object({ ruleId: z.string(), justification: z.string(), mcps: z.array(z.string()) })),
+  suggestions: z.array(z.object({ mcp: z.string(), reason: z.string(), basedOn: z.string() })),
+  analyzedMcps: z.array(z.string()),
+  policy: z.object({
+    penalties: z.record(z.enum(PENALTY_KEYS as [string, ...string[]]), z.number()),
+    bonuses: z.object({ synergy: z.number(), synergyCap: z.number() }),
+    grades: z.object({ A: z.number(), B: z.number(), C: z.number() }),
+    severityOverrides: z.record(z.enum(SEVERITIES)),
+    ignore: z.array(z.object({ ruleId: z.string(), justification: z.string() })),
+    sources: z.array(z.enum(['default', 'org', 'call'])),
+  }),
+});
+
 export interface CheckCompatibilityOutput {
   text: string;
   data: CompatibilityReport;
@@ -49,12 +160,16 @@ export const checkCompatibilityToolDefinition = {
   name: 'check_mcp_compatibility',
   description: `Check compatibility between MCP servers. Detects conflicts (e.g., two database providers), redundancies (e.g., two ORMs), and synergies (e.g., GitHub + Vercel).
 
+Group rules cover more than two MCPs (e.g., "at most one database provider", "Stripe requires an email provider"); a violated group is reported once instead of as one finding per pair.
+
 Returns a health score (0-100) with grade (A/B/C/D) and detailed breakdown.
 
 **Examples:**
 - Check database compatibility: \`["supabase-mcp", "neon-mcp"]\` → conflict detected
 - Check ORM redundancy: \`["prisma-mcp", "drizzle-mcp"]\` → redundancy warning
 - Check synergies: \`["stripe-mcp", "resend-mcp"]\` → synergy detected
+- Check conditional pairs: \`["prisma-mcp", "supabase-mcp"]\` with \`mcpConfig\` → conditions (env vars, transport) marked satisfied / unsatisfied / unknown; unmet conditions lower the score
+- Apply a score policy: \`policy: { "severityOverrides": { "orm-001": "info" }, "ignore": [{ "ruleId": "db-001", "justification": "Migration in progress" }] }\` → the report echoes the effective policy behind the grade
 
 **Supported MCP IDs include:**
 ${CURATED_MCPS.slice(0, 10).map((mcp) => `- ${mcp}`).join('\n')}
@@ -74,6 +189,15 @@ ${CURATED_MCPS.slice(0, 10).map((mcp) => `- ${mcp}`).join('\n')}
         maxItems: 20,
         description: 'Array of MCP server IDs to check compatibility between',
       },
+      mcpConfig: {
+        type: 'object',
+        description: 'Contents of your MCP config file (mcpServers or servers), to check the conditions of conditional pairs',
+      },
+      policy: {
+        type: 'object',
+        description:
+          'Score policy for this call, layered over the organisation policy: penalties ({ "conflict_critical": -30 }), bonuses ({ synergy, synergyCap }), grades ({ A, B, C }), severityOverrides ({ ruleId: severity }) and ignore ([{ ruleId, justification }])',
+      },
     },
     required: ['mcps'],
   },
@@ -87,7 +211,7 @@ let rulesInitialized = false;
 
 function ensureRulesInitialized(): void {
   if (!rulesInitialized) {
-    initRulesIndex(getAllRules());
+    initRulesIndex(getAllRules(), getAllGroupRules(), getRulePacks());
     rulesInitialized = true;
   }
 }
@@ -96,6 +220,33 @@ function ensureRulesInitialized(): void {
 // Execute Function
 // ============================================
 
+/**
+ * Report returned with errors.
+ */
+function emptyReport(): CompatibilityReport {
+  return {
+    analyzedMcps: [],
+    summary: {
+      total: 0,
+      conflicts: 0,
+      redundancies: 0,
+      synergies: 0,
+      conditionals: 0,
+      groups: 0,
+      score: 0,
+      grade: 'D',
+    },
+    conflicts: [],
+    redundancies: [],
+    synergies: [],
+    conditionals: [],
+    groups: [],
+    ignored: [],
+    suggestions: [],
+    policy: { ...structuredClone(DEFAULT_SCORE_POLICY), sources: ['default'] },
+  };
+}
+
 export function executeCheckCompatibility(
   input: CheckCompatibilityInput
 ): CheckCompatibilityOutput {
@@ -105,32 +256,31 @@ export function executeCheckCompatibility(
     if (!parsed.success) {
       return {
         text: `Invalid input: ${parsed.error.message}`,
-        data: {
-          analyzedMcps: [],
-          summary: {
-            total: 0,
-            conflicts: 0,
-            redundancies: 0,
-            synergies: 0,
-            score: 0,
-            grade: 'D',
-          },
-          conflicts: [],
-          redundancies: [],
-          synergies: [],
-          suggestions: [],
-        },
+        data: emptyReport(),
         isError: true,
       };
     }
 
-    const { mcps } = parsed.data;
+    const { mcps, mcpConfig, policy: callPolicy } = parsed.data;
 
     // Initialize rules index
     ensureRulesInitialized();
 
+    // Layer the call's score policy over the organisation policy
+    const resolved = resolveEffectiveScorePolicy(callPolicy);
+    if (!resolved.policy) {
+      return {
+        text: `Invalid score policy: ${resolved.issues.join('; ')}`,
+        data: emptyReport(),
+        isError: true,
+      };
+    }
+
     // Generate compatibility report
-    const report = generateReport(mcps, getAllRules());
+    // Config servers keyed by resolved MCP ID (e.g., "db" running @supabase/mcp-server-supabase)
+    const entries = mcpConfig ? parseMcpServerEntries(mcpConfig) : undefined;
+    const servers = entries && keyServersByMcpId(entries, resolveMcpIdentities(entries));
+    const report = generateReport(mcps, getIndexedRules(), { servers, policy: resolved.policy });
 
     // Format as markdown
     const markdown = formatReportAsMarkdown(report);
@@ -148,21 +298,7 @@ export function executeCheckCompatibility(
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return {
       text: `Error checking compatibility: ${errorMessage}`,
-      data: {
-        analyzedMcps: [],
-        summary: {
-          total: 0,
-          conflicts: 0,
-          redundancies: 0,
-          synergies: 0,
-          score: 0,
-          grade: 'D',
-        },
-        conflicts: [],
-        redundancies: [],
-        synergies: [],
-        suggestions: [],
-      },
+      data: emptyReport(),
       isError: true,
     };
   }
@@ -0,0 +1,326 @@
+import { z } from 'zod';
+import {
+	CATEGORIES,
+	DATA_VERSION,
+	OVERLAY_FOOTNOTE,
+	calculateOverallScore,
+	getAllTechIds,
+	getCompatibilityVerdict,
+	getDefinedCompatibility,
+	getScores,
+	getTechnologiesByCategory,
+	getTechnology,
+	isOverlayCompatibility,
+	markOverlay,
+	techExists,
+	type Category
+} from '../data/index.js';
+import { McpError, ErrorCode, techNotFoundError } from '../utils/errors.js';
+
+/**
+ * Input schema for check_stack_compatibility tool.
+ */
+export const CheckStackCompatibilityInputSchema = z.object({
+	technologies: z
+		.array(z.string().min(1))
+		.min(2)
+		.max(CATEGORIES.length)
+		.describe('Technology IDs of the proposed stack, one per category (e.g., ["nextjs", "prisma", "postgres"])')
+});
+
+export type CheckStackCompatibilityInput = z.infer<typeof CheckStackCompatibilityInputSchema>;
+
+const StackPairSchema = z.object({ techA: z.string(), techB: z.string(), score: z.number(), defined: z.boolean() });
+
+/**
+ * Structured output of check_stack_compatibility.
+ */
+export const CheckStackCompatibilityOutputSchema = z.object({
+	technologies: z.array(z.string()),
+	cohesion: z.number(),
+	verdict: z.string(),
+	pairs: z.array(StackPairSchema),
+	incompatibilities: z.array(StackPairSchema),
+	weakestLink: z.object({ techId: z.string(), average: z.number(), worstPair: StackPairSchema }),
+	bestSwap: z
+		.object({
+			replace: z.string(),
+			with: z.string(),
+			category: z.enum(CATEGORIES),
+			cohesionBefore: z.number(),
+			cohesionAfter: z.number(),
+			resolvedIncompatibilities: z.number()
+		})
+		.nullable(),
+	dataVersion: z.string()
+});
+
+export type CheckStackCompatibilityOutput = z.infer<typeof CheckStackCompatibilityOutputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const checkStackCompatibilityToolDefinition = {
+	name: 'check_stack_compatibility',
+	description: `Checks how well a whole proposed stack fits together, beyond individual pairs.
+
+**When to use**: You have a candidate stack (one technology per category) and want to know whether it hangs together.
+
+**Prerequisites**: Use \`list_technologies\` to find valid IDs.
+
+**Output includes**:
+- Stack cohesion score (average of all pairwise compatibility scores, 0-100)
+- Hard incompatibilities (pairs scored 0)
+- Weakest link (the technology that fits the rest of the stack worst)
+- The single swap (same category) that improves cohesion most
+
+**Note**: Pairs without compatibility data count as neutral (50).
+
+**Example**: \`check_stack_compatibility({ technologies: ["nuxt", "react", "prisma", "postgres"] })\``,
+	inputSchema: {
+		type: 'object' as const,
+		properties: {
+			technologies: {
+				type: 'array',
+				items: { type: 'string' },
+				minItems: 2,
+				maxItems: CATEGORIES.length,
+				description: 'Technology IDs of the proposed stack, one per category'
+			}
+		},
+		required: ['technologies']
+	}
+};
+
+/**
+ * Compatibility of one pair within a stack.
+ */
+export interface StackPair {
+	techA: string;
+	techB: string;
+	score: number;
+	/** False when the pair has no data and scores as neutral (50) */
+	defined: boolean;
+}
+
+/**
+ * Replacing one technology with another of the same category.
+ */
+export interface StackSwap {
+	replace: string;
+	with: string;
+	category: Category;
+	cohesionBefore: number;
+	cohesionAfter: number;
+	/** Hard incompatibilities removed by the swap */
+	resolvedIncompatibilities: number;
+}
+
+/**
+ * Whole-stack compatibility analysis.
+ */
+export interface StackCompatibility {
+	/** Average of all pairwise scores, rounded */
+	cohesion: number;
+	pairs: StackPair[];
+	incompatibilities: StackPair[];
+	/** Technology with the lowest average compatibility to the rest of the stack */
+	weakestLink: { techId: string; average: number; worstPair: StackPair };
+	/** Best cohesion-improving swap, or null when no single swap helps */
+	bestSwap: StackSwap | null;
+}
+
+/**
+ * Score every pair of a stack.
+ */
+function scorePairs(techIds: string[]): StackPair[] {
+	const pairs: StackPair[] = [];
+	for (let i = 0; i < techIds.length; i++) {
+		for (let j = i + 1; j < techIds.length; j++) {
+			const defined = getDefinedCompatibility(techIds[i], techIds[j]);
+			pairs.push({ techA: techIds[i], techB: techIds[j], score: defined ?? 50, defined: defined !== null });
+		}
+	}
+	return pairs;
+}
+
+/**
+ * Cohesion of a stack: the average of all pairwise compatibility scores.
+ */
+export function calculateStackCohesion(techIds: string[]): number {
+	const pairs = scorePairs(techIds);
+	if (pairs.length === 0) return 100;
+	return Math.round(pairs.reduce((sum, p) => sum + p.score, 0) / pairs.length);
+}
+
+/**
+ * Count hard (0-score) incompatibilities in a stack.
+ */
+function countIncompatibilities(techIds: string[]): number {
+	return scorePairs(techIds).filter((p) => p.score === 0).length;
+}
+
+/**
+ * Find the same-category replacement that raises cohesion most.
+ * Ties go to the swap resolving more hard incompatibilities, then to the
+ * better-scored replacement technology.
+ */
+function findBestSwap(techIds: string[], cohesion: number): StackSwap | null {
+	const incompatibilities = countIncompatibilities(techIds);
+	let best: (StackSwap & { techScore: number }) | null = null;
+
+	for (const [index, current] of techIds.entries()) {
+		const category = getTechnology(current)!.category;
+		for (const candidate of getTechnologiesByCategory(category)) {
+			if (candidate.id === current) continue;
+
+			const swapped = [...techIds];
+			swapped[index] = candidate.id;
+			const cohesionAfter = calculateStackCohesion(swapped);
+			if (cohesionAfter <= cohesion) continue;
+
+			const swap = {
+				replace: current,
+				with: candidate.id,
+				category,
+				cohesionBefore: cohesion,
+				cohesionAfter,
+				resolvedIncompatibilities: incompatibilities - countIncompatibilities(swapped),
+				techScore: calculateOverallScore(getScores(candidate.id, 'default')!)
+			};
+
+			if (
+				!best ||
+				swap.cohesionAfter > best.cohesionAfter ||
+				(swap.cohesionAfter === best.cohesionAfter &&
+					(swap.resolvedIncompatibilities > best.resolvedIncompatibilities ||
+						(swap.resolvedIncompatibilities === best.resolvedIncompatibilities && swap.techScore > best.techScore)))
+			) {
+				best = swap;
+			}
+		}
+	}
+
+	if (!best) return null;
+	const { techScore: _techScore, ...swap } = best;
+	return swap;
+}
+
+/**
+ * Analyze a stack of known technology IDs (one per category).
+ */
+export function analyzeStackCompatibility(techIds: string[]): StackCompatibility {
+	const pairs = scorePairs(techIds);
+	const cohesion = calculateStackCohesion(techIds);
+
+	const links = techIds.map((techId) => {
+		const own = pairs.filter((p) => p.techA === techId || p.techB === techId);
+		const average = Math.round(own.reduce((sum, p) => sum + p.score, 0) / own.length);
+		const worstPair = own.reduce((worst, p) => (p.score < worst.score ? p : worst));
+		return { techId, average, worstPair };
+	});
+	const weakestLink = links.reduce((weakest, link) => (link.average < weakest.average ? link : weakest));
+
+	return {
+		cohesion,
+		pairs,
+		incompatibilities: pairs.filter((p) => p.score === 0),
+		weakestLink,
+		bestSwap: findBestSwap(techIds, cohesion)
+	};
+}
+
+/**
+ * Execute check_stack_compatibility tool.
+ */
+export function executeCheckStackCompatibility(input: CheckStackCompatibilityInput): {
+	text: string;
+	data?: CheckStackCompatibilityOutput;
+	isError?: boolean;
+} {
+	const { technologies } = input;
+
+	// Validate technologies and enforce one per category
+	const byCategory = new Map<string, string>();
+	for (const techId of technologies) {
+		if (!techExists(techId)) {
+			const error = techNotFoundError(techId, getAllTechIds());
+			return { text: error.toResponseText(), isError: true };
+		}
+
+		const category = getTechnology(techId)!.category;
+		const existing = byCategory.get(category);
+		if (existing) {
+			const error = new McpError(
+				ErrorCode.INVALID_INPUT,
+				existing === techId
+					? `Duplicate technology in stack: "${techId}"`
+					: `Both "${existing}" and "${techId}" are in category "${category}"`,
+				['Provide one technology per category.', 'Use compare_techs to choose between alternatives.']
+			);
+			return { text: error.toResponseText(), isError: true };
+		}
+		byCategory.set(category, techId);
+	}
+
+	const analysis = analyzeStackCompatibility(technologies);
+	const name = (techId: string) => getTechnology(techId)!.name;
+	const pairLabel = (pair: StackPair) => `${pair.techA} ↔ ${pair.techB}`;
+	let usesOverlay = false;
+	const pairScore = (pair: StackPair) => {
+		const fromOverlay = isOverlayCompatibility(pair.techA, pair.techB);
+		usesOverlay ||= fromOverlay;
+		return markOverlay(pair.score, fromOverlay);
+	};
+
+	const definedCount = analysis.pairs.filter((p) => p.defined).length;
+	let text = `## Stack Compatibility: ${technologies.map(name).join(' + ')}
+
+**Cohesion**: ${analysis.cohesion}/100 (${getCompatibilityVerdict(analysis.cohesion)}) | **Pairs with data**: ${definedCount}/${analysis.pairs.length}
+`;
+
+	if (analysis.incompatibilities.length > 0) {
+		text += '\n### Hard Incompatibilities\n';
+		for (const pair of analysis.incompatibilities) {
+			text += `- ${pairLabel(pair)} (${pairScore(pair)}): ${name(pair.techA)} and ${name(pair.techB)} cannot be used together\n`;
+		}
+	}
+
+	const { weakestLink } = analysis;
+	text += `\n### Weakest Link\n**${name(weakestLink.techId)}** (${weakestLink.techId}, ${getTechnology(weakestLink.techId)!.category}): average ${weakestLink.average}/100 with the rest of the stack; worst pair ${pairLabel(weakestLink.worstPair)} (${pairScore(weakestLink.worstPair)})\n`;
+
+	text += '\n### Pairwise Scores\n| Pair | Score | Verdict |\n|------|-------|---------|\n';
+	for (const pair of [...analysis.pairs].sort((a, b) => a.score - b.score)) {
+		const verdict = pair.defined ? getCompatibilityVerdict(pair.score) : 'No data (neutral)';
+		text += `| ${pairLabel(pair)} | ${pairScore(pair)} | ${verdict} |\n`;
+	}
+
+	text += '\n### Best Single Swap\n';
+	const swap = analysis.bestSwap;
+	if (swap) {
+		const delta = swap.cohesionAfter - swap.cohesionBefore;
+		text += `Replace **${name(swap.replace)}** with **${name(swap.with)}** (${swap.with}, ${swap.category}): cohesion ${swap.cohesionBefore} → ${swap.cohesionAfter} (+${delta})`;
+		if (swap.resolvedIncompatibilities > 0) {
+			text += `, resolves ${swap.resolvedIncompatibilities} hard incompatibilit${swap.resolvedIncompatibilities === 1 ? 'y' : 'ies'}`;
+		}
+		text += '\n';
+	} else {
+		text += 'No single swap improves cohesion.\n';
+	}
+
+	if (usesOverlay) {
+		text += `\n${OVERLAY_FOOTNOTE}\n`;
+	}
+
+	text += `\nData version: ${DATA_VERSION}`;
+
+	return {
+		text,
+		data: {
+			technologies,
+			...analysis,
+			verdict: getCompatibilityVerdict(analysis.cohesion),
+			dataVersion: DATA_VERSION
+		}
+	};
+}
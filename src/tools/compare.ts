@@ -1,20 +1,38 @@
 import { z } from 'zod';
 import {
-	CONTEXTS,
+	ContextSchema,
 	DATA_VERSION,
 	DIMENSION_LABELS,
+	DIMENSION_WEIGHTS_JSON_SCHEMA,
+	DimensionWeightsSchema,
+	OVERLAY_FOOTNOTE,
 	SCORE_DIMENSIONS,
+	ScoresSchema,
+	type ScoreDimension,
 	Scores,
 	calculateOverallScore,
+	calculateWeightedScore,
+	formatDimensionProvenance,
+	formatWeights,
 	getAllTechIds,
 	getCompatibility,
 	getCompatibilityVerdict,
+	getOverriddenDimensions,
+	getProvenance,
 	getScores,
-	getTechnology,
+	getTechDisplayName,
+	getTechVersions,
+	hasCustomWeights,
+	hasOverlayScores,
+	isOverlayCompatibility,
+	markOverlay,
+	normalizeMajorVersion,
+	parseTechRef,
 	scoreToGrade,
 	techExists
 } from '../data/index.js';
-import { McpError, ErrorCode, techNotFoundError } from '../utils/errors.js';
+import { findDominators, findTradeOff } from '../lib/ranking.js';
+import { McpError, ErrorCode, techNotFoundError, versionNotFoundError } from '../utils/errors.js';
 
 /**
  * Input schema for compare_techs tool.
@@ -24,12 +42,68 @@ export const CompareTechsInputSchema = z.object({
 		.array(z.string().min(1))
 		.min(2)
 		.max(4)
-		.describe('Technology IDs to compare (2-4 technologies)'),
-	context: z.enum(CONTEXTS).optional().default('default').describe('Context for score lookup')
+		.describe('Technology IDs to compare (2-4 technologies), optionally with major versions (e.g., "nextjs@14")'),
+	context: ContextSchema.optional().default('default').describe('Context for score lookup'),
+	weights: DimensionWeightsSchema.optional().describe('Per-dimension weights for the overall ranking')
 });
 
 export type CompareTechsInput = z.infer<typeof CompareTechsInputSchema>;
 
+/**
+ * Structured output of compare_techs.
+ */
+export const CompareTechsOutputSchema = z.object({
+	context: z.string(),
+	weights: DimensionWeightsSchema.optional(),
+	/** Compared technologies, best score first */
+	technologies: z.array(
+		z.object({
+			id: z.string(),
+			techId: z.string(),
+			version: z.string().optional(),
+			name: z.string(),
+			scores: ScoresSchema,
+			/** Weighted score (equals rawAverage when no custom weights are set) */
+			score: z.number(),
+			rawAverage: z.number(),
+			grade: z.string(),
+			overlay: z.boolean(),
+			/** Not dominated by another compared technology */
+			pareto: z.boolean(),
+			/** Technologies at least as good on every dimension and better on one */
+			dominatedBy: z.array(z.string())
+		})
+	),
+	/** What each Pareto-optimal technology gains and concedes against its closest rival */
+	tradeOffs: z.array(
+		z.object({
+			id: z.string(),
+			versus: z.string(),
+			gains: z.object({ dimension: z.enum(SCORE_DIMENSIONS), points: z.number() }),
+			concedes: z.object({ dimension: z.enum(SCORE_DIMENSIONS), points: z.number() })
+		})
+	),
+	dimensionWinners: z.array(
+		z.object({
+			dimension: z.enum(SCORE_DIMENSIONS),
+			/** Winning reference, or null for a tie */
+			winner: z.string().nullable(),
+			margin: z.number(),
+			notes: z.string()
+		})
+	),
+	compatibility: z.array(z.object({ techA: z.string(), techB: z.string(), score: z.number(), verdict: z.string() })),
+	verdict: z.object({
+		leader: z.string(),
+		runnerUp: z.string(),
+		margin: z.number(),
+		closeCall: z.boolean()
+	}),
+	dataVersion: z.string()
+});
+
+export type CompareTechsOutput = z.infer<typeof CompareTechsOutputSchema>;
+
 /**
  * Tool definition for MCP registration.
  */
@@ -46,8 +120,12 @@ export const compareTechsToolDefinition = {
 **Output includes**:
 - Score comparison table
 - Per-dimension winners
+- Trade-offs: dominated options (another is at least as good on every dimension) and what each remaining option gains and gives up
 - Compatibility between compared techs
 - Overall recommendation
+- Weighted ranking when \`weights\` is provided (raw average shown alongside)
+
+**Versions**: Compare major versions with \`name@major\` IDs (e.g., \`["nextjs@14", "nextjs@15"]\`) where version-specific scores exist.
 
 **Common Pitfalls**:
 - Must provide 2-4 technologies (not 1, not 5+)
@@ -62,31 +140,41 @@ export const compareTechsToolDefinition = {
 				items: { type: 'string' },
 				minItems: 2,
 				maxItems: 4,
-				description: 'Technology IDs to compare (e.g., ["nextjs", "sveltekit", "nuxt"])'
+				description: 'Technology IDs to compare, optionally with major versions (e.g., ["nextjs", "sveltekit", "nextjs@14"])'
 			},
 			context: {
 				type: 'string',
-				enum: CONTEXTS,
-				description: 'Context for scoring (default, mvp, enterprise)'
-			}
+				description: 'Context for scoring (default, mvp, enterprise, or a custom context from the data overlay)'
+			},
+			weights: DIMENSION_WEIGHTS_JSON_SCHEMA
 		},
 		required: ['technologies']
 	}
 };
 
 interface TechComparison {
+	/** Reference as displayed (e.g., "nextjs@14") */
 	id: string;
+	techId: string;
+	version?: string;
 	name: string;
 	scores: Scores;
+	/** Weighted score (equals rawAverage when no custom weights are set) */
 	overall: number;
+	rawAverage: number;
 	grade: string;
+	/** True when any score comes from the data overlay */
+	overlay: boolean;
 }
 
 interface DimensionWinner {
+	dimensionKey: ScoreDimension;
 	dimension: string;
 	winner: string | null;
 	margin: number;
 	notes: string;
+	leader: TechComparison;
+	runnerUp: TechComparison;
 }
 
 /**
@@ -117,10 +205,13 @@ function determineDimensionWinners(techs: TechComparison[]): DimensionWinner[] {
 		}
 
 		winners.push({
+			dimensionKey: dim,
 			dimension: DIMENSION_LABELS[dim],
 			winner,
 			margin,
-			notes
+			notes,
+			leader: first,
+			runnerUp: second
 		});
 	}
 
@@ -130,42 +221,56 @@ function determineDimensionWinners(techs: TechComparison[]): DimensionWinner[] {
 /**
  * Execute compare_techs tool.
  */
-export function executeCompareTechs(input: CompareTechsInput): { text: string; isError?: boolean } {
-	const { technologies, context = 'default' } = input;
-
-	// Validate all technologies exist
+export function executeCompareTechs(input: CompareTechsInput): {
+	text: string;
+	data?: CompareTechsOutput;
+	isError?: boolean;
+} {
+	const { technologies, context = 'default', weights } = input;
+	const weighted = hasCustomWeights(weights);
+
+	// Validate all technologies (and requested versions) exist
 	const allTechIds = getAllTechIds();
-	const invalidTechs: string[] = [];
+	const refs: Array<{ id: string; techId: string; version?: string }> = [];
 
-	for (const techId of technologies) {
-		if (!techExists(techId)) {
-			invalidTechs.push(techId);
+	for (const entry of technologies) {
+		const ref = parseTechRef(entry);
+		if (!techExists(ref.id)) {
+			const error = techNotFoundError(ref.id, allTechIds);
+			return { text: error.toResponseText(), isError: true };
 		}
-	}
 
-	if (invalidTechs.length > 0) {
-		const error = techNotFoundError(invalidTechs[0], allTechIds);
-		return { text: error.toResponseText(), isError: true };
+		const versions = getTechVersions(ref.id);
+		const version = ref.version ? (normalizeMajorVersion(ref.version) ?? undefined) : undefined;
+		if (ref.version && (!version || !versions.includes(version))) {
+			const error = versionNotFoundError(ref.id, ref.version, versions);
+			return { text: error.toResponseText(), isError: true };
+		}
+
+		refs.push({ id: version ? `${ref.id}@${version}` : ref.id, techId: ref.id, version });
 	}
 
 	// Check for duplicates
-	const uniqueTechs = [...new Set(technologies)];
-	if (uniqueTechs.length !== technologies.length) {
+	const uniqueTechs = new Set(refs.map((r) => r.id));
+	if (uniqueTechs.size !== refs.length) {
 		const error = new McpError(ErrorCode.INVALID_INPUT, 'Duplicate technologies in comparison list');
 		return { text: error.toResponseText(), isError: true };
 	}
 
 	// Build comparison data
-	const comparisons: TechComparison[] = technologies.map((techId) => {
-		const tech = getTechnology(techId)!;
-		const scores = getScores(techId, context)!;
-		const overall = calculateOverallScore(scores);
+	const comparisons: TechComparison[] = refs.map(({ id, techId, version }) => {
+		const scores = getScores(techId, context, version)!;
+		const overall = calculateWeightedScore(scores, weights);
 		return {
-			id: techId,
-			name: tech.name,
+			id,
+			techId,
+			version,
+			name: getTechDisplayName(techId, version),
 			scores,
 			overall,
-			grade: scoreToGrade(overall)
+			rawAverage: calculateOverallScore(scores),
+			grade: scoreToGrade(overall),
+			overlay: hasOverlayScores(techId, context)
 		};
 	});
 
@@ -180,12 +285,19 @@ export function executeCompareTechs(input: CompareTechsInput): { text: string; i
 	let text = `## Comparison: ${techNames} (context: ${context})
 
 ### Overall Scores
-| Technology | Score | Grade |
-|------------|-------|-------|
 `;
 
-	for (const tech of sorted) {
-		text += `| ${tech.name} | ${tech.overall} | ${tech.grade} |\n`;
+	if (weighted) {
+		text += `_Weights: ${formatWeights(weights)}_\n\n`;
+		text += '| Technology | Weighted | Raw Avg | Grade |\n|------------|----------|---------|-------|\n';
+		for (const tech of sorted) {
+			text += `| ${markOverlay(tech.name, tech.overlay)} | ${tech.overall} | ${tech.rawAverage} | ${tech.grade} |\n`;
+		}
+	} else {
+		text += '| Technology | Score | Grade |\n|------------|-------|-------|\n';
+		for (const tech of sorted) {
+			text += `| ${markOverlay(tech.name, tech.overlay)} | ${tech.overall} | ${tech.grade} |\n`;
+		}
 	}
 
 	// Per-dimension breakdown
@@ -201,16 +313,76 @@ export function executeCompareTechs(input: CompareTechsInput): { text: string; i
 		text += `| ${w.dimension} | ${winnerDisplay} | ${marginDisplay} | ${w.notes} |\n`;
 	}
 
+	// Rationale behind decided dimensions (from provenance data, when recorded)
+	const rationaleLines: string[] = [];
+	for (const w of dimensionWinners) {
+		if (!w.winner) continue;
+		const explained = [w.leader, w.runnerUp].flatMap((tech) => {
+			if (getOverriddenDimensions(tech.techId, context).includes(w.dimensionKey)) return [];
+			const line = formatDimensionProvenance(getProvenance(tech.techId)?.dimensions?.[w.dimensionKey]);
+			return line ? [`  - ${tech.name} (${tech.scores[w.dimensionKey]}): ${line}`] : [];
+		});
+		if (explained.length > 0) {
+			rationaleLines.push(`- **${w.dimension}** (${w.winner} +${w.margin})`, ...explained);
+		}
+	}
+	if (rationaleLines.length > 0) {
+		text += `\n### Why the Winners Win\n${rationaleLines.join('\n')}\n`;
+		const reviewed = comparisons
+			.map((t) => ({ name: t.name, date: getProvenance(t.techId)?.lastReviewed }))
+			.filter((r) => r.date);
+		if (reviewed.length > 0) {
+			text += `_Last reviewed: ${reviewed.map((r) => `${r.name} ${r.date}`).join(', ')}_\n`;
+		}
+	}
+
+	// Trade-offs: dominated options, then what each Pareto-optimal option gains and
+	// gives up against the best other one (zero-weighted dimensions are ignored)
+	const dimensions = SCORE_DIMENSIONS.filter((dim) => weights?.[dim] !== 0);
+	const dominators = findDominators(comparisons, dimensions);
+	const front = sorted.filter((t) => dominators.get(t.id)!.length === 0);
+	const nameOf = (id: string) => comparisons.find((t) => t.id === id)!.name;
+	const gap = (points: number, dim: ScoreDimension) => `${points} points of ${DIMENSION_LABELS[dim].toLowerCase()}`;
+
+	const tradeOffs: CompareTechsOutput['tradeOffs'] = [];
+	const tradeOffLines: string[] = [];
+	for (const tech of sorted) {
+		const dominatedBy = dominators.get(tech.id)!;
+		if (dominatedBy.length > 0) {
+			tradeOffLines.push(
+				`- **${tech.name}** is dominated by ${dominatedBy.map(nameOf).join(', ')} (at least as good on every dimension)`
+			);
+		}
+	}
+	for (const tech of front) {
+		const versus = front.find((other) => other !== tech);
+		if (!versus) continue;
+		const { gains, concedes } = findTradeOff(tech.scores, versus.scores, dimensions);
+		if (!gains || !concedes) continue;
+		tradeOffs.push({ id: tech.id, versus: versus.id, gains, concedes });
+		tradeOffLines.push(
+			`- ${tech.name} trades ${gap(concedes.points, concedes.dimension)} for ${gap(gains.points, gains.dimension)} (vs ${versus.name})`
+		);
+	}
+	if (tradeOffLines.length > 0) {
+		text += `\n### Trade-offs\n${tradeOffLines.join('\n')}\n`;
+	}
+
 	// Compatibility matrix (for all pairs)
+	let usesOverlay = comparisons.some((t) => t.overlay);
+	const compatibility: CompareTechsOutput['compatibility'] = [];
 	text += '\n### Compatibility Matrix\n| Pair | Score | Verdict |\n|------|-------|---------|\n';
 
 	for (let i = 0; i < comparisons.length; i++) {
 		for (let j = i + 1; j < comparisons.length; j++) {
 			const a = comparisons[i];
 			const b = comparisons[j];
-			const score = getCompatibility(a.id, b.id);
+			const score = getCompatibility(a.techId, b.techId);
 			const verdict = getCompatibilityVerdict(score);
-			text += `| ${a.id} ↔ ${b.id} | ${score} | ${verdict} |\n`;
+			const fromOverlay = isOverlayCompatibility(a.techId, b.techId);
+			usesOverlay ||= fromOverlay;
+			compatibility.push({ techA: a.id, techB: b.id, score, verdict });
+			text += `| ${a.id} ↔ ${b.id} | ${markOverlay(score, fromOverlay)} | ${verdict} |\n`;
 		}
 	}
 
@@ -235,7 +407,39 @@ export function executeCompareTechs(input: CompareTechsInput): { text: string; i
 		}
 	}
 
+	if (usesOverlay) {
+		text += `\n\n${OVERLAY_FOOTNOTE}`;
+	}
+
 	text += `\n\nData version: ${DATA_VERSION}`;
 
-	return { text };
+	const data: CompareTechsOutput = {
+		context,
+		...(weighted && { weights }),
+		technologies: sorted.map((t) => ({
+			id: t.id,
+			techId: t.techId,
+			...(t.version && { version: t.version }),
+			name: t.name,
+			scores: { ...t.scores },
+			score: t.overall,
+			rawAverage: t.rawAverage,
+			grade: t.grade,
+			overlay: t.overlay,
+			pareto: dominators.get(t.id)!.length === 0,
+			dominatedBy: dominators.get(t.id)!
+		})),
+		tradeOffs,
+		dimensionWinners: dimensionWinners.map((w) => ({
+			dimension: w.dimensionKey,
+			winner: w.winner === null ? null : w.leader.id,
+			margin: w.margin,
+			notes: w.notes
+		})),
+		compatibility,
+		verdict: { leader: leader.id, runnerUp: runnerUp.id, margin: overallMargin, closeCall: overallMargin < 3 },
+		dataVersion: DATA_VERSION
+	};
+
+	return { text, data };
 }
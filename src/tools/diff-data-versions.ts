@@ -0,0 +1,204 @@
+import { z } from 'zod';
+import { CATEGORIES, CONTEXTS, DATA_VERSION, DIMENSION_LABELS, SCORE_DIMENSIONS } from '../data/index.js';
+import {
+	diffSnapshots,
+	getArchivedDataVersions,
+	getDataSnapshot,
+	getKnownDataVersions,
+	type DataDiff
+} from '../data/history.js';
+import { McpError, ErrorCode } from '../utils/errors.js';
+
+/**
+ * Input schema for diff_data_versions tool.
+ */
+export const DiffDataVersionsInputSchema = z.object({
+	since: z
+		.string()
+		.min(1)
+		.optional()
+		.describe('Data version to compare from (defaults to the most recent archived version)'),
+	to: z.string().min(1).optional().describe(`Data version to compare to (defaults to current: ${DATA_VERSION})`),
+	context: z.enum(CONTEXTS).optional().default('default').describe('Context for score comparison'),
+	category: z.enum(CATEGORIES).optional().describe('Only report technologies in this category')
+});
+
+export type DiffDataVersionsInput = z.infer<typeof DiffDataVersionsInputSchema>;
+
+const DiffTechSchema = z.object({ id: z.string(), name: z.string(), category: z.enum(CATEGORIES) });
+
+/**
+ * Structured output of diff_data_versions.
+ */
+export const DiffDataVersionsOutputSchema = z.object({
+	from: z.string(),
+	to: z.string(),
+	context: z.enum(CONTEXTS),
+	category: z.enum(CATEGORIES).optional(),
+	added: z.array(DiffTechSchema),
+	removed: z.array(DiffTechSchema),
+	changed: z.array(
+		DiffTechSchema.extend({
+			before: z.number(),
+			after: z.number(),
+			delta: z.number(),
+			dimensions: z.array(z.object({ dimension: z.enum(SCORE_DIMENSIONS), before: z.number(), after: z.number() }))
+		})
+	),
+	/** Null scores are pairs without data (neutral 50) */
+	compatibility: z.array(
+		z.object({ techA: z.string(), techB: z.string(), before: z.number().nullable(), after: z.number().nullable() })
+	),
+	archivedVersions: z.array(z.string())
+});
+
+export type DiffDataVersionsOutput = z.infer<typeof DiffDataVersionsOutputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const diffDataVersionsToolDefinition = {
+	name: 'diff_data_versions',
+	description: `Reports which technologies gained or lost score and which compatibility pairs changed between two data versions.
+
+**When to use**: A recommendation changed and you want to know whether the data changed (rather than your inputs).
+
+**Prerequisites**: None. Archived versions are bundled with the package.
+
+**Output includes**:
+- Added and removed technologies
+- Score gains and losses (overall and per dimension)
+- Changed compatibility pairs
+
+**Example**: \`diff_data_versions({ since: "2026.01.29", context: "mvp" })\``,
+	inputSchema: {
+		type: 'object' as const,
+		properties: {
+			since: {
+				type: 'string',
+				description: 'Data version to compare from (e.g., "2026.01.29"). Defaults to the most recent archived version.'
+			},
+			to: {
+				type: 'string',
+				description: `Data version to compare to. Defaults to the current version (${DATA_VERSION}).`
+			},
+			context: {
+				type: 'string',
+				enum: CONTEXTS,
+				description: 'Context for score comparison (default: default)'
+			},
+			category: {
+				type: 'string',
+				enum: CATEGORIES,
+				description: 'Only report technologies in this category (optional)'
+			}
+		}
+	}
+};
+
+/**
+ * Format a compatibility score, showing undefined pairs as neutral.
+ */
+function formatPairScore(score: number | null): string {
+	return score === null ? '— (50)' : String(score);
+}
+
+/**
+ * Filter a diff down to technologies of one category.
+ */
+function filterByCategory(diff: DataDiff, category: string, categoryOf: (id: string) => string | undefined): DataDiff {
+	return {
+		...diff,
+		added: diff.added.filter((t) => t.category === category),
+		removed: diff.removed.filter((t) => t.category === category),
+		changed: diff.changed.filter((t) => t.category === category),
+		compatibility: diff.compatibility.filter(
+			(c) => categoryOf(c.techA) === category || categoryOf(c.techB) === category
+		)
+	};
+}
+
+/**
+ * Execute diff_data_versions tool.
+ */
+export function executeDiffDataVersions(input: DiffDataVersionsInput): {
+	text: string;
+	data?: DiffDataVersionsOutput;
+	isError?: boolean;
+} {
+	const { context = 'default', category } = input;
+	const archived = getArchivedDataVersions();
+	const since = input.since ?? archived[archived.length - 1];
+	const to = input.to ?? DATA_VERSION;
+
+	const known = getKnownDataVersions();
+	for (const version of [since, to]) {
+		if (!version || !getDataSnapshot(version)) {
+			const error = new McpError(ErrorCode.NOT_FOUND, `Unknown data version: "${version ?? ''}"`, [
+				`Available versions: ${known.join(', ')}`
+			]);
+			return { text: error.toResponseText(), isError: true };
+		}
+	}
+
+	const fromSnapshot = getDataSnapshot(since)!;
+	const toSnapshot = getDataSnapshot(to)!;
+	const categoryOf = (id: string) =>
+		(toSnapshot.technologies[id] ?? fromSnapshot.technologies[id])?.category;
+
+	let diff = diffSnapshots(fromSnapshot, toSnapshot, context);
+	if (category) {
+		diff = filterByCategory(diff, category, categoryOf);
+	}
+
+	const gained = diff.changed.filter((c) => c.delta > 0);
+	const lost = diff.changed.filter((c) => c.delta < 0);
+	const reshuffled = diff.changed.filter((c) => c.delta === 0);
+
+	let text = `## Data Changes: ${diff.from} → ${diff.to} (context: ${context}${category ? `, category: ${category}` : ''})
+
+**Added**: ${diff.added.length} | **Removed**: ${diff.removed.length} | **Score changes**: ${diff.changed.length} | **Compatibility changes**: ${diff.compatibility.length}
+`;
+
+	if (diff.added.length > 0) {
+		text += '\n### Added Technologies\n';
+		text += diff.added.map((t) => `- ${t.id} (${t.name}, ${t.category})`).join('\n') + '\n';
+	}
+
+	if (diff.removed.length > 0) {
+		text += '\n### Removed Technologies\n';
+		text += diff.removed.map((t) => `- ${t.id} (${t.name}, ${t.category})`).join('\n') + '\n';
+	}
+
+	const scoreTable = (title: string, changes: DataDiff['changed']) => {
+		if (changes.length === 0) return '';
+		let table = `\n### ${title}\n| Technology | Overall | Δ | Changed Dimensions |\n|------------|---------|---|--------------------|\n`;
+		for (const c of changes) {
+			const dims = c.dimensions
+				.map((d) => `${DIMENSION_LABELS[d.dimension]} ${d.before}→${d.after}`)
+				.join(', ');
+			const delta = c.delta > 0 ? `+${c.delta}` : String(c.delta);
+			table += `| ${c.name} | ${c.before} → ${c.after} | ${delta} | ${dims} |\n`;
+		}
+		return table;
+	};
+
+	text += scoreTable('Gained Score', gained);
+	text += scoreTable('Lost Score', lost);
+	text += scoreTable('Dimension Changes (same overall)', reshuffled);
+
+	if (diff.compatibility.length > 0) {
+		text += '\n### Compatibility Changes\n| Pair | Before | After |\n|------|--------|-------|\n';
+		for (const c of diff.compatibility) {
+			text += `| ${c.techA} ↔ ${c.techB} | ${formatPairScore(c.before)} | ${formatPairScore(c.after)} |\n`;
+		}
+	}
+
+	if (diff.added.length + diff.removed.length + diff.changed.length + diff.compatibility.length === 0) {
+		text += '\n_No data changes between these versions._\n';
+	}
+
+	text += `\n_Archived versions: ${archived.join(', ') || 'none'}. Local overlay data is not included._`;
+
+	return { text, data: { ...diff, ...(category && { category }), archivedVersions: archived } };
+}
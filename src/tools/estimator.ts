@@ -102,86 +102,115 @@ export const getEstimateQuotaToolDefinition = {
 // API TYPES
 // ============================================================================
 
-interface EstimateApiResponse {
-	estimate: {
-		id: string;
-		createdAt: string;
-		inputsHash: string;
-		pricingTableVersion: string;
-		determinism: {
-			pricing: true;
-			scope: 'schema-stabilized';
-			market: false;
-		};
-		scope: {
-			totalHours: { min: number; max: number };
-			breakdown: Array<{
-				name: string;
-				description: string;
-				hours: { min: number; max: number };
-				complexity: string;
-			}>;
-			buffer: { hours: { min: number; max: number }; percentage: number };
-			complexity: string;
-			risks: Array<{
-				id: string;
-				severity: string;
-				description: string;
-				mitigation?: string;
-			}>;
-			assumptions: string[];
-			projectType?: string;
-			industry?: string;
-		};
-		pricing: {
-			currency: string;
-			byProfile: Record<string, { min: number; max: number }>;
-			adjustments: Array<{ id: string; label: string; percentage: number; applied: boolean }>;
-			adjustmentMultiplier: number;
-			recommended: number;
-			hoursPerDay: number;
-		};
-		market?: {
-			status: string;
-			competitors: Array<{
-				name: string;
-				url: string;
-				pricing: string;
-				positioning: string;
-			}>;
-			marketSize: string;
-			trends: string[];
-			gaps: string[];
-			suggestedPricing: string;
-			sources: Array<{ title: string; url: string }>;
-			disclaimer: string;
-		};
-		confidence: number;
-		warnings: string[];
-	};
-	_meta: {
-		tier: string;
-		marketIncluded: boolean;
-		pricingTableVersion: string;
-		cached: boolean;
-	};
-}
+const HoursRangeSchema = z.object({ min: z.number(), max: z.number() });
 
-interface QuotaApiResponse {
-	quota: {
-		estimates: {
-			weekly: { used: number; limit: number; remaining: number; resetsAt: string };
-			monthly: { used: number; limit: number; remaining: number; resetsAt: string };
-		};
-		marketAnalysis: {
-			available: boolean;
-			used: number;
-			limit: number;
-			remaining: number;
-		};
-		tier: string;
-	};
-}
+/**
+ * Estimate API response (also the structured output of estimate_project).
+ */
+export const EstimateProjectOutputSchema = z.object({
+	estimate: z.object({
+		id: z.string(),
+		createdAt: z.string(),
+		inputsHash: z.string(),
+		pricingTableVersion: z.string(),
+		determinism: z.object({
+			pricing: z.literal(true),
+			scope: z.literal('schema-stabilized'),
+			market: z.literal(false)
+		}),
+		scope: z.object({
+			totalHours: HoursRangeSchema,
+			breakdown: z.array(
+				z.object({
+					name: z.string(),
+					description: z.string(),
+					hours: HoursRangeSchema,
+					complexity: z.string()
+				})
+			),
+			buffer: z.object({ hours: HoursRangeSchema, percentage: z.number() }),
+			complexity: z.string(),
+			risks: z.array(
+				z.object({
+					id: z.string(),
+					severity: z.string(),
+					description: z.string(),
+					mitigation: z.string().optional()
+				})
+			),
+			assumptions: z.array(z.string()),
+			projectType: z.string().optional(),
+			industry: z.string().optional()
+		}),
+		pricing: z.object({
+			currency: z.string(),
+			byProfile: z.record(HoursRangeSchema),
+			adjustments: z.array(
+				z.object({ id: z.string(), label: z.string(), percentage: z.number(), applied: z.boolean() })
+			),
+			adjustmentMultiplier: z.number(),
+			recommended: z.number(),
+			hoursPerDay: z.number()
+		}),
+		market: z
+			.object({
+				status: z.string(),
+				competitors: z.array(
+					z.object({
+						name: z.string(),
+						url: z.string(),
+						pricing: z.string(),
+						positioning: z.string()
+					})
+				),
+				marketSize: z.string(),
+				trends: z.array(z.string()),
+				gaps: z.array(z.string()),
+				suggestedPricing: z.string(),
+				sources: z.array(z.object({ title: z.string(), url: z.string() })),
+				disclaimer: z.string()
+			})
+			.optional(),
+		confidence: z.number(),
+		warnings: z.array(z.string())
+	}),
+	_meta: z.object({
+		tier: z.string(),
+		marketIncluded: z.boolean(),
+		pricingTableVersion: z.string(),
+		cached: z.boolean()
+	})
+});
+
+type EstimateApiResponse = z.infer<typeof EstimateProjectOutputSchema>;
+
+const QuotaWindowSchema = z.object({
+	used: z.number(),
+	limit: z.number(),
+	remaining: z.number(),
+	resetsAt: z.string()
+});
+
+/**
+ * Quota API response (also the structured output of get_estimate_quota).
+ */
+export const EstimateQuotaOutputSchema = z.object({
+	quota: z.object({
+		estimates: z.object({
+			weekly: QuotaWindowSchema,
+			monthly: QuotaWindowSchema
+		}),
+		marketAnalysis: z.object({
+			available: z.boolean(),
+			used: z.number(),
+			limit: z.number(),
+			remaining: z.number()
+		}),
+		tier: z.string()
+	})
+});
+
+type QuotaApiResponse = z.infer<typeof EstimateQuotaOutputSchema>;
 
 // ============================================================================
 // EXECUTE FUNCTIONS
@@ -192,7 +221,7 @@ interface QuotaApiResponse {
  */
 export async function executeEstimateProject(
 	input: EstimateProjectInput
-): Promise<{ text: string; isError?: boolean }> {
+): Promise<{ text: string; data?: EstimateApiResponse; isError?: boolean }> {
 	// Check Pro access
 	const tierCheck = await checkProAccess('estimate_project');
 	if (tierCheck) return tierCheck;
@@ -200,19 +229,21 @@ export async function executeEstimateProject(
 	debug(`[estimate_project] Estimating project (${input.specs.length} chars)`);
 
 	try {
-		const response = await apiRequest<EstimateApiResponse>('/api/v1/estimate', {
-			method: 'POST',
-			body: {
-				specs: input.specs,
-				teamSize: input.teamSize,
-				seniorityLevel: input.seniorityLevel,
-				region: input.region,
-				includeMarket: input.includeMarket
-			},
-			timeoutMs: 60000 // 60s timeout for LLM calls
-		});
+		const response = EstimateProjectOutputSchema.parse(
+			await apiRequest<EstimateApiResponse>('/api/v1/estimate', {
+				method: 'POST',
+				body: {
+					specs: input.specs,
+					teamSize: input.teamSize,
+					seniorityLevel: input.seniorityLevel,
+					region: input.region,
+					includeMarket: input.includeMarket
+				},
+				timeoutMs: 60000 // 60s timeout for LLM calls
+			})
+		);
 
-		return { text: formatEstimateResult(response) };
+		return { text: formatEstimateResult(response), data: response };
 	} catch (err) {
 		if (err instanceof McpError) {
 			return { text: err.toResponseText(), isError: true };
@@ -230,7 +261,7 @@ export async function executeEstimateProject(
  */
 export async function executeGetEstimateQuota(
 	_input: GetEstimateQuotaInput
-): Promise<{ text: string; isError?: boolean }> {
+): Promise<{ text: string; data?: QuotaApiResponse; isError?: boolean }> {
 	// Check Pro access
 	const tierCheck = await checkProAccess('get_estimate_quota');
 	if (tierCheck) return tierCheck;
@@ -238,11 +269,13 @@ export async function executeGetEstimateQuota(
 	debug('[get_estimate_quota] Fetching quota');
 
 	try {
-		const response = await apiRequest<QuotaApiResponse>('/api/v1/estimate', {
-			method: 'GET'
-		});
+		const response = EstimateQuotaOutputSchema.parse(
+			await apiRequest<QuotaApiResponse>('/api/v1/estimate', {
+				method: 'GET'
+			})
+		);
 
-		return { text: formatQuotaResult(response) };
+		return { text: formatQuotaResult(response), data: response };
 	} catch (err) {
 		if (err instanceof McpError) {
 			return { text: err.toResponseText(), isError: true };
@@ -0,0 +1,315 @@
+import { z } from 'zod';
+import {
+	CATEGORIES,
+	ContextSchema,
+	DATA_VERSION,
+	DIMENSION_LABELS,
+	OVERLAY_FOOTNOTE,
+	SCORE_DIMENSIONS,
+	ScoresSchema,
+	calculateOverallScore,
+	findCompatibleTechs,
+	getAllTechIds,
+	getCompatibility,
+	getScores,
+	getTechnologiesByCategory,
+	getTechnology,
+	hasOverlayScores,
+	markOverlay,
+	techExists,
+	type ScoreDimension,
+	type Scores
+} from '../data/index.js';
+import { McpError, ErrorCode, techNotFoundError } from '../utils/errors.js';
+
+/**
+ * Largest drop in average stack compatibility for an alternative to still
+ * count as keeping compatibility.
+ */
+export const COMPATIBILITY_TOLERANCE = 10;
+
+/**
+ * Input schema for find_alternatives tool.
+ */
+export const FindAlternativesInputSchema = z.object({
+	technology: z.string().min(1).describe('Technology ID to replace (e.g., "prisma")'),
+	stack: z
+		.array(z.string().min(1))
+		.max(CATEGORIES.length)
+		.optional()
+		.describe('Other technology IDs of the current stack (e.g., ["nextjs", "postgres"])'),
+	dimensions: z
+		.array(z.enum(SCORE_DIMENSIONS))
+		.min(1)
+		.optional()
+		.describe('Dimensions to improve (default: all six)'),
+	context: ContextSchema.optional().default('default').describe('Context for score lookup'),
+	limit: z.number().int().min(1).max(10).optional().default(5).describe('Maximum alternatives to list')
+});
+
+export type FindAlternativesInput = z.infer<typeof FindAlternativesInputSchema>;
+
+/**
+ * Structured output of find_alternatives.
+ */
+export const FindAlternativesOutputSchema = z.object({
+	technology: z.string(),
+	category: z.enum(CATEGORIES),
+	context: z.string(),
+	dimensions: z.array(z.enum(SCORE_DIMENSIONS)),
+	/** Technologies compatibility is checked against */
+	stack: z.array(z.string()),
+	/** input: the supplied stack; companions: the technology's best-fitting partners from other categories */
+	stackSource: z.enum(['input', 'companions']),
+	/** Best first */
+	alternatives: z.array(
+		z.object({
+			rank: z.number(),
+			id: z.string(),
+			name: z.string(),
+			/** Average score change over the chosen dimensions */
+			improvement: z.number(),
+			/** Per-dimension score change (all six dimensions) */
+			deltas: ScoresSchema,
+			overall: z.number(),
+			overlay: z.boolean(),
+			/** Average compatibility with the stack (null without one) */
+			compatibility: z.number().nullable(),
+			/** Change in average compatibility against the replaced technology */
+			compatibilityDelta: z.number().nullable(),
+			/** Stack technology the alternative fits worst */
+			weakestPair: z.object({ techId: z.string(), score: z.number() }).nullable(),
+			/** Average compatibility drops by at most COMPATIBILITY_TOLERANCE */
+			keepsCompatibility: z.boolean()
+		})
+	),
+	/** Same-category technologies hard-incompatible (score 0) with part of the stack */
+	excluded: z.array(z.object({ id: z.string(), incompatibleWith: z.array(z.string()) })),
+	dataVersion: z.string()
+});
+
+export type FindAlternativesOutput = z.infer<typeof FindAlternativesOutputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const findAlternativesToolDefinition = {
+	name: 'find_alternatives',
+	description: `Finds same-category substitutes for a technology, ranked by how much they improve the dimensions you care about while staying compatible with the rest of your stack.
+
+**When to use**: You are unhappy with one technology (e.g., too slow, too expensive) and want replacements that still fit your stack. \`analyze_tech\` lists compatible technologies from other categories; this tool lists substitutes.
+
+**Output includes**:
+- Alternatives ranked by average score gain on the chosen \`dimensions\`, those keeping the stack's compatibility first (average drop of ${COMPATIBILITY_TOLERANCE} points at most)
+- Per-dimension deltas, average compatibility with the stack and the weakest pair
+- Alternatives excluded for a hard incompatibility (score 0) with a stack technology
+
+**Note**: Without \`stack\`, compatibility is checked against the technology's best-fitting partners from other categories.
+
+**Next Steps**: Check the cost of the swap with \`plan_migration\`.
+
+**Example**: \`find_alternatives({ technology: "prisma", stack: ["nextjs", "postgres"], dimensions: ["perf", "cost"] })\``,
+	inputSchema: {
+		type: 'object' as const,
+		properties: {
+			technology: {
+				type: 'string',
+				description: 'Technology ID to replace'
+			},
+			stack: {
+				type: 'array',
+				items: { type: 'string' },
+				maxItems: CATEGORIES.length,
+				description: 'Other technology IDs of the current stack'
+			},
+			dimensions: {
+				type: 'array',
+				items: { type: 'string', enum: SCORE_DIMENSIONS },
+				minItems: 1,
+				description: 'Dimensions to improve (default: all six)'
+			},
+			context: {
+				type: 'string',
+				description: 'Context for scoring (default, mvp, enterprise, or a custom context from the data overlay)'
+			},
+			limit: {
+				type: 'number',
+				minimum: 1,
+				maximum: 10,
+				description: 'Maximum alternatives to list (default: 5)'
+			}
+		},
+		required: ['technology']
+	}
+};
+
+/**
+ * Signed number (e.g., +3, -2, ±0).
+ */
+function formatDelta(delta: number): string {
+	return delta > 0 ? `+${delta}` : delta === 0 ? '±0' : `${delta}`;
+}
+
+/**
+ * Best-fitting partner per other category, used as the stack when none is supplied.
+ */
+function findCompanions(techId: string): string[] {
+	const category = getTechnology(techId)!.category;
+	const seen = new Set([category]);
+	const companions: string[] = [];
+	for (const { id } of findCompatibleTechs(techId)) {
+		const companionCategory = getTechnology(id)!.category;
+		if (seen.has(companionCategory)) continue;
+		seen.add(companionCategory);
+		companions.push(id);
+	}
+	return companions;
+}
+
+/**
+ * Execute find_alternatives tool.
+ */
+export function executeFindAlternatives(input: FindAlternativesInput): {
+	text: string;
+	data?: FindAlternativesOutput;
+	isError?: boolean;
+} {
+	const { technology, context = 'default', limit = 5 } = input;
+	const dimensions: ScoreDimension[] = input.dimensions ? [...new Set(input.dimensions)] : [...SCORE_DIMENSIONS];
+
+	for (const techId of [technology, ...(input.stack ?? [])]) {
+		if (!techExists(techId)) {
+			const error = techNotFoundError(techId, getAllTechIds());
+			return { text: error.toResponseText(), isError: true };
+		}
+	}
+
+	const tech = getTechnology(technology)!;
+	const stack = input.stack ? [...new Set(input.stack)].filter((techId) => techId !== technology) : findCompanions(technology);
+	const conflicting = stack.find((techId) => getTechnology(techId)!.category === tech.category);
+	if (conflicting) {
+		const error = new McpError(
+			ErrorCode.INVALID_INPUT,
+			`"${conflicting}" is in category "${tech.category}", the category of "${technology}"`,
+			['Provide one technology per category.', `Leave "${conflicting}" out of the stack.`]
+		);
+		return { text: error.toResponseText(), isError: true };
+	}
+
+	const current = getScores(technology, context);
+	if (!current) {
+		const error = new McpError(ErrorCode.NOT_FOUND, `No scores for "${technology}" in context "${context}"`);
+		return { text: error.toResponseText(), isError: true };
+	}
+
+	const averageCompatibility = (techId: string) =>
+		stack.length > 0 ? Math.round(stack.reduce((sum, other) => sum + getCompatibility(techId, other), 0) / stack.length) : null;
+	const currentCompatibility = averageCompatibility(technology);
+
+	const excluded: FindAlternativesOutput['excluded'] = [];
+	const candidates = getTechnologiesByCategory(tech.category).flatMap((candidate) => {
+		if (candidate.id === technology) return [];
+		const scores = getScores(candidate.id, context);
+		if (!scores) return [];
+
+		const incompatibleWith = stack.filter((other) => getCompatibility(candidate.id, other) === 0);
+		if (incompatibleWith.length > 0) {
+			excluded.push({ id: candidate.id, incompatibleWith });
+			return [];
+		}
+
+		const deltas = Object.fromEntries(
+			SCORE_DIMENSIONS.map((dim) => [dim, scores[dim] - current[dim]])
+		) as unknown as Scores;
+		const compatibility = averageCompatibility(candidate.id);
+		const weakestPair = stack
+			.map((other) => ({ techId: other, score: getCompatibility(candidate.id, other) }))
+			.reduce<{ techId: string; score: number } | null>((worst, pair) => (!worst || pair.score < worst.score ? pair : worst), null);
+
+		return [
+			{
+				id: candidate.id,
+				name: candidate.name,
+				improvement: Math.round(dimensions.reduce((sum, dim) => sum + deltas[dim], 0) / dimensions.length),
+				deltas,
+				overall: calculateOverallScore(scores),
+				overlay: hasOverlayScores(candidate.id, context),
+				compatibility,
+				compatibilityDelta: compatibility !== null && currentCompatibility !== null ? compatibility - currentCompatibility : null,
+				weakestPair,
+				keepsCompatibility:
+					compatibility === null || currentCompatibility === null || compatibility >= currentCompatibility - COMPATIBILITY_TOLERANCE
+			}
+		];
+	});
+
+	const alternatives = candidates
+		.sort(
+			(a, b) =>
+				Number(b.keepsCompatibility) - Number(a.keepsCompatibility) ||
+				b.improvement - a.improvement ||
+				(b.compatibility ?? 0) - (a.compatibility ?? 0) ||
+				a.id.localeCompare(b.id)
+		)
+		.slice(0, limit)
+		.map((alternative, index) => ({ rank: index + 1, ...alternative }));
+
+	const name = (techId: string) => getTechnology(techId)!.name;
+	const focused = dimensions.length < SCORE_DIMENSIONS.length;
+	let text = `## Alternatives to ${tech.name} (${tech.category}, context: ${context})
+
+**Improving**: ${focused ? dimensions.map((dim) => DIMENSION_LABELS[dim]).join(', ') : 'all dimensions'} | **Compatibility checked against**: ${stack.length > 0 ? stack.map(name).join(', ') : 'nothing'}${input.stack ? '' : ' (best-fitting partners)'}
+`;
+
+	if (alternatives.length === 0) {
+		text += `\nNo other ${tech.category} technology fits the stack.\n`;
+	} else {
+		const dimensionColumns = dimensions.map((dim) => DIMENSION_LABELS[dim]);
+		text += `\n| # | Technology | Gain | ${dimensionColumns.join(' | ')} | Overall | Stack Compat |\n`;
+		text += `|---|------------|------|${dimensionColumns.map(() => '---').join('|')}|---------|--------------|\n`;
+		for (const alt of alternatives) {
+			const compat =
+				alt.compatibility === null
+					? '-'
+					: `${alt.compatibility} (${formatDelta(alt.compatibilityDelta!)})${alt.keepsCompatibility ? '' : ' ⚠'}`;
+			text += `| ${alt.rank} | ${markOverlay(alt.name, alt.overlay)} | ${formatDelta(alt.improvement)} | ${dimensions.map((dim) => formatDelta(alt.deltas[dim])).join(' | ')} | ${alt.overall} | ${compat} |\n`;
+		}
+
+		if (alternatives.some((alt) => !alt.keepsCompatibility)) {
+			text += `\n_⚠ Average stack compatibility drops by more than ${COMPATIBILITY_TOLERANCE} points; listed after the alternatives that keep it._\n`;
+		}
+		if (!alternatives.some((alt) => alt.keepsCompatibility && alt.improvement > 0)) {
+			text += `\n_No alternative keeping the stack's compatibility improves the chosen dimensions on average._\n`;
+		}
+		const weak = alternatives.filter((alt) => alt.weakestPair && alt.weakestPair.score < 50);
+		for (const alt of weak) {
+			text += `\n- ${alt.name} fits ${name(alt.weakestPair!.techId)} poorly (${alt.weakestPair!.score})`;
+		}
+		if (weak.length > 0) text += '\n';
+	}
+
+	if (excluded.length > 0) {
+		text += `\n**Excluded (hard incompatibility)**: ${excluded.map((e) => `${name(e.id)} (with ${e.incompatibleWith.map(name).join(', ')})`).join(', ')}\n`;
+	}
+
+	if (alternatives.some((alt) => alt.overlay)) {
+		text += `\n${OVERLAY_FOOTNOTE}\n`;
+	}
+
+	text += `\nData version: ${DATA_VERSION}`;
+
+	return {
+		text,
+		data: {
+			technology,
+			category: tech.category,
+			context,
+			dimensions,
+			stack,
+			stackSource: input.stack ? 'input' : 'companions',
+			alternatives: alternatives.map((alt) => ({ ...alt, deltas: { ...alt.deltas } })),
+			excluded,
+			dataVersion: DATA_VERSION
+		}
+	};
+}
@@ -3,8 +3,12 @@ import {
 	CATEGORIES,
 	Category,
 	DATA_VERSION,
+	OVERLAY_FOOTNOTE,
+	getOverlayStatus,
 	getTechnologiesByCategory,
-	getTechnologiesGroupedByCategory
+	getTechnologiesGroupedByCategory,
+	markOverlay,
+	type TechInfo
 } from '../data/index.js';
 
 /**
@@ -19,6 +23,25 @@ export const ListTechsInputSchema = z.object({
 
 export type ListTechsInput = z.infer<typeof ListTechsInputSchema>;
 
+/**
+ * Structured output of list_technologies.
+ */
+export const ListTechsOutputSchema = z.object({
+	category: z.enum(CATEGORIES).optional(),
+	total: z.number(),
+	technologies: z.array(
+		z.object({
+			id: z.string(),
+			name: z.string(),
+			category: z.enum(CATEGORIES),
+			overlay: z.enum(['internal', 'overridden']).optional()
+		})
+	),
+	dataVersion: z.string()
+});
+
+export type ListTechsOutput = z.infer<typeof ListTechsOutputSchema>;
+
 /**
  * Tool definition for MCP registration.
  */
@@ -54,14 +77,36 @@ export const listTechsToolDefinition = {
 function formatCategory(category: Category, techs: Array<{ id: string; name: string }>): string {
 	if (techs.length === 0) return '';
 
-	const lines = techs.map((t) => `- ${t.id} (${t.name})`);
+	const lines = techs.map((t) => `- ${t.id} (${markOverlay(t.name, getOverlayStatus(t.id) !== null)})`);
 	return `## ${category}\n${lines.join('\n')}`;
 }
 
+/**
+ * Footnote line when any listed technology comes from the data overlay.
+ */
+function overlayFootnote(techs: Array<{ id: string }>): string {
+	return techs.some((t) => getOverlayStatus(t.id) !== null) ? `\n\n${OVERLAY_FOOTNOTE}` : '';
+}
+
+/**
+ * Structured listing of technologies.
+ */
+function toOutput(techs: TechInfo[], category?: Category): ListTechsOutput {
+	return {
+		...(category && { category }),
+		total: techs.length,
+		technologies: techs.map((t) => {
+			const overlay = getOverlayStatus(t.id);
+			return { id: t.id, name: t.name, category: t.category, ...(overlay && { overlay }) };
+		}),
+		dataVersion: DATA_VERSION
+	};
+}
+
 /**
  * Execute list_technologies tool.
  */
-export function executeListTechs(input: ListTechsInput): string {
+export function executeListTechs(input: ListTechsInput): { text: string; data: ListTechsOutput } {
 	const { category } = input;
 
 	if (category) {
@@ -72,16 +117,20 @@ export function executeListTechs(input: ListTechsInput): string {
 			techs.map((t) => ({ id: t.id, name: t.name }))
 		);
 
-		return `Available technologies in "${category}" (${techs.length} total):
+		return {
+			text: `Available technologies in "${category}" (${techs.length} total):
 
-${formatted}
+${formatted}${overlayFootnote(techs)}
 
-Data version: ${DATA_VERSION}`;
+Data version: ${DATA_VERSION}`,
+			data: toOutput(techs, category)
+		};
 	}
 
 	// List all technologies grouped by category
 	const grouped = getTechnologiesGroupedByCategory();
 	const sections: string[] = [];
+	const listed: TechInfo[] = [];
 	let total = 0;
 
 	for (const cat of CATEGORIES) {
@@ -93,13 +142,17 @@ Data version: ${DATA_VERSION}`;
 					techs.map((t) => ({ id: t.id, name: t.name }))
 				)
 			);
+			listed.push(...techs);
 			total += techs.length;
 		}
 	}
 
-	return `Available technologies (${total} total):
+	return {
+		text: `Available technologies (${total} total):
 
-${sections.join('\n\n')}
+${sections.join('\n\n')}${overlayFootnote(listed)}
 
-Data version: ${DATA_VERSION}`;
+Data version: ${DATA_VERSION}`,
+		data: toOutput(listed)
+	};
 }
@@ -0,0 +1,308 @@
+import { z } from 'zod';
+import {
+	CATEGORIES,
+	DATA_VERSION,
+	DIMENSION_LABELS,
+	OVERLAY_FOOTNOTE,
+	SCORE_DIMENSIONS,
+	ScoresSchema,
+	calculateOverallScore,
+	getAllContexts,
+	getAllTechIds,
+	getCompatibilityVerdict,
+	getDefinedCompatibility,
+	getScores,
+	getTechnology,
+	hasOverlayScores,
+	isOverlayCompatibility,
+	markOverlay,
+	techExists,
+	type Category,
+	type Scores
+} from '../data/index.js';
+import { calculateStackCohesion } from './check-stack-compatibility.js';
+import { McpError, ErrorCode, techNotFoundError } from '../utils/errors.js';
+
+/**
+ * Input schema for plan_migration tool.
+ */
+export const PlanMigrationInputSchema = z.object({
+	from: z.string().min(1).describe('Technology ID to migrate away from (e.g., "prisma")'),
+	to: z.string().min(1).describe('Technology ID to migrate to, in the same category (e.g., "drizzle")'),
+	stack: z
+		.array(z.string().min(1))
+		.max(CATEGORIES.length)
+		.optional()
+		.describe('Other technology IDs of the current stack (e.g., ["nextjs", "postgres"])')
+});
+
+export type PlanMigrationInput = z.infer<typeof PlanMigrationInputSchema>;
+
+export type MigrationEffort = 'light' | 'moderate' | 'heavy';
+
+/**
+ * Rough effort of replacing a technology, by category.
+ */
+export const MIGRATION_EFFORT: Record<Category, { effort: MigrationEffort; reason: string }> = {
+	frontend: { effort: 'heavy', reason: 'Components, state management and UI libraries are rewritten' },
+	backend: { effort: 'heavy', reason: 'Routes, middleware and request handling are rewritten' },
+	'meta-framework': { effort: 'heavy', reason: 'Routing, rendering and data loading follow new conventions' },
+	database: { effort: 'heavy', reason: 'Data is migrated and queries, indexes and operations change' },
+	orm: { effort: 'heavy', reason: 'Schema definitions, migrations and every query are rewritten' },
+	auth: { effort: 'moderate', reason: 'Users and sessions are migrated and login flows rewired' },
+	payments: { effort: 'moderate', reason: 'Customers and subscriptions are migrated and webhooks rewired' },
+	cms: { effort: 'moderate', reason: 'Content models are redefined and content exported/imported' },
+	queue: { effort: 'moderate', reason: 'Producers, consumers and job definitions are ported' },
+	hosting: { effort: 'light', reason: 'Deployment configuration, environment variables and DNS change' },
+	cache: { effort: 'light', reason: 'Client calls change; cached data can be rebuilt' },
+	observability: { effort: 'light', reason: 'SDK setup, alerts and dashboards are recreated' },
+	email: { effort: 'light', reason: 'SDK calls, templates and sending domain DNS change' },
+	storage: { effort: 'light', reason: 'SDK calls change and existing objects are copied over' },
+	ai: { effort: 'light', reason: 'API client calls change and prompts are re-tuned' }
+};
+
+/**
+ * Structured output of plan_migration.
+ */
+export const PlanMigrationOutputSchema = z.object({
+	from: z.string(),
+	to: z.string(),
+	category: z.enum(CATEGORIES),
+	effort: z.enum(['light', 'moderate', 'heavy']),
+	effortReason: z.string(),
+	/** Score change per context (target minus source) */
+	scoreDeltas: z.array(
+		z.object({
+			context: z.string(),
+			fromScores: ScoresSchema,
+			toScores: ScoresSchema,
+			fromOverall: z.number(),
+			toOverall: z.number(),
+			delta: z.number(),
+			/** Per-dimension change */
+			dimensions: ScoresSchema
+		})
+	),
+	/** Compatibility of each other stack technology with the source and the target */
+	compatibility: z.array(
+		z.object({
+			techId: z.string(),
+			before: z.number(),
+			after: z.number(),
+			delta: z.number(),
+			/** False when neither pair has data (both neutral) */
+			defined: z.boolean(),
+			change: z.enum(['improves', 'degrades', 'unchanged'])
+		})
+	),
+	/** Stack cohesion before and after (null without a stack) */
+	cohesion: z.object({ before: z.number(), after: z.number() }).nullable(),
+	/** Other stack technologies hard-incompatible (score 0) with the target */
+	breaks: z.array(z.string()),
+	/** Other stack technologies hard-incompatible with the source but not the target */
+	resolves: z.array(z.string()),
+	dataVersion: z.string()
+});
+
+export type PlanMigrationOutput = z.infer<typeof PlanMigrationOutputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const planMigrationToolDefinition = {
+	name: 'plan_migration',
+	description: `Plans a swap between two technologies of the same category, fully offline.
+
+**When to use**: You are considering replacing one technology (e.g., Prisma with Drizzle) and want to know what it gains, what it costs and how it fits the rest of your stack. Unlike \`get_migration_recommendation\`, no audit or API key is needed.
+
+**Output includes**:
+- Rough effort class from the category (e.g., ORM swaps heavy, hosting swaps light)
+- Score deltas per context (overall and per dimension)
+- Compatibility impact on each technology of the supplied \`stack\`: pairs that improve, degrade or become hard incompatibilities, and the stack cohesion before and after
+
+**Prerequisites**: Use \`list_technologies\` to find valid IDs.
+
+**Example**: \`plan_migration({ from: "prisma", to: "drizzle", stack: ["nextjs", "postgres", "better-auth"] })\``,
+	inputSchema: {
+		type: 'object' as const,
+		properties: {
+			from: {
+				type: 'string',
+				description: 'Technology ID to migrate away from'
+			},
+			to: {
+				type: 'string',
+				description: 'Technology ID to migrate to (same category)'
+			},
+			stack: {
+				type: 'array',
+				items: { type: 'string' },
+				maxItems: CATEGORIES.length,
+				description: 'Other technology IDs of the current stack, to assess the compatibility impact'
+			}
+		},
+		required: ['from', 'to']
+	}
+};
+
+/**
+ * Signed number (e.g., +3, -2, ±0).
+ */
+function formatDelta(delta: number): string {
+	return delta > 0 ? `+${delta}` : delta === 0 ? '±0' : `${delta}`;
+}
+
+/**
+ * Execute plan_migration tool.
+ */
+export function executePlanMigration(input: PlanMigrationInput): {
+	text: string;
+	data?: PlanMigrationOutput;
+	isError?: boolean;
+} {
+	const { from, to, stack = [] } = input;
+
+	for (const techId of [from, to, ...stack]) {
+		if (!techExists(techId)) {
+			const error = techNotFoundError(techId, getAllTechIds());
+			return { text: error.toResponseText(), isError: true };
+		}
+	}
+
+	const source = getTechnology(from)!;
+	const target = getTechnology(to)!;
+	if (from === to || source.category !== target.category) {
+		const error = new McpError(
+			ErrorCode.INVALID_INPUT,
+			from === to
+				? `Cannot migrate "${from}" to itself`
+				: `"${from}" (${source.category}) and "${to}" (${target.category}) are in different categories`,
+			['Pick two technologies of the same category.', `Use rank_category({ category: "${source.category}" }) to see the options.`]
+		);
+		return { text: error.toResponseText(), isError: true };
+	}
+
+	// The rest of the stack: the source and target themselves are ignored
+	const rest = [...new Set(stack)].filter((techId) => techId !== from && techId !== to);
+	const conflicting = rest.find((techId) => getTechnology(techId)!.category === source.category);
+	if (conflicting) {
+		const error = new McpError(
+			ErrorCode.INVALID_INPUT,
+			`"${conflicting}" is in category "${source.category}", which the migration replaces`,
+			['Provide one technology per category.', `Leave "${conflicting}" out of the stack or migrate from it instead.`]
+		);
+		return { text: error.toResponseText(), isError: true };
+	}
+
+	const { effort, reason } = MIGRATION_EFFORT[source.category];
+
+	const scoreDeltas = getAllContexts().flatMap((context) => {
+		const fromScores = getScores(from, context);
+		const toScores = getScores(to, context);
+		if (!fromScores || !toScores) return [];
+		const fromOverall = calculateOverallScore(fromScores);
+		const toOverall = calculateOverallScore(toScores);
+		return [
+			{
+				context,
+				fromScores,
+				toScores,
+				fromOverall,
+				toOverall,
+				delta: toOverall - fromOverall,
+				dimensions: Object.fromEntries(
+					SCORE_DIMENSIONS.map((dim) => [dim, toScores[dim] - fromScores[dim]])
+				) as unknown as Scores
+			}
+		];
+	});
+
+	const compatibility = rest.map((techId) => {
+		const definedBefore = getDefinedCompatibility(from, techId);
+		const definedAfter = getDefinedCompatibility(to, techId);
+		const before = definedBefore ?? 50;
+		const after = definedAfter ?? 50;
+		return {
+			techId,
+			before,
+			after,
+			delta: after - before,
+			defined: definedBefore !== null || definedAfter !== null,
+			change: after > before ? ('improves' as const) : after < before ? ('degrades' as const) : ('unchanged' as const)
+		};
+	});
+	const cohesion =
+		rest.length > 0
+			? { before: calculateStackCohesion([from, ...rest]), after: calculateStackCohesion([to, ...rest]) }
+			: null;
+	const breaks = compatibility.filter((c) => c.after === 0).map((c) => c.techId);
+	const resolves = compatibility.filter((c) => c.before === 0 && c.after > 0).map((c) => c.techId);
+
+	const name = (techId: string) => getTechnology(techId)!.name;
+	let usesOverlay = false;
+	const overlaid = (value: number, fromOverlay: boolean) => {
+		usesOverlay ||= fromOverlay;
+		return markOverlay(value, fromOverlay);
+	};
+
+	let text = `## Migration Plan: ${source.name} → ${target.name} (${source.category})
+
+**Effort**: ${effort} (${reason})
+`;
+
+	text += '\n### Score Deltas\n';
+	text += `| Context | ${source.name} | ${target.name} | Δ | ${SCORE_DIMENSIONS.map((dim) => DIMENSION_LABELS[dim]).join(' | ')} |\n`;
+	text += `|---------|---|---|---|${SCORE_DIMENSIONS.map(() => '---').join('|')}|\n`;
+	for (const row of scoreDeltas) {
+		text += `| ${row.context} | ${overlaid(row.fromOverall, hasOverlayScores(from, row.context))} | ${overlaid(row.toOverall, hasOverlayScores(to, row.context))} | ${formatDelta(row.delta)} | ${SCORE_DIMENSIONS.map((dim) => formatDelta(row.dimensions[dim])).join(' | ')} |\n`;
+	}
+
+	text += '\n### Compatibility Impact\n';
+	if (rest.length === 0) {
+		text += '_Pass `stack` with your other technologies to see which pairs improve and which degrade._\n';
+	} else {
+		text += `| Technology | With ${source.name} | With ${target.name} | Δ | Change |\n|------------|---|---|---|--------|\n`;
+		for (const c of [...compatibility].sort((a, b) => a.delta - b.delta)) {
+			const change = c.defined ? c.change : 'no data (neutral)';
+			text += `| ${name(c.techId)} | ${overlaid(c.before, isOverlayCompatibility(from, c.techId))} | ${overlaid(c.after, isOverlayCompatibility(to, c.techId))} | ${formatDelta(c.delta)} | ${change} |\n`;
+		}
+
+		const improves = compatibility.filter((c) => c.change === 'improves').map((c) => name(c.techId));
+		const degrades = compatibility.filter((c) => c.change === 'degrades').map((c) => name(c.techId));
+		text += `\n**Improves**: ${improves.length > 0 ? improves.join(', ') : 'none'} | **Degrades**: ${degrades.length > 0 ? degrades.join(', ') : 'none'}\n`;
+		text += `**Cohesion**: ${cohesion!.before} → ${cohesion!.after} (${getCompatibilityVerdict(cohesion!.after)})\n`;
+
+		if (breaks.length > 0) {
+			text += `\n**Warning**: ${target.name} cannot be used with ${breaks.map(name).join(', ')} (compatibility 0); replace ${breaks.length === 1 ? 'it' : 'them'} as part of the migration.\n`;
+		}
+		if (resolves.length > 0) {
+			text += `\nResolves the hard incompatibility with ${resolves.map(name).join(', ')}.\n`;
+		}
+	}
+
+	if (usesOverlay) {
+		text += `\n${OVERLAY_FOOTNOTE}\n`;
+	}
+
+	text += `\nData version: ${DATA_VERSION}`;
+
+	const data: PlanMigrationOutput = {
+		from,
+		to,
+		category: source.category,
+		effort,
+		effortReason: reason,
+		scoreDeltas: scoreDeltas.map((row) => ({
+			...row,
+			fromScores: { ...row.fromScores },
+			toScores: { ...row.toScores }
+		})),
+		compatibility,
+		cohesion,
+		breaks,
+		resolves,
+		dataVersion: DATA_VERSION
+	};
+
+	return { text, data };
+}
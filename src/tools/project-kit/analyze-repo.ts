@@ -12,6 +12,8 @@ import { z } from 'zod';
 import type {
 	AnalyzeRepoMCPsInput,
 	AnalyzeRepoMCPsOutput,
+	DetectedTech,
+	InstalledMCPIdentity,
 	MCPCompatibilityResult,
 	ExcludedRecommendation,
 	MCPRecommendation
@@ -20,14 +22,23 @@ import { AnalyzeRepoMCPsInputSchema } from './types.js';
 import { detectStackFromFiles } from './detect-stack.js';
 import { matchMCPsForStack, generateInstallConfig } from './match-mcps.js';
 import { debug, info, error } from '../../utils/logger.js';
+import { calculateOverallScore, getScores, scoreToGrade } from '../../data/index.js';
 import {
 	initRulesIndex,
 	getAllRules,
+	getAllGroupRules,
+	getIndexedRules,
 	generateReport,
 	findRule,
 	canonicalizeMcpId,
-	type CompatibilityReport
+	parseMcpServerEntries,
+	type CompatibilityReport,
+	type McpServerEntries
 } from '../../lib/compatibility/index.js';
+import { getRulePacks } from '../../lib/rule-packs.js';
+import { resolveEffectiveScorePolicy } from '../../lib/score-policy.js';
+import { keyServersByMcpId, resolveMcpIdentities } from '../../lib/mcp-identity.js';
+import { McpError, ErrorCode } from '../../utils/errors.js';
 
 // ============================================================================
 // INSTALLED MCP DETECTION
@@ -68,48 +79,35 @@ function expandPath(p: string): string {
 }
 
 /**
- * Parse MCP config file and extract installed server slugs.
+ * Parse MCP config file and extract installed server entries, keyed by slug.
  */
-async function parseConfigFile(configPath: string): Promise<string[]> {
+async function parseConfigFile(configPath: string): Promise<McpServerEntries> {
 	try {
 		const content = await fs.readFile(configPath, 'utf-8');
-		const config = JSON.parse(content);
-
-		const servers: string[] = [];
-
-		// Handle mcpServers object format
-		if (config.mcpServers && typeof config.mcpServers === 'object') {
-			servers.push(...Object.keys(config.mcpServers));
-		}
-
-		// Handle servers array format
-		if (Array.isArray(config.servers)) {
-			for (const server of config.servers) {
-				if (server.name) {
-					servers.push(server.name);
-				}
-			}
-		}
-
-		return servers;
+		return parseMcpServerEntries(JSON.parse(content));
 	} catch {
-		return [];
+		return {};
 	}
 }
 
 /**
  * Detect installed MCPs from configuration files.
+ * The first config declaring a server wins.
  */
 async function getInstalledMCPs(
 	workspaceRoot: string,
 	customConfigPath?: string
-): Promise<string[]> {
-	const installedMcps: Set<string> = new Set();
+): Promise<McpServerEntries> {
+	const installedMcps: McpServerEntries = {};
+	const addServers = (servers: McpServerEntries) => {
+		for (const [name, entry] of Object.entries(servers)) {
+			if (!(name in installedMcps)) installedMcps[name] = entry;
+		}
+	};
 
 	// Check custom config path first
 	if (customConfigPath) {
-		const servers = await parseConfigFile(path.resolve(workspaceRoot, customConfigPath));
-		servers.forEach((s) => installedMcps.add(s));
+		addServers(await parseConfigFile(path.resolve(workspaceRoot, customConfigPath)));
 	}
 
 	// Check all common locations
@@ -124,12 +122,11 @@ async function getInstalledMCPs(
 			configPath = path.join(workspaceRoot, location);
 		}
 
-		const servers = await parseConfigFile(configPath);
-		servers.forEach((s) => installedMcps.add(s));
+		addServers(await parseConfigFile(configPath));
 	}
 
-	debug(`Found ${installedMcps.size} installed MCPs`);
-	return Array.from(installedMcps);
+	debug(`Found ${Object.keys(installedMcps).length} installed MCPs`);
+	return installedMcps;
 }
 
 // ============================================================================
@@ -143,7 +140,7 @@ let rulesInitialized = false;
  */
 function ensureRulesInitialized(): void {
 	if (!rulesInitialized) {
-		initRulesIndex(getAllRules());
+		initRulesIndex(getAllRules(), getAllGroupRules(), getRulePacks());
 		rulesInitialized = true;
 	}
 }
@@ -155,6 +152,13 @@ function convertToCompatibilityResult(report: CompatibilityReport): MCPCompatibi
 	return {
 		score: report.summary.score,
 		grade: report.summary.grade,
+		groups: report.groups.map((g) => ({
+			rule: g.rule.id,
+			title: g.rule.title,
+			mcps: g.rule.kind === 'at-most' ? g.members : g.triggeredBy,
+			reason: g.rule.reason,
+			severity: g.rule.severity
+		})),
 		conflicts: report.conflicts.map((c) => ({
 			mcpA: c.rule.mcpA,
 			mcpB: c.rule.mcpB,
@@ -196,7 +200,18 @@ export async function analyzeRepo(input: AnalyzeRepoMCPsInput): Promise<AnalyzeR
 	ensureRulesInitialized();
 
 	// Step 1: Detect installed MCPs
-	const installedMcps = await getInstalledMCPs(workspaceRoot, input.mcpConfigPath);
+	const configServers = await getInstalledMCPs(workspaceRoot, input.mcpConfigPath);
+
+	// Resolve config server names (e.g., "db") to MCP IDs from their command, args or url
+	const installedIdentities = resolveMcpIdentities(configServers);
+	const installedServers = keyServersByMcpId(configServers, installedIdentities);
+	const installedMcps = Object.keys(installedServers);
+	for (const identity of installedIdentities) {
+		debug(
+			`Resolved MCP server "${identity.name}" to ${identity.mcpId ?? 'nothing'}` +
+				(identity.method ? ` (${identity.method}, confidence ${identity.confidence})` : '')
+		);
+	}
 
 	// Step 2: Detect stack from files
 	const { stack: detectedStack, filesAnalyzed } = await detectStackFromFiles(workspaceRoot);
@@ -224,8 +239,15 @@ export async function analyzeRepo(input: AnalyzeRepoMCPsInput): Promise<AnalyzeR
 		installedMcps
 	});
 
-	// Step 4: Check compatibility between installed MCPs
-	const installedReport = generateReport(installedMcps, getAllRules());
+	// Step 4: Check compatibility between installed MCPs (conditions against their config entries)
+	const scorePolicy = resolveEffectiveScorePolicy();
+	if (!scorePolicy.policy) {
+		throw new McpError(ErrorCode.CONFIG_ERROR, `Invalid score policy: ${scorePolicy.issues.join('; ')}`);
+	}
+	const installedReport = generateReport(installedMcps, getIndexedRules(), {
+		servers: installedServers,
+		policy: scorePolicy.policy
+	});
 	const installedCompatibility = convertToCompatibilityResult(installedReport);
 
 	// Step 5: Check recommendations against installed MCPs for conflicts
@@ -276,6 +298,7 @@ export async function analyzeRepo(input: AnalyzeRepoMCPsInput): Promise<AnalyzeR
 	return {
 		detectedStack,
 		installedMcps,
+		installedIdentities,
 		recommendedMcps: safeRecommendations,
 		excludedRecommendations,
 		compatibility: {
@@ -370,6 +393,29 @@ Example use cases:
 // OUTPUT FORMATTING
 // ============================================================================
 
+/**
+ * Describe the version-specific score of a detected technology, if any
+ * (e.g., " — scored as nextjs@14: 77/100 (B+)").
+ */
+export function formatScoredVersion(tech: DetectedTech): string {
+	if (!tech.scoredVersion) return '';
+	const scores = getScores(tech.name, 'default', tech.scoredVersion);
+	if (!scores) return '';
+	const overall = calculateOverallScore(scores);
+	return ` — scored as ${tech.name}@${tech.scoredVersion}: ${overall}/100 (${scoreToGrade(overall)})`;
+}
+
+/**
+ * Format an installed MCP, with the config server it was resolved from
+ * (e.g., "supabase-mcp (`db`: package @supabase/mcp-server-supabase, 95%)").
+ */
+export function formatInstalledMcp(mcp: string, identities: InstalledMCPIdentity[]): string {
+	const identity = identities.find((i) => i.mcpId === mcp);
+	if (!identity || identity.name === mcp || !identity.method) return mcp;
+	const evidence = identity.evidence && identity.evidence !== identity.name ? ` ${identity.evidence}` : '';
+	return `${mcp} (\`${identity.name}\`: ${identity.method}${evidence}, ${Math.round(identity.confidence * 100)}%)`;
+}
+
 /**
  * Format analysis output for display.
  */
@@ -383,19 +429,19 @@ function formatAnalysisOutput(result: AnalyzeRepoMCPsOutput): string {
 
 	const stackItems = [
 		result.detectedStack.frontend &&
-			`- **Frontend**: ${result.detectedStack.frontend.name}${result.detectedStack.frontend.version ? ` (${result.detectedStack.frontend.version})` : ''}`,
+			`- **Frontend**: ${result.detectedStack.frontend.name}${result.detectedStack.frontend.version ? ` (${result.detectedStack.frontend.version})` : ''}${formatScoredVersion(result.detectedStack.frontend)}`,
 		result.detectedStack.backend &&
-			`- **Backend**: ${result.detectedStack.backend.name}${result.detectedStack.backend.version ? ` (${result.detectedStack.backend.version})` : ''}`,
+			`- **Backend**: ${result.detectedStack.backend.name}${result.detectedStack.backend.version ? ` (${result.detectedStack.backend.version})` : ''}${formatScoredVersion(result.detectedStack.backend)}`,
 		result.detectedStack.database &&
-			`- **Database**: ${result.detectedStack.database.name}${result.detectedStack.database.version ? ` (${result.detectedStack.database.version})` : ''}`,
+			`- **Database**: ${result.detectedStack.database.name}${result.detectedStack.database.version ? ` (${result.detectedStack.database.version})` : ''}${formatScoredVersion(result.detectedStack.database)}`,
 		result.detectedStack.orm &&
-			`- **ORM**: ${result.detectedStack.orm.name}${result.detectedStack.orm.version ? ` (${result.detectedStack.orm.version})` : ''}`,
+			`- **ORM**: ${result.detectedStack.orm.name}${result.detectedStack.orm.version ? ` (${result.detectedStack.orm.version})` : ''}${formatScoredVersion(result.detectedStack.orm)}`,
 		result.detectedStack.auth &&
-			`- **Auth**: ${result.detectedStack.auth.name}${result.detectedStack.auth.version ? ` (${result.detectedStack.auth.version})` : ''}`,
+			`- **Auth**: ${result.detectedStack.auth.name}${result.detectedStack.auth.version ? ` (${result.detectedStack.auth.version})` : ''}${formatScoredVersion(result.detectedStack.auth)}`,
 		result.detectedStack.hosting &&
-			`- **Hosting**: ${result.detectedStack.hosting.name}${result.detectedStack.hosting.version ? ` (${result.detectedStack.hosting.version})` : ''}`,
+			`- **Hosting**: ${result.detectedStack.hosting.name}${result.detectedStack.hosting.version ? ` (${result.detectedStack.hosting.version})` : ''}${formatScoredVersion(result.detectedStack.hosting)}`,
 		result.detectedStack.payments &&
-			`- **Payments**: ${result.detectedStack.payments.name}${result.detectedStack.payments.version ? ` (${result.detectedStack.payments.version})` : ''}`
+			`- **Payments**: ${result.detectedStack.payments.name}${result.detectedStack.payments.version ? ` (${result.detectedStack.payments.version})` : ''}${formatScoredVersion(result.detectedStack.payments)}`
 	].filter((item): item is string => Boolean(item));
 
 	if (stackItems.length > 0) {
@@ -407,7 +453,7 @@ function formatAnalysisOutput(result: AnalyzeRepoMCPsOutput): string {
 	if (result.detectedStack.services.length > 0) {
 		lines.push('\n**Services**:');
 		for (const service of result.detectedStack.services) {
-			lines.push(`- ${service.name}`);
+			lines.push(service.category ? `- ${service.name} (${service.category})` : `- ${service.name}`);
 		}
 	}
 
@@ -425,7 +471,7 @@ function formatAnalysisOutput(result: AnalyzeRepoMCPsOutput): string {
 	// Installed MCPs + Compatibility
 	if (result.installedMcps.length > 0) {
 		lines.push('## Already Installed MCPs\n');
-		lines.push(result.installedMcps.map((m) => `- ${m}`).join('\n'));
+		lines.push(result.installedMcps.map((m) => `- ${formatInstalledMcp(m, result.installedIdentities)}`).join('\n'));
 		lines.push('');
 
 		// Compatibility Report for installed MCPs
@@ -436,6 +482,15 @@ function formatAnalysisOutput(result: AnalyzeRepoMCPsOutput): string {
 		lines.push('### Compatibility Check\n');
 		lines.push(`**Health Score**: ${compat.score}/100 (Grade ${compat.grade}) ${gradeEmoji}\n`);
 
+		if (compat.groups.length > 0) {
+			lines.push('#### 🟠 Group Rules\n');
+			for (const group of compat.groups) {
+				lines.push(`- **${group.title}**: ${group.mcps.join(', ')} (${group.severity})`);
+				lines.push(`  - ${group.reason}`);
+			}
+			lines.push('');
+		}
+
 		if (compat.conflicts.length > 0) {
 			lines.push('#### 🔴 Conflicts\n');
 			for (const conflict of compat.conflicts) {
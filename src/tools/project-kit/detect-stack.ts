@@ -8,6 +8,7 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import type { Detection, DetectionRule, DetectedStack, DetectedTech, TechType } from './types.js';
+import { getTechnology, resolveScoredVersion } from '../../data/index.js';
 import { debug, warn } from '../../utils/logger.js';
 
 // ============================================================================
@@ -160,7 +161,7 @@ function parsePackageJson(content: string): Detection[] {
 			openai: 'openai',
 			'@anthropic-ai/sdk': 'anthropic',
 			cloudflare: 'cloudflare',
-			'@aws-sdk/client-s3': 'aws',
+			'@aws-sdk/client-s3': 's3',
 			firebase: 'firebase',
 			'firebase-admin': 'firebase',
 			'@google-cloud/firestore': 'firebase',
@@ -250,7 +251,7 @@ function parseEnvFile(content: string): Detection[] {
 		// Cache/Storage
 		{ pattern: /UPSTASH_/i, tech: 'upstash', type: 'service' },
 		{ pattern: /REDIS_URL/i, tech: 'redis', type: 'service' },
-		{ pattern: /AWS_S3/i, tech: 'aws', type: 'service' },
+		{ pattern: /AWS_S3/i, tech: 's3', type: 'service' },
 		{ pattern: /CLOUDINARY_/i, tech: 'cloudinary', type: 'service' }
 	];
 
@@ -599,12 +600,14 @@ function aggregateDetections(detections: Detection[]): DetectedStack {
 		// Sort by confidence descending
 		candidates.sort((a, b) => b.confidence - a.confidence);
 		const best = candidates[0];
+		const scoredVersion = best.version ? resolveScoredVersion(best.name, best.version) : null;
 
 		return {
 			name: best.name,
 			version: best.version,
 			confidence: best.confidence,
-			source: best.source
+			source: best.source,
+			...(scoredVersion && { scoredVersion })
 		};
 	};
 
@@ -616,11 +619,13 @@ function aggregateDetections(detections: Detection[]): DetectedStack {
 	for (const detection of serviceDetections) {
 		if (!seenServices.has(detection.name)) {
 			seenServices.add(detection.name);
+			const category = getTechnology(detection.name)?.category;
 			services.push({
 				name: detection.name,
 				version: detection.version,
 				confidence: detection.confidence,
-				source: detection.source
+				source: detection.source,
+				...(category && { category })
 			});
 		}
 	}
@@ -19,13 +19,29 @@ import { GenerateMCPKitInputSchema, PROJECT_TYPES, SCALES, PRIORITIES } from './
 import { matchMCPsForTechnologies, generateInstallConfig } from './match-mcps.js';
 import {
 	DATA_VERSION,
+	DIMENSION_WEIGHTS_JSON_SCHEMA,
+	OVERLAY_FOOTNOTE,
 	type Category,
 	type Context,
+	type DimensionWeights,
 	calculateOverallScore,
+	calculateWeightedScore,
+	formatWeights,
+	getOverlayStatus,
 	getScores,
-	getTechnologiesByCategory,
+	hasCustomWeights,
+	hasOverlayScores,
+	markOverlay,
 	scoreToGrade
 } from '../../data/index.js';
+import {
+	PROJECT_TYPE_CATEGORIES,
+	PROJECT_TYPE_INFO,
+	PROJECT_TYPE_WEIGHTS,
+	scaleToContext
+} from '../../data/taxonomy.js';
+import { checkStackConstraints, resolveStackCategories, solveStack } from '../../lib/stack-solver.js';
+import { McpError } from '../../utils/errors.js';
 import { debug, info, error } from '../../utils/logger.js';
 
 // ============================================================================
@@ -43,7 +59,8 @@ const PROJECT_TYPE_KEYWORDS: Record<ProjectType, string[]> = {
 	'e-commerce': ['e-commerce', 'ecommerce', 'shop', 'store', 'cart', 'checkout', 'products'],
 	marketplace: ['marketplace', 'two-sided', 'buyers and sellers', 'listings', 'transactions'],
 	cli: ['cli', 'command line', 'terminal', 'console application'],
-	library: ['library', 'package', 'npm', 'module', 'sdk']
+	library: ['library', 'package', 'npm', 'module', 'sdk'],
+	desktop: ['desktop app', 'desktop application', 'electron', 'tauri']
 };
 
 /**
@@ -180,87 +197,39 @@ function extractConstraints(description: string, explicitConstraints: string[] =
 // ============================================================================
 
 /**
- * Category weights for different project types.
- */
-const PROJECT_TYPE_WEIGHTS: Record<string, Partial<Record<Category, number>>> = {
-	'web-app': { 'meta-framework': 1.2, frontend: 1.1, database: 1.0 },
-	saas: { 'meta-framework': 1.2, database: 1.1, auth: 1.2, payments: 1.3 },
-	'e-commerce': { 'meta-framework': 1.1, database: 1.1, payments: 1.4 },
-	api: { backend: 1.3, database: 1.2, hosting: 1.1 },
-	'mobile-app': { backend: 1.2, database: 1.1, auth: 1.2 },
-	marketplace: { 'meta-framework': 1.1, database: 1.2, auth: 1.1, payments: 1.3 },
-	cli: { backend: 1.0 },
-	library: { backend: 1.0 },
-	desktop: { frontend: 1.1, backend: 1.1, database: 1.0 }
-};
-
-/**
- * Categories to include based on project type.
- */
-const PROJECT_TYPE_CATEGORIES: Record<string, Category[]> = {
-	'web-app': ['meta-framework', 'database', 'orm', 'auth', 'hosting'],
-	saas: ['meta-framework', 'database', 'orm', 'auth', 'hosting', 'payments'],
-	'e-commerce': ['meta-framework', 'database', 'orm', 'auth', 'hosting', 'payments'],
-	api: ['backend', 'database', 'orm', 'auth', 'hosting'],
-	'mobile-app': ['backend', 'database', 'orm', 'auth', 'hosting'],
-	marketplace: ['meta-framework', 'database', 'orm', 'auth', 'hosting', 'payments'],
-	cli: ['backend'],
-	library: ['backend'],
-	desktop: ['frontend', 'backend', 'database', 'orm']
-};
-
-/**
- * Map scale to scoring context.
- */
-function scaleToContext(scale: Scale): Context {
-	if (scale === 'enterprise' || scale === 'growth') return 'enterprise';
-	if (scale === 'mvp' || scale === 'startup') return 'mvp';
-	return 'default';
-}
-
-/**
- * Select best tech for each category.
+ * Select the best tech for each category, searching all categories at once
+ * so that pairwise compatibility counts and category order does not.
  */
 function selectBestTechPerCategory(
 	categories: Category[],
 	context: Context,
-	projectType: string
+	projectType: ProjectType,
+	dimensionWeights?: DimensionWeights,
+	pinned: string[] = [],
+	excluded: string[] = []
 ): Map<Category, TechRecommendation> {
 	const results = new Map<Category, TechRecommendation>();
-	const weights = PROJECT_TYPE_WEIGHTS[projectType] || {};
-
-	for (const category of categories) {
-		const techs = getTechnologiesByCategory(category);
-		if (techs.length === 0) continue;
-
-		let bestTech = techs[0];
-		let bestScore = 0;
-
-		for (const tech of techs) {
-			const scores = getScores(tech.id, context);
-			if (!scores) continue;
-
-			let overall = calculateOverallScore(scores);
-
-			// Apply project-type specific weight
-			const weight = weights[category] || 1.0;
-			overall = Math.round(overall * weight);
-
-			if (overall > bestScore) {
-				bestScore = overall;
-				bestTech = tech;
-			}
-		}
-
-		const finalScores = getScores(bestTech.id, context);
-		const finalScore = finalScores ? calculateOverallScore(finalScores) : 0;
-
-		results.set(category, {
-			id: bestTech.id,
-			name: bestTech.name,
+	const [best] = solveStack({
+		categories,
+		context,
+		categoryWeights: PROJECT_TYPE_WEIGHTS[projectType],
+		dimensionWeights,
+		pinned,
+		excluded
+	});
+
+	for (const pick of best.picks) {
+		const finalScores = getScores(pick.techId, context);
+		const finalScore = finalScores ? calculateWeightedScore(finalScores, dimensionWeights) : 0;
+
+		results.set(pick.category, {
+			id: pick.techId,
+			name: pick.name,
 			score: finalScore,
+			rawAverage: finalScores ? calculateOverallScore(finalScores) : 0,
 			grade: scoreToGrade(finalScore),
-			reason: `Best match for ${projectType} at ${context} scale`
+			reason: pinned.includes(pick.techId) ? 'Pinned (mustUse)' : `Best match for ${projectType} at ${context} scale`,
+			...(hasOverlayScores(pick.techId, context) && { overlay: getOverlayStatus(pick.techId)! })
 		});
 	}
 
@@ -273,10 +242,21 @@ function selectBestTechPerCategory(
 
 /**
  * Generate complete project kit.
+ * Throws McpError when mustUse/mustAvoid name unknown or conflicting technologies.
  */
 export function generateMCPKit(input: GenerateMCPKitInput): GenerateMCPKitOutput {
-	const { projectDescription, priorities: explicitPriorities, constraints: explicitConstraints } =
-		input;
+	const {
+		projectDescription,
+		priorities: explicitPriorities,
+		constraints: explicitConstraints,
+		mustUse = [],
+		mustAvoid = []
+	} = input;
+
+	const constraintError = checkStackConstraints(mustUse, mustAvoid);
+	if (constraintError) {
+		throw constraintError;
+	}
 
 	// Step 1: Analyze description
 	const projectType = input.projectType || detectProjectType(projectDescription);
@@ -290,13 +270,12 @@ export function generateMCPKit(input: GenerateMCPKitInput): GenerateMCPKitOutput
 	info(`Generating kit for ${projectType} (${scale})`);
 	debug('Detected constraints:', constraints);
 
-	// Step 2: Get categories for this project type
-	const categories =
-		PROJECT_TYPE_CATEGORIES[projectType] || PROJECT_TYPE_CATEGORIES['web-app'];
+	// Step 2: Get categories for this project type (plus those of pinned techs)
+	const categories = resolveStackCategories(PROJECT_TYPE_CATEGORIES[projectType], mustUse);
 	const context = scaleToContext(scale);
 
 	// Step 3: Select best tech per category
-	const techMap = selectBestTechPerCategory(categories, context, projectType);
+	const techMap = selectBestTechPerCategory(categories, context, projectType, input.weights, mustUse, mustAvoid);
 
 	// Step 4: Build stack output
 	const stack: GenerateMCPKitOutput['stack'] = {};
@@ -311,12 +290,19 @@ export function generateMCPKit(input: GenerateMCPKitInput): GenerateMCPKitOutput
 		auth: 'auth',
 		hosting: 'hosting',
 		payments: 'payments',
-		cms: 'backend' // CMS systems are backend services
+		cms: 'backend', // CMS systems are backend services
+		queue: 'queue',
+		cache: 'cache',
+		observability: 'observability',
+		email: 'email',
+		storage: 'storage',
+		ai: 'ai'
 	};
 
 	for (const [category, tech] of techMap.entries()) {
 		const stackKey = categoryToStackKey[category];
-		if (stackKey && !stack[stackKey]) {
+		// Pinned techs take their stack slot over a shared-slot pick
+		if (stackKey && (!stack[stackKey] || mustUse.includes(tech.id))) {
 			stack[stackKey] = tech;
 		}
 	}
@@ -337,7 +323,8 @@ export function generateMCPKit(input: GenerateMCPKitInput): GenerateMCPKitOutput
 		detectedConstraints: constraints,
 		metadata: {
 			scoringVersion: DATA_VERSION,
-			generatedAt: new Date().toISOString()
+			generatedAt: new Date().toISOString(),
+			...(hasCustomWeights(input.weights) && { weights: input.weights })
 		}
 	};
 }
@@ -352,7 +339,7 @@ function generateRationale(
 	stack: GenerateMCPKitOutput['stack'],
 	mcps: MCPRecommendation[]
 ): string {
-	const projectLabel = projectType.replace(/-/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+	const projectLabel = PROJECT_TYPE_INFO[projectType].label;
 	const techCount = Object.keys(stack).length;
 	const mcpCount = mcps.length;
 
@@ -400,7 +387,9 @@ Describe your project and get:
 Example prompts:
 - "I'm building a SaaS for project management with real-time collaboration"
 - "Building an MVP for a marketplace connecting freelancers with clients"
-- "Creating an e-commerce platform with Stripe payments and PostgreSQL"`,
+- "Creating an e-commerce platform with Stripe payments and PostgreSQL"
+
+Use \`mustUse\` / \`mustAvoid\` (technology IDs) to pin or ban technologies; conflicting constraints are reported as an error.`,
 
 	inputSchema: {
 		type: 'object',
@@ -434,6 +423,17 @@ Example prompts:
 				type: 'string',
 				enum: SCALES,
 				description: 'Project scale (auto-detected if not provided)'
+			},
+			weights: DIMENSION_WEIGHTS_JSON_SCHEMA,
+			mustUse: {
+				type: 'array',
+				items: { type: 'string' },
+				description: 'Technology IDs to lock into the stack (e.g., ["postgres"])'
+			},
+			mustAvoid: {
+				type: 'array',
+				items: { type: 'string' },
+				description: 'Technology IDs never to propose (e.g., ["firebase"])'
 			}
 		},
 		required: ['projectDescription']
@@ -468,6 +468,12 @@ Example prompts:
 					isError: true
 				};
 			}
+			if (err instanceof McpError) {
+				return {
+					content: [{ type: 'text', text: err.toResponseText() }],
+					isError: true
+				};
+			}
 			error('generate_mcp_kit error:', err);
 			throw err;
 		}
@@ -490,14 +496,27 @@ function formatKitOutput(result: GenerateMCPKitOutput): string {
 
 	// Stack Table
 	lines.push('## Recommended Tech Stack\n');
-	lines.push('| Category | Technology | Score | Grade |');
-	lines.push('|----------|------------|-------|-------|');
 
 	const stackEntries = Object.entries(result.stack) as Array<
 		[string, TechRecommendation]
 	>;
-	for (const [category, tech] of stackEntries) {
-		lines.push(`| ${category} | ${tech.name} | ${tech.score} | ${tech.grade} |`);
+	if (result.metadata.weights) {
+		lines.push(`_Weights: ${formatWeights(result.metadata.weights)}_\n`);
+		lines.push('| Category | Technology | Weighted | Raw Avg | Grade |');
+		lines.push('|----------|------------|----------|---------|-------|');
+		for (const [category, tech] of stackEntries) {
+			lines.push(`| ${category} | ${markOverlay(tech.name, !!tech.overlay)} | ${tech.score} | ${tech.rawAverage} | ${tech.grade} |`);
+		}
+	} else {
+		lines.push('| Category | Technology | Score | Grade |');
+		lines.push('|----------|------------|-------|-------|');
+		for (const [category, tech] of stackEntries) {
+			lines.push(`| ${category} | ${markOverlay(tech.name, !!tech.overlay)} | ${tech.score} | ${tech.grade} |`);
+		}
+	}
+	if (stackEntries.some(([, tech]) => tech.overlay)) {
+		lines.push('');
+		lines.push(OVERLAY_FOOTNOTE);
 	}
 	lines.push('');
 
@@ -10,7 +10,7 @@
 
 // Tool handlers
 export { generateMCPKitTool, generateMCPKit } from './generate.js';
-export { analyzeRepoMcpsTool, analyzeRepo } from './analyze-repo.js';
+export { analyzeRepoMcpsTool, analyzeRepo, formatScoredVersion, formatInstalledMcp } from './analyze-repo.js';
 export { prepareMCPInstallationTool, prepareMCPInstallation } from './prepare-installation.js';
 export { executeMCPInstallationTool, executeMCPInstallation } from './execute-installation.js';
 
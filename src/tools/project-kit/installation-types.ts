@@ -7,7 +7,7 @@
  */
 
 import { z } from 'zod';
-import type { MCPPriority } from './types.js';
+import { MCP_PRIORITIES } from './types.js';
 
 // ============================================================================
 // ENV VAR REQUIREMENT TYPES
@@ -15,35 +15,39 @@ import type { MCPPriority } from './types.js';
 
 export type EnvVarRequirement = 'required' | 'optional' | 'conditional';
 
-export interface MCPEnvVar {
-	name: string;
-	description: string;
-	requirement: EnvVarRequirement;
-	example?: string;
+export const MCPEnvVarSchema = z.object({
+	name: z.string(),
+	description: z.string(),
+	requirement: z.enum(['required', 'optional', 'conditional']),
+	example: z.string().optional(),
 	/** For conditional vars: what condition must be met */
-	condition?: string;
-}
+	condition: z.string().optional()
+});
+
+export type MCPEnvVar = z.infer<typeof MCPEnvVarSchema>;
 
 // ============================================================================
 // MCP INSTALLATION INFO
 // ============================================================================
 
-export interface MCPInstallInfo {
-	slug: string;
-	name: string;
-	description: string;
-	priority: MCPPriority;
-	matchedTech: string;
-	category: string;
+export const MCPInstallInfoSchema = z.object({
+	slug: z.string(),
+	name: z.string(),
+	description: z.string(),
+	priority: z.enum(MCP_PRIORITIES),
+	matchedTech: z.string(),
+	category: z.string(),
 	/** npm package or npx command */
-	installCommand: string;
+	installCommand: z.string(),
 	/** Environment variables needed */
-	envVars: MCPEnvVar[];
+	envVars: z.array(MCPEnvVarSchema),
 	/** GitHub repo URL */
-	githubUrl?: string;
+	githubUrl: z.string().optional(),
 	/** Documentation URL */
-	docsUrl?: string;
-}
+	docsUrl: z.string().optional()
+});
+
+export type MCPInstallInfo = z.infer<typeof MCPInstallInfoSchema>;
 
 // ============================================================================
 // PREPARE_MCP_INSTALLATION TYPES
@@ -62,18 +66,20 @@ export const PrepareMCPInstallationInputSchema = z.object({
 
 export type PrepareMCPInstallationInput = z.infer<typeof PrepareMCPInstallationInputSchema>;
 
-export interface PrepareMCPInstallationOutput {
+export const PrepareMCPInstallationOutputSchema = z.object({
 	/** Path to generated .env-mcp file */
-	envMcpPath: string;
+	envMcpPath: z.string(),
 	/** MCPs that will be installed once env vars are filled */
-	mcpsToInstall: MCPInstallInfo[];
+	mcpsToInstall: z.array(MCPInstallInfoSchema),
 	/** Already installed MCPs (skipped) */
-	installedMcps: string[];
+	installedMcps: z.array(z.string()),
 	/** Summary message */
-	message: string;
+	message: z.string(),
 	/** Content of the generated .env-mcp file */
-	envMcpContent: string;
-}
+	envMcpContent: z.string()
+});
+
+export type PrepareMCPInstallationOutput = z.infer<typeof PrepareMCPInstallationOutputSchema>;
 
 // ============================================================================
 // EXECUTE_MCP_INSTALLATION TYPES
@@ -93,39 +99,43 @@ export const ExecuteMCPInstallationInputSchema = z.object({
 
 export type ExecuteMCPInstallationInput = z.infer<typeof ExecuteMCPInstallationInputSchema>;
 
-export interface MCPInstallCommand {
+export const MCPInstallCommandSchema = z.object({
 	/** MCP slug */
-	slug: string;
+	slug: z.string(),
 	/** MCP display name */
-	name: string;
+	name: z.string(),
 	/** Whether all required env vars are present */
-	ready: boolean;
+	ready: z.boolean(),
 	/** Missing required env vars (if not ready) */
-	missingVars: string[];
+	missingVars: z.array(z.string()),
 	/** Command to execute for Claude Code */
-	claudeCodeCommand?: string;
+	claudeCodeCommand: z.string().optional(),
 	/** JSON config for Claude Desktop / Cursor */
-	jsonConfig?: Record<string, unknown>;
+	jsonConfig: z.record(z.unknown()).optional(),
 	/** Status message */
-	status: 'ready' | 'missing_vars' | 'skipped';
-}
+	status: z.enum(['ready', 'missing_vars', 'skipped'])
+});
+
+export type MCPInstallCommand = z.infer<typeof MCPInstallCommandSchema>;
 
-export interface ExecuteMCPInstallationOutput {
+export const ExecuteMCPInstallationOutputSchema = z.object({
 	/** Commands for each MCP */
-	commands: MCPInstallCommand[];
+	commands: z.array(MCPInstallCommandSchema),
 	/** MCPs that are ready to install */
-	readyCount: number;
+	readyCount: z.number(),
 	/** MCPs missing required env vars */
-	pendingCount: number;
+	pendingCount: z.number(),
 	/** Aggregate Claude Code command (if all ready) */
-	aggregateCommand?: string;
+	aggregateCommand: z.string().optional(),
 	/** Aggregate JSON config for manual install */
-	aggregateConfig?: Record<string, unknown>;
+	aggregateConfig: z.record(z.unknown()).optional(),
 	/** Post-install instructions */
-	postInstallInstructions: string[];
+	postInstallInstructions: z.array(z.string()),
 	/** Summary message */
-	message: string;
-}
+	message: z.string()
+});
+
+export type ExecuteMCPInstallationOutput = z.infer<typeof ExecuteMCPInstallationOutputSchema>;
 
 // ============================================================================
 // MCP REGISTRY WITH ENV VARS
@@ -270,6 +270,13 @@ export const TECH_MCP_MAPPINGS: Array<{
     reason: "AWS service management",
     category: "hosting",
   },
+  {
+    techIdentifier: "s3",
+    mcpSlug: "aws-mcp",
+    priority: "medium",
+    reason: "S3 bucket and object management",
+    category: "storage",
+  },
 
   // ==========================================================================
   // SEARCH
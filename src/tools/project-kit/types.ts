@@ -7,39 +7,16 @@
  */
 
 import { z } from 'zod';
+import { CATEGORIES, DimensionWeightsSchema } from '../../data/index.js';
+import { PRIORITIES, PROJECT_TYPES, SCALES } from '../../data/taxonomy.js';
 
 // ============================================================================
 // COMMON ENUMS
 // ============================================================================
 
-export const PRIORITIES = [
-	'time-to-market',
-	'scalability',
-	'developer-experience',
-	'cost-efficiency',
-	'performance',
-	'security',
-	'maintainability'
-] as const;
-
-export type Priority = (typeof PRIORITIES)[number];
-
-export const PROJECT_TYPES = [
-	'web-app',
-	'mobile-app',
-	'api',
-	'saas',
-	'e-commerce',
-	'marketplace',
-	'cli',
-	'library'
-] as const;
-
-export type ProjectType = (typeof PROJECT_TYPES)[number];
-
-export const SCALES = ['mvp', 'startup', 'growth', 'enterprise'] as const;
-
-export type Scale = (typeof SCALES)[number];
+/** Project taxonomy, shared with the recommendation tools */
+export { PRIORITIES, PROJECT_TYPES, SCALES };
+export type { Priority, ProjectType, Scale } from '../../data/taxonomy.js';
 
 export const TECH_TYPES = ['frontend', 'backend', 'database', 'orm', 'service', 'auth', 'hosting', 'payments'] as const;
 
@@ -64,26 +41,34 @@ export interface Detection {
 	source: string; // e.g., 'package.json', '.env.example'
 }
 
+export const DetectedTechSchema = z.object({
+	name: z.string(),
+	version: z.string().optional(),
+	confidence: z.number(),
+	source: z.string(),
+	/** Scored category for services that are also scored technologies (e.g., sentry → observability) */
+	category: z.enum(CATEGORIES).optional(),
+	/** Major version with its own score records (e.g., "14" for next@^14.2.0) */
+	scoredVersion: z.string().optional()
+});
+
+export type DetectedTech = z.infer<typeof DetectedTechSchema>;
+
 /**
  * Aggregated detected stack from all sources.
  */
-export interface DetectedStack {
-	frontend?: DetectedTech;
-	backend?: DetectedTech;
-	database?: DetectedTech;
-	orm?: DetectedTech;
-	auth?: DetectedTech;
-	hosting?: DetectedTech;
-	payments?: DetectedTech;
-	services: DetectedTech[];
-}
+export const DetectedStackSchema = z.object({
+	frontend: DetectedTechSchema.optional(),
+	backend: DetectedTechSchema.optional(),
+	database: DetectedTechSchema.optional(),
+	orm: DetectedTechSchema.optional(),
+	auth: DetectedTechSchema.optional(),
+	hosting: DetectedTechSchema.optional(),
+	payments: DetectedTechSchema.optional(),
+	services: z.array(DetectedTechSchema)
+});
 
-export interface DetectedTech {
-	name: string;
-	version?: string;
-	confidence: number;
-	source: string;
-}
+export type DetectedStack = z.infer<typeof DetectedStackSchema>;
 
 // ============================================================================
 // MCP RECOMMENDATION TYPES
@@ -92,26 +77,30 @@ export interface DetectedTech {
 /**
  * A recommended MCP server.
  */
-export interface MCPRecommendation {
-	slug: string;
-	name: string;
-	description: string;
-	priority: MCPPriority;
-	reason: string;
-	matchedTech: string; // Which detected tech triggered this
-	installCommand?: string;
-	category: string;
-	githubUrl?: string;
-}
+export const MCPRecommendationSchema = z.object({
+	slug: z.string(),
+	name: z.string(),
+	description: z.string(),
+	priority: z.enum(MCP_PRIORITIES),
+	reason: z.string(),
+	matchedTech: z.string(), // Which detected tech triggered this
+	installCommand: z.string().optional(),
+	category: z.string(),
+	githubUrl: z.string().optional()
+});
+
+export type MCPRecommendation = z.infer<typeof MCPRecommendationSchema>;
 
 /**
  * Install configuration for multiple clients.
  */
-export interface MCPInstallConfigs {
-	cursor: Record<string, unknown>;
-	claudeDesktop: Record<string, unknown>;
-	windsurf: Record<string, unknown>;
-}
+export const MCPInstallConfigsSchema = z.object({
+	cursor: z.record(z.unknown()),
+	claudeDesktop: z.record(z.unknown()),
+	windsurf: z.record(z.unknown())
+});
+
+export type MCPInstallConfigs = z.infer<typeof MCPInstallConfigsSchema>;
 
 // ============================================================================
 // GENERATE_MCP_KIT TYPES
@@ -122,36 +111,54 @@ export const GenerateMCPKitInputSchema = z.object({
 	priorities: z.array(z.enum(PRIORITIES)).max(3).optional().describe('Top priorities (max 3)'),
 	constraints: z.array(z.string()).optional().describe('Tech constraints (e.g., must-use-postgresql)'),
 	projectType: z.enum(PROJECT_TYPES).optional().describe('Project type (if known)'),
-	scale: z.enum(SCALES).optional().describe('Project scale (if known)')
+	scale: z.enum(SCALES).optional().describe('Project scale (if known)'),
+	weights: DimensionWeightsSchema.optional().describe('Per-dimension weights for stack scoring'),
+	mustUse: z.array(z.string().min(1)).optional().describe('Technology IDs to lock into the stack'),
+	mustAvoid: z.array(z.string().min(1)).optional().describe('Technology IDs never to propose')
 });
 
 export type GenerateMCPKitInput = z.infer<typeof GenerateMCPKitInputSchema>;
 
-export interface TechRecommendation {
-	id: string;
-	name: string;
-	score: number;
-	grade: string;
-	reason: string;
-}
+export const TechRecommendationSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	/** Weighted score (equals rawAverage when no custom weights are set) */
+	score: z.number(),
+	rawAverage: z.number(),
+	grade: z.string(),
+	reason: z.string(),
+	/** Set when the technology or its scores come from the local data overlay */
+	overlay: z.enum(['internal', 'overridden']).optional()
+});
 
-export interface GenerateMCPKitOutput {
-	stack: {
-		frontend?: TechRecommendation;
-		backend?: TechRecommendation;
-		database?: TechRecommendation;
-		auth?: TechRecommendation;
-		hosting?: TechRecommendation;
-		payments?: TechRecommendation;
-	};
-	mcps: MCPRecommendation[];
-	rationale: string;
-	detectedConstraints: string[];
-	metadata: {
-		scoringVersion: string;
-		generatedAt: string;
-	};
-}
+export type TechRecommendation = z.infer<typeof TechRecommendationSchema>;
+
+export const GenerateMCPKitOutputSchema = z.object({
+	stack: z.object({
+		frontend: TechRecommendationSchema.optional(),
+		backend: TechRecommendationSchema.optional(),
+		database: TechRecommendationSchema.optional(),
+		auth: TechRecommendationSchema.optional(),
+		hosting: TechRecommendationSchema.optional(),
+		payments: TechRecommendationSchema.optional(),
+		queue: TechRecommendationSchema.optional(),
+		cache: TechRecommendationSchema.optional(),
+		observability: TechRecommendationSchema.optional(),
+		email: TechRecommendationSchema.optional(),
+		storage: TechRecommendationSchema.optional(),
+		ai: TechRecommendationSchema.optional()
+	}),
+	mcps: z.array(MCPRecommendationSchema),
+	rationale: z.string(),
+	detectedConstraints: z.array(z.string()),
+	metadata: z.object({
+		scoringVersion: z.string(),
+		generatedAt: z.string(),
+		weights: DimensionWeightsSchema.optional()
+	})
+});
+
+export type GenerateMCPKitOutput = z.infer<typeof GenerateMCPKitOutputSchema>;
 
 // ============================================================================
 // ANALYZE_REPO_MCPS TYPES
@@ -165,64 +172,96 @@ export const AnalyzeRepoMCPsInputSchema = z.object({
 
 export type AnalyzeRepoMCPsInput = z.infer<typeof AnalyzeRepoMCPsInputSchema>;
 
+const MCPIssueSchema = z.object({
+	mcpA: z.string(),
+	mcpB: z.string(),
+	reason: z.string(),
+	severity: z.enum(['critical', 'warning', 'info'])
+});
+
 /**
  * Compatibility check results for installed MCPs.
  */
-export interface MCPCompatibilityResult {
-	score: number; // 0-100
-	grade: 'A' | 'B' | 'C' | 'D';
-	conflicts: Array<{
-		mcpA: string;
-		mcpB: string;
-		reason: string;
-		severity: 'critical' | 'warning' | 'info';
-	}>;
-	redundancies: Array<{
-		mcpA: string;
-		mcpB: string;
-		reason: string;
-		severity: 'critical' | 'warning' | 'info';
-	}>;
-	synergies: Array<{
-		mcpA: string;
-		mcpB: string;
-		reason: string;
-	}>;
-	suggestions: Array<{
-		mcp: string;
-		reason: string;
-		basedOn: string;
-	}>;
-}
+export const MCPCompatibilityResultSchema = z.object({
+	score: z.number(), // 0-100
+	grade: z.enum(['A', 'B', 'C', 'D']),
+	groups: z.array(
+		z.object({
+			rule: z.string(),
+			title: z.string(),
+			mcps: z.array(z.string()),
+			reason: z.string(),
+			severity: z.enum(['critical', 'warning', 'info'])
+		})
+	),
+	conflicts: z.array(MCPIssueSchema),
+	redundancies: z.array(MCPIssueSchema),
+	synergies: z.array(
+		z.object({
+			mcpA: z.string(),
+			mcpB: z.string(),
+			reason: z.string()
+		})
+	),
+	suggestions: z.array(
+		z.object({
+			mcp: z.string(),
+			reason: z.string(),
+			basedOn: z.string()
+		})
+	)
+});
+
+export type MCPCompatibilityResult = z.infer<typeof MCPCompatibilityResultSchema>;
 
 /**
  * MCPs excluded from recommendations with reasons.
  */
-export interface ExcludedRecommendation {
-	mcp: string;
-	reason: string;
-	conflictsWith: string;
-}
+export const ExcludedRecommendationSchema = z.object({
+	mcp: z.string(),
+	reason: z.string(),
+	conflictsWith: z.string()
+});
 
-export interface AnalyzeRepoMCPsOutput {
-	detectedStack: DetectedStack;
-	installedMcps: string[];
-	recommendedMcps: MCPRecommendation[];
-	excludedRecommendations: ExcludedRecommendation[];
-	compatibility: {
-		installed: MCPCompatibilityResult;
-		recommendationConflicts: Array<{
-			recommended: string;
-			conflictsWith: string;
-			reason: string;
-		}>;
-	};
-	installConfig: MCPInstallConfigs;
-	metadata: {
-		filesAnalyzed: string[];
-		analysisDate: string;
-	};
-}
+export type ExcludedRecommendation = z.infer<typeof ExcludedRecommendationSchema>;
+
+/**
+ * MCP ID resolved for an installed server (see src/lib/mcp-identity.ts).
+ */
+export const InstalledMCPIdentitySchema = z.object({
+	name: z.string(), // Server name in the MCP config
+	mcpId: z.string().nullable(),
+	method: z.enum(['package', 'url', 'name', 'fuzzy']).nullable(),
+	confidence: z.number(), // 0-1
+	evidence: z.string().optional()
+});
+
+export type InstalledMCPIdentity = z.infer<typeof InstalledMCPIdentitySchema>;
+
+export const AnalyzeRepoMCPsOutputSchema = z.object({
+	detectedStack: DetectedStackSchema,
+	installedMcps: z.array(z.string()), // Resolved MCP IDs (server name when unresolved)
+	installedIdentities: z.array(InstalledMCPIdentitySchema),
+	recommendedMcps: z.array(MCPRecommendationSchema),
+	excludedRecommendations: z.array(ExcludedRecommendationSchema),
+	compatibility: z.object({
+		installed: MCPCompatibilityResultSchema,
+		recommendationConflicts: z.array(
+			z.object({
+				recommended: z.string(),
+				conflictsWith: z.string(),
+				reason: z.string()
+			})
+		)
+	}),
+	installConfig: MCPInstallConfigsSchema,
+	metadata: z.object({
+		filesAnalyzed: z.array(z.string()),
+		analysisDate: z.string()
+	})
+});
+
+export type AnalyzeRepoMCPsOutput = z.infer<typeof AnalyzeRepoMCPsOutputSchema>;
 
 // ============================================================================
 // DETECTION RULE TYPES
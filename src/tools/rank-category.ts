@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import {
+	CATEGORIES,
+	ContextSchema,
+	DATA_VERSION,
+	DIMENSION_LABELS,
+	DIMENSION_WEIGHTS_JSON_SCHEMA,
+	DimensionWeightsSchema,
+	OVERLAY_FOOTNOTE,
+	SCORE_DIMENSIONS,
+	ScoresSchema,
+	calculateOverallScore,
+	calculateWeightedScore,
+	formatWeights,
+	getScores,
+	getTechnologiesByCategory,
+	hasCustomWeights,
+	hasOverlayScores,
+	markOverlay,
+	scoreToGrade
+} from '../data/index.js';
+import { clusterByProfile, describeCluster, findDominators } from '../lib/ranking.js';
+import { McpError, ErrorCode } from '../utils/errors.js';
+
+/**
+ * Input schema for rank_category tool.
+ */
+export const RankCategoryInputSchema = z.object({
+	category: z.enum(CATEGORIES).describe('Category to rank'),
+	context: ContextSchema.optional().default('default').describe('Context for score lookup'),
+	weights: DimensionWeightsSchema.optional().describe('Per-dimension weights for the ranking')
+});
+
+export type RankCategoryInput = z.infer<typeof RankCategoryInputSchema>;
+
+/**
+ * Structured output of rank_category.
+ */
+export const RankCategoryOutputSchema = z.object({
+	category: z.enum(CATEGORIES),
+	context: z.string(),
+	weights: DimensionWeightsSchema.optional(),
+	/** Leaderboard, best score first */
+	technologies: z.array(
+		z.object({
+			rank: z.number(),
+			id: z.string(),
+			name: z.string(),
+			scores: ScoresSchema,
+			/** Weighted score (equals rawAverage when no custom weights are set) */
+			score: z.number(),
+			rawAverage: z.number(),
+			grade: z.string(),
+			overlay: z.boolean(),
+			/** Not dominated by any other technology of the category */
+			pareto: z.boolean(),
+			/** Technologies at least as good on every dimension and better on one */
+			dominatedBy: z.array(z.string()),
+			/** Index into clusters */
+			cluster: z.number()
+		})
+	),
+	clusters: z.array(
+		z.object({
+			label: z.string(),
+			members: z.array(z.string()),
+			centroid: ScoresSchema,
+			strengths: z.array(z.enum(SCORE_DIMENSIONS)),
+			weaknesses: z.array(z.enum(SCORE_DIMENSIONS))
+		})
+	),
+	/** Dimensions used for Pareto dominance (those with a non-zero weight) */
+	paretoDimensions: z.array(z.enum(SCORE_DIMENSIONS)),
+	dataVersion: z.string()
+});
+
+export type RankCategoryOutput = z.infer<typeof RankCategoryOutputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const rankCategoryToolDefinition = {
+	name: 'rank_category',
+	description: `Ranks every technology of a category, groups them by score profile and marks the Pareto-optimal ones.
+
+**When to use**: You want to evaluate a whole category (e.g., all databases) instead of comparing 2-4 technologies.
+
+**Output includes**:
+- Leaderboard by (weighted) score with grades
+- Pareto-optimal technologies: not beaten on every dimension by another one of the category
+- Clusters of technologies with similar six-dimension profiles, labelled by what they are strong and weak at
+
+**Note**: Dimensions weighted 0 are ignored for Pareto dominance.
+
+**Next Steps**: Narrow down with \`compare_techs\` on the Pareto-optimal options.
+
+**Example**: \`rank_category({ category: "database", context: "enterprise", weights: { compliance: 3 } })\``,
+	inputSchema: {
+		type: 'object' as const,
+		properties: {
+			category: {
+				type: 'string',
+				enum: CATEGORIES,
+				description: 'Category to rank'
+			},
+			context: {
+				type: 'string',
+				description: 'Context for scoring (default, mvp, enterprise, or a custom context from the data overlay)'
+			},
+			weights: DIMENSION_WEIGHTS_JSON_SCHEMA
+		},
+		required: ['category']
+	}
+};
+
+/**
+ * Execute rank_category tool.
+ */
+export function executeRankCategory(input: RankCategoryInput): {
+	text: string;
+	data?: RankCategoryOutput;
+	isError?: boolean;
+} {
+	const { category, context = 'default', weights } = input;
+	const weighted = hasCustomWeights(weights);
+
+	const items = getTechnologiesByCategory(category).flatMap((tech) => {
+		const scores = getScores(tech.id, context);
+		return scores ? [{ id: tech.id, name: tech.name, scores }] : [];
+	});
+
+	if (items.length === 0) {
+		const error = new McpError(ErrorCode.NOT_FOUND, `No scored technologies in category "${category}"`, [
+			'Use list_technologies to see the populated categories.'
+		]);
+		return { text: error.toResponseText(), isError: true };
+	}
+
+	const paretoDimensions = SCORE_DIMENSIONS.filter((dim) => weights?.[dim] !== 0);
+	const dominators = findDominators(items, paretoDimensions);
+	const clusters = clusterByProfile(items);
+	const clusterOf = new Map(clusters.flatMap((cluster, index) => cluster.members.map((id) => [id, index] as const)));
+
+	const ranked = items
+		.map((item) => {
+			const score = calculateWeightedScore(item.scores, weights);
+			return {
+				...item,
+				score,
+				rawAverage: calculateOverallScore(item.scores),
+				grade: scoreToGrade(score),
+				overlay: hasOverlayScores(item.id, context),
+				dominatedBy: dominators.get(item.id)!,
+				cluster: clusterOf.get(item.id)!
+			};
+		})
+		.sort((a, b) => b.score - a.score || b.rawAverage - a.rawAverage || a.id.localeCompare(b.id))
+		.map((tech, index) => ({ rank: index + 1, ...tech, pareto: tech.dominatedBy.length === 0 }));
+
+	let text = `## Category Ranking: ${category} (context: ${context})\n\n`;
+	if (weighted) {
+		text += `_Weights: ${formatWeights(weights)}_\n\n`;
+	}
+
+	text += '| # | Technology | Score | Raw Avg | Grade | Pareto | Cluster |\n|---|------------|-------|---------|-------|--------|---------|\n';
+	for (const tech of ranked) {
+		const pareto = tech.pareto ? 'yes' : `no (${tech.dominatedBy.join(', ')})`;
+		text += `| ${tech.rank} | ${markOverlay(tech.name, tech.overlay)} | ${tech.score} | ${tech.rawAverage} | ${tech.grade} | ${pareto} | ${tech.cluster + 1} |\n`;
+	}
+
+	const front = ranked.filter((tech) => tech.pareto);
+	text += `\n### Pareto-Optimal (${front.length}/${ranked.length})\n`;
+	text += `${front.map((tech) => tech.name).join(', ')}\n`;
+	if (paretoDimensions.length < SCORE_DIMENSIONS.length) {
+		text += `_Dimensions considered: ${paretoDimensions.map((dim) => DIMENSION_LABELS[dim]).join(', ')}_\n`;
+	}
+
+	const nameOf = new Map(items.map((item) => [item.id, item.name]));
+	text += '\n### Clusters\n';
+	for (const [index, cluster] of clusters.entries()) {
+		text += `- **${index + 1}** (${describeCluster(cluster)}): ${cluster.members.map((id) => nameOf.get(id)).join(', ')}\n`;
+	}
+
+	if (ranked.some((tech) => tech.overlay)) {
+		text += `\n${OVERLAY_FOOTNOTE}\n`;
+	}
+
+	text += `\nData version: ${DATA_VERSION}`;
+
+	const data: RankCategoryOutput = {
+		category,
+		context,
+		...(weighted && { weights }),
+		technologies: ranked.map((tech) => ({
+			rank: tech.rank,
+			id: tech.id,
+			name: tech.name,
+			scores: { ...tech.scores },
+			score: tech.score,
+			rawAverage: tech.rawAverage,
+			grade: tech.grade,
+			overlay: tech.overlay,
+			pareto: tech.pareto,
+			dominatedBy: tech.dominatedBy,
+			cluster: tech.cluster
+		})),
+		clusters: clusters.map((cluster) => ({ label: describeCluster(cluster), ...cluster, centroid: { ...cluster.centroid } })),
+		paretoDimensions,
+		dataVersion: DATA_VERSION
+	};
+
+	return { text, data };
+}
@@ -1,46 +1,174 @@
 import { z } from 'zod';
 import {
+	CATEGORIES,
 	DATA_VERSION,
+	DIMENSION_LABELS,
+	DIMENSION_WEIGHTS_JSON_SCHEMA,
+	DimensionWeightsSchema,
+	OVERLAY_FOOTNOTE,
+	SCORE_DIMENSIONS,
 	type Category,
 	type Context,
+	type DimensionWeights,
 	calculateOverallScore,
+	calculateWeightedScore,
+	formatWeights,
 	getCompatibility,
 	getScores,
+	getTechDisplayName,
 	getTechnologiesByCategory,
+	hasCustomWeights,
+	hasOverlayScores,
+	markOverlay,
 	scoreToGrade
 } from '../data/index.js';
+import {
+	PROJECT_TYPES,
+	PROJECT_TYPE_CATEGORIES,
+	PROJECT_TYPE_INFO,
+	PROJECT_TYPE_WEIGHTS,
+	SCALES,
+	scaleToContext,
+	type ProjectType
+} from '../data/taxonomy.js';
+import {
+	checkStackConstraints,
+	getStackCandidates,
+	resolveStackCategories,
+	scoreStack,
+	solveStack,
+	type SolvedStack,
+	type StackCandidate
+} from '../lib/stack-solver.js';
+import { analyzeSensitivity, type CategorySensitivity } from '../lib/sensitivity.js';
 import { wasDemoUsedToday, recordDemoUsage, getDeviceId } from '../utils/device-id.js';
 import { debug } from '../utils/logger.js';
 
 /**
- * Project types supported.
+ * Input schema for recommend_stack_demo tool.
+ */
+export const RecommendStackDemoInputSchema = z.object({
+	projectType: z.enum(PROJECT_TYPES).describe('Type of project'),
+	scale: z.enum(SCALES).optional().default('mvp').describe('Project scale'),
+	weights: DimensionWeightsSchema.optional().describe('Per-dimension weights for scoring'),
+	explain: z
+		.boolean()
+		.optional()
+		.default(false)
+		.describe('List the top candidates per category and which pick excluded each incompatible one'),
+	alternatives: z
+		.number()
+		.int()
+		.min(0)
+		.max(4)
+		.optional()
+		.default(2)
+		.describe('Number of runner-up stacks to list'),
+	mustUse: z
+		.array(z.string().min(1))
+		.optional()
+		.describe('Technology IDs to lock into their category (e.g., ["postgres"])'),
+	mustAvoid: z.array(z.string().min(1)).optional().describe('Technology IDs never to propose (e.g., ["firebase"])'),
+	sensitivity: z
+		.boolean()
+		.optional()
+		.describe('Report how close each pick was and the smallest weight change that flips it')
+});
+
+export type RecommendStackDemoInput = z.infer<typeof RecommendStackDemoInputSchema>;
+
+/**
+ * One technology of a recommended stack (structured output).
  */
-const PROJECT_TYPES = [
-	'web-app',
-	'mobile-app',
-	'api',
-	'desktop',
-	'cli',
-	'library',
-	'e-commerce',
-	'saas',
-	'marketplace'
-] as const;
+export const StackPickOutputSchema = z.object({
+	category: z.enum(CATEGORIES),
+	id: z.string(),
+	technology: z.string(),
+	/** Weighted score (equals rawAverage when no custom weights are set) */
+	score: z.number(),
+	rawAverage: z.number(),
+	grade: z.string(),
+	overlay: z.boolean(),
+	pinned: z.boolean()
+});
 
 /**
- * Scale options.
+ * Totals of a solved stack (structured output).
  */
-const SCALES = ['mvp', 'startup', 'growth', 'enterprise'] as const;
+export const StackTotalsOutputSchema = z.object({
+	total: z.number(),
+	techTotal: z.number(),
+	compatibilityBonus: z.number(),
+	emptyCategories: z.array(z.enum(CATEGORIES))
+});
 
 /**
- * Input schema for recommend_stack_demo tool.
+ * Sensitivity of one category pick (structured output).
  */
-export const RecommendStackDemoInputSchema = z.object({
-	projectType: z.enum(PROJECT_TYPES).describe('Type of project'),
-	scale: z.enum(SCALES).optional().default('mvp').describe('Project scale')
+export const SensitivityOutputSchema = z.object({
+	category: z.enum(CATEGORIES),
+	pick: z.string(),
+	/** Best other candidate that could replace the pick */
+	runnerUp: z.string().nullable(),
+	/** Weighted score of the pick minus the runner-up's (null when pinned or uncontested) */
+	margin: z.number().nullable(),
+	/** compatibility: another candidate scores higher, the pick wins on compatibility */
+	verdict: z.enum(['pinned', 'uncontested', 'compatibility', 'coin-flip', 'close', 'robust']),
+	/** Smallest single dimension weight change after which another candidate outscores the pick */
+	flip: z
+		.object({
+			dimension: z.enum(SCORE_DIMENSIONS),
+			from: z.number(),
+			to: z.number(),
+			newLeader: z.string()
+		})
+		.nullable()
 });
 
-export type RecommendStackDemoInput = z.infer<typeof RecommendStackDemoInputSchema>;
+/**
+ * Structured output of recommend_stack_demo.
+ */
+export const RecommendStackDemoOutputSchema = z.object({
+	projectType: z.enum(PROJECT_TYPES),
+	scale: z.enum(SCALES),
+	context: z.string(),
+	weights: DimensionWeightsSchema.optional(),
+	stack: z.array(StackPickOutputSchema),
+	totals: StackTotalsOutputSchema,
+	/** Runner-up stacks, best first */
+	alternatives: z.array(
+		StackTotalsOutputSchema.extend({
+			picks: z.array(z.object({ category: z.enum(CATEGORIES), id: z.string() }))
+		})
+	),
+	mustUse: z.array(z.string()),
+	mustAvoid: z.array(z.string()),
+	/** Every candidate per category (explain mode only) */
+	explanations: z
+		.array(
+			z.object({
+				category: z.enum(CATEGORIES),
+				selected: z.string().nullable(),
+				candidates: z.array(
+					z.object({
+						id: z.string(),
+						name: z.string(),
+						score: z.number(),
+						/** Pick that rules the candidate out (hard incompatibility) */
+						eliminatedBy: z.string().nullable(),
+						totalDelta: z.number().nullable(),
+						constraint: z.enum(['pinned', 'avoided']).nullable()
+					})
+				)
+			})
+		)
+		.optional(),
+	/** Per-category margins and weight flips (sensitivity mode only) */
+	sensitivity: z.array(SensitivityOutputSchema).optional(),
+	dataVersion: z.string()
+});
+
+export type RecommendStackDemoOutput = z.infer<typeof RecommendStackDemoOutputSchema>;
 
 /**
  * Tool definition for MCP registration.
@@ -59,6 +187,12 @@ export const recommendStackDemoToolDefinition = {
 - Optimal technology for each category (frontend, backend, database, etc.)
 - Score and grade for each recommendation
 - Based on 100% deterministic scoring (no AI hallucinations)
+- Optional \`weights\` to rank by the dimensions your team cares about (raw average shown alongside)
+- Stack total (category scores plus pairwise compatibility), searched across all categories at once
+- Runner-up stacks (\`alternatives\`, default 2) with their totals
+- Optional \`explain\` to see the top 3 candidates per category and which pick excluded incompatible ones
+- Optional \`mustUse\` / \`mustAvoid\` to pin or ban technologies (conflicting constraints are reported as an error)
+- Optional \`sensitivity\` to see each pick's margin over the runner-up and the smallest single weight change that flips it
 
 **Example**: \`recommend_stack_demo({ projectType: "saas", scale: "mvp" })\``,
 	inputSchema: {
@@ -73,6 +207,31 @@ export const recommendStackDemoToolDefinition = {
 				type: 'string',
 				enum: SCALES,
 				description: 'Project scale (mvp, startup, growth, enterprise)'
+			},
+			weights: DIMENSION_WEIGHTS_JSON_SCHEMA,
+			explain: {
+				type: 'boolean',
+				description: 'Explain each pick: top 3 candidates per category and exclusions (default: false)'
+			},
+			alternatives: {
+				type: 'number',
+				minimum: 0,
+				maximum: 4,
+				description: 'Number of runner-up stacks to list (default: 2)'
+			},
+			mustUse: {
+				type: 'array',
+				items: { type: 'string' },
+				description: 'Technology IDs to lock into their category; other picks must be compatible with them'
+			},
+			mustAvoid: {
+				type: 'array',
+				items: { type: 'string' },
+				description: 'Technology IDs never to propose'
+			},
+			sensitivity: {
+				type: 'boolean',
+				description: 'Report margins over the runner-ups and the smallest weight change that flips each pick (default: false)'
 			}
 		},
 		required: ['projectType']
@@ -80,129 +239,257 @@ export const recommendStackDemoToolDefinition = {
 };
 
 /**
- * Map scale to scoring context.
+ * A candidate considered for a category.
  */
-function scaleToContext(scale: string): Context {
-	if (scale === 'enterprise' || scale === 'growth') return 'enterprise';
-	if (scale === 'mvp' || scale === 'startup') return 'mvp';
-	return 'default';
+interface CandidateEvaluation {
+	techId: string;
+	name: string;
+	/** Ranking score: dimension-weighted score times the project-type category weight */
+	score: number;
+	/** Pick in the recommended stack that rules this candidate out (hard incompatibility) */
+	eliminatedBy: StackCandidate | null;
+	/** Change in stack total if this candidate replaced the pick (null when excluded) */
+	totalDelta: number | null;
+	/** Set when mustUse/mustAvoid decided this candidate */
+	constraint: 'pinned' | 'avoided' | null;
 }
 
 /**
- * Category weights for different project types.
- * Higher weight = more important for this project type.
+ * Every candidate of a category, best ranking score first.
  */
-const PROJECT_TYPE_WEIGHTS: Record<string, Partial<Record<Category, number>>> = {
-	'web-app': { 'meta-framework': 1.2, frontend: 1.1, database: 1.0 },
-	'saas': { 'meta-framework': 1.2, database: 1.1, auth: 1.2, payments: 1.3 },
-	'e-commerce': { 'meta-framework': 1.1, database: 1.1, payments: 1.4 },
-	'api': { backend: 1.3, database: 1.2, hosting: 1.1 },
-	'mobile-app': { backend: 1.2, database: 1.1, auth: 1.2 },
-	'marketplace': { 'meta-framework': 1.1, database: 1.2, auth: 1.1, payments: 1.3 },
-	'cli': { backend: 1.0 },
-	'library': { backend: 1.0 },
-	'desktop': { frontend: 1.1, backend: 1.1, database: 1.0 }
-};
+interface CategoryExplanation {
+	category: Category;
+	selected: string | null;
+	candidates: CandidateEvaluation[];
+}
+
+type Recommendation = z.infer<typeof StackPickOutputSchema>;
 
 /**
- * Categories to include based on project type.
+ * Totals of a solved stack.
  */
-const PROJECT_TYPE_CATEGORIES: Record<string, Category[]> = {
-	'web-app': ['meta-framework', 'database', 'orm', 'auth', 'hosting'],
-	'saas': ['meta-framework', 'database', 'orm', 'auth', 'hosting', 'payments'],
-	'e-commerce': ['meta-framework', 'database', 'orm', 'auth', 'hosting', 'payments'],
-	'api': ['backend', 'database', 'orm', 'auth', 'hosting'],
-	'mobile-app': ['backend', 'database', 'orm', 'auth', 'hosting'],
-	'marketplace': ['meta-framework', 'database', 'orm', 'auth', 'hosting', 'payments'],
-	'cli': ['backend'],
-	'library': ['backend'],
-	'desktop': ['frontend', 'backend', 'database', 'orm']
-};
+export function toStackTotals(stack: SolvedStack): z.infer<typeof StackTotalsOutputSchema> {
+	return {
+		total: stack.total,
+		techTotal: stack.techTotal,
+		compatibilityBonus: stack.compatibilityBonus,
+		emptyCategories: stack.emptyCategories
+	};
+}
 
 /**
- * Check if a technology is compatible with all already-selected technologies.
- * Returns false if ANY hard incompatibility (score=0) is found.
+ * Convert a solved stack into per-category recommendations.
  */
-function isCompatibleWithSelected(techId: string, selectedTechIds: string[]): boolean {
-	for (const selectedId of selectedTechIds) {
-		const compatScore = getCompatibility(techId, selectedId);
-		if (compatScore === 0) {
-			return false; // Hard incompatibility
-		}
-	}
-	return true;
+function toRecommendations(
+	stack: SolvedStack,
+	context: Context,
+	dimensionWeights?: DimensionWeights,
+	pinned: string[] = []
+): Recommendation[] {
+	return stack.picks.map((pick) => {
+		const scores = getScores(pick.techId, context);
+		const score = scores ? calculateWeightedScore(scores, dimensionWeights) : 0;
+		return {
+			category: pick.category,
+			id: pick.techId,
+			technology: pick.name,
+			score,
+			rawAverage: scores ? calculateOverallScore(scores) : 0,
+			grade: scoreToGrade(score),
+			overlay: hasOverlayScores(pick.techId, context),
+			pinned: pinned.includes(pick.techId)
+		};
+	});
 }
 
 /**
- * Select best tech for each category based on scores.
- * Tracks selected techs and filters out incompatible options.
+ * Explain each category of the recommended stack: every candidate is
+ * swapped into the stack in place of the pick and either ruled out by a
+ * hard incompatibility with another pick or scored by its effect on the total.
  */
-function selectBestTechPerCategory(
+function explainStack(
+	stack: SolvedStack,
 	categories: Category[],
 	context: Context,
-	projectType: string
-): Array<{ category: Category; technology: string; score: number; grade: string }> {
-	const results: Array<{ category: Category; technology: string; score: number; grade: string }> = [];
-	const weights = PROJECT_TYPE_WEIGHTS[projectType] || {};
-	const selectedTechIds: string[] = []; // Track selections for compatibility checking
-
-	for (const category of categories) {
-		const techs = getTechnologiesByCategory(category);
-		if (techs.length === 0) continue;
-
-		let bestTech: (typeof techs)[0] | null = null;
-		let bestScore = 0;
-
-		for (const tech of techs) {
-			// Skip if incompatible with already-selected techs
-			if (!isCompatibleWithSelected(tech.id, selectedTechIds)) {
-				continue;
+	projectType: ProjectType,
+	dimensionWeights?: DimensionWeights,
+	pinned: string[] = [],
+	avoided: string[] = []
+): CategoryExplanation[] {
+	const categoryWeights = PROJECT_TYPE_WEIGHTS[projectType];
+
+	return categories
+		.filter((category) => getTechnologiesByCategory(category).length > 0)
+		.map((category) => {
+			const pick = stack.picks.find((p) => p.category === category) ?? null;
+			const others = stack.picks.filter((p) => p.category !== category);
+
+			const candidates = getStackCandidates(category, { context, categoryWeights, dimensionWeights }).map(
+				(candidate) => {
+					const eliminatedBy = others.find((other) => getCompatibility(candidate.techId, other.techId) === 0) ?? null;
+					const swapped = eliminatedBy ? null : scoreStack([...others, candidate]);
+					return {
+						techId: candidate.techId,
+						name: candidate.name,
+						score: candidate.score,
+						eliminatedBy,
+						totalDelta: swapped ? swapped.total - stack.total : null,
+						constraint: pinned.includes(candidate.techId)
+							? ('pinned' as const)
+							: avoided.includes(candidate.techId)
+								? ('avoided' as const)
+								: null
+					};
+				}
+			);
+
+			return { category, selected: pick?.techId ?? null, candidates };
+		});
+}
+
+/**
+ * Format explain mode: top 3 candidates per category, plus any other
+ * candidate excluded by another pick.
+ */
+function formatExplanations(explanations: CategoryExplanation[], projectType: ProjectType, pinned: string[] = []): string {
+	const weights = PROJECT_TYPE_WEIGHTS[projectType];
+	const exclusion = (c: CandidateEvaluation) =>
+		`incompatible with the ${c.eliminatedBy!.category} pick ${c.eliminatedBy!.name}`;
+
+	let text = '\n### Why These Picks\n';
+	text +=
+		'_Each candidate is tried in place of the pick. It is excluded when hard-incompatible (score 0) with another pick; otherwise the stack total changes by the amount shown._\n';
+
+	for (const { category, selected, candidates } of explanations) {
+		const categoryWeight = weights[category];
+		text += `\n**${category}**${categoryWeight && categoryWeight !== 1 ? ` (×${categoryWeight} category weight)` : ''}\n`;
+		text += '| Rank | Technology | Weighted Score | Status |\n|------|------------|----------------|--------|\n';
+
+		candidates.slice(0, 3).forEach((c, index) => {
+			let status: string;
+			if (c.constraint === 'pinned') {
+				status = 'Pinned (mustUse)';
+			} else if (c.constraint === 'avoided') {
+				status = 'Excluded: mustAvoid';
+			} else if (c.techId === selected) {
+				status = 'Selected';
+			} else if (selected && pinned.includes(selected)) {
+				status = 'Not considered (category pinned)';
+			} else if (c.eliminatedBy) {
+				status = `Excluded: ${exclusion(c)}`;
+			} else if (c.totalDelta === 0) {
+				status = 'Tied stack total (listed later)';
+			} else {
+				status = `Stack total ${c.totalDelta! > 0 ? '+' : ''}${c.totalDelta}`;
 			}
+			text += `| ${index + 1} | ${c.name} | ${c.score} | ${status} |\n`;
+		});
 
-			const scores = getScores(tech.id, context);
-			if (!scores) continue;
+		const otherExcluded = candidates.slice(3).filter((c) => c.eliminatedBy && !c.constraint);
+		if (otherExcluded.length > 0) {
+			text += `Also excluded: ${otherExcluded.map((c) => `${c.name} (${exclusion(c)})`).join(', ')}\n`;
+		}
+		if (!selected) {
+			text += 'No compatible candidate; category left out of the stack.\n';
+		}
+	}
 
-			let overall = calculateOverallScore(scores);
+	return text;
+}
 
-			// Apply project-type specific weight
-			const weight = weights[category] || 1.0;
-			overall = Math.round(overall * weight);
+/**
+ * Format sensitivity mode: margin over the runner-up and smallest weight flip per pick.
+ */
+export function formatSensitivity(sensitivity: CategorySensitivity[]): string {
+	let text = '\n### Sensitivity\n';
+	text +=
+		'_Margin: weighted score of the pick minus the best other candidate that could replace it. Flip: smallest change to one dimension weight after which another candidate outscores the pick (compatibility not re-evaluated)._\n\n';
+	text +=
+		'| Category | Pick | Runner-up | Margin | Smallest Flip | Verdict |\n|----------|------|-----------|--------|---------------|---------|\n';
+
+	for (const entry of sensitivity) {
+		const runnerUp = entry.runnerUp ? getTechDisplayName(entry.runnerUp) : '-';
+		const margin = entry.margin === null ? '-' : `${entry.margin > 0 ? '+' : ''}${entry.margin}`;
+		const flip = entry.flip
+			? `${DIMENSION_LABELS[entry.flip.dimension]} ${entry.flip.from} → ${entry.flip.to} (${getTechDisplayName(entry.flip.newLeader)})`
+			: entry.verdict === 'compatibility'
+				? 'already outscored (kept for compatibility)'
+				: entry.verdict === 'pinned' || entry.verdict === 'uncontested'
+					? '-'
+					: 'none within 0-10';
+		text += `| ${entry.category} | ${getTechDisplayName(entry.pick)} | ${runnerUp} | ${margin} | ${flip} | ${entry.verdict} |\n`;
+	}
 
-			if (overall > bestScore) {
-				bestScore = overall;
-				bestTech = tech;
-			}
-		}
+	return text;
+}
 
-		// Only add if we found a compatible tech
-		if (bestTech) {
-			const finalScores = getScores(bestTech.id, context);
-			const finalScore = finalScores ? calculateOverallScore(finalScores) : 0;
+/**
+ * Technology cell: overlay marker and pin label.
+ */
+function formatTechnology(rec: Recommendation): string {
+	return `${markOverlay(rec.technology, rec.overlay)}${rec.pinned ? ' (pinned)' : ''}`;
+}
 
-			results.push({
-				category,
-				technology: bestTech.name,
-				score: finalScore,
-				grade: scoreToGrade(finalScore)
+/**
+ * Format runner-up stacks as their differences from the best one.
+ */
+function formatAlternatives(stacks: SolvedStack[]): string {
+	const [best, ...alternatives] = stacks;
+	if (alternatives.length === 0) return '';
+
+	let text = '\n### Alternative Stacks\n| # | Total | Differences |\n|---|-------|-------------|\n';
+	alternatives.forEach((stack, index) => {
+		const differences = stack.picks
+			.filter((pick) => !best.picks.some((p) => p.techId === pick.techId))
+			.map((pick) => {
+				const replaced = best.picks.find((p) => p.category === pick.category);
+				return `${pick.category}: ${pick.name}${replaced ? ` instead of ${replaced.name}` : ''}`;
 			});
-
-			// Track this selection for future compatibility checks
-			selectedTechIds.push(bestTech.id);
+		for (const category of stack.emptyCategories) {
+			if (!best.emptyCategories.includes(category)) differences.push(`${category}: none`);
 		}
-	}
+		const delta = stack.total - best.total;
+		text += `| ${index + 2} | ${stack.total} (${delta === 0 ? '±0' : delta}) | ${differences.join('; ')} |\n`;
+	});
 
-	return results;
+	return text;
 }
 
 /**
  * Execute recommend_stack_demo tool.
  */
-export function executeRecommendStackDemo(
-	input: RecommendStackDemoInput
-): { text: string; isError?: boolean } {
-	const { projectType, scale = 'mvp' } = input;
-
-	debug('recommend_stack_demo called', { projectType, scale });
+export function executeRecommendStackDemo(input: RecommendStackDemoInput): {
+	text: string;
+	data?: RecommendStackDemoOutput;
+	isError?: boolean;
+} {
+	const {
+		projectType,
+		scale = 'mvp',
+		weights,
+		explain = false,
+		alternatives = 2,
+		mustUse = [],
+		mustAvoid = [],
+		sensitivity = false
+	} = input;
+
+	debug('recommend_stack_demo called', {
+		projectType,
+		scale,
+		weights,
+		explain,
+		alternatives,
+		mustUse,
+		mustAvoid,
+		sensitivity
+	});
+
+	// Reject unknown or contradictory constraints before using the daily demo
+	const constraintError = checkStackConstraints(mustUse, mustAvoid);
+	if (constraintError) {
+		return { text: constraintError.toResponseText(), isError: true };
+	}
 
 	// Check rate limit
 	if (wasDemoUsedToday()) {
@@ -218,33 +505,80 @@ You've already used the demo today. Try again tomorrow or use \`recommend_stack(
 		};
 	}
 
-	// Get categories for this project type
-	const categories = PROJECT_TYPE_CATEGORIES[projectType] || ['meta-framework', 'database', 'auth', 'hosting'];
+	// Get categories for this project type (plus those of pinned techs)
+	const categories = resolveStackCategories(PROJECT_TYPE_CATEGORIES[projectType], mustUse);
 
 	// Get scoring context
 	const context = scaleToContext(scale);
 
-	// Select best tech per category
-	const recommendations = selectBestTechPerCategory(categories, context, projectType);
+	// Search all categories at once for the best-scoring stacks
+	const stacks = solveStack({
+		categories,
+		context,
+		categoryWeights: PROJECT_TYPE_WEIGHTS[projectType],
+		dimensionWeights: weights,
+		limit: alternatives + 1,
+		pinned: mustUse,
+		excluded: mustAvoid
+	});
+	const best = stacks[0];
+	const recommendations = toRecommendations(best, context, weights, mustUse);
+	const weighted = hasCustomWeights(weights);
 
 	// Record usage
 	recordDemoUsage();
 
 	// Format response
-	const projectLabel = projectType.replace(/-/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+	const projectLabel = PROJECT_TYPE_INFO[projectType].label;
 
 	let text = `## Recommended Stack for ${projectLabel} (${scale})
 
-| Category | Technology | Score | Grade |
-|----------|------------|-------|-------|
 `;
 
-	for (const rec of recommendations) {
-		text += `| ${rec.category} | ${rec.technology} | ${rec.score} | ${rec.grade} |\n`;
+	if (weighted) {
+		text += `_Weights: ${formatWeights(weights)}_\n\n`;
+		text += '| Category | Technology | Weighted | Raw Avg | Grade |\n|----------|------------|----------|---------|-------|\n';
+		for (const rec of recommendations) {
+			text += `| ${rec.category} | ${formatTechnology(rec)} | ${rec.score} | ${rec.rawAverage} | ${rec.grade} |\n`;
+		}
+	} else {
+		text += '| Category | Technology | Score | Grade |\n|----------|------------|-------|-------|\n';
+		for (const rec of recommendations) {
+			text += `| ${rec.category} | ${formatTechnology(rec)} | ${rec.score} | ${rec.grade} |\n`;
+		}
+	}
+
+	const constraints = [
+		mustUse.length > 0 ? `mustUse ${mustUse.join(', ')}` : null,
+		mustAvoid.length > 0 ? `mustAvoid ${mustAvoid.join(', ')}` : null
+	].filter(Boolean);
+	if (constraints.length > 0) {
+		text += `\n**Constraints**: ${constraints.join('; ')}\n`;
+	}
+
+	text += `\n**Stack total**: ${best.total} (category scores ${best.techTotal} ${best.compatibilityBonus < 0 ? '-' : '+'} compatibility ${Math.abs(best.compatibilityBonus)})\n`;
+	text += formatAlternatives(stacks);
+
+	const explanations = explain
+		? explainStack(best, categories, context, projectType, weights, mustUse, mustAvoid)
+		: undefined;
+	if (explanations) {
+		text += formatExplanations(explanations, projectType, mustUse);
+	}
+
+	const sensitivityReport = sensitivity
+		? analyzeSensitivity(best.picks, { context, dimensionWeights: weights, pinned: mustUse, excluded: mustAvoid })
+		: undefined;
+	if (sensitivityReport) {
+		text += formatSensitivity(sensitivityReport);
+	}
+
+	if (recommendations.some((rec) => rec.overlay)) {
+		text += `\n${OVERLAY_FOOTNOTE}\n`;
 	}
 
 	text += `
-**Confidence**: medium (demo mode - no priorities/constraints applied)
+**Confidence**: medium (demo mode - no priorities${constraints.length > 0 ? '' : '/constraints'} applied)
 
 ---
 
@@ -256,5 +590,36 @@ You've already used the demo today. Try again tomorrow or use \`recommend_stack(
 ---
 *Data version: ${DATA_VERSION}*`;
 
-	return { text };
+	const data: RecommendStackDemoOutput = {
+		projectType,
+		scale,
+		context,
+		...(weighted && { weights }),
+		stack: recommendations,
+		totals: toStackTotals(best),
+		alternatives: stacks.slice(1).map((stack) => ({
+			...toStackTotals(stack),
+			picks: stack.picks.map((pick) => ({ category: pick.category, id: pick.techId }))
+		})),
+		mustUse,
+		mustAvoid,
+		...(explanations && {
+			explanations: explanations.map(({ category, selected, candidates }) => ({
+				category,
+				selected,
+				candidates: candidates.map((c) => ({
+					id: c.techId,
+					name: c.name,
+					score: c.score,
+					eliminatedBy: c.eliminatedBy?.techId ?? null,
+					totalDelta: c.totalDelta,
+					constraint: c.constraint
+				}))
+			}))
+		}),
+		...(sensitivityReport && { sensitivity: sensitivityReport }),
+		dataVersion: DATA_VERSION
+	};
+
+	return { text, data };
 }
@@ -0,0 +1,246 @@
+import { z } from 'zod';
+import {
+	DATA_VERSION,
+	DimensionWeightsSchema,
+	OVERLAY_FOOTNOTE,
+	calculateOverallScore,
+	calculateWeightedScore,
+	formatWeights,
+	getScores,
+	hasOverlayScores,
+	markOverlay,
+	scoreToGrade
+} from '../data/index.js';
+import { LOCAL_CONSTRAINTS, checkLocalConstraints, resolveLocalProfile } from '../lib/local-engine.js';
+import { analyzeSensitivity } from '../lib/sensitivity.js';
+import { resolveStackCategories, solveStack } from '../lib/stack-solver.js';
+import {
+	PRIORITIES,
+	PROJECT_TYPES,
+	PROJECT_TYPE_CATEGORIES,
+	PROJECT_TYPE_INFO,
+	PROJECT_TYPE_WEIGHTS,
+	SCALES,
+	scaleToContext
+} from '../data/taxonomy.js';
+import {
+	SensitivityOutputSchema,
+	StackPickOutputSchema,
+	StackTotalsOutputSchema,
+	formatSensitivity,
+	toStackTotals
+} from './recommend-demo.js';
+import { debug } from '../utils/logger.js';
+
+/**
+ * Input schema for recommend_stack_local tool.
+ */
+export const RecommendStackLocalInputSchema = z.object({
+	projectType: z.enum(PROJECT_TYPES).describe('Type of project'),
+	scale: z.enum(SCALES).optional().default('mvp').describe('Project scale'),
+	priorities: z.array(z.enum(PRIORITIES)).max(3).optional().default([]).describe('Top priorities (max 3)'),
+	constraints: z
+		.array(z.string())
+		.optional()
+		.default([])
+		.describe('Constraint IDs (e.g., must-use-postgresql, self-hosted)'),
+	sensitivity: z
+		.boolean()
+		.optional()
+		.describe('Report how close each pick was and the smallest weight change that flips it')
+});
+
+export type RecommendStackLocalInput = z.infer<typeof RecommendStackLocalInputSchema>;
+
+/**
+ * Structured output of recommend_stack_local.
+ */
+export const RecommendStackLocalOutputSchema = z.object({
+	projectType: z.enum(PROJECT_TYPES),
+	scale: z.enum(SCALES),
+	context: z.string(),
+	priorities: z.array(z.enum(PRIORITIES)),
+	/** Dimension weights derived from priorities and constraints */
+	appliedWeights: DimensionWeightsSchema,
+	constraints: z.array(z.object({ id: z.string(), description: z.string() })),
+	stack: z.array(StackPickOutputSchema),
+	totals: StackTotalsOutputSchema,
+	/** Per-category margins and weight flips (sensitivity mode only) */
+	sensitivity: z.array(SensitivityOutputSchema).optional(),
+	engine: z.literal('local'),
+	dataVersion: z.string()
+});
+
+export type RecommendStackLocalOutput = z.infer<typeof RecommendStackLocalOutputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const recommendStackLocalToolDefinition = {
+	name: 'recommend_stack_local',
+	description: `Recommends a tech stack from priorities and constraints, fully offline.
+
+**When to use**: You want priority-aware recommendations without an API key or daily limit (air-gapped setups included).
+
+**How it works**: Priorities become dimension weights (1st ×1, 2nd ×0.75, 3rd ×0.5 of each boost) and constraint IDs pin, exclude or add technologies; the best stack is then searched across all categories at once. Deterministic: the same input always gives the same stack.
+
+**Sensitivity**: Set \`sensitivity: true\` to see each pick's margin over the runner-up and the smallest change to one dimension weight that flips it (robust pick or coin flip).
+
+**Constraint IDs**: ${Object.keys(LOCAL_CONSTRAINTS).join(', ')}
+
+**Example**: \`recommend_stack_local({ projectType: "saas", scale: "startup", priorities: ["security", "cost-efficiency"], constraints: ["self-hosted"] })\``,
+	inputSchema: {
+		type: 'object' as const,
+		properties: {
+			projectType: {
+				type: 'string',
+				enum: PROJECT_TYPES,
+				description: 'Type of project (e.g., saas, web-app, api)'
+			},
+			scale: {
+				type: 'string',
+				enum: SCALES,
+				description: 'Project scale (mvp, startup, growth, enterprise)'
+			},
+			priorities: {
+				type: 'array',
+				items: { type: 'string', enum: PRIORITIES },
+				maxItems: 3,
+				description: 'Top priorities, most important first (max 3)'
+			},
+			constraints: {
+				type: 'array',
+				items: { type: 'string', enum: Object.keys(LOCAL_CONSTRAINTS) },
+				description: 'Constraint IDs (e.g., must-use-postgresql, self-hosted, edge-deployment)'
+			},
+			sensitivity: {
+				type: 'boolean',
+				description: 'Report margins over the runner-ups and the smallest weight change that flips each pick (default: false)'
+			}
+		},
+		required: ['projectType']
+	}
+};
+
+/**
+ * Execute recommend_stack_local tool.
+ */
+export function executeRecommendStackLocal(input: RecommendStackLocalInput): {
+	text: string;
+	data?: RecommendStackLocalOutput;
+	isError?: boolean;
+} {
+	const { projectType, scale = 'mvp', priorities = [], constraints = [], sensitivity = false } = input;
+	const uniquePriorities = [...new Set(priorities)].slice(0, 3);
+	const uniqueConstraints = [...new Set(constraints)];
+
+	debug('recommend_stack_local called', { projectType, scale, priorities: uniquePriorities, constraints });
+
+	const constraintError = checkLocalConstraints(uniqueConstraints);
+	if (constraintError) {
+		return { text: constraintError.toResponseText(), isError: true };
+	}
+
+	const profile = resolveLocalProfile(uniquePriorities, uniqueConstraints);
+	const categories = resolveStackCategories(
+		[...new Set([...PROJECT_TYPE_CATEGORIES[projectType], ...profile.categories])],
+		profile.pinned
+	);
+	const context = scaleToContext(scale);
+
+	const [best] = solveStack({
+		categories,
+		context,
+		categoryWeights: PROJECT_TYPE_WEIGHTS[projectType],
+		dimensionWeights: profile.weights,
+		pinned: profile.pinned,
+		excluded: profile.excluded
+	});
+
+	const stacks = best.picks.map((pick) => {
+		const scores = getScores(pick.techId, context);
+		const score = scores ? calculateWeightedScore(scores, profile.weights) : 0;
+		return {
+			category: pick.category,
+			id: pick.techId,
+			technology: pick.name,
+			score,
+			rawAverage: scores ? calculateOverallScore(scores) : 0,
+			grade: scoreToGrade(score),
+			overlay: hasOverlayScores(pick.techId, context),
+			pinned: profile.pinned.includes(pick.techId)
+		};
+	});
+
+	const projectLabel = PROJECT_TYPE_INFO[projectType].label;
+	let text = `## Recommended Stack for ${projectLabel} (${scale})
+
+**Priorities**: ${uniquePriorities.length > 0 ? uniquePriorities.join(' > ') : 'none'} | **Weights**: ${formatWeights(profile.weights)}
+
+| Category | Technology | Weighted | Raw Avg | Grade |
+|----------|------------|----------|---------|-------|
+`;
+
+	for (const rec of stacks) {
+		text += `| ${rec.category} | ${markOverlay(rec.technology, rec.overlay)}${rec.pinned ? ' (pinned)' : ''} | ${rec.score} | ${rec.rawAverage} | ${rec.grade} |\n`;
+	}
+
+	if (uniqueConstraints.length > 0) {
+		text += '\n**Constraints**:\n';
+		for (const id of uniqueConstraints) {
+			text += `- ${id}: ${LOCAL_CONSTRAINTS[id].description}\n`;
+		}
+	}
+
+	if (best.emptyCategories.length > 0) {
+		text += `\n**Unfilled**: ${best.emptyCategories.join(', ')} (no candidate fits the constraints)\n`;
+	}
+
+	text += `\n**Stack total**: ${best.total} (category scores ${best.techTotal} ${best.compatibilityBonus < 0 ? '-' : '+'} compatibility ${Math.abs(best.compatibilityBonus)})\n`;
+
+	const sensitivityReport = sensitivity
+		? analyzeSensitivity(best.picks, {
+				context,
+				dimensionWeights: profile.weights,
+				pinned: profile.pinned,
+				excluded: profile.excluded
+			})
+		: undefined;
+	if (sensitivityReport) {
+		text += formatSensitivity(sensitivityReport);
+	}
+
+	if (stacks.some((rec) => rec.overlay)) {
+		text += `\n${OVERLAY_FOOTNOTE}\n`;
+	}
+
+	text += `
+**Engine**: local (deterministic, no API key)
+
+<json>
+${JSON.stringify({
+	stacks: stacks.map(({ category, id, technology, score, grade }) => ({ category, id, technology, score, grade })),
+	appliedWeights: profile.weights,
+	constraints: uniqueConstraints
+})}
+</json>
+
+---
+*Data version: ${DATA_VERSION}*`;
+
+	const data: RecommendStackLocalOutput = {
+		projectType,
+		scale,
+		context,
+		priorities: uniquePriorities,
+		appliedWeights: profile.weights,
+		constraints: uniqueConstraints.map((id) => ({ id, description: LOCAL_CONSTRAINTS[id].description })),
+		stack: stacks,
+		totals: toStackTotals(best),
+		...(sensitivityReport && { sensitivity: sensitivityReport }),
+		engine: 'local',
+		dataVersion: DATA_VERSION
+	};
+
+	return { text, data };
+}
@@ -1,41 +1,9 @@
 import { z } from 'zod';
+import { PRIORITIES, PROJECT_TYPES, PROJECT_TYPE_INFO, SCALES } from '../data/taxonomy.js';
 import { scoreRequest } from '../utils/api-client.js';
 import { McpError, ErrorCode, checkProAccess } from '../utils/errors.js';
 import { debug } from '../utils/logger.js';
 
-/**
- * Project types supported by the API.
- */
-const PROJECT_TYPES = [
-	'web-app',
-	'mobile-app',
-	'api',
-	'desktop',
-	'cli',
-	'library',
-	'e-commerce',
-	'saas',
-	'marketplace'
-] as const;
-
-/**
- * Scale options.
- */
-const SCALES = ['mvp', 'startup', 'growth', 'enterprise'] as const;
-
-/**
- * Priority options.
- */
-const PRIORITIES = [
-	'time-to-market',
-	'scalability',
-	'developer-experience',
-	'cost-efficiency',
-	'performance',
-	'security',
-	'maintainability'
-] as const;
-
 /**
  * Input schema for recommend_stack tool.
  */
@@ -53,6 +21,30 @@ export const RecommendStackInputSchema = z.object({
 
 export type RecommendStackInput = z.infer<typeof RecommendStackInputSchema>;
 
+/**
+ * Structured output of recommend_stack.
+ */
+export const RecommendStackOutputSchema = z.object({
+	projectType: z.enum(PROJECT_TYPES),
+	scale: z.enum(SCALES),
+	priorities: z.array(z.enum(PRIORITIES)),
+	constraints: z.array(z.string()),
+	stack: z.array(
+		z.object({
+			category: z.string(),
+			id: z.string(),
+			technology: z.string(),
+			score: z.number(),
+			grade: z.string()
+		})
+	),
+	confidence: z.enum(['high', 'medium', 'low']),
+	appliedWeights: z.record(z.number()),
+	requestHash: z.string().optional()
+});
+
+export type RecommendStackOutput = z.infer<typeof RecommendStackOutputSchema>;
+
 /**
  * Tool definition for MCP registration.
  */
@@ -113,14 +105,19 @@ interface ScoreApiResponse {
 /**
  * Format API response for MCP output.
  */
-function formatResponse(response: ScoreApiResponse, projectType: string, scale: string): string {
-	let text = `## Recommended Stack for ${projectType.replace('-', ' ').replace(/\b\w/g, (c) => c.toUpperCase())} (${scale})
+function formatResponse(
+	response: ScoreApiResponse,
+	input: Pick<RecommendStackOutput, 'projectType' | 'scale' | 'priorities' | 'constraints'>
+): { text: string; data: RecommendStackOutput } {
+	const { projectType, scale } = input;
+	let text = `## Recommended Stack for ${PROJECT_TYPE_INFO[projectType].label} (${scale})
 
 | Category | Technology | Score | Grade |
 |----------|------------|-------|-------|
 `;
 
 	const stacks: Array<{ category: string; technology: string; score: number; grade: string }> = [];
+	const stack: RecommendStackOutput['stack'] = [];
 
 	for (const cat of response.categories) {
 		// Get the recommended tech (isRecommended=true) or first one
@@ -132,6 +129,13 @@ function formatResponse(response: ScoreApiResponse, projectType: string, scale:
 				score: recommended.score,
 				grade: recommended.grade
 			});
+			stack.push({
+				category: cat.category,
+				id: recommended.id,
+				technology: recommended.name,
+				score: recommended.score,
+				grade: recommended.grade
+			});
 			text += `| ${cat.category} | ${recommended.name} | ${recommended.score} | ${recommended.grade} |\n`;
 		}
 	}
@@ -151,7 +155,16 @@ function formatResponse(response: ScoreApiResponse, projectType: string, scale:
 ${JSON.stringify({ stacks, confidence: response.confidence?.level, appliedWeights: response.appliedWeights })}
 </json>`;
 
-	return text;
+	return {
+		text,
+		data: {
+			...input,
+			stack,
+			confidence: response.confidence?.level || 'medium',
+			appliedWeights: response.appliedWeights ?? {},
+			...(response.requestHash && { requestHash: response.requestHash })
+		}
+	};
 }
 
 /**
@@ -159,7 +172,7 @@ ${JSON.stringify({ stacks, confidence: response.confidence?.level, appliedWeight
  */
 export async function executeRecommendStack(
 	input: RecommendStackInput
-): Promise<{ text: string; isError?: boolean }> {
+): Promise<{ text: string; data?: RecommendStackOutput; isError?: boolean }> {
 	// Check Pro access first
 	const tierCheck = await checkProAccess('recommend_stack', 'recommend_stack_demo');
 	if (tierCheck) {
@@ -186,8 +199,7 @@ export async function executeRecommendStack(
 			constraintIds: constraints
 		});
 
-		const text = formatResponse(response, projectType, scale);
-		return { text };
+		return formatResponse(response, { projectType, scale, priorities: uniquePriorities, constraints });
 	} catch (err) {
 		if (err instanceof McpError) {
 			return { text: err.toResponseText(), isError: true };
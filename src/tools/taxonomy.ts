@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import {
+	CATEGORIES,
+	DATA_VERSION,
+	DIMENSION_LABELS,
+	SCORE_DIMENSIONS,
+	getAllContexts
+} from '../data/index.js';
+import {
+	PRIORITIES,
+	PRIORITY_INFO,
+	PROJECT_TYPES,
+	PROJECT_TYPE_CATEGORIES,
+	PROJECT_TYPE_INFO,
+	PROJECT_TYPE_WEIGHTS,
+	SCALES,
+	SCALE_INFO
+} from '../data/taxonomy.js';
+import { LOCAL_CONSTRAINTS, PRIORITY_WEIGHTS } from '../lib/local-engine.js';
+
+/**
+ * Structured output of get_taxonomy.
+ */
+export const GetTaxonomyOutputSchema = z.object({
+	projectTypes: z.array(
+		z.object({
+			id: z.enum(PROJECT_TYPES),
+			label: z.string(),
+			description: z.string(),
+			/** Categories the local recommenders fill for this project type */
+			categories: z.array(z.enum(CATEGORIES)),
+			/** Category multipliers (categories not listed weigh 1.0) */
+			categoryWeights: z.record(z.number())
+		})
+	),
+	scales: z.array(
+		z.object({ id: z.enum(SCALES), label: z.string(), description: z.string(), context: z.string() })
+	),
+	priorities: z.array(
+		z.object({
+			id: z.enum(PRIORITIES),
+			label: z.string(),
+			description: z.string(),
+			/** Extra dimension weight added by the priority (local engine, 1st rank) */
+			boosts: z.record(z.number())
+		})
+	),
+	constraints: z.array(z.object({ id: z.string(), description: z.string() })),
+	categories: z.array(z.enum(CATEGORIES)),
+	dimensions: z.array(z.object({ id: z.enum(SCORE_DIMENSIONS), label: z.string() })),
+	contexts: z.array(z.string()),
+	dataVersion: z.string()
+});
+
+export type GetTaxonomyOutput = z.infer<typeof GetTaxonomyOutputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const getTaxonomyToolDefinition = {
+	name: 'get_taxonomy',
+	description: `Lists the valid project types, scales, priorities and constraint IDs accepted by the recommendation tools, with labels and descriptions.
+
+**When to use**: Before calling \`recommend_stack_local\`, \`recommend_stack_demo\`, \`recommend_stack\`, \`create_blueprint\` or \`generate_mcp_kit\`, to pick valid input values.
+
+**Output includes**:
+- Project types with the categories and category weights used for stack search
+- Scales and the scoring context each maps to
+- Priorities and the dimension weights they boost
+- Constraint IDs of the local engine, categories, score dimensions and contexts
+
+**Example**: \`get_taxonomy({})\``,
+	inputSchema: {
+		type: 'object' as const,
+		properties: {},
+		required: []
+	}
+};
+
+/**
+ * Collect the taxonomy.
+ */
+export function getTaxonomy(): GetTaxonomyOutput {
+	return {
+		projectTypes: PROJECT_TYPES.map((id) => ({
+			id,
+			...PROJECT_TYPE_INFO[id],
+			categories: PROJECT_TYPE_CATEGORIES[id],
+			categoryWeights: PROJECT_TYPE_WEIGHTS[id] as Record<string, number>
+		})),
+		scales: SCALES.map((id) => ({ id, ...SCALE_INFO[id] })),
+		priorities: PRIORITIES.map((id) => ({
+			id,
+			...PRIORITY_INFO[id],
+			boosts: PRIORITY_WEIGHTS[id] as Record<string, number>
+		})),
+		constraints: Object.entries(LOCAL_CONSTRAINTS).map(([id, constraint]) => ({
+			id,
+			description: constraint.description
+		})),
+		categories: [...CATEGORIES],
+		dimensions: SCORE_DIMENSIONS.map((id) => ({ id, label: DIMENSION_LABELS[id] })),
+		contexts: getAllContexts(),
+		dataVersion: DATA_VERSION
+	};
+}
+
+/**
+ * Execute get_taxonomy tool.
+ */
+export function executeGetTaxonomy(): { text: string; data: GetTaxonomyOutput } {
+	const data = getTaxonomy();
+
+	let text = `## Project Taxonomy
+
+### Project Types
+| ID | Label | Description | Categories (weight) |
+|----|-------|-------------|--------------------|
+`;
+	for (const type of data.projectTypes) {
+		const categories = type.categories
+			.map((category) => {
+				const weight = type.categoryWeights[category];
+				return weight && weight !== 1 ? `${category} ×${weight}` : category;
+			})
+			.join(', ');
+		text += `| ${type.id} | ${type.label} | ${type.description} | ${categories} |\n`;
+	}
+
+	text += '\n### Scales\n| ID | Label | Description | Context |\n|----|-------|-------------|---------|\n';
+	for (const scale of data.scales) {
+		text += `| ${scale.id} | ${scale.label} | ${scale.description} | ${scale.context} |\n`;
+	}
+
+	text += '\n### Priorities\n| ID | Label | Description | Boosts |\n|----|-------|-------------|--------|\n';
+	for (const priority of data.priorities) {
+		const boosts = Object.entries(priority.boosts)
+			.map(([dim, boost]) => `${dim} +${boost}`)
+			.join(', ');
+		text += `| ${priority.id} | ${priority.label} | ${priority.description} | ${boosts} |\n`;
+	}
+
+	text += '\n### Constraints (recommend_stack_local)\n';
+	for (const constraint of data.constraints) {
+		text += `- \`${constraint.id}\`: ${constraint.description}\n`;
+	}
+
+	text += `
+**Categories**: ${data.categories.join(', ')}
+**Dimensions**: ${data.dimensions.map((d) => `${d.id} (${d.label})`).join(', ')}
+**Contexts**: ${data.contexts.join(', ')}
+
+Data version: ${DATA_VERSION}`;
+
+	return { text, data };
+}
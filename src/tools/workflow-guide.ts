@@ -63,6 +63,31 @@ export const GetWorkflowGuideInputSchema = z.object({
 
 export type GetWorkflowGuideInput = z.infer<typeof GetWorkflowGuideInputSchema>;
 
+const WorkflowStepSchema = z.object({
+	tool: z.string(),
+	description: z.string(),
+	example: z.record(z.unknown()),
+	requiresPro: z.boolean(),
+	alternativeIfFree: z.string().optional()
+});
+
+/**
+ * Structured output of get_workflow_guide.
+ */
+export const GetWorkflowGuideOutputSchema = z.object({
+	goal: z.enum(WORKFLOW_GOALS),
+	title: z.string(),
+	/** Next step, or null when every step is completed */
+	nextStep: WorkflowStepSchema.nullable(),
+	/** 1-based position of nextStep in the workflow */
+	stepNumber: z.number().nullable(),
+	totalSteps: z.number(),
+	missingPrerequisites: z.array(z.string()),
+	completed: z.boolean()
+});
+
+export type GetWorkflowGuideOutput = z.infer<typeof GetWorkflowGuideOutputSchema>;
+
 /**
  * Tool definition for MCP registration
  */
@@ -122,13 +147,7 @@ export const getWorkflowGuideToolDefinition = {
 // WORKFLOW DEFINITIONS
 // ============================================================================
 
-interface WorkflowStep {
-	tool: string;
-	description: string;
-	example: Record<string, unknown>;
-	requiresPro: boolean;
-	alternativeIfFree?: string;
-}
+type WorkflowStep = z.infer<typeof WorkflowStepSchema>;
 
 interface WorkflowDefinition {
 	goal: WorkflowGoal;
@@ -308,7 +327,7 @@ const WORKFLOWS: Record<WorkflowGoal, WorkflowDefinition> = {
 /**
  * Execute the workflow guide tool
  */
-export function executeGetWorkflowGuide(input: GetWorkflowGuideInput): { text: string } {
+export function executeGetWorkflowGuide(input: GetWorkflowGuideInput): { text: string; data: GetWorkflowGuideOutput } {
 	const { current_goal, completed_tools = [], user_tier = 'unknown', known_constraints = [], context = 'chatgpt' } = input;
 
 	// Default to discover if no goal specified or unknown goal
@@ -416,5 +435,16 @@ export function executeGetWorkflowGuide(input: GetWorkflowGuideInput): { text: s
 		text += `\n**Note**: ${workflow.fallbackMessage}\n`;
 	}
 
-	return { text };
+	return {
+		text,
+		data: {
+			goal,
+			title: workflow.title,
+			nextStep,
+			stepNumber: nextStep ? stepIndex + 1 : null,
+			totalSteps: workflow.steps.length,
+			missingPrerequisites,
+			completed: nextStep === null
+		}
+	};
 }
@@ -3,7 +3,10 @@ import { z } from 'zod';
 const ConfigSchema = z.object({
 	apiUrl: z.string().url().default('https://stacksfinder.com'),
 	apiKey: z.string().optional(),
-	debug: z.boolean().default(false)
+	debug: z.boolean().default(false),
+	overlayPath: z.string().optional(),
+	rulesDir: z.string().optional(),
+	scorePolicyPath: z.string().optional()
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -26,7 +29,10 @@ export function loadConfig(): Config {
 	_config = ConfigSchema.parse({
 		apiUrl: process.env.STACKSFINDER_API_URL || 'https://stacksfinder.com',
 		apiKey: process.env.STACKSFINDER_API_KEY,
-		debug: process.env.STACKSFINDER_MCP_DEBUG === 'true'
+		debug: process.env.STACKSFINDER_MCP_DEBUG === 'true',
+		overlayPath: process.env.STACKSFINDER_OVERLAY_PATH || undefined,
+		rulesDir: process.env.STACKSFINDER_RULES_DIR || undefined,
+		scorePolicyPath: process.env.STACKSFINDER_SCORE_POLICY || undefined
 	});
 
 	return _config;
@@ -100,6 +100,18 @@ export function techNotFoundError(techId: string, availableTechs: string[]): Mcp
 	return new McpError(ErrorCode.TECH_NOT_FOUND, `Unknown technology: "${techId}"`, suggestions);
 }
 
+/**
+ * Create error for a technology version without score records.
+ */
+export function versionNotFoundError(techId: string, version: string, availableVersions: string[]): McpError {
+	const suggestions =
+		availableVersions.length > 0
+			? [`Scored versions: ${availableVersions.map((v) => `${techId}@${v}`).join(', ')}`]
+			: [`${techId} has no version-specific scores; use "${techId}" without a version.`];
+
+	return new McpError(ErrorCode.INVALID_INPUT, `No scores for version "${version}" of ${techId}`, suggestions);
+}
+
 /**
  * Map HTTP status codes to error codes.
  */
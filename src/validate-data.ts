@@ -0,0 +1,39 @@
+import { readFileSync } from 'node:fs';
+import { validateDataOverlay, validateDataset, formatDiagnostic, type ValidationReport } from './data/validate.js';
+
+/**
+ * `stacksfinder-mcp validate-data [path]` command.
+ * Validates a data overlay file (or the bundled data when no path is given),
+ * prints every diagnostic and returns the process exit code (1 on errors).
+ */
+export function runValidateData(args: string[], log: (line: string) => void = console.log): number {
+	const filePath = args[0];
+	let report: ValidationReport;
+
+	if (filePath) {
+		let raw: unknown;
+		try {
+			raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			log(`Cannot read data overlay at ${filePath}: ${message}`);
+			return 1;
+		}
+		report = validateDataOverlay(raw);
+	} else {
+		report = validateDataset();
+	}
+
+	for (const diagnostic of report.diagnostics) {
+		log(formatDiagnostic(diagnostic));
+	}
+
+	const target = filePath ?? 'bundled data';
+	log(
+		report.valid
+			? `${target}: OK (${report.warnings} warning${report.warnings === 1 ? '' : 's'})`
+			: `${target}: ${report.errors} error${report.errors === 1 ? '' : 's'}, ${report.warnings} warning${report.warnings === 1 ? '' : 's'}`
+	);
+
+	return report.valid ? 0 : 1;
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { executeAnalyzeTech } from '../src/tools/analyze.js';
-import { DATA_VERSION } from '../src/data/index.js';
+import { DATA_VERSION, calculateOverallScore, calculateWeightedScore, getScores } from '../src/data/index.js';
 
 describe('analyze_tech tool', () => {
 	it('should return analysis for valid technology', () => {
@@ -51,4 +51,64 @@ describe('analyze_tech tool', () => {
 		// SvelteKit has high perf/dx scores, lower ecosystem
 		expect(result.text).toContain('### Strengths');
 	});
+
+	it('should show weighted score alongside raw average when weights are given', () => {
+		const scores = getScores('nextjs')!;
+		const weights = { compliance: 3, maintain: 2, dx: 0.5 };
+		const result = executeAnalyzeTech({ technology: 'nextjs', weights });
+
+		expect(result.text).toContain(`**Weighted Score**: ${calculateWeightedScore(scores, weights)}/100`);
+		expect(result.text).toContain(`**Raw Average**: ${calculateOverallScore(scores)}/100`);
+		expect(result.text).toContain('compliance×3');
+		expect(result.text).toContain('| Weight |');
+	});
+
+	it('should keep the flat average when weights are all default', () => {
+		const result = executeAnalyzeTech({ technology: 'nextjs', weights: { dx: 1 } });
+
+		expect(result.text).toContain('**Overall Score**');
+		expect(result.text).not.toContain('**Weighted Score**');
+	});
+
+	it('should use version-specific scores for name@major references', () => {
+		const result = executeAnalyzeTech({ technology: 'nextjs@14' });
+		const scores = getScores('nextjs', 'default', '14')!;
+
+		expect(result.isError).toBeUndefined();
+		expect(result.text).toContain('## Next.js 14 Analysis');
+		expect(result.text).toContain(`| Performance | ${scores.perf} |`);
+		expect(result.text).toContain('**Scored Versions**: 12, 13, **14**, 15');
+	});
+
+	it('should accept full versions and ranges', () => {
+		const result = executeAnalyzeTech({ technology: 'prisma@^5.10.2' });
+
+		expect(result.text).toContain('## Prisma 5 Analysis');
+	});
+
+	it('should list scored versions for unknown versions', () => {
+		const unknown = executeAnalyzeTech({ technology: 'nextjs@9' });
+		const unversioned = executeAnalyzeTech({ technology: 'postgres@16' });
+
+		expect(unknown.isError).toBe(true);
+		expect(unknown.text).toContain('No scores for version "9" of nextjs');
+		expect(unknown.text).toContain('nextjs@15');
+		expect(unversioned.isError).toBe(true);
+		expect(unversioned.text).toContain('no version-specific scores');
+	});
+
+	it('should render score rationale and sources under the dimension table', () => {
+		const result = executeAnalyzeTech({ technology: 'stripe' });
+
+		expect(result.text).toContain('### Score Rationale');
+		expect(result.text).toContain('_Last reviewed: 2026-01-20_');
+		expect(result.text).toMatch(/- \*\*Compliance\*\*: .+\(sources: \[1\]\(https:\/\/docs\.stripe\.com\/security\)/);
+		expect(result.text.indexOf('### Score Rationale')).toBeGreaterThan(result.text.indexOf('| Compliance |'));
+	});
+
+	it('should omit the rationale section when no provenance is recorded', () => {
+		const result = executeAnalyzeTech({ technology: 'hono' });
+
+		expect(result.text).not.toContain('### Score Rationale');
+	});
 });
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+	analyzeStackCompatibility,
+	calculateStackCohesion,
+	executeCheckStackCompatibility
+} from '../src/tools/check-stack-compatibility.js';
+
+describe('analyzeStackCompatibility', () => {
+	it('should average every pair into the cohesion score, undefined pairs as 50', () => {
+		// nextjs-prisma 95, nextjs-postgres 95, prisma-postgres 100
+		expect(calculateStackCohesion(['nextjs', 'prisma', 'postgres'])).toBe(97);
+		// solid-railway has no data
+		expect(calculateStackCohesion(['solid', 'railway'])).toBe(50);
+	});
+
+	it('should report hard incompatibilities and the weakest link', () => {
+		const analysis = analyzeStackCompatibility(['nuxt', 'react', 'prisma', 'postgres']);
+
+		expect(analysis.incompatibilities).toEqual([{ techA: 'nuxt', techB: 'react', score: 0, defined: true }]);
+		expect(analysis.weakestLink.techId).toBe('react');
+		expect(analysis.weakestLink.worstPair.score).toBe(0);
+	});
+
+	it('should propose the same-category swap that improves cohesion most', () => {
+		const analysis = analyzeStackCompatibility(['nuxt', 'react', 'prisma', 'postgres']);
+
+		expect(analysis.bestSwap).toMatchObject({
+			replace: 'nuxt',
+			with: 'nextjs',
+			category: 'meta-framework',
+			cohesionBefore: analysis.cohesion,
+			resolvedIncompatibilities: 1
+		});
+		expect(analysis.bestSwap!.cohesionAfter).toBe(
+			calculateStackCohesion(['nextjs', 'react', 'prisma', 'postgres'])
+		);
+	});
+
+	it('should not propose a swap when none improves cohesion', () => {
+		expect(analyzeStackCompatibility(['prisma', 'postgres']).bestSwap).toBeNull();
+	});
+});
+
+describe('check_stack_compatibility tool', () => {
+	it('should render cohesion, incompatibilities, weakest link and swap', () => {
+		const result = executeCheckStackCompatibility({ technologies: ['nuxt', 'react', 'prisma', 'postgres'] });
+
+		expect(result.isError).toBeUndefined();
+		expect(result.text).toContain('## Stack Compatibility: Nuxt + React + Prisma + PostgreSQL');
+		expect(result.text).toContain('**Pairs with data**: 5/6');
+		expect(result.text).toContain('- nuxt ↔ react (0)');
+		expect(result.text).toContain('### Weakest Link\n**React**');
+		expect(result.text).toContain('| react ↔ postgres | 50 | No data (neutral) |');
+		expect(result.text).toContain('Replace **Nuxt** with **Next.js** (nextjs, meta-framework)');
+		expect(result.text).toContain('resolves 1 hard incompatibility');
+	});
+
+	it('should reject unknown technologies', () => {
+		const result = executeCheckStackCompatibility({ technologies: ['nextjs', 'prismaa'] });
+
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain('Unknown technology: "prismaa"');
+	});
+
+	it('should reject two technologies of the same category', () => {
+		const result = executeCheckStackCompatibility({ technologies: ['nextjs', 'nuxt', 'postgres'] });
+
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain('Both "nextjs" and "nuxt" are in category "meta-framework"');
+	});
+});
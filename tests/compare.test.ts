@@ -79,4 +79,66 @@ describe('compare_techs tool', () => {
 
 		expect(result.text).toContain('**Verdict**');
 	});
+
+	it('should rank by weighted score and show raw average when weights are given', () => {
+		const result = executeCompareTechs({
+			technologies: ['postgres', 'sqlite'],
+			weights: { compliance: 5, maintain: 3 }
+		});
+
+		expect(result.isError).toBeUndefined();
+		expect(result.text).toContain('| Technology | Weighted | Raw Avg | Grade |');
+		expect(result.text).toContain('_Weights: maintain×3, compliance×5_');
+	});
+
+	it('should compare major versions of the same technology', () => {
+		const result = executeCompareTechs({ technologies: ['nextjs@13', 'nextjs@15'] });
+
+		expect(result.isError).toBeUndefined();
+		expect(result.text).toContain('## Comparison: Next.js 13 vs Next.js 15');
+		expect(result.text).toContain('| nextjs@13 ↔ nextjs@15 |');
+	});
+
+	it('should treat equivalent version references as duplicates', () => {
+		const result = executeCompareTechs({ technologies: ['nextjs@14', 'nextjs@14.2.1'] });
+
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain('Duplicate technologies');
+	});
+
+	it('should explain decided dimensions with recorded rationale', () => {
+		const result = executeCompareTechs({ technologies: ['stripe', 'paddle'] });
+
+		expect(result.text).toContain('### Why the Winners Win');
+		expect(result.text).toContain('- **Compliance** (Paddle +34)');
+		expect(result.text).toContain('Paddle (99): Acts as merchant of record');
+		// Performance is a tie, so it is not explained
+		expect(result.text).not.toContain('- **Performance**');
+	});
+
+	it('should report dominated options', () => {
+		const result = executeCompareTechs({ technologies: ['postgres', 'mysql'] });
+
+		expect(result.text).toContain('### Trade-offs');
+		expect(result.text).toContain('- **MySQL** is dominated by PostgreSQL (at least as good on every dimension)');
+		expect(result.data!.technologies.find((t) => t.id === 'mysql')).toMatchObject({
+			pareto: false,
+			dominatedBy: ['postgres']
+		});
+		expect(result.data!.tradeOffs).toEqual([]);
+	});
+
+	it('should explain what each non-dominated option trades away', () => {
+		const result = executeCompareTechs({ technologies: ['prisma', 'drizzle'] });
+
+		expect(result.text).toContain(
+			'- Drizzle ORM trades 19 points of developer experience for 26 points of performance (vs Prisma)'
+		);
+		expect(result.data!.tradeOffs).toContainEqual({
+			id: 'drizzle',
+			versus: 'prisma',
+			gains: { dimension: 'perf', points: 26 },
+			concedes: { dimension: 'dx', points: 19 }
+		});
+	});
 });
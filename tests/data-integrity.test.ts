@@ -39,6 +39,46 @@ describe('Data Integrity', () => {
 			}
 		});
 
+		it('should have valid version-specific scores', () => {
+			const validDimensions = new Set<string>(SCORE_DIMENSIONS);
+
+			for (const tech of getAllTechnologies()) {
+				for (const [version, record] of Object.entries(tech.versions ?? {})) {
+					expect(version, `${tech.id} version keys should be major versions`).toMatch(/^\d+$/);
+					expect(record.default, `${tech.id}@${version} should have a default record`).toBeDefined();
+
+					for (const [context, scores] of Object.entries(record)) {
+						for (const [dim, score] of Object.entries(scores ?? {})) {
+							expect(validDimensions.has(dim), `${tech.id}@${version}.${context}.${dim} is not a dimension`).toBe(true);
+							expect(score).toBeGreaterThanOrEqual(0);
+							expect(score).toBeLessThanOrEqual(100);
+						}
+					}
+				}
+			}
+		});
+
+		it('should have well-formed score provenance', () => {
+			const validDimensions = new Set<string>(SCORE_DIMENSIONS);
+
+			for (const tech of getAllTechnologies()) {
+				if (!tech.provenance) continue;
+
+				if (tech.provenance.lastReviewed) {
+					expect(tech.provenance.lastReviewed, `${tech.id} lastReviewed should be YYYY-MM-DD`).toMatch(
+						/^\d{4}-\d{2}-\d{2}$/
+					);
+				}
+
+				for (const [dim, entry] of Object.entries(tech.provenance.dimensions ?? {})) {
+					expect(validDimensions.has(dim), `${tech.id} provenance.${dim} is not a dimension`).toBe(true);
+					for (const url of entry?.sources ?? []) {
+						expect(url, `${tech.id} provenance.${dim} source should start with https://`).toMatch(/^https:\/\//);
+					}
+				}
+			}
+		});
+
 		it('should have unique technology IDs', () => {
 			const ids = getAllTechIds();
 			const uniqueIds = new Set(ids);
@@ -126,6 +166,13 @@ describe('Data Integrity', () => {
 			}
 		});
 
+		it('should have at least two technologies in every category', () => {
+			for (const category of CATEGORIES) {
+				const techs = getAllTechnologies().filter((t) => t.category === category);
+				expect(techs.length, `Category ${category} should have at least 2 techs`).toBeGreaterThanOrEqual(2);
+			}
+		});
+
 		it('should have getTechnology return null for unknown IDs', () => {
 			const result = getTechnology('definitely-not-a-real-tech');
 			expect(result).toBeNull();
@@ -0,0 +1,190 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadDataOverlay, parseDataOverlay, resetDataOverlay } from '../src/data/overlay.js';
+import {
+	ContextSchema,
+	OVERLAY_FOOTNOTE,
+	getAllContexts,
+	getCompatibility,
+	getOverlayStatus,
+	getScores,
+	getTechnology
+} from '../src/data/index.js';
+import { executeAnalyzeTech } from '../src/tools/analyze.js';
+import { executeCompareTechs } from '../src/tools/compare.js';
+import { executeListTechs } from '../src/tools/list-techs.js';
+
+const ACME_ORM = {
+	name: 'Acme ORM',
+	category: 'orm',
+	url: 'https://orm.acme.internal',
+	scores: {
+		default: { perf: 80, dx: 70, ecosystem: 40, maintain: 75, cost: 90, compliance: 95 }
+	}
+};
+
+function writeOverlay(content: unknown): string {
+	const dir = mkdtempSync(join(tmpdir(), 'sf-overlay-'));
+	const file = join(dir, 'overlay.json');
+	writeFileSync(file, JSON.stringify(content));
+	return file;
+}
+
+describe('Data overlay', () => {
+	afterEach(() => {
+		resetDataOverlay();
+	});
+
+	describe('custom contexts', () => {
+		it('should register contexts from the overlay file', () => {
+			loadDataOverlay(
+				writeOverlay({
+					contexts: {
+						'regulated-fintech': { description: 'Banking workloads', deltas: { compliance: 15, cost: -10 } }
+					}
+				})
+			);
+
+			expect(getAllContexts()).toEqual(['default', 'mvp', 'enterprise', 'regulated-fintech']);
+			expect(ContextSchema.safeParse('regulated-fintech').success).toBe(true);
+		});
+
+		it('should apply deltas over default and clamp to 0-100', () => {
+			loadDataOverlay(writeOverlay({ contexts: { 'edge-first': { deltas: { perf: 100, cost: -100 } } } }));
+
+			const base = getScores('nextjs', 'default')!;
+			const edge = getScores('nextjs', 'edge-first')!;
+
+			expect(edge.perf).toBe(100);
+			expect(edge.cost).toBe(0);
+			expect(edge.dx).toBe(base.dx);
+		});
+
+		it('should be selectable in analyze_tech and compare_techs', () => {
+			loadDataOverlay(writeOverlay({ contexts: { 'regulated-fintech': { deltas: { compliance: 10 } } } }));
+
+			const analysis = executeAnalyzeTech({ technology: 'postgres', context: 'regulated-fintech' });
+			const comparison = executeCompareTechs({ technologies: ['postgres', 'mysql'], context: 'regulated-fintech' });
+
+			expect(analysis.isError).toBeUndefined();
+			expect(analysis.text).toContain('context: regulated-fintech');
+			expect(comparison.text).toContain('context: regulated-fintech');
+		});
+
+		it('should reject unknown contexts at input validation', () => {
+			const result = ContextSchema.safeParse('edge-first');
+
+			expect(result.success).toBe(false);
+			expect(result.error?.errors[0].message).toContain('Available: default, mvp, enterprise');
+		});
+
+		it('should reject built-in context IDs', () => {
+			expect(() => parseDataOverlay({ contexts: { mvp: { deltas: {} } } }, 'test')).toThrow(/built-in context/);
+		});
+
+		it('should reject unknown dimensions and out-of-range deltas', () => {
+			expect(() => parseDataOverlay({ contexts: { custom: { deltas: { speed: 5 } } } }, 'test')).toThrow(
+				/Invalid data overlay/
+			);
+			expect(() => parseDataOverlay({ contexts: { custom: { deltas: { perf: 150 } } } }, 'test')).toThrow(
+				/Invalid data overlay/
+			);
+		});
+
+		it('should report unreadable files as config errors', () => {
+			expect(() => loadDataOverlay('/nonexistent/overlay.json')).toThrow(/Cannot read data overlay/);
+		});
+	});
+
+	describe('technology overlay', () => {
+		it('should add internal technologies with default scores for every context', () => {
+			loadDataOverlay(writeOverlay({ technologies: { 'acme-orm': ACME_ORM } }));
+
+			expect(getTechnology('acme-orm')?.name).toBe('Acme ORM');
+			expect(getScores('acme-orm', 'mvp')).toEqual(ACME_ORM.scores.default);
+			expect(getOverlayStatus('acme-orm')).toBe('internal');
+		});
+
+		it('should label internal technologies in list_technologies', () => {
+			loadDataOverlay(writeOverlay({ technologies: { 'acme-orm': ACME_ORM } }));
+
+			const text = executeListTechs({ category: 'orm' }).text;
+
+			expect(text).toContain('- acme-orm (Acme ORM†)');
+			expect(text).toContain(OVERLAY_FOOTNOTE);
+			expect(text).not.toContain('Drizzle†');
+		});
+
+		it('should label only overridden dimensions in analyze_tech', () => {
+			loadDataOverlay(writeOverlay({ scoreOverrides: { postgres: { default: { compliance: 42 } } } }));
+
+			const { text } = executeAnalyzeTech({ technology: 'postgres' });
+
+			expect(getScores('postgres')?.compliance).toBe(42);
+			expect(text).toContain('| Compliance | 42† |');
+			expect(text).not.toMatch(/\| Performance \| \d+†/);
+			expect(text).toContain(OVERLAY_FOOTNOTE);
+		});
+
+		it('should not label overrides from another context', () => {
+			loadDataOverlay(writeOverlay({ scoreOverrides: { postgres: { enterprise: { compliance: 42 } } } }));
+
+			const { text } = executeAnalyzeTech({ technology: 'postgres', context: 'mvp' });
+
+			expect(text).not.toContain('†');
+			expect(text).not.toContain(OVERLAY_FOOTNOTE);
+		});
+
+		it('should override compatibility pairs and label them in compare_techs', () => {
+			loadDataOverlay(
+				writeOverlay({
+					technologies: { 'acme-orm': ACME_ORM },
+					compatibility: [{ techA: 'acme-orm', techB: 'drizzle', score: 10 }]
+				})
+			);
+
+			const { text } = executeCompareTechs({ technologies: ['drizzle', 'acme-orm'] });
+
+			expect(getCompatibility('drizzle', 'acme-orm')).toBe(10);
+			expect(text).toContain('| Acme ORM† |');
+			expect(text).toContain('| drizzle ↔ acme-orm | 10† |');
+			expect(text).toContain(OVERLAY_FOOTNOTE);
+		});
+
+		it('should leave bundled output unlabelled without an overlay', () => {
+			const { text } = executeCompareTechs({ technologies: ['postgres', 'mysql'] });
+
+			expect(text).not.toContain('†');
+		});
+
+		it('should restore bundled data on reset', () => {
+			loadDataOverlay(writeOverlay({ technologies: { 'acme-orm': ACME_ORM } }));
+			resetDataOverlay();
+
+			expect(getTechnology('acme-orm')).toBeNull();
+		});
+
+		it('should reject technologies that shadow bundled IDs', () => {
+			expect(() => parseDataOverlay({ technologies: { nextjs: ACME_ORM } }, 'test')).toThrow(
+				/already a bundled technology/
+			);
+		});
+
+		it('should reject overrides and pairs for unknown technologies', () => {
+			expect(() =>
+				parseDataOverlay({ scoreOverrides: { 'acme-orm': { default: { perf: 50 } } } }, 'test')
+			).toThrow(/unknown bundled technology/);
+			expect(() =>
+				parseDataOverlay({ compatibility: [{ techA: 'nextjs', techB: 'acme-orm', score: 50 }] }, 'test')
+			).toThrow(/unknown technology "acme-orm"/);
+		});
+
+		it('should reject invalid categories', () => {
+			expect(() =>
+				parseDataOverlay({ technologies: { 'acme-orm': { ...ACME_ORM, category: 'orms' } } }, 'test')
+			).toThrow(/Invalid data overlay/);
+		});
+	});
+});
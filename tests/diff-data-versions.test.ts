@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { executeDiffDataVersions } from '../src/tools/diff-data-versions.js';
+import { diffSnapshots, getArchivedDataVersions, getDataSnapshot, type DataSnapshot } from '../src/data/history.js';
+import { DATA_VERSION } from '../src/data/index.js';
+
+const SCORES = { perf: 80, dx: 80, ecosystem: 80, maintain: 80, cost: 80, compliance: 80 };
+
+function snapshot(
+	dataVersion: string,
+	technologies: Record<string, Partial<typeof SCORES>>,
+	matrix: DataSnapshot['matrix'] = {}
+): DataSnapshot {
+	return {
+		dataVersion,
+		technologies: Object.fromEntries(
+			Object.entries(technologies).map(([id, overrides]) => {
+				const scores = { ...SCORES, ...overrides };
+				return [id, { id, name: id.toUpperCase(), category: 'database', scores: { default: scores, mvp: scores, enterprise: scores } }];
+			})
+		),
+		matrix
+	};
+}
+
+describe('diffSnapshots', () => {
+	it('should report added, removed and changed technologies', () => {
+		const from = snapshot('v1', { a: {}, b: {}, c: { perf: 50 } });
+		const to = snapshot('v2', { a: {}, c: { perf: 86 }, d: {} });
+
+		const diff = diffSnapshots(from, to);
+
+		expect(diff.added.map((t) => t.id)).toEqual(['d']);
+		expect(diff.removed.map((t) => t.id)).toEqual(['b']);
+		expect(diff.changed).toHaveLength(1);
+		expect(diff.changed[0]).toMatchObject({ id: 'c', before: 75, after: 81, delta: 6 });
+		expect(diff.changed[0].dimensions).toEqual([{ dimension: 'perf', before: 50, after: 86 }]);
+	});
+
+	it('should compare compatibility pairs in either direction', () => {
+		const from = snapshot('v1', { a: {}, b: {}, c: {} }, { a: { b: 90 }, c: { a: 40 } });
+		const to = snapshot('v2', { a: {}, b: {}, c: {} }, { b: { a: 90 }, a: { c: 0 } });
+
+		const diff = diffSnapshots(from, to);
+
+		expect(diff.compatibility).toEqual([{ techA: 'a', techB: 'c', before: 40, after: 0 }]);
+	});
+
+	it('should report pairs that became defined or undefined', () => {
+		const from = snapshot('v1', { a: {}, b: {} }, { a: { b: 70 } });
+		const to = snapshot('v2', { a: {}, b: {} }, {});
+
+		expect(diffSnapshots(from, to).compatibility).toEqual([{ techA: 'a', techB: 'b', before: 70, after: null }]);
+	});
+});
+
+describe('diff_data_versions tool', () => {
+	it('should ship at least one archived snapshot', () => {
+		const archived = getArchivedDataVersions();
+
+		expect(archived.length).toBeGreaterThan(0);
+		expect(archived).not.toContain(DATA_VERSION);
+		for (const version of archived) {
+			expect(getDataSnapshot(version)?.dataVersion).toBe(version);
+		}
+	});
+
+	it('should diff the latest archived version against the current data by default', () => {
+		const archived = getArchivedDataVersions();
+		const result = executeDiffDataVersions({ context: 'default' });
+
+		expect(result.isError).toBeUndefined();
+		expect(result.text).toContain(`## Data Changes: ${archived[archived.length - 1]} → ${DATA_VERSION}`);
+	});
+
+	it('should list technologies added since 2026.01.29', () => {
+		const result = executeDiffDataVersions({ since: '2026.01.29', context: 'default', category: 'observability' });
+
+		expect(result.text).toContain('### Added Technologies');
+		expect(result.text).toContain('- sentry (Sentry, observability)');
+		expect(result.text).toContain('| nextjs ↔ sentry | — (50) | 100 |');
+		expect(result.text).not.toContain('- nextjs (');
+	});
+
+	it('should report no changes when comparing a version with itself', () => {
+		const result = executeDiffDataVersions({ since: DATA_VERSION, context: 'default' });
+
+		expect(result.text).toContain('_No data changes between these versions._');
+	});
+
+	it('should return available versions for unknown versions', () => {
+		const result = executeDiffDataVersions({ since: '2020.01.01', context: 'default' });
+
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain('Unknown data version: "2020.01.01"');
+		expect(result.text).toContain(`Available versions: 2026.01.29, ${DATA_VERSION}`);
+	});
+});
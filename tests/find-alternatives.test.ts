@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { getCompatibility } from '../src/data/index.js';
+import { executeFindAlternatives } from '../src/tools/find-alternatives.js';
+
+describe('find_alternatives', () => {
+	it('should rank same-category substitutes by gain on the chosen dimensions', () => {
+		const { data, text } = executeFindAlternatives({
+			technology: 'prisma',
+			stack: ['nextjs', 'postgres'],
+			dimensions: ['perf', 'cost'],
+			context: 'default',
+			limit: 5
+		});
+
+		expect(data!.category).toBe('orm');
+		expect(data!.stackSource).toBe('input');
+		expect(data!.alternatives[0].id).toBe('drizzle');
+		for (const alt of data!.alternatives) {
+			expect(alt.id).not.toBe('prisma');
+			expect(alt.improvement).toBe(Math.round((alt.deltas.perf + alt.deltas.cost) / 2));
+		}
+		expect(text).toContain('**Improving**: Performance, Cost Efficiency');
+		expect(text).toContain('| 1 | Drizzle ORM | +13 |');
+	});
+
+	it('should list alternatives keeping compatibility first', () => {
+		const { data } = executeFindAlternatives({ technology: 'prisma', stack: ['nextjs', 'postgres'], limit: 10 });
+		const keeps = data!.alternatives.map((alt) => alt.keepsCompatibility);
+
+		expect(keeps.indexOf(false)).toBeGreaterThan(0);
+		expect(keeps.slice(keeps.indexOf(false))).not.toContain(true);
+	});
+
+	it('should exclude hard-incompatible substitutes', () => {
+		const { data, text } = executeFindAlternatives({ technology: 'nextjs', stack: ['react', 'vercel'] });
+
+		expect(data!.excluded).toContainEqual({ id: 'nuxt', incompatibleWith: ['react'] });
+		expect(data!.alternatives.map((alt) => alt.id)).not.toContain('nuxt');
+		expect(text).toContain('**Excluded (hard incompatibility)**: ');
+	});
+
+	it('should check compatibility against best-fitting partners without a stack', () => {
+		const { data, text } = executeFindAlternatives({ technology: 'nextjs' });
+
+		expect(data!.stackSource).toBe('companions');
+		expect(data!.stack.length).toBeGreaterThan(0);
+		for (const techId of data!.stack) {
+			expect(getCompatibility('nextjs', techId)).toBeGreaterThan(50);
+		}
+		expect(text).toContain('(best-fitting partners)');
+	});
+
+	it('should reject unknown technologies and same-category stack entries', () => {
+		expect(executeFindAlternatives({ technology: 'prisma', stack: ['nextjs', 'drizle'] }).text).toContain('Did you mean');
+		expect(executeFindAlternatives({ technology: 'prisma', stack: ['drizzle'] }).text).toContain(
+			'"drizzle" is in category "orm", the category of "prisma"'
+		);
+	});
+});
@@ -4,7 +4,7 @@ import { DATA_VERSION, getAllTechIds } from '../src/data/index.js';
 
 describe('list_technologies tool', () => {
 	it('should list all technologies when no category filter', () => {
-		const result = executeListTechs({});
+		const result = executeListTechs({}).text;
 
 		expect(result).toContain('Available technologies');
 		expect(result).toContain(`Data version: ${DATA_VERSION}`);
@@ -21,14 +21,14 @@ describe('list_technologies tool', () => {
 	});
 
 	it('should include total count in output', () => {
-		const result = executeListTechs({});
+		const result = executeListTechs({}).text;
 		const totalTechs = getAllTechIds().length;
 
 		expect(result).toContain(`(${totalTechs} total)`);
 	});
 
 	it('should filter by meta-framework category', () => {
-		const result = executeListTechs({ category: 'meta-framework' });
+		const result = executeListTechs({ category: 'meta-framework' }).text;
 
 		expect(result).toContain('meta-framework');
 		expect(result).toContain('nextjs');
@@ -41,7 +41,7 @@ describe('list_technologies tool', () => {
 	});
 
 	it('should filter by database category', () => {
-		const result = executeListTechs({ category: 'database' });
+		const result = executeListTechs({ category: 'database' }).text;
 
 		expect(result).toContain('postgres');
 		expect(result).toContain('sqlite');
@@ -53,36 +53,45 @@ describe('list_technologies tool', () => {
 	});
 
 	it('should filter by orm category', () => {
-		const result = executeListTechs({ category: 'orm' });
+		const result = executeListTechs({ category: 'orm' }).text;
 
 		expect(result).toContain('drizzle');
 		expect(result).toContain('prisma');
 	});
 
 	it('should filter by auth category', () => {
-		const result = executeListTechs({ category: 'auth' });
+		const result = executeListTechs({ category: 'auth' }).text;
 
 		expect(result).toContain('better-auth');
 		expect(result).toContain('clerk');
 	});
 
 	it('should filter by hosting category', () => {
-		const result = executeListTechs({ category: 'hosting' });
+		const result = executeListTechs({ category: 'hosting' }).text;
 
 		expect(result).toContain('vercel');
 		expect(result).toContain('cloudflare');
 		expect(result).toContain('railway');
 	});
 
+	it('should filter by service categories', () => {
+		expect(executeListTechs({ category: 'observability' }).text).toContain('sentry (Sentry)');
+		expect(executeListTechs({ category: 'email' }).text).toContain('resend (Resend)');
+		expect(executeListTechs({ category: 'cache' }).text).toContain('upstash (Upstash Redis)');
+		expect(executeListTechs({ category: 'storage' }).text).toContain('s3 (Amazon S3)');
+		expect(executeListTechs({ category: 'ai' }).text).toContain('openai (OpenAI)');
+		expect(executeListTechs({ category: 'queue' }).text).toContain('inngest (Inngest)');
+	});
+
 	it('should include technology names in parentheses', () => {
-		const result = executeListTechs({ category: 'meta-framework' });
+		const result = executeListTechs({ category: 'meta-framework' }).text;
 
 		expect(result).toContain('nextjs (Next.js)');
 		expect(result).toContain('sveltekit (SvelteKit)');
 	});
 
 	it('should show count when filtering by category', () => {
-		const result = executeListTechs({ category: 'database' });
+		const result = executeListTechs({ category: 'database' }).text;
 
 		// Should show count for filtered category
 		expect(result).toMatch(/Available technologies in "database" \(\d+ total\)/);
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+	initRulesIndex,
+	getAllRules,
+	getAllGroupRules,
+	generateReport,
+	formatReportAsMarkdown,
+	parseMcpServerEntries,
+	resolveTransport,
+	evaluateConditionals,
+	type MatchedRule
+} from '../src/lib/compatibility/index.js';
+
+beforeAll(() => {
+	initRulesIndex(getAllRules(), getAllGroupRules());
+});
+
+const prismaSupabase = (env?: Record<string, string>) => ({
+	mcpServers: {
+		prisma: { command: 'npx', args: ['-y', 'prisma', 'mcp'], ...(env ? { env } : {}) },
+		supabase: { url: 'https://mcp.supabase.com/mcp' }
+	}
+});
+
+describe('MCP config parsing', () => {
+	it('should read mcpServers and servers formats', () => {
+		expect(Object.keys(parseMcpServerEntries(prismaSupabase()))).toEqual(['prisma', 'supabase']);
+		expect(Object.keys(parseMcpServerEntries({ servers: { github: { type: 'stdio' } } }))).toEqual(['github']);
+		expect(Object.keys(parseMcpServerEntries({ servers: [{ name: 'neon', command: 'npx' }] }))).toEqual(['neon']);
+		expect(parseMcpServerEntries('not a config')).toEqual({});
+	});
+
+	it('should resolve transports', () => {
+		expect(resolveTransport({ command: 'npx' })).toBe('stdio');
+		expect(resolveTransport({ url: 'https://example.com/mcp' })).toBe('http');
+		expect(resolveTransport({ url: 'https://example.com/sse' })).toBe('sse');
+		expect(resolveTransport({ type: 'streamable-http', command: 'npx' })).toBe('http');
+		expect(resolveTransport({ type: 'carrier-pigeon' })).toBeNull();
+		expect(resolveTransport({})).toBeNull();
+	});
+});
+
+describe('conditional rules', () => {
+	it('should mark conditions satisfied, unsatisfied or unknown', () => {
+		const unknown = generateReport(['prisma-mcp', 'supabase-mcp'], getAllRules());
+		const unmet = generateReport(['prisma-mcp', 'supabase-mcp'], getAllRules(), {
+			servers: parseMcpServerEntries(prismaSupabase())
+		});
+		const met = generateReport(['prisma-mcp', 'supabase-mcp'], getAllRules(), {
+			servers: parseMcpServerEntries(prismaSupabase({ DATABASE_URL: 'postgres://pooler' }))
+		});
+
+		expect(unknown.summary.conditionals).toBe(1);
+		expect(unknown.conditionals[0].status).toBe('unknown');
+		expect(unknown.conditionals[0].checks[0].detail).toBe('no MCP config supplied');
+		expect(unmet.conditionals[0].status).toBe('unsatisfied');
+		expect(met.conditionals[0].status).toBe('satisfied');
+	});
+
+	it('should lower the score only for unsatisfied conditions', () => {
+		const unknown = generateReport(['prisma-mcp', 'supabase-mcp'], getAllRules());
+		const unmet = generateReport(['prisma-mcp', 'supabase-mcp'], getAllRules(), {
+			servers: parseMcpServerEntries(prismaSupabase())
+		});
+
+		expect(unknown.summary.score).toBe(100);
+		expect(unmet.summary.score).toBe(95);
+		expect(formatReportAsMarkdown(unmet)).toContain('- ❌ prisma-mcp env DATABASE_URL: DATABASE_URL not set');
+	});
+
+	it('should check transport conditions on both MCPs when no MCP is named', () => {
+		const [rule] = getAllRules().filter((r) => r.id === 'syn-003');
+		const matched: MatchedRule = {
+			rule: { ...rule, conditions: [{ type: 'transport', transport: 'stdio' }] },
+			inputA: 'prisma-mcp',
+			inputB: 'supabase-mcp'
+		};
+		const [evaluated] = evaluateConditionals([matched], parseMcpServerEntries(prismaSupabase()));
+
+		expect(evaluated.checks.map((c) => [c.mcp, c.status])).toEqual([
+			['prisma-mcp', 'satisfied'],
+			['supabase-mcp', 'unsatisfied']
+		]);
+		expect(evaluated.status).toBe('unsatisfied');
+	});
+});
+
+describe('group rules', () => {
+	it('should report several database providers as one finding', () => {
+		const dbs = ['neon-mcp', 'supabase', 'planetscale-mcp', 'turso-mcp', 'mongodb-mcp'];
+		const report = generateReport(dbs, getAllRules());
+
+		expect(report.groups).toHaveLength(1);
+		expect(report.groups[0].rule.id).toBe('grp-db-001');
+		expect(report.groups[0].members).toEqual(dbs);
+		expect(report.groups[0].replaces.sort()).toEqual(['db-001', 'db-002', 'db-003', 'db-004']);
+		expect(report.conflicts).toEqual([]);
+		expect(report.summary.score).toBe(60);
+		expect(formatReportAsMarkdown(report)).toContain('**At most one database provider** (critical)');
+	});
+
+	it('should keep pairwise findings outside a violated group', () => {
+		const report = generateReport(['neon-mcp', 'supabase-mcp', 'github-mcp', 'gitlab-mcp'], getAllRules());
+
+		expect(report.groups.map((g) => g.rule.id)).toEqual(['grp-db-001']);
+		expect(report.conflicts.map((c) => c.rule.id)).toEqual(['vcs-001']);
+	});
+
+	it('should check requirements triggered by an MCP', () => {
+		const missing = generateReport(['stripe'], getAllRules());
+		const met = generateReport(['stripe', 'resend'], getAllRules());
+
+		expect(missing.groups).toMatchObject([{ rule: { id: 'grp-pay-001' }, members: [], triggeredBy: ['stripe'] }]);
+		expect(missing.summary.score).toBe(95);
+		expect(formatReportAsMarkdown(missing)).toContain('- stripe needs at least 1, found 0');
+		expect(met.groups).toEqual([]);
+	});
+});
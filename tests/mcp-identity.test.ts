@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getAllGroupRules, getAllRules, initRulesIndex } from '../src/lib/compatibility/index.js';
+import {
+	extractPackage,
+	keyServersByMcpId,
+	resolveMcpIdentities,
+	resolveMcpIdentity
+} from '../src/lib/mcp-identity.js';
+import { analyzeRepo } from '../src/tools/project-kit/analyze-repo.js';
+import { executeCheckCompatibility } from '../src/tools/check-compatibility.js';
+
+beforeAll(() => {
+	initRulesIndex(getAllRules(), getAllGroupRules());
+});
+
+describe('MCP identity resolution', () => {
+	it('should extract the package run by a server entry', () => {
+		expect(extractPackage({ command: 'npx', args: ['-y', '@supabase/mcp-server-supabase@latest'] })).toBe(
+			'@supabase/mcp-server-supabase'
+		);
+		expect(extractPackage({ command: 'cmd', args: ['/c', 'npx', '-y', '@neondatabase/mcp-server-neon'] })).toBe(
+			'@neondatabase/mcp-server-neon'
+		);
+		expect(
+			extractPackage({
+				command: 'docker',
+				args: ['run', '-i', '--rm', '-e', 'GITHUB_PERSONAL_ACCESS_TOKEN', 'ghcr.io/github/github-mcp-server:latest']
+			})
+		).toBe('github-mcp-server');
+		expect(extractPackage({ command: 'uvx', args: ['mcp_server_sentry'] })).toBe('mcp-server-sentry');
+		expect(extractPackage({ url: 'https://mcp.neon.tech/sse' })).toBeUndefined();
+	});
+
+	it('should resolve servers by package, url and name', () => {
+		expect(resolveMcpIdentity('db', { command: 'npx', args: ['-y', '@supabase/mcp-server-supabase'] })).toEqual({
+			name: 'db',
+			mcpId: 'supabase-mcp',
+			method: 'package',
+			confidence: 0.95,
+			evidence: '@supabase/mcp-server-supabase'
+		});
+		expect(resolveMcpIdentity('orm', { command: 'npx', args: ['-y', 'prisma', 'mcp'] })).toMatchObject({
+			mcpId: 'prisma-mcp',
+			method: 'package'
+		});
+		expect(resolveMcpIdentity('postgres', { url: 'https://mcp.neon.tech/sse' })).toMatchObject({
+			mcpId: 'neon-mcp',
+			method: 'url',
+			evidence: 'mcp.neon.tech'
+		});
+		expect(resolveMcpIdentity('supabase')).toMatchObject({ mcpId: 'supabase-mcp', method: 'name', confidence: 0.85 });
+		expect(resolveMcpIdentity('my-supabase')).toMatchObject({ mcpId: 'supabase-mcp', method: 'name', confidence: 0.7 });
+	});
+
+	it('should fall back to the closest known ID with a lower confidence', () => {
+		const identity = resolveMcpIdentity('supabse');
+
+		expect(identity).toMatchObject({ mcpId: 'supabase-mcp', method: 'fuzzy', evidence: 'supabse' });
+		expect(identity.confidence).toBeGreaterThanOrEqual(0.5);
+		expect(identity.confidence).toBeLessThan(0.7);
+		expect(resolveMcpIdentity('db', { command: 'node', args: ['./build/index.js'] })).toEqual({
+			name: 'db',
+			mcpId: null,
+			method: null,
+			confidence: 0
+		});
+	});
+
+	it('should key server entries by resolved MCP ID', () => {
+		const servers = {
+			db: { command: 'npx', args: ['-y', '@supabase/mcp-server-supabase'] },
+			local: { command: 'node', args: ['./server.js'] }
+		};
+
+		expect(Object.keys(keyServersByMcpId(servers, resolveMcpIdentities(servers)))).toEqual(['supabase-mcp', 'local']);
+	});
+});
+
+describe('compatibility checks on real configs', () => {
+	const config = {
+		mcpServers: {
+			db: { command: 'npx', args: ['-y', '@supabase/mcp-server-supabase'] },
+			orm: { command: 'npx', args: ['-y', 'prisma', 'mcp'], env: { DATABASE_URL: 'postgres://pooler' } },
+			'analytics-db': { url: 'https://mcp.neon.tech/mcp' }
+		}
+	};
+
+	it('should check conditions against the entry of each resolved MCP', () => {
+		const result = executeCheckCompatibility({ mcps: ['prisma-mcp', 'supabase-mcp'], mcpConfig: config });
+
+		expect(result.data.conditionals[0].status).toBe('satisfied');
+	});
+
+	it('should analyze installed MCPs under their resolved IDs', async () => {
+		const workspace = mkdtempSync(join(tmpdir(), 'sf-identity-'));
+		writeFileSync(join(workspace, 'custom-mcp.json'), JSON.stringify(config));
+
+		const result = await analyzeRepo({
+			workspaceRoot: workspace,
+			mcpConfigPath: 'custom-mcp.json',
+			includeInstalled: false
+		});
+
+		expect(result.installedMcps).toEqual(expect.arrayContaining(['supabase-mcp', 'prisma-mcp', 'neon-mcp']));
+		expect(result.installedIdentities).toContainEqual(
+			expect.objectContaining({ name: 'analytics-db', mcpId: 'neon-mcp', method: 'url' })
+		);
+		expect(result.compatibility.installed.groups.map((g) => g.rule)).toContain('grp-db-001');
+	});
+});
@@ -558,8 +558,8 @@ describe("executeCheckCompatibility - Chaos Tests", () => {
       mcps: ["supabase-mcp", "neon-mcp"],
     });
 
-    // Should detect potential conflict (both are database providers)
-    expect(result.data.conflicts.length).toBeGreaterThan(0);
+    // Should detect potential conflict (both are database providers), reported by the group rule
+    expect(result.data.groups.map((g) => g.rule.id)).toContain("grp-db-001");
     expect(result.data.summary.score).toBeLessThan(100);
   });
 
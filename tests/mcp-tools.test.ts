@@ -38,11 +38,11 @@ beforeAll(async () => {
 // ============================================================================
 
 describe('MCP Server Tool Discovery', () => {
-	test('should list all 25 registered tools', async () => {
+	test('should list all 33 registered tools', async () => {
 		const result = await client.request({ method: 'tools/list' }, ListToolsResultSchema);
 
 		expect(result.tools).toBeDefined();
-		expect(result.tools.length).toBe(25);
+		expect(result.tools.length).toBe(33);
 
 		const toolNames = result.tools.map((t) => t.name);
 		expect(toolNames).toContain('list_technologies');
@@ -70,6 +70,14 @@ describe('MCP Server Tool Discovery', () => {
 		expect(toolNames).toContain('estimate_project');
 		expect(toolNames).toContain('get_estimate_quota');
 		expect(toolNames).toContain('get_workflow_guide');
+		expect(toolNames).toContain('import_better_t_stack');
+		expect(toolNames).toContain('diff_data_versions');
+		expect(toolNames).toContain('check_stack_compatibility');
+		expect(toolNames).toContain('recommend_stack_local');
+		expect(toolNames).toContain('get_taxonomy');
+		expect(toolNames).toContain('rank_category');
+		expect(toolNames).toContain('plan_migration');
+		expect(toolNames).toContain('find_alternatives');
 	});
 
 	test('all tools should have annotations', async () => {
@@ -82,6 +90,15 @@ describe('MCP Server Tool Discovery', () => {
 		}
 	});
 
+	test('all tools should declare an object outputSchema', async () => {
+		const result = await client.request({ method: 'tools/list' }, ListToolsResultSchema);
+
+		for (const tool of result.tools) {
+			expect(tool.outputSchema, tool.name).toBeDefined();
+			expect(tool.outputSchema?.type).toBe('object');
+		}
+	});
+
 	test('local tools should have openWorldHint=false', async () => {
 		const result = await client.request({ method: 'tools/list' }, ListToolsResultSchema);
 
@@ -94,7 +111,14 @@ describe('MCP Server Tool Discovery', () => {
 			'check_mcp_compatibility',
 			'analyze_repo_mcps',
 			'execute_mcp_installation',
-			'get_workflow_guide'
+			'get_workflow_guide',
+			'diff_data_versions',
+			'check_stack_compatibility',
+			'recommend_stack_local',
+			'get_taxonomy',
+			'rank_category',
+			'plan_migration',
+			'find_alternatives'
 		];
 
 		for (const toolName of localTools) {
@@ -250,6 +274,206 @@ describe('Local Tools (No API Key)', () => {
 	});
 });
 
+// ============================================================================
+// STRUCTURED CONTENT TESTS (validated against outputSchema by the client)
+// ============================================================================
+
+describe('Structured Content', () => {
+	test('list_technologies should return the technology list', async () => {
+		const result = (await client.callTool({
+			name: 'list_technologies',
+			arguments: { category: 'database' }
+		})) as CallToolResult;
+
+		const data = result.structuredContent as { category: string; total: number; technologies: Array<{ id: string }> };
+		expect(data.category).toBe('database');
+		expect(data.technologies.map((t) => t.id)).toContain('postgres');
+		expect(data.total).toBe(data.technologies.length);
+	});
+
+	test('analyze_tech should return scores and compatible technologies', async () => {
+		const result = (await client.callTool({
+			name: 'analyze_tech',
+			arguments: { technology: 'nextjs', weights: { perf: 2 } }
+		})) as CallToolResult;
+
+		const data = result.structuredContent as {
+			id: string;
+			scores: Record<string, number>;
+			weights: Record<string, number>;
+			compatible: unknown[];
+		};
+		expect(data.id).toBe('nextjs');
+		expect(Object.keys(data.scores)).toHaveLength(6);
+		expect(data.weights).toEqual({ perf: 2 });
+		expect(data.compatible.length).toBeGreaterThan(0);
+	});
+
+	test('errors should not carry structured content', async () => {
+		const result = (await client.callTool({
+			name: 'analyze_tech',
+			arguments: { technology: 'unknown-tech-xyz' }
+		})) as CallToolResult;
+
+		expect(result.isError).toBe(true);
+		expect(result.structuredContent).toBeUndefined();
+	});
+
+	test('compare_techs should return ranking, winners and verdict', async () => {
+		const result = (await client.callTool({
+			name: 'compare_techs',
+			arguments: { technologies: ['nextjs', 'sveltekit'] }
+		})) as CallToolResult;
+
+		const data = result.structuredContent as {
+			technologies: Array<{ id: string; score: number }>;
+			dimensionWinners: unknown[];
+			compatibility: Array<{ techA: string; techB: string }>;
+			verdict: { leader: string };
+		};
+		expect(data.technologies).toHaveLength(2);
+		expect(data.technologies[0].score).toBeGreaterThanOrEqual(data.technologies[1].score);
+		expect(data.dimensionWinners).toHaveLength(6);
+		expect(data.compatibility).toEqual([expect.objectContaining({ techA: 'nextjs', techB: 'sveltekit' })]);
+		expect(data.verdict.leader).toBe(data.technologies[0].id);
+	});
+
+	test('check_stack_compatibility should return cohesion and pairs', async () => {
+		const result = (await client.callTool({
+			name: 'check_stack_compatibility',
+			arguments: { technologies: ['nextjs', 'prisma', 'postgres'] }
+		})) as CallToolResult;
+
+		const data = result.structuredContent as { cohesion: number; pairs: unknown[] };
+		expect(data.cohesion).toBeGreaterThan(0);
+		expect(data.pairs).toHaveLength(3);
+	});
+
+	test('recommend_stack_local should return the solved stack', async () => {
+		const result = (await client.callTool({
+			name: 'recommend_stack_local',
+			arguments: { projectType: 'saas', constraints: ['must-use-postgresql'] }
+		})) as CallToolResult;
+
+		const data = result.structuredContent as {
+			stack: Array<{ id: string; pinned: boolean }>;
+			totals: { total: number };
+			engine: string;
+		};
+		expect(data.stack).toContainEqual(expect.objectContaining({ id: 'postgres', pinned: true }));
+		expect(data.totals.total).toBeGreaterThan(0);
+		expect(data.engine).toBe('local');
+	});
+
+	test('rank_category should return the leaderboard and clusters', async () => {
+		const result = (await client.callTool({
+			name: 'rank_category',
+			arguments: { category: 'database' }
+		})) as CallToolResult;
+
+		const data = result.structuredContent as {
+			technologies: Array<{ rank: number; pareto: boolean }>;
+			clusters: Array<{ members: string[] }>;
+		};
+		expect(data.technologies[0].rank).toBe(1);
+		expect(data.technologies.some((t) => t.pareto)).toBe(true);
+		expect(data.clusters.length).toBeGreaterThan(0);
+	});
+
+	test('plan_migration should return score deltas and compatibility impact', async () => {
+		const result = (await client.callTool({
+			name: 'plan_migration',
+			arguments: { from: 'prisma', to: 'drizzle', stack: ['nextjs', 'postgres'] }
+		})) as CallToolResult;
+
+		const data = result.structuredContent as {
+			effort: string;
+			scoreDeltas: Array<{ context: string }>;
+			compatibility: Array<{ techId: string }>;
+		};
+		expect(data.effort).toBe('heavy');
+		expect(data.scoreDeltas.map((d) => d.context)).toContain('default');
+		expect(data.compatibility.map((c) => c.techId)).toEqual(['nextjs', 'postgres']);
+	});
+
+	test('find_alternatives should return ranked substitutes', async () => {
+		const result = (await client.callTool({
+			name: 'find_alternatives',
+			arguments: { technology: 'prisma', stack: ['nextjs', 'postgres'], dimensions: ['perf'] }
+		})) as CallToolResult;
+
+		const data = result.structuredContent as {
+			category: string;
+			alternatives: Array<{ rank: number; id: string }>;
+		};
+		expect(data.category).toBe('orm');
+		expect(data.alternatives[0].rank).toBe(1);
+		expect(data.alternatives.map((a) => a.id)).not.toContain('prisma');
+	});
+
+	test('get_taxonomy should return the valid input values', async () => {
+		const result = (await client.callTool({ name: 'get_taxonomy', arguments: {} })) as CallToolResult;
+
+		const data = result.structuredContent as { projectTypes: Array<{ id: string }>; scales: Array<{ id: string }> };
+		expect(data.projectTypes.map((t) => t.id)).toContain('desktop');
+		expect(data.scales.map((s) => s.id)).toEqual(['mvp', 'startup', 'growth', 'enterprise']);
+	});
+
+	test('check_mcp_compatibility should return the report as structured content', async () => {
+		const result = (await client.callTool({
+			name: 'check_mcp_compatibility',
+			arguments: { mcps: ['supabase-mcp', 'neon-mcp'] }
+		})) as CallToolResult;
+
+		const data = result.structuredContent as { summary: { groups: number }; analyzedMcps: string[] };
+		expect(data.summary.groups).toBeGreaterThan(0);
+		expect(data.analyzedMcps).toEqual(['supabase-mcp', 'neon-mcp']);
+		expect(result.content).toHaveLength(1);
+	});
+
+	test('check_mcp_compatibility should check conditional pairs against mcpConfig', async () => {
+		const result = (await client.callTool({
+			name: 'check_mcp_compatibility',
+			arguments: {
+				mcps: ['prisma-mcp', 'supabase-mcp'],
+				mcpConfig: { mcpServers: { prisma: { command: 'npx', args: ['prisma', 'mcp'] } } }
+			}
+		})) as CallToolResult;
+
+		const data = result.structuredContent as {
+			summary: { conditionals: number };
+			conditionals: Array<{ status: string; checks: Array<{ mcp: string; status: string }> }>;
+		};
+		expect(data.summary.conditionals).toBe(1);
+		expect(data.conditionals[0].status).toBe('unsatisfied');
+		expect(data.conditionals[0].checks).toMatchObject([{ mcp: 'prisma-mcp', status: 'unsatisfied' }]);
+	});
+
+	test('generate_mcp_kit structured content should match its JSON text', async () => {
+		const result = (await client.callTool({
+			name: 'generate_mcp_kit',
+			arguments: {
+				projectDescription:
+					'A SaaS application for managing customer subscriptions with Stripe payments, PostgreSQL database, and Next.js frontend'
+			}
+		})) as CallToolResult;
+
+		expect(result.structuredContent).toEqual(JSON.parse(getResultText(result)));
+	});
+
+	test('get_workflow_guide should return the next step', async () => {
+		const result = (await client.callTool({
+			name: 'get_workflow_guide',
+			arguments: { current_goal: 'discover', completed_tools: ['list_technologies'] }
+		})) as CallToolResult;
+
+		const data = result.structuredContent as { goal: string; nextStep: { tool: string } | null; completed: boolean };
+		expect(data.goal).toBe('discover');
+		expect(data.nextStep?.tool).not.toBe('list_technologies');
+		expect(data.completed).toBe(false);
+	});
+});
+
 // ============================================================================
 // API TOOL TESTS (require API key - test error handling)
 // ============================================================================
@@ -401,6 +625,7 @@ describe('Project-Kit Tools', () => {
 		// Should return empty analysis, not error
 		const text = getResultText(result);
 		expect(text).toContain('Repository Analysis');
+		expect(result.structuredContent).toHaveProperty('detectedStack');
 	});
 
 	test('execute_mcp_installation should handle missing .env-mcp', async () => {
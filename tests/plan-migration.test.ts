@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { CATEGORIES } from '../src/data/index.js';
+import { MIGRATION_EFFORT, executePlanMigration } from '../src/tools/plan-migration.js';
+
+describe('plan_migration', () => {
+	it('should rate effort by category', () => {
+		expect(Object.keys(MIGRATION_EFFORT).sort()).toEqual([...CATEGORIES].sort());
+		expect(executePlanMigration({ from: 'prisma', to: 'drizzle' }).data!.effort).toBe('heavy');
+		expect(executePlanMigration({ from: 'vercel', to: 'cloudflare' }).data!.effort).toBe('light');
+	});
+
+	it('should report score deltas per context', () => {
+		const { data, text } = executePlanMigration({ from: 'prisma', to: 'drizzle' });
+		const byContext = new Map(data!.scoreDeltas.map((row) => [row.context, row]));
+
+		expect([...byContext.keys()]).toEqual(['default', 'mvp', 'enterprise']);
+		for (const row of data!.scoreDeltas) {
+			expect(row.delta).toBe(row.toOverall - row.fromOverall);
+			expect(row.dimensions.perf).toBe(row.toScores.perf - row.fromScores.perf);
+		}
+		expect(byContext.get('default')!.dimensions.perf).toBeGreaterThan(0);
+		expect(data!.cohesion).toBeNull();
+		expect(text).toContain('## Migration Plan: Prisma → Drizzle ORM (orm)');
+		expect(text).toContain('_Pass `stack` with your other technologies');
+	});
+
+	it('should report pairs that improve, degrade and break', () => {
+		const { data, text } = executePlanMigration({ from: 'nextjs', to: 'nuxt', stack: ['react', 'prisma', 'nextjs'] });
+		const react = data!.compatibility.find((c) => c.techId === 'react')!;
+
+		expect(data!.compatibility.map((c) => c.techId)).toEqual(['react', 'prisma']);
+		expect(react).toMatchObject({ before: 100, after: 0, change: 'degrades' });
+		expect(data!.breaks).toEqual(['react']);
+		expect(data!.cohesion!.after).toBeLessThan(data!.cohesion!.before);
+		expect(text).toContain('**Warning**: Nuxt cannot be used with React');
+
+		const reverse = executePlanMigration({ from: 'nuxt', to: 'nextjs', stack: ['react', 'prisma'] });
+		expect(reverse.data!.resolves).toEqual(['react']);
+		expect(reverse.text).toContain('**Improves**: React | **Degrades**: none');
+	});
+
+	it('should reject invalid migrations', () => {
+		expect(executePlanMigration({ from: 'prisma', to: 'postgres' }).text).toContain(
+			'"prisma" (orm) and "postgres" (database) are in different categories'
+		);
+		expect(executePlanMigration({ from: 'prisma', to: 'prisma' }).isError).toBe(true);
+		expect(executePlanMigration({ from: 'prisma', to: 'drizle' }).text).toContain('Did you mean');
+		expect(executePlanMigration({ from: 'prisma', to: 'drizzle', stack: ['typeorm'] }).text).toContain(
+			'"typeorm" is in category "orm", which the migration replaces'
+		);
+	});
+});
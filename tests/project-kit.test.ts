@@ -5,6 +5,9 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import {
 	matchMCPsForTechnologies,
 	generateInstallConfig,
@@ -17,6 +20,10 @@ import {
 	getMCPRegistryEntry,
 	getRequiredEnvVars
 } from '../src/tools/project-kit/installation-types.js';
+import { detectStackFromFiles } from '../src/tools/project-kit/detect-stack.js';
+import { formatScoredVersion } from '../src/tools/project-kit/analyze-repo.js';
+import { generateMCPKit } from '../src/tools/project-kit/generate.js';
+import { McpError } from '../src/utils/errors.js';
 
 // ============================================================================
 // TECH MCP MAPPINGS TESTS
@@ -196,6 +203,27 @@ describe('generateInstallConfig', () => {
 // TYPES CONSTANTS TESTS
 // ============================================================================
 
+// ============================================================================
+// STACK DETECTION TESTS
+// ============================================================================
+
+describe('detectStackFromFiles', () => {
+	it('should resolve detected versions to scored major versions', async () => {
+		const dir = mkdtempSync(join(tmpdir(), 'sf-detect-'));
+		writeFileSync(
+			join(dir, 'package.json'),
+			JSON.stringify({ dependencies: { next: '^14.2.3', '@prisma/client': '5.1.0', hono: '^4.0.0' } })
+		);
+
+		const { stack } = await detectStackFromFiles(dir);
+
+		expect(stack.frontend?.scoredVersion).toBe('14');
+		expect(stack.orm?.scoredVersion).toBe('5');
+		expect(stack.backend?.scoredVersion).toBeUndefined();
+		expect(formatScoredVersion(stack.frontend!)).toMatch(/scored as nextjs@14: \d+\/100/);
+	});
+});
+
 describe('Type Constants', () => {
 	it('should export valid PRIORITIES', () => {
 		expect(PRIORITIES).toContain('time-to-market');
@@ -439,3 +467,33 @@ describe('validateEnvVars (logic validation)', () => {
 		expect(missingVars.length).toBe(0);
 	});
 });
+
+// ============================================================================
+// GENERATE MCP KIT CONSTRAINTS TESTS
+// ============================================================================
+
+describe('generateMCPKit constraints', () => {
+	const projectDescription = 'A SaaS for team project management with real-time collaboration and billing';
+
+	it('should lock mustUse technologies into the stack', () => {
+		const kit = generateMCPKit({ projectDescription, mustUse: ['postgres', 'resend'] });
+
+		expect(kit.stack.database).toMatchObject({ id: 'postgres', reason: 'Pinned (mustUse)' });
+		expect(kit.stack.email).toMatchObject({ id: 'resend', reason: 'Pinned (mustUse)' });
+	});
+
+	it('should never propose mustAvoid technologies', () => {
+		const kit = generateMCPKit({ projectDescription, mustAvoid: ['nextjs', 'vercel'] });
+		const ids = Object.values(kit.stack).map((tech) => tech?.id);
+
+		expect(ids).not.toContain('nextjs');
+		expect(ids).not.toContain('vercel');
+	});
+
+	it('should reject conflicting constraints', () => {
+		expect(() => generateMCPKit({ projectDescription, mustUse: ['postgres'], mustAvoid: ['postgres'] })).toThrow(
+			McpError
+		);
+		expect(() => generateMCPKit({ projectDescription, mustUse: ['not-a-tech'] })).toThrow(/not-a-tech/);
+	});
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import type { Scores } from '../src/data/index.js';
+import { clusterByProfile, describeCluster, dominates, findDominators, findTradeOff } from '../src/lib/ranking.js';
+import { executeRankCategory } from '../src/tools/rank-category.js';
+
+const profile = (perf: number, dx: number, cost = 80): Scores => ({
+	perf,
+	dx,
+	ecosystem: 80,
+	maintain: 80,
+	cost,
+	compliance: 80
+});
+
+describe('ranking analysis', () => {
+	it('should detect dominance on the given dimensions', () => {
+		expect(dominates(profile(90, 90), profile(90, 80))).toBe(true);
+		expect(dominates(profile(90, 80), profile(90, 80))).toBe(false);
+		expect(dominates(profile(95, 70), profile(90, 80))).toBe(false);
+		expect(dominates(profile(95, 70), profile(90, 80), ['perf', 'cost'])).toBe(true);
+
+		const dominators = findDominators([
+			{ id: 'a', scores: profile(90, 90) },
+			{ id: 'b', scores: profile(80, 95) },
+			{ id: 'c', scores: profile(80, 80) }
+		]);
+		expect(dominators.get('a')).toEqual([]);
+		expect(dominators.get('b')).toEqual([]);
+		expect(dominators.get('c')).toEqual(['a', 'b']);
+	});
+
+	it('should find the largest gained and conceded gaps', () => {
+		expect(findTradeOff(profile(95, 70, 85), profile(90, 80))).toEqual({
+			gains: { dimension: 'perf', points: 5 },
+			concedes: { dimension: 'dx', points: 10 }
+		});
+		expect(findTradeOff(profile(90, 80), profile(90, 80))).toEqual({ gains: null, concedes: null });
+	});
+
+	it('should cluster similar profiles and describe them', () => {
+		const clusters = clusterByProfile([
+			{ id: 'fast-1', scores: profile(95, 60) },
+			{ id: 'friendly-1', scores: profile(60, 95) },
+			{ id: 'fast-2', scores: profile(92, 62) },
+			{ id: 'friendly-2', scores: profile(62, 92) },
+			{ id: 'cheap', scores: profile(78, 78, 100) }
+		]);
+
+		expect(clusters.map((c) => c.members)).toEqual([['fast-1', 'fast-2'], ['friendly-1', 'friendly-2'], ['cheap']]);
+		expect(clusters[0].strengths).toEqual(['perf']);
+		expect(describeCluster(clusters[0])).toBe('strong Performance; weak Developer Experience');
+		expect(describeCluster(clusters[2])).toBe('strong Cost Efficiency');
+	});
+});
+
+describe('rank_category', () => {
+	it('should rank every technology of the category', () => {
+		const { data, text } = executeRankCategory({ category: 'database', context: 'default' });
+
+		expect(data!.technologies).toHaveLength(14);
+		expect(data!.technologies.map((t) => t.rank)).toEqual(Array.from({ length: 14 }, (_, i) => i + 1));
+		for (let i = 1; i < data!.technologies.length; i++) {
+			expect(data!.technologies[i - 1].score).toBeGreaterThanOrEqual(data!.technologies[i].score);
+		}
+		expect(text).toContain('## Category Ranking: database (context: default)');
+		expect(text).toContain('### Pareto-Optimal');
+	});
+
+	it('should mark dominated technologies with their dominators', () => {
+		const { data, text } = executeRankCategory({ category: 'database', context: 'default' });
+		const mysql = data!.technologies.find((t) => t.id === 'mysql')!;
+		const postgres = data!.technologies.find((t) => t.id === 'postgres')!;
+
+		expect(mysql.pareto).toBe(false);
+		expect(mysql.dominatedBy).toEqual(['postgres']);
+		expect(postgres.pareto).toBe(true);
+		expect(text).toMatch(/\| MySQL \|.*\| no \(postgres\) \|/);
+	});
+
+	it('should assign every technology to exactly one cluster', () => {
+		const { data } = executeRankCategory({ category: 'meta-framework', context: 'mvp' });
+		const members = data!.clusters.flatMap((c) => c.members);
+
+		expect(members.sort()).toEqual(data!.technologies.map((t) => t.id).sort());
+		for (const tech of data!.technologies) {
+			expect(data!.clusters[tech.cluster].members).toContain(tech.id);
+		}
+	});
+
+	it('should rank by weights and ignore zero-weighted dimensions for dominance', () => {
+		const { data, text } = executeRankCategory({
+			category: 'database',
+			context: 'default',
+			weights: { compliance: 3, dx: 0 }
+		});
+
+		expect(data!.weights).toEqual({ compliance: 3, dx: 0 });
+		expect(data!.paretoDimensions).not.toContain('dx');
+		expect(data!.technologies.filter((t) => t.pareto).length).toBeLessThan(12);
+		expect(text).toContain('_Weights: dx×0, compliance×3_');
+		expect(text).toContain('_Dimensions considered: Performance, Ecosystem');
+	});
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { executeRecommendStackDemo } from '../src/tools/recommend-demo.js';
+
+// The demo is limited to one call per day per device; keep tests off the real device file
+vi.mock('../src/utils/device-id.js', () => ({
+	wasDemoUsedToday: () => false,
+	recordDemoUsage: () => {},
+	getDeviceId: () => 'test-device'
+}));
+
+describe('recommend_stack_demo', () => {
+	it('should not explain picks by default', () => {
+		const result = executeRecommendStackDemo({ projectType: 'web-app', scale: 'mvp', explain: false, alternatives: 2 });
+
+		expect(result.isError).toBeUndefined();
+		expect(result.text).toContain('## Recommended Stack for Web App (mvp)');
+		expect(result.text).not.toContain('### Why These Picks');
+	});
+
+	it('should report the stack total and runner-up stacks', () => {
+		const result = executeRecommendStackDemo({ projectType: 'web-app', scale: 'mvp', alternatives: 2, explain: false });
+
+		expect(result.text).toMatch(/\*\*Stack total\*\*: \d+ \(category scores \d+ [+-] compatibility \d+\)/);
+		expect(result.text).toContain('### Alternative Stacks');
+		expect(result.text.match(/^\| [23] \| \d+ \(/gm)).toHaveLength(2);
+	});
+
+	it('should omit runner-up stacks when alternatives is 0', () => {
+		const result = executeRecommendStackDemo({ projectType: 'web-app', scale: 'mvp', alternatives: 0, explain: false });
+
+		expect(result.text).not.toContain('### Alternative Stacks');
+	});
+
+	describe('explain mode', () => {
+		it('should list the top 3 candidates per category with weighted scores', () => {
+			const result = executeRecommendStackDemo({ projectType: 'saas', scale: 'mvp', explain: true, alternatives: 2 });
+
+			expect(result.text).toContain('### Why These Picks');
+			expect(result.text).toContain('**meta-framework** (×1.2 category weight)');
+			expect(result.text).toContain('| Rank | Technology | Weighted Score | Status |');
+
+			const payments = result.text.split('**payments**')[1].split('\n\n')[0];
+			const rows = payments.split('\n').filter((line) => /^\| \d /.test(line));
+			expect(rows).toHaveLength(3);
+			expect(rows[0]).toContain('| 1 | Stripe | 108 | Selected |');
+			expect(rows[1]).toMatch(/\| 2 \| .+ \| \d+ \| Stack total -\d+ \|/);
+		});
+
+		it('should name the pick that excluded an incompatible candidate', () => {
+			// Weighting performance makes Laravel the meta-framework pick, which rules out JS-only tooling
+			const result = executeRecommendStackDemo({
+				projectType: 'web-app',
+				scale: 'mvp',
+				weights: { perf: 3 },
+				explain: true,
+				alternatives: 2
+			});
+
+			expect(result.text).toContain('| meta-framework | Laravel |');
+			expect(result.text).toContain(
+				'| 1 | Drizzle ORM | 86 | Excluded: incompatible with the meta-framework pick Laravel |'
+			);
+			expect(result.text).toContain('Prisma (incompatible with the meta-framework pick Laravel)');
+			expect(result.text).toContain(
+				'| 1 | Cloudflare | 84 | Excluded: incompatible with the meta-framework pick Laravel |'
+			);
+		});
+	});
+
+	describe('constraints', () => {
+		it('should pin mustUse and skip mustAvoid technologies', () => {
+			const result = executeRecommendStackDemo({
+				projectType: 'web-app',
+				scale: 'mvp',
+				explain: true,
+				alternatives: 2,
+				mustUse: ['postgres'],
+				mustAvoid: ['supabase']
+			});
+
+			expect(result.isError).toBeUndefined();
+			expect(result.text).toContain('| database | PostgreSQL (pinned) |');
+			expect(result.text).toContain('**Constraints**: mustUse postgres; mustAvoid supabase');
+			expect(result.text).toContain('| Supabase | 89 | Excluded: mustAvoid |');
+			expect(result.text).toContain('| PostgreSQL | 86 | Pinned (mustUse) |');
+			expect(result.text).not.toContain('| database | Supabase');
+		});
+
+		it('should report conflicting constraints', () => {
+			const result = executeRecommendStackDemo({
+				projectType: 'web-app',
+				explain: false,
+				alternatives: 2,
+				mustUse: ['react', 'nuxt']
+			});
+
+			expect(result.isError).toBe(true);
+			expect(result.text).toContain('Conflicting constraints: react and nuxt are incompatible (compatibility 0)');
+		});
+	});
+
+	describe('sensitivity mode', () => {
+		it('should report margins over the runner-ups', () => {
+			const result = executeRecommendStackDemo({
+				projectType: 'api',
+				scale: 'mvp',
+				explain: false,
+				alternatives: 0,
+				mustUse: ['postgres'],
+				sensitivity: true
+			});
+			const picks = result.data!.stack.map((rec) => rec.id);
+
+			expect(result.data!.sensitivity!.map((s) => s.pick)).toEqual(picks);
+			expect(result.data!.sensitivity!.find((s) => s.pick === 'postgres')!.verdict).toBe('pinned');
+			for (const entry of result.data!.sensitivity!.filter((s) => s.margin !== null)) {
+				expect(picks).not.toContain(entry.runnerUp);
+				expect(['compatibility', 'coin-flip', 'close', 'robust']).toContain(entry.verdict);
+			}
+			expect(result.text).toContain('| Category | Pick | Runner-up | Margin | Smallest Flip | Verdict |');
+		});
+
+		it('should be off by default', () => {
+			const result = executeRecommendStackDemo({ projectType: 'api', scale: 'mvp', explain: false, alternatives: 0 });
+
+			expect(result.data!.sensitivity).toBeUndefined();
+			expect(result.text).not.toContain('### Sensitivity');
+		});
+	});
+});
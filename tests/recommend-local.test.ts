@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { SCORE_DIMENSIONS, getScores, getTechnologiesByCategory } from '../src/data/index.js';
+import { checkLocalConstraints, resolveLocalProfile, resolvePriorityWeights } from '../src/lib/local-engine.js';
+import { analyzeSensitivity } from '../src/lib/sensitivity.js';
+import { executeRecommendStackLocal } from '../src/tools/recommend-local.js';
+
+describe('local engine', () => {
+	it('should map ranked priorities onto dimension weights', () => {
+		expect(resolvePriorityWeights([])).toEqual({ perf: 1, dx: 1, ecosystem: 1, maintain: 1, cost: 1, compliance: 1 });
+		expect(resolvePriorityWeights(['security', 'cost-efficiency', 'performance'])).toEqual({
+			perf: 2,
+			dx: 1,
+			ecosystem: 1,
+			maintain: 2,
+			cost: 2.5,
+			compliance: 3
+		});
+	});
+
+	it('should turn constraint IDs into pins, exclusions and categories', () => {
+		const profile = resolveLocalProfile(['performance'], ['must-use-postgresql', 'edge-deployment', 'ai-features']);
+
+		expect(profile.pinned).toEqual(['postgres']);
+		expect(profile.excluded).toContain('railway');
+		expect(profile.excluded).not.toContain('cloudflare');
+		expect(profile.categories).toEqual(['ai']);
+		expect(profile.weights.perf).toBe(4);
+	});
+
+	it('should reject unknown and conflicting constraints', () => {
+		expect(checkLocalConstraints(['self-hosted', 'needs-realtime'])).toBeNull();
+		expect(checkLocalConstraints(['self-hostd'])?.suggestions).toContain('Did you mean: self-hosted?');
+		expect(checkLocalConstraints(['self-hosted', 'must-use-vercel'])?.message).toBe(
+			'Conflicting constraints: must-use-vercel conflicts with self-hosted (vercel is excluded)'
+		);
+		expect(checkLocalConstraints(['must-use-react', 'must-use-vue'])?.message).toContain(
+			'react and vue are both pinned for frontend'
+		);
+	});
+});
+
+describe('recommend_stack_local', () => {
+	it('should be deterministic', () => {
+		const input = { projectType: 'saas' as const, scale: 'startup' as const, priorities: ['security' as const], constraints: [] };
+
+		expect(executeRecommendStackLocal(input).text).toBe(executeRecommendStackLocal(input).text);
+	});
+
+	it('should apply priorities and constraints', () => {
+		const result = executeRecommendStackLocal({
+			projectType: 'saas',
+			scale: 'startup',
+			priorities: ['security', 'cost-efficiency'],
+			constraints: ['self-hosted', 'must-use-postgresql']
+		});
+
+		expect(result.isError).toBeUndefined();
+		expect(result.text).toContain('**Priorities**: security > cost-efficiency | **Weights**: maintain×2, cost×2.5, compliance×3');
+		expect(result.text).toContain('| database | PostgreSQL (pinned) |');
+		expect(result.text).toMatch(/\| hosting \| (Coolify|Laravel Forge|Ploi\.io) \|/);
+		expect(result.text).toContain('- self-hosted: Run on your own servers');
+
+		const json = JSON.parse(result.text.split('<json>')[1].split('</json>')[0]);
+		expect(json.appliedWeights.compliance).toBe(3);
+		expect(json.stacks.map((s: { id: string }) => s.id)).not.toContain('clerk');
+	});
+
+	it('should report invalid constraints as errors', () => {
+		const result = executeRecommendStackLocal({
+			projectType: 'web-app',
+			scale: 'mvp',
+			priorities: [],
+			constraints: ['must-use-angular']
+		});
+
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain('Unknown constraint: "must-use-angular"');
+	});
+
+	it('should report margins and weight flips in sensitivity mode', () => {
+		const input = {
+			projectType: 'saas' as const,
+			scale: 'startup' as const,
+			priorities: ['security' as const, 'cost-efficiency' as const],
+			constraints: ['self-hosted', 'must-use-postgresql'],
+			sensitivity: true
+		};
+		const { data, text } = executeRecommendStackLocal(input);
+		const weights = data!.appliedWeights as Record<string, number>;
+
+		expect(data!.sensitivity!.map((s) => s.category)).toEqual(data!.stack.map((s) => s.category));
+		expect(data!.sensitivity!.find((s) => s.category === 'database')).toMatchObject({
+			pick: 'postgres',
+			verdict: 'pinned',
+			flip: null
+		});
+		expect(text).toContain('### Sensitivity');
+		expect(text).toContain('| database | PostgreSQL | - | - | - | pinned |');
+
+		// Applying a reported flip hands the lead to the new leader
+		const weightedSum = (id: string, w: Record<string, number>) => {
+			const scores = getScores(id, data!.context)!;
+			return SCORE_DIMENSIONS.reduce((sum, dim) => sum + w[dim] * scores[dim], 0);
+		};
+		const flips = data!.sensitivity!.filter((s) => s.flip);
+		expect(flips.length).toBeGreaterThan(0);
+		for (const { pick, flip } of flips) {
+			expect(weightedSum(pick, weights)).toBeGreaterThanOrEqual(weightedSum(flip!.newLeader, weights));
+			const flipped = { ...weights, [flip!.dimension]: flip!.to };
+			expect(weightedSum(flip!.newLeader, flipped)).toBeGreaterThan(weightedSum(pick, flipped));
+		}
+
+		expect(executeRecommendStackLocal({ ...input, sensitivity: false }).data!.sensitivity).toBeUndefined();
+	});
+});
+
+describe('sensitivity analysis', () => {
+	const databasesExcept = (...ids: string[]) =>
+		getTechnologiesByCategory('database')
+			.map((tech) => tech.id)
+			.filter((id) => !ids.includes(id));
+
+	it('should report no flip when the runner-up is dominated', () => {
+		const [entry] = analyzeSensitivity([{ category: 'database', techId: 'postgres' }], {
+			context: 'default',
+			excluded: databasesExcept('postgres', 'mysql')
+		});
+
+		expect(entry.runnerUp).toBe('mysql');
+		expect(entry.margin).toBeGreaterThan(0);
+		expect(entry.flip).toBeNull();
+	});
+
+	it('should mark picks without rivals as uncontested', () => {
+		const [entry] = analyzeSensitivity([{ category: 'database', techId: 'postgres' }], {
+			context: 'default',
+			excluded: databasesExcept('postgres')
+		});
+
+		expect(entry).toMatchObject({ runnerUp: null, margin: null, verdict: 'uncontested', flip: null });
+	});
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	canonicalizeMcpId,
+	findRule,
+	formatReportAsMarkdown,
+	generateReport,
+	getAllGroupRules,
+	getAllRules,
+	getIndexedRules,
+	initRulesIndex,
+	parseRulePack,
+	type RulePack
+} from '../src/lib/compatibility/index.js';
+import { getRulePacks, loadRulePacks, resetRulePacks } from '../src/lib/rule-packs.js';
+
+const ACME_PACK = `
+name: acme-internal
+aliases:
+  acme-deploy: acme-deploy-mcp
+rules:
+  - id: acme-001
+    mcpA: acme-deploy
+    mcpB: vercel
+    status: conflict
+    category: deployment
+    severity: critical
+    reason: Acme Deploy and Vercel both own production deployments.
+    solution: Deploy through Acme Deploy only.
+`;
+
+function writePacks(files: Record<string, string>): string {
+	const dir = mkdtempSync(join(tmpdir(), 'sf-rules-'));
+	for (const [name, content] of Object.entries(files)) {
+		writeFileSync(join(dir, name), content);
+	}
+	return dir;
+}
+
+function pack(overrides: Partial<RulePack>): RulePack {
+	return { name: 'pack', priority: 0, aliases: {}, rules: [], groupRules: [], ...overrides };
+}
+
+const orm001 = getAllRules().find((r) => r.id === 'orm-001')!;
+
+describe('Rule packs', () => {
+	afterEach(() => {
+		resetRulePacks();
+		initRulesIndex(getAllRules(), getAllGroupRules());
+	});
+
+	it('should load YAML and JSON packs and show their origin', () => {
+		const dir = writePacks({
+			'acme.yaml': ACME_PACK,
+			'team.json': JSON.stringify({ aliases: { 'team-cms': 'team-cms-mcp' } }),
+			'README.md': 'not a pack'
+		});
+
+		const packs = loadRulePacks(dir);
+		expect(packs.map((p) => p.name)).toEqual(['acme-internal', 'team']);
+		expect(getRulePacks()).toBe(packs);
+
+		initRulesIndex(getAllRules(), getAllGroupRules(), packs);
+		expect(canonicalizeMcpId('team-cms')).toBe('team-cms-mcp');
+		expect(findRule('acme-deploy-mcp', 'vercel-mcp')).toMatchObject({
+			id: 'acme-001',
+			mcpA: 'acme-deploy-mcp',
+			mcpB: 'vercel-mcp',
+			pack: 'acme-internal'
+		});
+
+		const report = generateReport(['acme-deploy', 'vercel'], getIndexedRules());
+		expect(report.conflicts.map((c) => c.rule.id)).toEqual(['acme-001']);
+		expect(formatReportAsMarkdown(report)).toContain('- Pack: acme-internal');
+	});
+
+	it('should reject packs that do not match CompatibilityRule', () => {
+		const { issues } = parseRulePack({ rules: [{ id: 'x', mcpA: 'a', mcpB: 'a', status: 'friends' }] }, 'bad');
+
+		expect(issues.join('\n')).toContain('rules.0.status');
+		expect(issues.join('\n')).toContain('rules.0.category');
+		expect(() => loadRulePacks(writePacks({ 'bad.yml': 'rules: [{ id: x }]' }))).toThrow(/Invalid rule pack/);
+	});
+
+	it('should let packs override built-in rules, higher priority first', () => {
+		const low = pack({ name: 'low', priority: 1, rules: [{ ...orm001, id: 'low-001', severity: 'info' }] });
+		const high = pack({ name: 'high', priority: 2, rules: [{ ...orm001, id: 'high-001', status: 'compatible' }] });
+
+		const { overrides, conflicts } = initRulesIndex(getAllRules(), getAllGroupRules(), [high, low]);
+
+		expect(conflicts).toEqual([]);
+		expect(findRule('drizzle-mcp', 'prisma-mcp')).toMatchObject({ id: 'high-001', pack: 'high' });
+		expect(overrides).toEqual([
+			{ target: 'pair drizzle-mcp::prisma-mcp', winner: 'low', overridden: 'built-in' },
+			{ target: 'pair drizzle-mcp::prisma-mcp', winner: 'high', overridden: 'low' }
+		]);
+	});
+
+	it('should report conflicting packs of the same priority', () => {
+		const a = pack({ name: 'a', rules: [{ ...orm001, id: 'a-001', severity: 'info' }] });
+		const b = pack({ name: 'b', rules: [{ ...orm001, id: 'b-001', severity: 'critical' }] });
+		const reused = pack({ name: 'c', rules: [{ ...orm001, id: 'db-001', mcpA: 'x-mcp', mcpB: 'y-mcp' }] });
+
+		const { conflicts } = initRulesIndex(getAllRules(), getAllGroupRules(), [a, b, reused]);
+
+		expect(conflicts.map((c) => [c.target, c.packs])).toEqual([
+			['pair drizzle-mcp::prisma-mcp', ['a', 'b']],
+			['rule db-001', ['built-in', 'c']]
+		]);
+		expect(() =>
+			loadRulePacks(
+				writePacks({
+					'a.json': JSON.stringify({ rules: [{ ...orm001, id: 'a-001', severity: 'info' }] }),
+					'b.json': JSON.stringify({ rules: [{ ...orm001, id: 'b-001', severity: 'critical' }] })
+				})
+			)
+		).toThrow(/Conflicting rule packs .*pair drizzle-mcp::prisma-mcp \(a, b\)/);
+	});
+});
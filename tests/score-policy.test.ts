@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	DEFAULT_SCORE_POLICY,
+	ScorePolicyInputSchema,
+	formatReportAsMarkdown,
+	generateReport,
+	getAllGroupRules,
+	getAllRules,
+	initRulesIndex,
+	resolveScorePolicy,
+	type ScorePolicyInput
+} from '../src/lib/compatibility/index.js';
+import { loadScorePolicy, resetScorePolicy, resolveEffectiveScorePolicy } from '../src/lib/score-policy.js';
+import { executeCheckCompatibility } from '../src/tools/check-compatibility.js';
+
+beforeAll(() => {
+	initRulesIndex(getAllRules(), getAllGroupRules());
+});
+
+function policyOf(...layers: ScorePolicyInput[]) {
+	const { policy, issues } = resolveScorePolicy(layers.map((policy) => ({ source: 'call' as const, policy })));
+	expect(issues).toEqual([]);
+	return policy!;
+}
+
+function writePolicy(name: string, content: string): string {
+	const path = join(mkdtempSync(join(tmpdir(), 'sf-policy-')), name);
+	writeFileSync(path, content);
+	return path;
+}
+
+describe('Score policy', () => {
+	afterEach(() => {
+		resetScorePolicy();
+	});
+
+	it('should echo the default policy', () => {
+		const report = generateReport(['supabase-mcp', 'neon-mcp'], getAllRules());
+
+		expect(report.summary.score).toBe(60);
+		expect(report.policy).toMatchObject({ ...DEFAULT_SCORE_POLICY, sources: ['default'] });
+		expect(formatReportAsMarkdown(report)).not.toContain('Score Policy');
+	});
+
+	it('should apply custom penalties and grade bands', () => {
+		const policy = policyOf({ penalties: { group_critical: -15 }, grades: { B: 80 } });
+		const report = generateReport(['supabase-mcp', 'neon-mcp'], getAllRules(), { policy });
+
+		expect(report.summary).toMatchObject({ score: 85, grade: 'B' });
+		expect(report.policy.grades).toEqual({ A: 90, B: 80, C: 55 });
+		expect(formatReportAsMarkdown(report)).toContain('- Penalties: group_critical -15');
+	});
+
+	it('should override severities by rule ID', () => {
+		const policy = policyOf({ severityOverrides: { 'grp-db-001': 'info' } });
+		const report = generateReport(['supabase-mcp', 'neon-mcp'], getAllRules(), { policy });
+
+		expect(report.groups[0].rule.severity).toBe('info');
+		expect(report.summary).toMatchObject({ score: 95, grade: 'A' });
+	});
+
+	it('should leave ignored rules out of findings, reporting the pairs they covered', () => {
+		const justification = 'Neon is only used by the analytics replica';
+		const policy = policyOf({ ignore: [{ ruleId: 'grp-db-001', justification }] });
+		const report = generateReport(['supabase-mcp', 'neon-mcp'], getAllRules(), { policy });
+
+		expect(report.groups).toEqual([]);
+		expect(report.conflicts.map((c) => c.rule.id)).toEqual(['db-001']);
+		expect(report.ignored).toEqual([{ ruleId: 'grp-db-001', justification, mcps: ['supabase-mcp', 'neon-mcp'] }]);
+		expect(formatReportAsMarkdown(report)).toContain(`- \`grp-db-001\` (supabase-mcp, neon-mcp): ${justification}`);
+	});
+
+	it('should require a justification and descending grades', () => {
+		expect(ScorePolicyInputSchema.safeParse({ ignore: [{ ruleId: 'db-001', justification: ' ' }] }).success).toBe(
+			false
+		);
+		expect(ScorePolicyInputSchema.safeParse({ ignore: [{ ruleId: 'db-001' }] }).success).toBe(false);
+		expect(ScorePolicyInputSchema.safeParse({ penalties: { conflict_critical: 10 } }).success).toBe(false);
+		expect(resolveScorePolicy([{ source: 'call', policy: { grades: { B: 95 } } }]).issues).toEqual([
+			'grades: bands must descend (A > B > C), got A 90, B 95, C 55'
+		]);
+	});
+
+	it('should layer the call policy over the organisation policy', () => {
+		loadScorePolicy(
+			writePolicy(
+				'policy.yaml',
+				`
+penalties:
+  group_critical: -30
+severityOverrides:
+  orm-001: info
+ignore:
+  - ruleId: grp-orm-001
+    justification: Drizzle is being phased out
+`
+			)
+		);
+
+		const { policy } = resolveEffectiveScorePolicy({ penalties: { group_critical: -25 } });
+
+		expect(policy).toMatchObject({
+			penalties: { group_critical: -25 },
+			severityOverrides: { 'orm-001': 'info' },
+			ignore: [{ ruleId: 'grp-orm-001', justification: 'Drizzle is being phased out' }],
+			sources: ['default', 'org', 'call']
+		});
+		expect(resolveEffectiveScorePolicy({ ignore: [{ ruleId: 'nope-001', justification: 'x' }] }).issues).toEqual([
+			'ignore: unknown rule ID "nope-001"'
+		]);
+		expect(() => loadScorePolicy(writePolicy('bad.json', '{"grades": {"A": "high"}}'))).toThrow(
+			/Invalid score policy/
+		);
+	});
+
+	it('should take a policy per call in check_mcp_compatibility', () => {
+		const result = executeCheckCompatibility({
+			mcps: ['prisma-mcp', 'drizzle-mcp'],
+			policy: { ignore: [{ ruleId: 'grp-orm-001', justification: 'Migrating to Drizzle' }] }
+		});
+
+		expect(result.isError).toBe(false);
+		expect(result.data.groups).toEqual([]);
+		expect(result.data.redundancies.map((r) => r.rule.id)).toEqual(['orm-001']);
+		expect(result.data.policy.sources).toEqual(['default', 'call']);
+		expect(result.text).toContain('### ⚖️ Score Policy');
+
+		const invalid = executeCheckCompatibility({
+			mcps: ['prisma-mcp'],
+			policy: { severityOverrides: { 'nope-001': 'info' } }
+		});
+		expect(invalid.isError).toBe(true);
+		expect(invalid.text).toContain('unknown rule ID "nope-001"');
+	});
+});
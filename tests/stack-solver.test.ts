@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { getCompatibility, type Category } from '../src/data/index.js';
+import {
+	COMPATIBILITY_WEIGHT,
+	checkStackConstraints,
+	findConstraintConflicts,
+	getStackCandidates,
+	scoreStack,
+	solveStack
+} from '../src/lib/stack-solver.js';
+
+const SAAS: Category[] = ['meta-framework', 'database', 'orm', 'auth', 'hosting', 'payments'];
+const SAAS_WEIGHTS = { 'meta-framework': 1.2, database: 1.1, auth: 1.2, payments: 1.3 };
+
+describe('stack solver', () => {
+	it('should not depend on category order', () => {
+		const forward = solveStack({ categories: SAAS, context: 'mvp', categoryWeights: SAAS_WEIGHTS });
+		const reversed = solveStack({ categories: [...SAAS].reverse(), context: 'mvp', categoryWeights: SAAS_WEIGHTS });
+
+		const ids = (stack: (typeof forward)[0]) => stack.picks.map((p) => p.techId).sort();
+		expect(ids(reversed[0])).toEqual(ids(forward[0]));
+		expect(reversed[0].total).toBe(forward[0].total);
+	});
+
+	it('should return the requested number of distinct stacks, best total first', () => {
+		const stacks = solveStack({ categories: SAAS, context: 'mvp', categoryWeights: SAAS_WEIGHTS, limit: 4 });
+
+		expect(stacks).toHaveLength(4);
+		for (let i = 1; i < stacks.length; i++) {
+			expect(stacks[i].total).toBeLessThanOrEqual(stacks[i - 1].total);
+		}
+		const keys = stacks.map((s) => s.picks.map((p) => p.techId).join(','));
+		expect(new Set(keys).size).toBe(4);
+	});
+
+	it('should never pick hard-incompatible pairs', () => {
+		const [best] = solveStack({ categories: SAAS, context: 'enterprise', dimensionWeights: { perf: 3 } });
+
+		for (const a of best.picks) {
+			for (const b of best.picks) {
+				expect(getCompatibility(a.techId, b.techId), `${a.techId} ↔ ${b.techId}`).toBeGreaterThan(0);
+			}
+		}
+	});
+
+	it('should beat or match every single-category swap of its best stack', () => {
+		const options = { categories: SAAS, context: 'mvp' as const, categoryWeights: SAAS_WEIGHTS };
+		const [best] = solveStack(options);
+
+		for (const pick of best.picks) {
+			const others = best.picks.filter((p) => p !== pick);
+			for (const candidate of getStackCandidates(pick.category, options)) {
+				const swapped = scoreStack([...others, candidate]);
+				if (swapped) expect(swapped.total).toBeLessThanOrEqual(best.total);
+			}
+		}
+	});
+
+	it('should add compatibility bonuses on top of candidate scores', () => {
+		const picks = [
+			{ category: 'meta-framework' as const, techId: 'nextjs', name: 'Next.js', score: 80 },
+			{ category: 'orm' as const, techId: 'prisma', name: 'Prisma', score: 70 }
+		];
+
+		expect(scoreStack(picks)).toEqual({
+			techTotal: 150,
+			compatibilityBonus: Math.round((getCompatibility('nextjs', 'prisma') - 50) * COMPATIBILITY_WEIGHT),
+			total: 150 + Math.round((getCompatibility('nextjs', 'prisma') - 50) * COMPATIBILITY_WEIGHT)
+		});
+		expect(scoreStack([...picks, { category: 'database', techId: 'firebase', name: 'Firebase', score: 90 }])).toBeNull();
+	});
+
+	describe('constraints', () => {
+		it('should lock pinned technologies and add their categories', () => {
+			const [best] = solveStack({ categories: SAAS, context: 'mvp', pinned: ['mysql', 'resend'] });
+			const ids = best.picks.map((p) => p.techId);
+
+			expect(ids).toContain('mysql');
+			expect(ids).toContain('resend');
+			for (const pick of best.picks) {
+				expect(getCompatibility(pick.techId, 'mysql'), pick.techId).toBeGreaterThan(0);
+			}
+		});
+
+		it('should never propose excluded technologies', () => {
+			const excluded = solveStack({ categories: SAAS, context: 'mvp', categoryWeights: SAAS_WEIGHTS, limit: 3 })[0]
+				.picks.map((p) => p.techId);
+			const stacks = solveStack({ categories: SAAS, context: 'mvp', categoryWeights: SAAS_WEIGHTS, limit: 3, excluded });
+
+			for (const stack of stacks) {
+				for (const pick of stack.picks) expect(excluded).not.toContain(pick.techId);
+			}
+		});
+
+		it('should report conflicting constraints', () => {
+			expect(findConstraintConflicts(['postgres'], ['postgres'])).toEqual(['postgres is in both mustUse and mustAvoid']);
+			expect(findConstraintConflicts(['postgres', 'mysql'])).toEqual(['postgres and mysql are both pinned for database']);
+			expect(findConstraintConflicts(['nextjs', 'firebase'], [])).toEqual([]);
+			expect(findConstraintConflicts(['react', 'nuxt'])).toEqual(['react and nuxt are incompatible (compatibility 0)']);
+			expect(checkStackConstraints(['nextjs'], ['firebase'])).toBeNull();
+			expect(checkStackConstraints(['nope'])?.message).toContain('nope');
+		});
+	});
+});
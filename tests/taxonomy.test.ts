@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { getTechnologiesByCategory } from '../src/data/index.js';
+import {
+	PRIORITIES,
+	PRIORITY_INFO,
+	PROJECT_TYPES,
+	PROJECT_TYPE_CATEGORIES,
+	PROJECT_TYPE_INFO,
+	PROJECT_TYPE_WEIGHTS,
+	SCALES,
+	scaleToContext
+} from '../src/data/taxonomy.js';
+import * as projectKitTypes from '../src/tools/project-kit/types.js';
+import { generateMCPKit } from '../src/tools/project-kit/generate.js';
+import { RecommendStackInputSchema } from '../src/tools/recommend.js';
+import { RecommendStackDemoInputSchema } from '../src/tools/recommend-demo.js';
+import { RecommendStackLocalInputSchema } from '../src/tools/recommend-local.js';
+import { CreateBlueprintInputSchema } from '../src/tools/blueprint.js';
+import { executeGetTaxonomy } from '../src/tools/taxonomy.js';
+
+describe('taxonomy', () => {
+	it('should describe every project type with scored categories', () => {
+		for (const type of PROJECT_TYPES) {
+			expect(PROJECT_TYPE_INFO[type].label).toBeTruthy();
+			expect(PROJECT_TYPE_WEIGHTS[type]).toBeDefined();
+			expect(PROJECT_TYPE_CATEGORIES[type].some((c) => getTechnologiesByCategory(c).length > 0)).toBe(true);
+		}
+		for (const priority of PRIORITIES) {
+			expect(PRIORITY_INFO[priority].description).toBeTruthy();
+		}
+	});
+
+	it('should map scales to scoring contexts', () => {
+		expect(SCALES.map(scaleToContext)).toEqual(['mvp', 'mvp', 'enterprise', 'enterprise']);
+	});
+
+	it('should be the only source of project types, scales and priorities', () => {
+		expect(projectKitTypes.PROJECT_TYPES).toBe(PROJECT_TYPES);
+		expect(projectKitTypes.SCALES).toBe(SCALES);
+		expect(projectKitTypes.PRIORITIES).toBe(PRIORITIES);
+
+		for (const schema of [
+			RecommendStackInputSchema,
+			RecommendStackDemoInputSchema,
+			RecommendStackLocalInputSchema,
+			CreateBlueprintInputSchema
+		]) {
+			expect(schema.shape.projectType.options).toEqual(PROJECT_TYPES);
+		}
+	});
+
+	it('should let generate_mcp_kit build desktop stacks', () => {
+		const kit = generateMCPKit({
+			projectDescription: 'A desktop application built with Tauri for managing local notes offline, synced between laptops.'
+		});
+
+		expect(kit.stack.frontend).toBeDefined();
+		expect(kit.rationale).toContain('For your Desktop App');
+	});
+});
+
+describe('get_taxonomy', () => {
+	it('should list valid values with labels', () => {
+		const { text, data } = executeGetTaxonomy();
+
+		expect(data.projectTypes.map((t) => t.id)).toEqual([...PROJECT_TYPES]);
+		expect(data.projectTypes.find((t) => t.id === 'saas')).toMatchObject({
+			label: 'SaaS',
+			categoryWeights: { payments: 1.3 }
+		});
+		expect(data.scales.find((s) => s.id === 'growth')?.context).toBe('enterprise');
+		expect(data.priorities.find((p) => p.id === 'security')?.boosts).toEqual({ compliance: 2, maintain: 1 });
+		expect(data.constraints.map((c) => c.id)).toContain('self-hosted');
+
+		expect(text).toContain('| desktop | Desktop App |');
+		expect(text).toContain('payments ×1.3');
+		expect(text).toContain('| security | Security | Compliance and secure defaults | compliance +2, maintain +1 |');
+	});
+});
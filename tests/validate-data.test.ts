@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { validateDataOverlay, validateDataset, type Dataset } from '../src/data/validate.js';
+import { runValidateData } from '../src/validate-data.js';
+
+const SCORES = { perf: 80, dx: 80, ecosystem: 80, maintain: 80, cost: 80, compliance: 80 };
+
+function tech(category = 'database', scores: Record<string, unknown> = { default: SCORES, mvp: SCORES, enterprise: SCORES }) {
+	return { name: 'Tech', category, url: 'https://example.com', scores };
+}
+
+function codes(dataset: Dataset): string[] {
+	return validateDataset(dataset).diagnostics.map((d) => d.code);
+}
+
+describe('validateDataset', () => {
+	it('should accept the bundled data', () => {
+		const report = validateDataset();
+
+		expect(report.diagnostics).toEqual([]);
+		expect(report.valid).toBe(true);
+	});
+
+	it('should report out-of-range scores, missing contexts and bad categories', () => {
+		const report = validateDataset({
+			technologies: {
+				a: tech('database', { default: { ...SCORES, perf: 120 }, mvp: SCORES }),
+				b: tech('spreadsheet')
+			},
+			matrix: {}
+		});
+
+		expect(report.valid).toBe(false);
+		expect(report.diagnostics).toEqual([
+			expect.objectContaining({ code: 'score_out_of_range', path: 'technologies.a.scores.default.perf' }),
+			expect.objectContaining({ code: 'missing_context', path: 'technologies.a.scores.enterprise' }),
+			expect.objectContaining({ code: 'invalid_category', path: 'technologies.b.category' })
+		]);
+	});
+
+	it('should report matrix IDs missing from the scores file', () => {
+		const report = validateDataset({ technologies: { a: tech() }, matrix: { a: { ghost: 80 } } });
+
+		expect(report.diagnostics).toEqual([
+			{
+				severity: 'error',
+				code: 'unknown_technology',
+				path: 'matrix.a.ghost',
+				message: '"ghost" is not in the scores file'
+			}
+		]);
+	});
+
+	it('should allow small directional differences but flag larger ones', () => {
+		const technologies = { a: tech(), b: tech() };
+
+		expect(codes({ technologies, matrix: { a: { b: 95 }, b: { a: 90 } } })).toEqual([]);
+		expect(codes({ technologies, matrix: { a: { b: 95 }, b: { a: 60 } } })).toEqual(['asymmetric_pair']);
+		expect(validateDataset({ technologies, matrix: { a: { b: 95 }, b: { a: 60 } } }).valid).toBe(true);
+	});
+
+	it('should flag pairs that are incompatible in one direction only', () => {
+		const report = validateDataset({
+			technologies: { a: tech(), b: tech() },
+			matrix: { b: { a: 0 }, a: { b: 90 } }
+		});
+
+		expect(report.valid).toBe(false);
+		expect(report.diagnostics).toHaveLength(1);
+		expect(report.diagnostics[0]).toMatchObject({ code: 'contradictory_pair', path: 'matrix.a.b' });
+	});
+});
+
+describe('validateDataOverlay', () => {
+	it('should accept a valid overlay', () => {
+		const report = validateDataOverlay({
+			technologies: { 'acme-db': tech() },
+			scoreOverrides: { postgres: { enterprise: { compliance: 100 } } },
+			compatibility: [{ techA: 'acme-db', techB: 'prisma', score: 85 }]
+		});
+
+		expect(report).toMatchObject({ valid: true, errors: 0, warnings: 0 });
+	});
+
+	it('should report schema and reference issues with their paths', () => {
+		const schema = validateDataOverlay({ technologies: { 'acme-db': tech('spreadsheet') } });
+		const references = validateDataOverlay({ scoreOverrides: { 'acme-db': { default: { perf: 10 } } } });
+
+		expect(schema.diagnostics[0]).toMatchObject({ code: 'invalid_overlay', path: 'technologies.acme-db.category' });
+		expect(references.diagnostics).toEqual([
+			{
+				severity: 'error',
+				code: 'invalid_overlay',
+				path: 'scoreOverrides.acme-db',
+				message: 'unknown bundled technology'
+			}
+		]);
+	});
+
+	it('should report pairs listed twice with different scores', () => {
+		const report = validateDataOverlay({
+			compatibility: [
+				{ techA: 'postgres', techB: 'prisma', score: 90 },
+				{ techA: 'prisma', techB: 'postgres', score: 0 }
+			]
+		});
+
+		expect(report.valid).toBe(false);
+		expect(report.diagnostics[0]).toMatchObject({ code: 'contradictory_pair', path: 'compatibility.1' });
+	});
+});
+
+describe('validate-data CLI', () => {
+	function writeOverlay(content: string): string {
+		const dir = mkdtempSync(join(tmpdir(), 'sf-validate-'));
+		const file = join(dir, 'overlay.json');
+		writeFileSync(file, content);
+		return file;
+	}
+
+	it('should exit 0 and print a summary for a valid overlay', () => {
+		const lines: string[] = [];
+		const file = writeOverlay(JSON.stringify({ contexts: { fintech: { deltas: { compliance: 10 } } } }));
+
+		expect(runValidateData([file], (line) => lines.push(line))).toBe(0);
+		expect(lines).toEqual([`${file}: OK (0 warnings)`]);
+	});
+
+	it('should exit 1 and print each diagnostic for an invalid overlay', () => {
+		const lines: string[] = [];
+		const file = writeOverlay(JSON.stringify({ scoreOverrides: { nope: {} } }));
+
+		expect(runValidateData([file], (line) => lines.push(line))).toBe(1);
+		expect(lines).toEqual([
+			'[ERROR] scoreOverrides.nope: unknown bundled technology (invalid_overlay)',
+			`${file}: 1 error, 0 warnings`
+		]);
+	});
+
+	it('should exit 1 when the file is not valid JSON', () => {
+		const lines: string[] = [];
+		const file = writeOverlay('{ not json');
+
+		expect(runValidateData([file], (line) => lines.push(line))).toBe(1);
+		expect(lines[0]).toContain(`Cannot read data overlay at ${file}`);
+	});
+
+	it('should validate the bundled data when no path is given', () => {
+		const lines: string[] = [];
+
+		expect(runValidateData([], (line) => lines.push(line))).toBe(0);
+		expect(lines).toEqual(['bundled data: OK (0 warnings)']);
+	});
+});